@@ -0,0 +1,2 @@
+export * from "@react-native-async-storage/async-storage/jest/async-storage-mock";
+export { default } from "@react-native-async-storage/async-storage/jest/async-storage-mock";
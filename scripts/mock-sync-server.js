@@ -0,0 +1,178 @@
+#!/usr/bin/env node
+// In-memory backend for trying bookmark sync locally. Accepts any email
+// and password, and keeps a change log per user until it is stopped.
+//
+//   npm run mock-sync-server
+//   EXPO_PUBLIC_API_URL=http://<your-ip>:3000 npm start
+
+const http = require("http");
+const crypto = require("crypto");
+
+const PORT = parseInt(process.env.PORT || "3000", 10);
+const TOKEN_PREFIX = "mock-token:";
+
+// userId -> { log: [{ seq, change }], latest: Map<itemId, change> }
+const stores = new Map();
+let sequence = 0;
+
+const getStore = (userId) => {
+  if (!stores.has(userId)) {
+    stores.set(userId, { log: [], latest: new Map() });
+  }
+  return stores.get(userId);
+};
+
+const send = (res, status, code, message, data) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({ traceId: crypto.randomUUID(), code, message, data })
+  );
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+const getUserId = (req) => {
+  const header = req.headers.authorization || "";
+  const token = header.replace(/^Bearer\s+/i, "");
+  return token.startsWith(TOKEN_PREFIX)
+    ? token.slice(TOKEN_PREFIX.length)
+    : null;
+};
+
+const createUser = (email, name) => {
+  const now = new Date().toISOString();
+  return {
+    id: email.toLowerCase(),
+    email,
+    name: name || email.split("@")[0],
+    emailVerified: true,
+    image: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+const createToken = (userId) => ({
+  accessToken: `${TOKEN_PREFIX}${userId}`,
+  refreshToken: `${TOKEN_PREFIX}${userId}`,
+});
+
+// Last write wins; a change older than what the server has is dropped
+const applyChanges = (userId, changes) => {
+  const store = getStore(userId);
+  let accepted = 0;
+
+  changes.forEach((change) => {
+    if (!change || !change.entity || !change.key || !change.updated_at) {
+      return;
+    }
+    const itemId = `${change.entity}:${change.key}`;
+    const current = store.latest.get(itemId);
+    if (current && current.updated_at > change.updated_at) return;
+
+    sequence += 1;
+    store.latest.set(itemId, change);
+    store.log.push({ seq: sequence, change });
+    accepted += 1;
+  });
+
+  return { accepted, rejected: changes.length - accepted };
+};
+
+// Changes after the cursor, only the newest one per item
+const getChangesSince = (userId, since) => {
+  const store = getStore(userId);
+  const newest = new Map();
+  store.log
+    .filter((entry) => entry.seq > since)
+    .forEach((entry) => {
+      newest.set(`${entry.change.entity}:${entry.change.key}`, entry.change);
+    });
+
+  const last = store.log[store.log.length - 1];
+  return {
+    changes: Array.from(newest.values()),
+    cursor: String(last ? last.seq : since),
+  };
+};
+
+const handle = async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const route = `${req.method} ${url.pathname}`;
+
+  if (route === "POST /api/v1/auth/login") {
+    const { email } = await readBody(req);
+    if (!email) return send(res, 422, "VALIDATION_ERROR", "Email required");
+    const user = createUser(email);
+    return send(res, 200, "00", "Login success", {
+      user,
+      token: createToken(user.id),
+    });
+  }
+
+  if (route === "POST /api/v1/auth/register") {
+    const { email, name } = await readBody(req);
+    if (!email) return send(res, 422, "VALIDATION_ERROR", "Email required");
+    return send(res, 201, "00", "Register success", {
+      user: createUser(email, name),
+    });
+  }
+
+  if (route === "POST /api/v1/auth/refresh") {
+    const { refreshToken } = await readBody(req);
+    if (!refreshToken || !refreshToken.startsWith(TOKEN_PREFIX)) {
+      return send(res, 401, "UNAUTHORIZED", "Invalid refresh token");
+    }
+    const userId = refreshToken.slice(TOKEN_PREFIX.length);
+    return send(res, 200, "00", "Token refreshed", {
+      token: createToken(userId),
+    });
+  }
+
+  if (url.pathname === "/api/v1/bookmarks/changes") {
+    const userId = getUserId(req);
+    if (!userId) return send(res, 401, "UNAUTHORIZED", "Sign in required");
+
+    if (req.method === "POST") {
+      const { changes } = await readBody(req);
+      if (!Array.isArray(changes)) {
+        return send(res, 422, "VALIDATION_ERROR", "changes must be a list");
+      }
+      const result = applyChanges(userId, changes);
+      console.log(
+        `${userId}: ${result.accepted} accepted, ${result.rejected} rejected`
+      );
+      return send(res, 200, "00", "Changes saved", result);
+    }
+
+    if (req.method === "GET") {
+      const since = parseInt(url.searchParams.get("since") || "0", 10) || 0;
+      return send(res, 200, "00", "Changes", getChangesSince(userId, since));
+    }
+  }
+
+  return send(res, 404, "NOT_FOUND", `No route for ${route}`);
+};
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error(error);
+      send(res, 400, "BAD_REQUEST", error.message);
+    });
+  })
+  .listen(PORT, () => {
+    console.log(`Mock sync server listening on http://localhost:${PORT}`);
+  });
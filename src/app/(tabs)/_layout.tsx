@@ -3,6 +3,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAppContext } from '@/contexts/AppContext';
 import i18nService from '@/services/i18n';
+import { notificationRouterService } from '@/services/notificationRouter';
 import { useEffect, useState } from 'react';
 
 export default function TabLayout() {
@@ -15,6 +16,11 @@ export default function TabLayout() {
     settings: i18nService.t('navigation.settings'),
   });
 
+  useEffect(() => {
+    // A notification tap that launched the app can be opened now
+    notificationRouterService.setNavigationReady();
+  }, []);
+
   useEffect(() => {
     // Subscribe to language changes
     const unsubscribe = i18nService.subscribe(() => {
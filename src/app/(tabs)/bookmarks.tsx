@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   View,
   StyleSheet,
@@ -6,26 +6,82 @@ import {
   TouchableOpacity,
   Alert,
   ActivityIndicator,
+  Platform,
+  Share,
 } from "react-native";
 import { router, useFocusEffect } from "expo-router";
+import { File } from "expo-file-system";
 import { Image } from "expo-image";
 import { Ionicons } from "@expo/vector-icons";
-import { ThemedText, ThemedView } from "@/components";
-import { Post, Bookmark } from "@/types";
-import { bookmarkService } from "@/services";
-import i18nService from "@/services/i18n";
+import { ThemedText, ThemedView, ThemedTextInput } from "@/components";
+import { CollectionPicker } from "@/components/blog";
+import {
+  Post,
+  Bookmark,
+  BookmarkCollection,
+  BookmarkSortKey,
+  BookmarkViewPrefs,
+} from "@/types";
+import { bookmarkService, linkResolverService } from "@/services";
+import { BookmarkImportPreview } from "@/services/bookmarkService";
+import { BookmarkExportFormat, isLinkOnly } from "@/utils/bookmarkFormats";
+import i18nService, { TranslationKey } from "@/services/i18n";
+import { getPostKey } from "@/utils/postIdentity";
+import { formatBytes } from "@/utils/formatUtils";
+import {
+  DEFAULT_BOOKMARK_VIEW,
+  getBookmarkFilterOptions,
+  queryBookmarks,
+} from "@/utils/bookmarkQuery";
+
+const SORT_OPTIONS: { value: BookmarkSortKey; label: TranslationKey }[] = [
+  { value: "bookmarked", label: "bookmarks.sortBookmarked" },
+  { value: "published", label: "bookmarks.sortPublished" },
+  { value: "title", label: "bookmarks.sortTitle" },
+  { value: "author", label: "bookmarks.sortAuthor" },
+];
 import { useAppContext } from "@/contexts/AppContext";
 
 export default function BookmarksPage() {
   const { themeState } = useAppContext();
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [collections, setCollections] = useState<BookmarkCollection[]>([]);
+  // null shows every bookmark
+  const [activeCollection, setActiveCollection] = useState<string | null>(
+    null
+  );
+  // "new" while creating a collection, or the id of the one being renamed
+  const [editingCollection, setEditingCollection] = useState<string | null>(
+    null
+  );
+  const [collectionName, setCollectionName] = useState("");
+  const [pickerBookmark, setPickerBookmark] = useState<Bookmark | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [viewPrefs, setViewPrefs] = useState<BookmarkViewPrefs>(
+    DEFAULT_BOOKMARK_VIEW
+  );
   const [loading, setLoading] = useState(true);
+  const [offlineUsage, setOfflineUsage] = useState(0);
+  const [savingKeys, setSavingKeys] = useState<Set<string>>(new Set());
+  const [downloadProgress, setDownloadProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
 
   const loadBookmarks = async () => {
     try {
       setLoading(true);
-      const bookmarksData = await bookmarkService.getBookmarks();
+      const [bookmarksData, usage, collectionsData] = await Promise.all([
+        bookmarkService.getBookmarks(),
+        bookmarkService.getOfflineUsage(),
+        bookmarkService.getCollections(),
+      ]);
       setBookmarks(bookmarksData);
+      setOfflineUsage(usage);
+      setCollections(collectionsData);
+      setActiveCollection((current) =>
+        collectionsData.some((c) => c.id === current) ? current : null
+      );
     } catch (error) {
       console.error("Error loading bookmarks:", error);
     } finally {
@@ -35,6 +91,7 @@ export default function BookmarksPage() {
 
   useEffect(() => {
     loadBookmarks();
+    bookmarkService.getViewPrefs().then(setViewPrefs);
   }, []);
 
   useFocusEffect(
@@ -51,7 +108,250 @@ export default function BookmarksPage() {
     return unsubscribe;
   }, []);
 
-  const removeBookmark = (postId: number) => {
+  const filterOptions = useMemo(
+    () => getBookmarkFilterOptions(bookmarks),
+    [bookmarks]
+  );
+
+  const visibleBookmarks = useMemo(() => {
+    const inCollection = activeCollection
+      ? bookmarks.filter((bookmark) =>
+          bookmark.collection_ids?.includes(activeCollection)
+        )
+      : bookmarks;
+    return queryBookmarks(inCollection, searchQuery, viewPrefs);
+  }, [bookmarks, activeCollection, searchQuery, viewPrefs]);
+
+  const isFiltered =
+    searchQuery.trim() !== "" ||
+    viewPrefs.offlineOnly ||
+    viewPrefs.category !== null ||
+    viewPrefs.sourceId !== null;
+
+  const updateViewPrefs = (updates: Partial<BookmarkViewPrefs>) => {
+    const next = { ...viewPrefs, ...updates };
+    setViewPrefs(next);
+    bookmarkService.saveViewPrefs(next);
+  };
+
+  const startEditingCollection = (id: string, name = "") => {
+    setEditingCollection(id);
+    setCollectionName(name);
+  };
+
+  const submitCollectionName = async () => {
+    try {
+      if (editingCollection === "new") {
+        const collection = await bookmarkService.createCollection(
+          collectionName
+        );
+        setActiveCollection(collection.id);
+      } else if (editingCollection) {
+        await bookmarkService.renameCollection(
+          editingCollection,
+          collectionName
+        );
+      }
+      setEditingCollection(null);
+    } catch (error) {
+      Alert.alert(
+        i18nService.t("common.error"),
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  };
+
+  const manageCollection = (collection: BookmarkCollection) => {
+    Alert.alert(collection.name, undefined, [
+      {
+        text: i18nService.t("collections.rename"),
+        onPress: () => startEditingCollection(collection.id, collection.name),
+      },
+      {
+        text: i18nService.t("collections.delete"),
+        style: "destructive",
+        onPress: () =>
+          Alert.alert(
+            i18nService.t("collections.delete"),
+            i18nService.t("collections.deleteConfirm"),
+            [
+              { text: i18nService.t("common.cancel"), style: "cancel" },
+              {
+                text: i18nService.t("common.delete"),
+                style: "destructive",
+                onPress: async () => {
+                  try {
+                    await bookmarkService.deleteCollection(collection.id);
+                  } catch (error) {
+                    Alert.alert("Error", "Failed to delete collection");
+                  }
+                },
+              },
+            ]
+          ),
+      },
+      { text: i18nService.t("common.cancel"), style: "cancel" },
+    ]);
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void,
+    onLongPress?: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.collectionChip,
+        { borderColor: themeState.colors.border },
+        active && {
+          backgroundColor: themeState.colors.primary,
+          borderColor: themeState.colors.primary,
+        },
+      ]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+    >
+      <ThemedText
+        style={[styles.collectionChipText, active && styles.activeChipText]}
+      >
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderSortAndFilters = () => (
+    <View style={styles.filtersSection}>
+      <ThemedTextInput
+        placeholder={i18nService.t("bookmarks.search")}
+        value={searchQuery}
+        onChangeText={setSearchQuery}
+        autoCorrect={false}
+        clearButtonMode='while-editing'
+      />
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.collectionChips}
+      >
+        {SORT_OPTIONS.map((option) =>
+          renderChip(
+            option.value,
+            i18nService.t(option.label),
+            viewPrefs.sort === option.value,
+            () => updateViewPrefs({ sort: option.value })
+          )
+        )}
+      </ScrollView>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={[styles.collectionChips, styles.filterChips]}
+      >
+        {renderChip(
+          "offline",
+          i18nService.t("bookmarks.offlineOnly"),
+          viewPrefs.offlineOnly,
+          () => updateViewPrefs({ offlineOnly: !viewPrefs.offlineOnly })
+        )}
+        {filterOptions.sources.length > 1 &&
+          filterOptions.sources.map((source) =>
+            renderChip(
+              `source-${source.id}`,
+              source.name,
+              viewPrefs.sourceId === source.id,
+              () =>
+                updateViewPrefs({
+                  sourceId:
+                    viewPrefs.sourceId === source.id ? null : source.id,
+                })
+            )
+          )}
+        {filterOptions.categories.map((category) =>
+          renderChip(
+            `category-${category}`,
+            category,
+            viewPrefs.category === category,
+            () =>
+              updateViewPrefs({
+                category: viewPrefs.category === category ? null : category,
+              })
+          )
+        )}
+      </ScrollView>
+    </View>
+  );
+
+  const renderCollections = () => (
+    <View style={styles.collectionsSection}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.collectionChips}
+      >
+        {renderChip(
+          "all",
+          i18nService.t("collections.all"),
+          activeCollection === null,
+          () => setActiveCollection(null)
+        )}
+        {collections.map((collection) =>
+          renderChip(
+            collection.id,
+            `${collection.name} (${
+              bookmarks.filter((b) =>
+                b.collection_ids?.includes(collection.id)
+              ).length
+            })`,
+            activeCollection === collection.id,
+            () => setActiveCollection(collection.id),
+            () => manageCollection(collection)
+          )
+        )}
+        {renderChip(
+          "new",
+          `+ ${i18nService.t("collections.new")}`,
+          false,
+          () => startEditingCollection("new")
+        )}
+      </ScrollView>
+      {editingCollection && (
+        <View style={styles.collectionForm}>
+          <View style={styles.collectionInput}>
+            <ThemedTextInput
+              placeholder={i18nService.t("collections.namePlaceholder")}
+              value={collectionName}
+              onChangeText={setCollectionName}
+              onSubmitEditing={submitCollectionName}
+              returnKeyType='done'
+              autoFocus
+            />
+          </View>
+          <TouchableOpacity
+            style={styles.collectionFormButton}
+            onPress={submitCollectionName}
+            disabled={!collectionName.trim()}
+          >
+            <ThemedText style={{ color: themeState.colors.primary }}>
+              {i18nService.t("common.save")}
+            </ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.collectionFormButton}
+            onPress={() => setEditingCollection(null)}
+          >
+            <ThemedText variant='secondary'>
+              {i18nService.t("common.cancel")}
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  const removeBookmark = (bookmark: Bookmark) => {
     Alert.alert(
       "Remove Bookmark",
       "Are you sure you want to remove this bookmark?",
@@ -62,7 +362,10 @@ export default function BookmarksPage() {
           style: "destructive",
           onPress: async () => {
             try {
-              await bookmarkService.removeBookmark(postId);
+              await bookmarkService.removeBookmark(
+                bookmark.id,
+                bookmark.source_id
+              );
             } catch (error) {
               console.error("Error removing bookmark:", error);
               Alert.alert("Error", "Failed to remove bookmark");
@@ -73,6 +376,165 @@ export default function BookmarksPage() {
     );
   };
 
+  const toggleOffline = async (bookmark: Bookmark) => {
+    const key = getPostKey(bookmark.source_id, bookmark.id);
+    setSavingKeys((keys) => new Set(keys).add(key));
+    try {
+      await bookmarkService.setAvailableOffline(bookmark, !bookmark.offline);
+    } catch (error) {
+      console.error("Error saving bookmark offline:", error);
+      Alert.alert("Error", i18nService.t("errors.network"));
+    } finally {
+      setSavingKeys((keys) => {
+        const next = new Set(keys);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  const downloadAll = async () => {
+    setDownloadProgress({ done: 0, total: 0 });
+    try {
+      const { failed } = await bookmarkService.downloadAllForOffline(
+        (done, total) => setDownloadProgress({ done, total })
+      );
+      if (failed > 0) {
+        Alert.alert("Error", i18nService.t("errors.network"));
+      }
+    } finally {
+      setDownloadProgress(null);
+    }
+  };
+
+  const freeUpSpace = () => {
+    Alert.alert(
+      i18nService.t("bookmarks.freeSpace"),
+      i18nService.t("bookmarks.freeSpaceConfirm"),
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: i18nService.t("common.delete"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await bookmarkService.freeOfflineSpace();
+            } catch (error) {
+              console.error("Error freeing offline space:", error);
+              Alert.alert("Error", "Failed to free up space");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const exportBookmarks = async (format: BookmarkExportFormat) => {
+    try {
+      const file = await bookmarkService.exportBookmarks(format);
+      // Android's share sheet only takes text, iOS can share the file
+      await Share.share(
+        Platform.OS === "ios"
+          ? { url: file.uri }
+          : { title: file.name, message: await file.text() }
+      );
+    } catch (error) {
+      console.error("Error exporting bookmarks:", error);
+      Alert.alert("Error", i18nService.t("bookmarks.exportFailed"));
+    }
+  };
+
+  const confirmImport = (preview: BookmarkImportPreview) => {
+    if (preview.bookmarks.length === 0) {
+      Alert.alert(
+        i18nService.t("bookmarks.import"),
+        i18nService.t("bookmarks.importNothing")
+      );
+      return;
+    }
+
+    const titles = preview.bookmarks
+      .slice(0, 5)
+      .map((bookmark) => `• ${bookmark.title}`);
+    if (preview.bookmarks.length > titles.length) {
+      titles.push(
+        `+${preview.bookmarks.length - titles.length} ${i18nService.t(
+          "bookmarks.importMore"
+        )}`
+      );
+    }
+    const summary = [
+      `${i18nService.t("bookmarks.importNew")}: ${preview.bookmarks.length}`,
+      `${i18nService.t("bookmarks.importDuplicates")}: ${
+        preview.duplicates.length
+      }`,
+      preview.skipped > 0
+        ? `${i18nService.t("bookmarks.importSkipped")}: ${preview.skipped}`
+        : "",
+    ].filter(Boolean);
+
+    Alert.alert(
+      i18nService.t("bookmarks.import"),
+      [...summary, "", ...titles].join("\n"),
+      [
+        { text: i18nService.t("common.cancel"), style: "cancel" },
+        {
+          text: i18nService.t("bookmarks.import"),
+          onPress: async () => {
+            try {
+              await bookmarkService.applyImport(preview);
+            } catch (error) {
+              Alert.alert("Error", i18nService.t("bookmarks.importFailed"));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const importBookmarks = async () => {
+    try {
+      const picked = await File.pickFileAsync();
+      const file = Array.isArray(picked) ? picked[0] : picked;
+      if (!file) return;
+
+      const preview = await bookmarkService.previewImport(await file.text());
+      confirmImport(preview);
+    } catch (error) {
+      console.error("Error importing bookmarks:", error);
+      Alert.alert("Error", i18nService.t("bookmarks.importFailed"));
+    }
+  };
+
+  const showBackupOptions = () => {
+    Alert.alert(
+      i18nService.t("bookmarks.backup"),
+      undefined,
+      [
+        { text: i18nService.t("common.cancel"), style: "cancel" },
+        {
+          text: i18nService.t("bookmarks.import"),
+          onPress: importBookmarks,
+        },
+        {
+          text: i18nService.t("bookmarks.export"),
+          onPress: () =>
+            Alert.alert(
+              i18nService.t("bookmarks.export"),
+              i18nService.t("bookmarks.exportFormat"),
+              [
+                { text: "JSON", onPress: () => exportBookmarks("json") },
+                { text: "HTML", onPress: () => exportBookmarks("html") },
+                { text: "CSV", onPress: () => exportBookmarks("csv") },
+              ],
+              { cancelable: true }
+            ),
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
   const clearAllBookmarks = () => {
     Alert.alert(
       "Clear All Bookmarks",
@@ -96,9 +558,16 @@ export default function BookmarksPage() {
   };
 
   const handlePostPress = (bookmark: Bookmark) => {
+    // Links imported from other services aren't posts the app can load
+    if (isLinkOnly(bookmark)) {
+      linkResolverService
+        .open(bookmark.link)
+        .catch((error) => console.error("Error opening bookmark:", error));
+      return;
+    }
     router.push({
       pathname: "/post/[id]",
-      params: { id: bookmark.id.toString() },
+      params: { id: bookmark.id.toString(), source: bookmark.source_id },
     });
   };
 
@@ -107,7 +576,10 @@ export default function BookmarksPage() {
   };
 
   const renderBookmarkItem = (bookmark: Bookmark) => (
-    <View key={bookmark.id} style={styles.bookmarkItem}>
+    <View
+      key={getPostKey(bookmark.source_id, bookmark.id)}
+      style={styles.bookmarkItem}
+    >
       <TouchableOpacity
         style={styles.postContent}
         onPress={() => handlePostPress(bookmark)}
@@ -145,11 +617,67 @@ export default function BookmarksPage() {
               Bookmarked {new Date(bookmark.bookmarked_date).toLocaleDateString()}
             </ThemedText>
           </View>
+          {bookmark.note && (
+            <ThemedText style={styles.postNote} numberOfLines={2}>
+              {bookmark.note}
+            </ThemedText>
+          )}
+          {bookmark.highlights && bookmark.highlights.length > 0 && (
+            <ThemedText style={styles.postDate}>
+              {bookmark.highlights.length}{" "}
+              {i18nService.t("bookmarks.highlights").toLowerCase()}
+            </ThemedText>
+          )}
         </View>
       </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.offlineButton}
+        onPress={() => setPickerBookmark(bookmark)}
+        activeOpacity={0.7}
+        accessibilityLabel={i18nService.t("collections.addTo")}
+      >
+        <Ionicons
+          name={
+            bookmark.collection_ids?.length ? "folder" : "folder-outline"
+          }
+          size={22}
+          color={
+            bookmark.collection_ids?.length
+              ? themeState.colors.primary
+              : themeState.colors.textSecondary
+          }
+        />
+      </TouchableOpacity>
+      {!isLinkOnly(bookmark) && (
+        <TouchableOpacity
+          style={styles.offlineButton}
+          onPress={() => toggleOffline(bookmark)}
+          disabled={savingKeys.has(
+            getPostKey(bookmark.source_id, bookmark.id)
+          )}
+          activeOpacity={0.7}
+          accessibilityLabel={i18nService.t("bookmarks.availableOffline")}
+        >
+          {savingKeys.has(getPostKey(bookmark.source_id, bookmark.id)) ? (
+            <ActivityIndicator size='small' color='#007AFF' />
+          ) : (
+            <Ionicons
+              name={
+                bookmark.offline ? "cloud-done" : "cloud-download-outline"
+              }
+              size={22}
+              color={
+                bookmark.offline
+                  ? themeState.colors.success
+                  : themeState.colors.textSecondary
+              }
+            />
+          )}
+        </TouchableOpacity>
+      )}
       <TouchableOpacity
         style={styles.removeButton}
-        onPress={() => removeBookmark(bookmark.id)}
+        onPress={() => removeBookmark(bookmark)}
         activeOpacity={0.7}
       >
         <ThemedText style={styles.removeButtonText}>×</ThemedText>
@@ -179,6 +707,17 @@ export default function BookmarksPage() {
               {bookmarks.length === 1 ? "bookmark" : "bookmarks"}
             </ThemedText>
           </View>
+          <TouchableOpacity
+            style={[styles.notificationButton, styles.backupButton]}
+            onPress={showBackupOptions}
+            accessibilityLabel={i18nService.t("bookmarks.backup")}
+          >
+            <Ionicons
+              name="swap-vertical-outline"
+              size={24}
+              color={themeState.colors.text}
+            />
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.notificationButton}
             onPress={handleNotificationPress}
@@ -221,10 +760,67 @@ export default function BookmarksPage() {
               </TouchableOpacity>
             )}
 
-            {bookmarks.map(renderBookmarkItem)}
+            <View
+              style={[
+                styles.offlineSection,
+                { borderColor: themeState.colors.border },
+              ]}
+            >
+              <ThemedText style={styles.offlineUsage}>
+                {i18nService.t("bookmarks.offlineStorage")}:{" "}
+                {formatBytes(offlineUsage)}
+              </ThemedText>
+              <View style={styles.offlineActions}>
+                <TouchableOpacity
+                  style={styles.offlineActionButton}
+                  onPress={downloadAll}
+                  disabled={downloadProgress !== null}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText style={styles.offlineActionText}>
+                    {downloadProgress
+                      ? `${i18nService.t("bookmarks.downloading")} ${
+                          downloadProgress.done
+                        }/${downloadProgress.total}`
+                      : i18nService.t("bookmarks.downloadAll")}
+                  </ThemedText>
+                </TouchableOpacity>
+                {offlineUsage > 0 && (
+                  <TouchableOpacity
+                    style={styles.offlineActionButton}
+                    onPress={freeUpSpace}
+                    disabled={downloadProgress !== null}
+                    activeOpacity={0.7}
+                  >
+                    <ThemedText style={styles.offlineActionText}>
+                      {i18nService.t("bookmarks.freeSpace")}
+                    </ThemedText>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+
+            {renderSortAndFilters()}
+            {renderCollections()}
+
+            {visibleBookmarks.length === 0 ? (
+              <ThemedText style={styles.collectionEmpty}>
+                {isFiltered
+                  ? i18nService.t("bookmarks.noMatches")
+                  : i18nService.t("collections.empty")}
+              </ThemedText>
+            ) : (
+              visibleBookmarks.map(renderBookmarkItem)
+            )}
           </View>
         )}
       </ScrollView>
+      <CollectionPicker
+        visible={pickerBookmark !== null}
+        postId={pickerBookmark?.id ?? 0}
+        sourceId={pickerBookmark?.source_id}
+        onClose={() => setPickerBookmark(null)}
+      />
     </ThemedView>
   );
 }
@@ -264,6 +860,9 @@ const styles = StyleSheet.create({
     borderRadius: 20,
     backgroundColor: "rgba(0,0,0,0.05)",
   },
+  backupButton: {
+    marginRight: 8,
+  },
   bookmarksContainer: {
     flex: 1,
   },
@@ -331,6 +930,18 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.6,
   },
+  postNote: {
+    fontSize: 13,
+    fontStyle: "italic",
+    opacity: 0.8,
+    marginTop: 6,
+  },
+  offlineButton: {
+    paddingVertical: 12,
+    paddingLeft: 4,
+    alignItems: "center",
+    justifyContent: "center",
+  },
   removeButton: {
     padding: 12,
     alignItems: "center",
@@ -341,6 +952,72 @@ const styles = StyleSheet.create({
     color: "#FF3B30",
     fontWeight: "bold",
   },
+  offlineSection: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  offlineUsage: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  offlineActions: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  offlineActionButton: {
+    paddingVertical: 4,
+  },
+  offlineActionText: {
+    color: "#007AFF",
+    fontWeight: "600",
+  },
+  filtersSection: {
+    marginBottom: 12,
+  },
+  filterChips: {
+    marginTop: 8,
+  },
+  collectionsSection: {
+    marginBottom: 16,
+  },
+  collectionChips: {
+    gap: 8,
+  },
+  collectionChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderRadius: 16,
+  },
+  collectionChipText: {
+    fontSize: 14,
+  },
+  activeChipText: {
+    color: "white",
+    fontWeight: "600",
+  },
+  collectionForm: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+    marginTop: 12,
+  },
+  collectionInput: {
+    flex: 1,
+  },
+  collectionFormButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+  },
+  collectionEmpty: {
+    fontSize: 16,
+    opacity: 0.6,
+    textAlign: "center",
+    paddingVertical: 40,
+  },
   clearAllButton: {
     backgroundColor: "#FF3B30",
     paddingVertical: 10,
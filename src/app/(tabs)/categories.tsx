@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   View,
   StyleSheet,
@@ -8,37 +8,90 @@ import {
   RefreshControl,
   FlatList,
   Alert,
+  Switch,
 } from "react-native";
-import { router } from "expo-router";
-import { ThemedText, ThemedView } from "@/components";
-import { BlogList } from "@/components/blog";
-import { wordpressApiService, bookmarkService } from "@/services";
-import { Category, Post } from "@/types";
+import { router, useLocalSearchParams } from "expo-router";
+import { ThemedText, ThemedView, OfflineNotice } from "@/components";
+import { BlogList, TagChips } from "@/components/blog";
+import {
+  wordpressApiService,
+  bookmarkService,
+  sourceRegistryService,
+  postCacheService,
+  linkResolverService,
+} from "@/services";
+import { Category, Post, Tag } from "@/types";
 import i18nService from "@/services/i18n";
+import { getPostKey, replacePosts } from "@/utils/postIdentity";
+import { isCloseToBottom } from "@/utils/scrollUtils";
+import {
+  CategoryNode,
+  buildCategoryTree,
+  pruneEmptyNodes,
+  findCategoryNode,
+  getCategoryPath,
+  getDescendantIds,
+} from "@/utils/categoryTree";
 import { useAppContext } from "@/contexts/AppContext";
 
 export default function CategoriesPage() {
   const { themeState } = useAppContext();
+  // Set when a category link opened the tab
+  const { category: linkedCategoryId, source: linkedSourceId } =
+    useLocalSearchParams<{
+      category?: string;
+      source?: string;
+    }>();
   const [categories, setCategories] = useState<Category[]>([]);
+  const [popularTags, setPopularTags] = useState<Tag[]>([]);
+  const [activeSourceId, setActiveSourceId] = useState<string | undefined>();
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(
     null
   );
   const [categoryPosts, setCategoryPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [postsLoading, setPostsLoading] = useState(false);
+  const [postsPage, setPostsPage] = useState(1);
+  const [hasMorePosts, setHasMorePosts] = useState(false);
+  const [loadingMorePosts, setLoadingMorePosts] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [bookmarkedIds, setBookmarkedIds] = useState<Set<number>>(new Set());
+  const [bookmarkedKeys, setBookmarkedKeys] = useState<Set<string>>(
+    new Set()
+  );
+  const [expandedIds, setExpandedIds] = useState<Set<number>>(new Set());
+  const [includeSubcategories, setIncludeSubcategories] = useState(false);
+
+  // Empty categories are hidden unless one of their subcategories has posts
+  const categoryTree = useMemo(
+    () => pruneEmptyNodes(buildCategoryTree(categories)),
+    [categories]
+  );
+  const selectedNode = selectedCategory
+    ? findCategoryNode(categoryTree, selectedCategory.id)
+    : null;
+  const breadcrumbs = selectedCategory
+    ? getCategoryPath(categories, selectedCategory.id)
+    : [];
 
   const fetchCategories = useCallback(async () => {
     try {
       setError(null);
-      const categoriesData = await wordpressApiService.getCategories();
-      // Filter out empty categories and sort by count (most posts first)
-      const filteredCategories = categoriesData
-        .filter((cat: Category) => cat.count > 0)
-        .sort((a: Category, b: Category) => b.count - a.count);
-      setCategories(filteredCategories);
+      const [categoriesData, activeSource] = await Promise.all([
+        wordpressApiService.getCategories(),
+        sourceRegistryService.getActiveSource(),
+      ]);
+      setCategories(categoriesData);
+      setActiveSourceId(activeSource.id);
+
+      // Tags are a nice-to-have here, so a failure only hides the section
+      try {
+        const tagsResult = await wordpressApiService.getTags(15, 1);
+        setPopularTags(tagsResult.items);
+      } catch (tagError) {
+        console.error("Error fetching tags:", tagError);
+        setPopularTags([]);
+      }
     } catch (err) {
       setError(i18nService.t("errors.general") || "Failed to load categories");
       console.error("Error fetching categories:", err);
@@ -48,27 +101,94 @@ export default function CategoriesPage() {
     }
   }, []);
 
-  const fetchCategoryPosts = useCallback(async (category: Category) => {
+  // The category alone, or with every subcategory below it
+  const getCategoryIds = useCallback(
+    (category: Category, withSubcategories: boolean): number | number[] => {
+      const node = findCategoryNode(categoryTree, category.id);
+      if (!withSubcategories || !node || node.children.length === 0) {
+        return category.id;
+      }
+      return [category.id, ...getDescendantIds(node)];
+    },
+    [categoryTree]
+  );
+
+  const fetchCategoryPosts = useCallback(
+    async (categoryIds: number | number[]) => {
+      try {
+        setPostsLoading(true);
+        const result = await wordpressApiService.getPostsByCategory(
+          categoryIds,
+          20,
+          1
+        );
+        setCategoryPosts(result.items);
+        setPostsPage(1);
+        setHasMorePosts(result.hasMore);
+      } catch (err) {
+        console.error("Error fetching category posts:", err);
+      } finally {
+        setPostsLoading(false);
+      }
+    },
+    []
+  );
+
+  const loadMoreCategoryPosts = async () => {
+    if (!selectedCategory || !hasMorePosts || loadingMorePosts) return;
+
+    setLoadingMorePosts(true);
     try {
-      setPostsLoading(true);
-      const posts = await wordpressApiService.getPostsByCategory(
-        category.id,
+      const result = await wordpressApiService.getPostsByCategory(
+        getCategoryIds(selectedCategory, includeSubcategories),
         20,
-        1
+        postsPage + 1
       );
-      setCategoryPosts(posts);
+      setCategoryPosts((posts) => {
+        const seen = new Set(posts.map((post) => post.id));
+        return [...posts, ...result.items.filter((p) => !seen.has(p.id))];
+      });
+      setPostsPage(result.page);
+      setHasMorePosts(result.hasMore);
     } catch (err) {
-      console.error("Error fetching category posts:", err);
+      console.error("Error loading more category posts:", err);
     } finally {
-      setPostsLoading(false);
+      setLoadingMorePosts(false);
     }
-  }, []);
+  };
 
   useEffect(() => {
     fetchCategories();
     loadBookmarks();
   }, [fetchCategories]);
 
+  useEffect(() => {
+    // Categories belong to a site, so start over when the source changes
+    const unsubscribe = sourceRegistryService.subscribe(() => {
+      setCategories([]);
+      setSelectedCategory(null);
+      setCategoryPosts([]);
+      setLoading(true);
+      fetchCategories();
+    });
+    return unsubscribe;
+  }, [fetchCategories]);
+
+  useEffect(() => {
+    // Pick up a fresher category list once the cache has revalidated it
+    const unsubscribe = postCacheService.subscribe((key) => {
+      if (key) fetchCategories();
+    });
+    return unsubscribe;
+  }, [fetchCategories]);
+
+  useEffect(() => {
+    // Posts are swapped in place so the list keeps the pages loaded
+    return wordpressApiService.subscribeToPosts((posts) => {
+      setCategoryPosts((current) => replacePosts(current, posts));
+    });
+  }, []);
+
   useEffect(() => {
     // Subscribe to bookmark changes
     const unsubscribe = bookmarkService.subscribe(() => {
@@ -84,25 +204,75 @@ export default function CategoriesPage() {
 
   const handleCategoryPress = (category: Category) => {
     setSelectedCategory(category);
-    fetchCategoryPosts(category);
+    setCategoryPosts([]);
+    setHasMorePosts(false);
+    fetchCategoryPosts(getCategoryIds(category, includeSubcategories));
+  };
+
+  useEffect(() => {
+    // The Categories tab always shows the selected site
+    linkResolverService.selectSource(linkedSourceId);
+  }, [linkedSourceId]);
+
+  useEffect(() => {
+    if (!linkedCategoryId || categories.length === 0) return;
+    // Wait for the linked site's categories
+    if (linkedSourceId && activeSourceId !== linkedSourceId) return;
+
+    const category = categories.find(
+      (item) => item.id === parseInt(linkedCategoryId, 10)
+    );
+    if (category) handleCategoryPress(category);
+    // Handled; opening the same link again should select it again
+    router.setParams({ category: undefined, source: undefined });
+  }, [linkedCategoryId, linkedSourceId, activeSourceId, categories]);
+
+  const handleToggleExpanded = (categoryId: number) => {
+    setExpandedIds((current) => {
+      const next = new Set(current);
+      if (next.has(categoryId)) {
+        next.delete(categoryId);
+      } else {
+        next.add(categoryId);
+      }
+      return next;
+    });
+  };
+
+  const handleToggleSubcategories = (value: boolean) => {
+    setIncludeSubcategories(value);
+    if (selectedCategory) {
+      fetchCategoryPosts(getCategoryIds(selectedCategory, value));
+    }
   };
 
   const handlePostPress = (post: Post) => {
     router.push({
       pathname: "/post/[id]",
-      params: { id: post.id.toString() },
+      params: { id: post.id.toString(), source: post.source_id },
     });
   };
 
   const handleBackToCategories = () => {
     setSelectedCategory(null);
     setCategoryPosts([]);
+    setHasMorePosts(false);
+  };
+
+  // Step back up to the parent category, or to the full list at the top
+  const handleBack = () => {
+    const parent = breadcrumbs[breadcrumbs.length - 2];
+    if (parent) {
+      handleCategoryPress(parent);
+    } else {
+      handleBackToCategories();
+    }
   };
 
   const loadBookmarks = async () => {
     try {
-      const ids = await bookmarkService.getBookmarkedIds();
-      setBookmarkedIds(ids);
+      const keys = await bookmarkService.getBookmarkedKeys();
+      setBookmarkedKeys(keys);
     } catch (error) {
       console.error("Error loading bookmarks:", error);
     }
@@ -125,40 +295,72 @@ export default function CategoriesPage() {
       }
 
       // Update local state immediately
-      const newBookmarkedIds = new Set(bookmarkedIds);
+      const postKey = getPostKey(post.source_id, post.id);
+      const newBookmarkedKeys = new Set(bookmarkedKeys);
       if (isNowBookmarked) {
-        newBookmarkedIds.add(post.id);
+        newBookmarkedKeys.add(postKey);
       } else {
-        newBookmarkedIds.delete(post.id);
+        newBookmarkedKeys.delete(postKey);
       }
-      setBookmarkedIds(newBookmarkedIds);
+      setBookmarkedKeys(newBookmarkedKeys);
     } catch (error) {
       console.error("Error toggling bookmark:", error);
       Alert.alert("Error", "Failed to update bookmark. Please try again.");
     }
   };
 
-  const renderCategoryItem = ({ item }: { item: Category }) => (
-    <TouchableOpacity
-      style={styles.categoryItem}
-      onPress={() => handleCategoryPress(item)}
-      activeOpacity={0.7}
-    >
-      <View style={styles.categoryContent}>
-        <View style={styles.categoryInfo}>
-          <ThemedText variant='primary' style={styles.categoryName}>
-            {item.name}
-          </ThemedText>
-          <ThemedText style={styles.categoryCount}>
-            {item.count} {item.count === 1 ? "article" : "articles"}
-          </ThemedText>
-        </View>
-        <View style={styles.categoryArrow}>
-          <ThemedText style={styles.arrowText}>›</ThemedText>
+  // Flatten the tree into the rows currently visible
+  const visibleNodes: CategoryNode[] = [];
+  const collectVisible = (nodes: CategoryNode[]) => {
+    nodes.forEach((node) => {
+      visibleNodes.push(node);
+      if (expandedIds.has(node.category.id)) collectVisible(node.children);
+    });
+  };
+  collectVisible(categoryTree);
+
+  const renderCategoryItem = ({ item }: { item: CategoryNode }) => {
+    const hasChildren = item.children.length > 0;
+    const isExpanded = expandedIds.has(item.category.id);
+
+    return (
+      <TouchableOpacity
+        style={[styles.categoryItem, { marginLeft: item.depth * 16 }]}
+        onPress={() => handleCategoryPress(item.category)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.categoryContent}>
+          {hasChildren && (
+            <TouchableOpacity
+              style={styles.expandButton}
+              onPress={() => handleToggleExpanded(item.category.id)}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <ThemedText style={styles.arrowText}>
+                {isExpanded ? "▾" : "▸"}
+              </ThemedText>
+            </TouchableOpacity>
+          )}
+          <View style={styles.categoryInfo}>
+            <ThemedText variant='primary' style={styles.categoryName}>
+              {item.category.name}
+            </ThemedText>
+            <ThemedText style={styles.categoryCount}>
+              {item.totalCount} {item.totalCount === 1 ? "article" : "articles"}
+              {hasChildren
+                ? ` · ${item.children.length} ${i18nService.t(
+                    "categories.subcategories"
+                  )}`
+                : ""}
+            </ThemedText>
+          </View>
+          <View style={styles.categoryArrow}>
+            <ThemedText style={styles.arrowText}>›</ThemedText>
+          </View>
         </View>
-      </View>
-    </TouchableOpacity>
-  );
+      </TouchableOpacity>
+    );
+  };
 
   if (loading) {
     return (
@@ -186,6 +388,12 @@ export default function CategoriesPage() {
     <ThemedView style={styles.container}>
       <ScrollView
         contentContainerStyle={styles.scrollContent}
+        onScroll={({ nativeEvent }) => {
+          if (selectedCategory && isCloseToBottom(nativeEvent)) {
+            loadMoreCategoryPosts();
+          }
+        }}
+        scrollEventThrottle={400}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
         }
@@ -196,12 +404,26 @@ export default function CategoriesPage() {
           </ThemedText>
         </View>
 
+        <OfflineNotice />
+
         {!selectedCategory ? (
           <View style={styles.categoriesContainer}>
+            {popularTags.length > 0 && (
+              <View style={styles.tagsSection}>
+                <ThemedText variant='primary' style={styles.tagsTitle}>
+                  {i18nService.t("tags.popular")}
+                </ThemedText>
+                <TagChips
+                  tags={popularTags}
+                  sourceId={activeSourceId}
+                  showCount
+                />
+              </View>
+            )}
             <FlatList
-              data={categories}
+              data={visibleNodes}
               renderItem={renderCategoryItem}
-              keyExtractor={(item) => item.id.toString()}
+              keyExtractor={(item) => item.category.id.toString()}
               scrollEnabled={false}
               ListEmptyComponent={
                 <ThemedText style={styles.emptyText}>
@@ -213,15 +435,48 @@ export default function CategoriesPage() {
           </View>
         ) : (
           <View style={styles.categoryPostsContainer}>
-            <TouchableOpacity
-              style={styles.backButton}
-              onPress={handleBackToCategories}
-            >
+            <TouchableOpacity style={styles.backButton} onPress={handleBack}>
               <ThemedText style={styles.backButtonText}>
                 ‹ {i18nService.t("categories.backToCategories")}
               </ThemedText>
             </TouchableOpacity>
 
+            <View style={styles.breadcrumbs}>
+              <TouchableOpacity onPress={handleBackToCategories}>
+                <ThemedText
+                  style={[
+                    styles.breadcrumbText,
+                    { color: themeState.colors.primary },
+                  ]}
+                >
+                  {i18nService.t("categories.title")}
+                </ThemedText>
+              </TouchableOpacity>
+              {breadcrumbs.map((category, index) => {
+                const isCurrent = index === breadcrumbs.length - 1;
+                return (
+                  <View key={category.id} style={styles.breadcrumbItem}>
+                    <ThemedText style={styles.breadcrumbSeparator}>
+                      ›
+                    </ThemedText>
+                    <TouchableOpacity
+                      onPress={() => handleCategoryPress(category)}
+                      disabled={isCurrent}
+                    >
+                      <ThemedText
+                        style={[
+                          styles.breadcrumbText,
+                          !isCurrent && { color: themeState.colors.primary },
+                        ]}
+                      >
+                        {category.name}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+
             <ThemedText variant='primary' style={styles.selectedCategoryName}>
               {selectedCategory.name}
             </ThemedText>
@@ -230,14 +485,47 @@ export default function CategoriesPage() {
               {selectedCategory.count === 1 ? "article" : "articles"}
             </ThemedText>
 
+            {selectedNode && selectedNode.children.length > 0 && (
+              <View style={styles.subcategoriesSection}>
+                <View style={styles.subcategoryChips}>
+                  {selectedNode.children.map((child) => (
+                    <TouchableOpacity
+                      key={child.category.id}
+                      style={[
+                        styles.subcategoryChip,
+                        { borderColor: themeState.colors.border },
+                      ]}
+                      onPress={() => handleCategoryPress(child.category)}
+                    >
+                      <ThemedText style={styles.subcategoryChipText}>
+                        {child.category.name} ({child.totalCount})
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <View style={styles.switchRow}>
+                  <ThemedText style={styles.switchLabel}>
+                    {i18nService.t("categories.includeSubcategories")}
+                  </ThemedText>
+                  <Switch
+                    value={includeSubcategories}
+                    onValueChange={handleToggleSubcategories}
+                  />
+                </View>
+              </View>
+            )}
+
             <BlogList
               posts={categoryPosts}
-              bookmarkedIds={bookmarkedIds}
+              bookmarkedKeys={bookmarkedKeys}
               loading={postsLoading}
               onPostPress={handlePostPress}
               onBookmarkPress={toggleBookmark}
               contentContainerStyle={styles.categoryBlogListContent}
               useFlatList={false}
+              onEndReached={loadMoreCategoryPosts}
+              loadingMore={loadingMorePosts}
+              hasMore={hasMorePosts}
               ListEmptyComponent={() => (
                 <ThemedView style={styles.categoryEmptyContainer}>
                   <ThemedText style={styles.emptyText}>
@@ -275,6 +563,14 @@ const styles = StyleSheet.create({
   categoriesContainer: {
     flex: 1,
   },
+  tagsSection: {
+    marginBottom: 24,
+  },
+  tagsTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
   categoryItem: {
     backgroundColor: "rgba(0,0,0,0.02)",
     borderRadius: 12,
@@ -296,6 +592,9 @@ const styles = StyleSheet.create({
   categoryInfo: {
     flex: 1,
   },
+  expandButton: {
+    paddingRight: 12,
+  },
   categoryName: {
     fontSize: 18,
     fontWeight: "600",
@@ -326,6 +625,23 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "500",
   },
+  breadcrumbs: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  breadcrumbItem: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  breadcrumbSeparator: {
+    marginHorizontal: 6,
+    opacity: 0.5,
+  },
+  breadcrumbText: {
+    fontSize: 14,
+  },
   selectedCategoryName: {
     fontSize: 24,
     fontWeight: "bold",
@@ -336,6 +652,32 @@ const styles = StyleSheet.create({
     opacity: 0.6,
     marginBottom: 20,
   },
+  subcategoriesSection: {
+    marginBottom: 20,
+  },
+  subcategoryChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  subcategoryChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  subcategoryChipText: {
+    fontSize: 14,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  switchLabel: {
+    fontSize: 15,
+  },
   categoryBlogListContent: {
     padding: 0,
   },
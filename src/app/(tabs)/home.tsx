@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import {
   View,
   StyleSheet,
@@ -8,33 +8,54 @@ import {
   ActivityIndicator,
   RefreshControl,
   Alert,
+  Switch,
 } from "react-native";
-import { router, useFocusEffect } from "expo-router";
+import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
 import { Image } from "expo-image";
 import { Ionicons } from "@expo/vector-icons";
 import Carousel from "react-native-reanimated-carousel";
-import { ThemedText, ThemedView } from "@/components";
-import { BlogList } from "@/components/blog";
-import { wordpressApiService, bookmarkService } from "@/services";
+import { ThemedText, ThemedView, OfflineNotice } from "@/components";
+import { BlogList, ContinueReadingRail } from "@/components/blog";
+import {
+  wordpressApiService,
+  bookmarkService,
+  sourceRegistryService,
+  linkResolverService,
+} from "@/services";
 import { Post } from "@/types";
+import { AggregatedFeed } from "@/services/aggregatedFeed";
 import i18nService from "@/services/i18n";
+import { getPostKey, replacePosts } from "@/utils/postIdentity";
+import { isCloseToBottom } from "@/utils/scrollUtils";
 import { useAppContext } from "@/contexts/AppContext";
 
 const { width: screenWidth } = Dimensions.get("window");
 
 export default function HomePage() {
-  const { themeState } = useAppContext();
+  const { themeState, branding } = useAppContext();
+  // Set when a link to another site's home page opened the tab
+  const { source: linkedSourceId } = useLocalSearchParams<{
+    source?: string;
+  }>();
   const [featuredPosts, setFeaturedPosts] = useState<Post[]>([]);
   const [latestPosts, setLatestPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [bookmarkedIds, setBookmarkedIds] = useState<Set<number>>(new Set());
+  const [enabledSourceCount, setEnabledSourceCount] = useState(1);
+  const [aggregated, setAggregated] = useState(false);
+  const [latestPage, setLatestPage] = useState(1);
+  const [hasMoreLatest, setHasMoreLatest] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const aggregatedFeed = useRef(new AggregatedFeed());
+  const [bookmarkedKeys, setBookmarkedKeys] = useState<Set<string>>(
+    new Set()
+  );
 
   const loadBookmarks = async () => {
     try {
-      const ids = await bookmarkService.getBookmarkedIds();
-      setBookmarkedIds(ids);
+      const keys = await bookmarkService.getBookmarkedKeys();
+      setBookmarkedKeys(keys);
     } catch (error) {
       console.error("Error loading bookmarks:", error);
     }
@@ -57,13 +78,14 @@ export default function HomePage() {
       }
 
       // Update local state immediately
-      const newBookmarkedIds = new Set(bookmarkedIds);
+      const postKey = getPostKey(post.source_id, post.id);
+      const newBookmarkedKeys = new Set(bookmarkedKeys);
       if (isNowBookmarked) {
-        newBookmarkedIds.add(post.id);
+        newBookmarkedKeys.add(postKey);
       } else {
-        newBookmarkedIds.delete(post.id);
+        newBookmarkedKeys.delete(postKey);
       }
-      setBookmarkedIds(newBookmarkedIds);
+      setBookmarkedKeys(newBookmarkedKeys);
     } catch (error) {
       console.error("Error toggling bookmark:", error);
       Alert.alert("Error", "Failed to update bookmark. Please try again.");
@@ -74,13 +96,32 @@ export default function HomePage() {
     try {
       console.log("HomePage: fetchData invoked");
       setError(null);
+      const [enabledSources, aggregateEnabled] = await Promise.all([
+        sourceRegistryService.getEnabledSources(),
+        sourceRegistryService.getAggregateFeedEnabled(),
+      ]);
+      const useAggregatedFeed = aggregateEnabled && enabledSources.length > 1;
+
+      const loadLatest = async () => {
+        if (!useAggregatedFeed) {
+          return wordpressApiService.getLatestPosts(10, 1);
+        }
+        await aggregatedFeed.current.reset();
+        const items = await aggregatedFeed.current.loadMore();
+        return { items, hasMore: aggregatedFeed.current.hasMore() };
+      };
+
       const [featuredData, latestData] = await Promise.all([
         wordpressApiService.getFeaturedPosts(5),
-        wordpressApiService.getLatestPosts(10, 1),
+        loadLatest(),
       ]);
       // console.log("Fetched featured posts:", featuredData);
       setFeaturedPosts(featuredData);
-      setLatestPosts(latestData);
+      setLatestPosts(latestData.items);
+      setLatestPage(1);
+      setHasMoreLatest(latestData.hasMore);
+      setEnabledSourceCount(enabledSources.length);
+      setAggregated(useAggregatedFeed);
       await loadBookmarks();
     } catch (err) {
       setError(i18nService.t("errors.general") || "Failed to load posts");
@@ -95,6 +136,31 @@ export default function HomePage() {
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    // Reload everything when the active source changes
+    const unsubscribe = sourceRegistryService.subscribe(() => {
+      setLoading(true);
+      fetchData();
+    });
+    return unsubscribe;
+  }, [fetchData]);
+
+  useEffect(() => {
+    if (!linkedSourceId) return;
+    linkResolverService.selectSource(linkedSourceId);
+    // Handled; opening the same link again should switch again
+    router.setParams({ source: undefined });
+  }, [linkedSourceId]);
+
+  useEffect(() => {
+    // Show fresher copies of the posts on screen once the cache has
+    // revalidated them, without reloading the feed or losing its place
+    return wordpressApiService.subscribeToPosts((posts) => {
+      setFeaturedPosts((current) => replacePosts(current, posts));
+      setLatestPosts((current) => replacePosts(current, posts));
+    });
+  }, []);
+
   useFocusEffect(
     React.useCallback(() => {
       loadBookmarks();
@@ -114,10 +180,48 @@ export default function HomePage() {
     fetchData();
   };
 
+  const handleLoadMore = async () => {
+    if (loadingMore || !hasMoreLatest) return;
+
+    setLoadingMore(true);
+    try {
+      if (aggregated) {
+        const morePosts = await aggregatedFeed.current.loadMore();
+        setLatestPosts((posts) => [...posts, ...morePosts]);
+        setHasMoreLatest(aggregatedFeed.current.hasMore());
+      } else {
+        const result = await wordpressApiService.getLatestPosts(
+          10,
+          latestPage + 1
+        );
+        // Posts published meanwhile shift pages, so skip repeats
+        setLatestPosts((posts) => {
+          const seen = new Set(posts.map((post) => post.id));
+          return [...posts, ...result.items.filter((p) => !seen.has(p.id))];
+        });
+        setLatestPage(result.page);
+        setHasMoreLatest(result.hasMore);
+      }
+    } catch (err) {
+      console.error("Error loading more posts:", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleAggregateToggle = async (enabled: boolean) => {
+    try {
+      // The source registry notifies listeners, which refetches the feed
+      await sourceRegistryService.setAggregateFeedEnabled(enabled);
+    } catch (err) {
+      console.error("Error updating aggregate feed:", err);
+    }
+  };
+
   const handlePostPress = (post: Post) => {
     router.push({
       pathname: "/post/[id]",
-      params: { id: post.id.toString() },
+      params: { id: post.id.toString(), source: post.source_id },
     });
   };
 
@@ -195,16 +299,33 @@ export default function HomePage() {
 
     return (
       <View style={styles.latestContainer}>
-        <ThemedText variant='primary' style={styles.sectionTitle}>
-          {i18nService.t("news.latest") || "Latest News"}
-        </ThemedText>
+        <View style={styles.latestHeader}>
+          <ThemedText variant='primary' style={styles.sectionTitle}>
+            {i18nService.t("news.latest") || "Latest News"}
+          </ThemedText>
+          {enabledSourceCount > 1 && (
+            <View style={styles.aggregateToggle}>
+              <ThemedText style={styles.aggregateLabel}>
+                {i18nService.t("news.allSources")}
+              </ThemedText>
+              <Switch
+                value={aggregated}
+                onValueChange={handleAggregateToggle}
+              />
+            </View>
+          )}
+        </View>
         <BlogList
           posts={latestPosts}
-          bookmarkedIds={bookmarkedIds}
+          bookmarkedKeys={bookmarkedKeys}
           onPostPress={handlePostPress}
           onBookmarkPress={toggleBookmark}
           contentContainerStyle={styles.blogListContent}
           useFlatList={false}
+          showSource={aggregated}
+          onEndReached={handleLoadMore}
+          loadingMore={loadingMore}
+          hasMore={hasMoreLatest}
         />
       </View>
     );
@@ -234,14 +355,34 @@ export default function HomePage() {
     <ThemedView style={styles.container}>
       <ScrollView
         contentContainerStyle={styles.scrollContent}
+        onScroll={({ nativeEvent }) => {
+          if (isCloseToBottom(nativeEvent)) handleLoadMore();
+        }}
+        scrollEventThrottle={400}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
         }
       >
         <View style={styles.header}>
-          <ThemedText variant='primary' style={styles.headerTitle}>
-            {i18nService.t("news.title") || "News Hub"}
-          </ThemedText>
+          {/* A merged feed spans several sites, so it keeps the app name */}
+          <View style={styles.headerBrand}>
+            {!aggregated && branding?.iconUrl && (
+              <Image
+                source={{ uri: branding.iconUrl }}
+                style={styles.siteIcon}
+                contentFit='cover'
+              />
+            )}
+            <ThemedText
+              variant='primary'
+              style={styles.headerTitle}
+              numberOfLines={1}
+            >
+              {(!aggregated && branding?.name) ||
+                i18nService.t("news.title") ||
+                "News Hub"}
+            </ThemedText>
+          </View>
           <TouchableOpacity
             style={styles.notificationButton}
             onPress={handleNotificationPress}
@@ -254,6 +395,8 @@ export default function HomePage() {
           </TouchableOpacity>
         </View>
 
+        <OfflineNotice />
+        <ContinueReadingRail />
         {renderFeaturedCarousel()}
         {renderLatestPosts()}
       </ScrollView>
@@ -277,11 +420,23 @@ const styles = StyleSheet.create({
     marginBottom: 30,
     paddingHorizontal: 10,
   },
+  headerBrand: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 10,
+  },
+  siteIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+  },
   headerTitle: {
     fontSize: 28,
     fontWeight: "bold",
     textAlign: "center",
-    flex: 1,
+    flexShrink: 1,
   },
   notificationButton: {
     padding: 8,
@@ -344,6 +499,20 @@ const styles = StyleSheet.create({
   latestContainer: {
     marginBottom: 30,
   },
+  latestHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+  },
+  aggregateToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  aggregateLabel: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
   postItemContainer: {
     marginBottom: 20,
     position: "relative",
@@ -7,29 +7,51 @@ import {
   ActivityIndicator,
   Alert,
 } from "react-native";
-import { router, useFocusEffect } from "expo-router";
+import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
-import { ThemedText, ThemedView, ThemedTextInput } from "@/components";
+import {
+  ThemedText,
+  ThemedView,
+  ThemedTextInput,
+  OfflineNotice,
+} from "@/components";
 import { BlogList } from "@/components/blog";
-import { wordpressApiService, bookmarkService } from "@/services";
+import {
+  wordpressApiService,
+  bookmarkService,
+  sourceRegistryService,
+  linkResolverService,
+} from "@/services";
 import { Post } from "@/types";
 import i18nService from "@/services/i18n";
+import { getPostKey } from "@/utils/postIdentity";
+import { isCloseToBottom } from "@/utils/scrollUtils";
 import { useAppContext } from "@/contexts/AppContext";
 
 export default function SearchPage() {
   const { themeState } = useAppContext();
+  // Set when a search link opened the tab
+  const { q: linkedQuery, source: linkedSourceId } = useLocalSearchParams<{
+    q?: string;
+    source?: string;
+  }>();
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<Post[]>([]);
   const [loading, setLoading] = useState(false);
   const [searching, setSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [bookmarkedIds, setBookmarkedIds] = useState<Set<number>>(new Set());
+  const [bookmarkedKeys, setBookmarkedKeys] = useState<Set<string>>(
+    new Set()
+  );
   const [hasSearched, setHasSearched] = useState(false);
+  const [resultsPage, setResultsPage] = useState(1);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   const loadBookmarks = async () => {
     try {
-      const ids = await bookmarkService.getBookmarkedIds();
-      setBookmarkedIds(ids);
+      const keys = await bookmarkService.getBookmarkedKeys();
+      setBookmarkedKeys(keys);
     } catch (error) {
       console.error("Error loading bookmarks:", error);
     }
@@ -52,54 +74,97 @@ export default function SearchPage() {
       }
 
       // Update local state immediately
-      const newBookmarkedIds = new Set(bookmarkedIds);
+      const postKey = getPostKey(post.source_id, post.id);
+      const newBookmarkedKeys = new Set(bookmarkedKeys);
       if (isNowBookmarked) {
-        newBookmarkedIds.add(post.id);
+        newBookmarkedKeys.add(postKey);
       } else {
-        newBookmarkedIds.delete(post.id);
+        newBookmarkedKeys.delete(postKey);
       }
-      setBookmarkedIds(newBookmarkedIds);
+      setBookmarkedKeys(newBookmarkedKeys);
     } catch (error) {
       console.error("Error toggling bookmark:", error);
       Alert.alert("Error", "Failed to update bookmark. Please try again.");
     }
   };
 
-  const performSearch = useCallback(async () => {
-    if (!searchQuery.trim()) {
-      setSearchResults([]);
-      setHasSearched(false);
-      return;
-    }
+  const performSearch = useCallback(
+    async (query: string = searchQuery) => {
+      if (!query.trim()) {
+        setSearchResults([]);
+        setHasSearched(false);
+        return;
+      }
 
-    setSearching(true);
-    setError(null);
-    setHasSearched(true);
+      setSearching(true);
+      setError(null);
+      setHasSearched(true);
+
+      try {
+        const result = await wordpressApiService.searchPosts(
+          query.trim(),
+          20,
+          1
+        );
+        setSearchResults(result.items);
+        setResultsPage(1);
+        setHasMoreResults(result.hasMore);
+      } catch (err) {
+        setError(
+          i18nService.t("search.error") || "Error searching. Please try again."
+        );
+        console.error("Error searching posts:", err);
+      } finally {
+        setSearching(false);
+      }
+    },
+    [searchQuery]
+  );
 
+  const loadMoreResults = async () => {
+    if (!hasMoreResults || loadingMore || searching) return;
+
+    setLoadingMore(true);
     try {
-      const results = await wordpressApiService.searchPosts(
+      const result = await wordpressApiService.searchPosts(
         searchQuery.trim(),
         20,
-        1
+        resultsPage + 1
       );
-      setSearchResults(results);
+      setSearchResults((posts) => {
+        const seen = new Set(posts.map((post) => post.id));
+        return [...posts, ...result.items.filter((p) => !seen.has(p.id))];
+      });
+      setResultsPage(result.page);
+      setHasMoreResults(result.hasMore);
     } catch (err) {
-      setError(
-        i18nService.t("search.error") || "Error searching. Please try again."
-      );
-      console.error("Error searching posts:", err);
+      console.error("Error loading more search results:", err);
     } finally {
-      setSearching(false);
+      setLoadingMore(false);
     }
-  }, [searchQuery]);
+  };
 
   const handleSearch = () => {
     performSearch();
   };
 
+  useEffect(() => {
+    if (!linkedQuery) return;
+    const searchLinkedSite = async () => {
+      // Search the site the link came from
+      await linkResolverService.selectSource(linkedSourceId);
+      setSearchQuery(linkedQuery);
+      performSearch(linkedQuery);
+    };
+    searchLinkedSite();
+    // Handled; opening the same link again should search again
+    router.setParams({ q: undefined, source: undefined });
+  }, [linkedQuery, linkedSourceId]);
+
   const handleClear = () => {
     setSearchQuery("");
     setSearchResults([]);
+    setHasMoreResults(false);
     setHasSearched(false);
     setError(null);
   };
@@ -107,7 +172,7 @@ export default function SearchPage() {
   const handlePostPress = (post: Post) => {
     router.push({
       pathname: "/post/[id]",
-      params: { id: post.id.toString() },
+      params: { id: post.id.toString(), source: post.source_id },
     });
   };
 
@@ -121,6 +186,16 @@ export default function SearchPage() {
     }, [])
   );
 
+  useEffect(() => {
+    // Results came from the previous source, so drop them
+    const unsubscribe = sourceRegistryService.subscribe(() => {
+      setSearchResults([]);
+      setHasSearched(false);
+      setError(null);
+    });
+    return unsubscribe;
+  }, []);
+
   useEffect(() => {
     // Subscribe to bookmark changes
     const unsubscribe = bookmarkService.subscribe(() => {
@@ -187,11 +262,14 @@ export default function SearchPage() {
       return (
         <BlogList
           posts={searchResults}
-          bookmarkedIds={bookmarkedIds}
+          bookmarkedKeys={bookmarkedKeys}
           onPostPress={handlePostPress}
           onBookmarkPress={toggleBookmark}
           contentContainerStyle={styles.blogListContent}
           useFlatList={false}
+          onEndReached={loadMoreResults}
+          loadingMore={loadingMore}
+          hasMore={hasMoreResults}
         />
       );
     }
@@ -258,7 +336,12 @@ export default function SearchPage() {
         style={styles.resultsContainer}
         contentContainerStyle={styles.resultsContent}
         showsVerticalScrollIndicator={false}
+        onScroll={({ nativeEvent }) => {
+          if (isCloseToBottom(nativeEvent)) loadMoreResults();
+        }}
+        scrollEventThrottle={400}
       >
+        <OfflineNotice />
         {renderSearchResults()}
       </ScrollView>
     </ThemedView>
@@ -5,20 +5,49 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
+  Switch,
 } from "react-native";
 import { router } from "expo-router";
 import { ThemedText, ThemedView } from "@/components";
+import { SimpleTimePicker } from "@/components/TimePicker";
 import { useAppContext } from "@/contexts/AppContext";
 import { useNotifications } from "@/providers/NotificationProvider";
-import { bookmarkService } from "@/services";
-import i18nService from "@/services/i18n";
+import {
+  bookmarkService,
+  bookmarkSyncService,
+  sourceRegistryService,
+} from "@/services";
+import { SyncStatus } from "@/services/bookmarkSync";
+import i18nService, { TranslationKey } from "@/services/i18n";
 import authService from "@/services/auth";
-import { Theme } from "@/types/theme";
+import { Theme, ThemePalette } from "@/types/theme";
+import { PALETTE_OPTIONS } from "@/constants/themes";
 import { AuthState } from "@/types/auth";
+import { WordPressSource } from "@/types/wordpress";
 import { resetFirstLaunch } from "@/utils/welcomeUtils";
+import { getHostname } from "@/utils/urlUtils";
+
+const THEME_LABELS: Record<Theme, TranslationKey> = {
+  light: "settings.light",
+  dark: "settings.dark",
+  sepia: "settings.sepia",
+  amoled: "settings.amoled",
+  highContrastLight: "settings.highContrastLight",
+  highContrastDark: "settings.highContrastDark",
+  system: "settings.system",
+};
 
 export default function SettingsPage() {
-  const { themeState, setTheme, setLanguage, language } = useAppContext();
+  const {
+    themeState,
+    setTheme,
+    setLanguage,
+    language,
+    readerTheme,
+    setReaderTheme,
+    themeSchedule,
+    updateThemeSchedule,
+  } = useAppContext();
   const { permissionsGranted, preferences } = useNotifications();
   const [availableLanguages, setAvailableLanguages] = useState(
     i18nService.getAvailableLanguages()
@@ -30,6 +59,32 @@ export default function SettingsPage() {
     isAuthenticated: false,
     isLoading: true,
   });
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(
+    bookmarkSyncService.getStatus()
+  );
+  const [sources, setSources] = useState<WordPressSource[]>([]);
+  const [activeSource, setActiveSource] = useState<WordPressSource | null>(
+    null
+  );
+
+  useEffect(() => {
+    const loadSources = async () => {
+      try {
+        const [enabledSources, currentSource] = await Promise.all([
+          sourceRegistryService.getEnabledSources(),
+          sourceRegistryService.getActiveSource(),
+        ]);
+        setSources(enabledSources);
+        setActiveSource(currentSource);
+      } catch (error) {
+        console.error("Error loading sources:", error);
+      }
+    };
+
+    loadSources();
+    const unsubscribe = sourceRegistryService.subscribe(loadSources);
+    return unsubscribe;
+  }, []);
 
   useEffect(() => {
     const unsubscribe = authService.subscribe((state) => {
@@ -39,6 +94,10 @@ export default function SettingsPage() {
     return unsubscribe;
   }, []);
 
+  useEffect(() => {
+    return bookmarkSyncService.subscribe(setSyncStatus);
+  }, []);
+
   useEffect(() => {
     // Subscribe to language changes to update the available languages display
     const unsubscribe = i18nService.subscribe(() => {
@@ -57,6 +116,43 @@ export default function SettingsPage() {
     await i18nService.setLanguage(selectedLanguage);
   };
 
+  const handleSourceChange = async (sourceId: string) => {
+    try {
+      await sourceRegistryService.setActiveSource(sourceId);
+    } catch (error) {
+      console.error("Error switching source:", error);
+      Alert.alert("Error", "Failed to switch source");
+    }
+  };
+
+  const handleManageSources = () => {
+    router.push("/sources");
+  };
+
+  const getSyncStatusText = () => {
+    const pending =
+      syncStatus.pendingChanges > 0
+        ? ` · ${syncStatus.pendingChanges} ${i18nService.t("sync.pending")}`
+        : "";
+
+    switch (syncStatus.state) {
+      case "signedOut":
+        return i18nService.t("sync.signedOut");
+      case "syncing":
+        return i18nService.t("sync.syncing");
+      case "offline":
+        return i18nService.t("sync.offline") + pending;
+      case "error":
+        return i18nService.t("sync.error") + pending;
+      default:
+        return syncStatus.lastSyncedAt
+          ? `${i18nService.t("sync.lastSynced")} ${new Date(
+              syncStatus.lastSyncedAt
+            ).toLocaleString()}`
+          : i18nService.t("sync.never");
+    }
+  };
+
   const handleLogout = async () => {
     await authService.logout();
     router.replace("/login");
@@ -127,6 +223,10 @@ export default function SettingsPage() {
     router.push("/notifications/history");
   };
 
+  const handleNotificationDigest = () => {
+    router.push("/notifications/digest");
+  };
+
   const getNotificationStatusColor = () => {
     if (permissionsGranted === null) return themeState.colors.textSecondary;
     if (permissionsGranted) return "#28a745"; // Green
@@ -139,24 +239,47 @@ export default function SettingsPage() {
     return "Disabled";
   };
 
-  const getThemeButtonStyle = (selectedTheme: Theme) => {
+  const getThemeButtonStyle = (isSelected: boolean) => {
     return [
       styles.optionButton,
-      themeState.theme === selectedTheme && {
+      styles.themeOption,
+      isSelected && {
         backgroundColor: themeState.colors.primary,
       },
     ];
   };
 
-  const getThemeButtonTextStyle = (selectedTheme: Theme) => {
+  const getThemeButtonTextStyle = (isSelected: boolean) => {
     return [
       styles.optionButtonText,
-      themeState.theme === selectedTheme && {
+      isSelected && {
         color: "#FFFFFF",
       },
     ];
   };
 
+  const renderThemeOptions = <T extends Theme | null>(
+    options: T[],
+    selected: T,
+    onSelect: (option: T) => void
+  ) => (
+    <View style={styles.wrapOptions}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option ?? "app"}
+          style={getThemeButtonStyle(option === selected)}
+          onPress={() => onSelect(option)}
+        >
+          <ThemedText style={getThemeButtonTextStyle(option === selected)}>
+            {option
+              ? i18nService.t(THEME_LABELS[option])
+              : i18nService.t("settings.sameAsApp")}
+          </ThemedText>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
   return (
     <ThemedView style={styles.container}>
       <ScrollView contentContainerStyle={styles.content}>
@@ -219,19 +342,77 @@ export default function SettingsPage() {
           <ThemedText variant='primary' style={styles.sectionTitle}>
             {i18nService.t("settings.theme")}
           </ThemedText>
-          <View style={styles.rowOptions}>
-            {(["light", "dark", "system"] as Theme[]).map((themeOption) => (
-              <TouchableOpacity
-                key={themeOption}
-                style={getThemeButtonStyle(themeOption)}
-                onPress={() => handleThemeChange(themeOption)}
-              >
-                <ThemedText style={getThemeButtonTextStyle(themeOption)}>
-                  {i18nService.t(`settings.${themeOption}` as any)}
-                </ThemedText>
-              </TouchableOpacity>
-            ))}
+          {renderThemeOptions<Theme>(
+            [...PALETTE_OPTIONS, "system"],
+            themeState.theme,
+            handleThemeChange
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText variant='primary' style={styles.sectionTitle}>
+            {i18nService.t("settings.readerTheme")}
+          </ThemedText>
+          {renderThemeOptions<Theme | null>(
+            [null, ...PALETTE_OPTIONS],
+            readerTheme,
+            setReaderTheme
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.scheduleHeader}>
+            <View style={styles.scheduleTitle}>
+              <ThemedText variant='primary' style={styles.sectionTitle}>
+                {i18nService.t("settings.themeSchedule")}
+              </ThemedText>
+              <ThemedText style={styles.sectionDescription}>
+                {i18nService.t("settings.themeScheduleDescription")}
+              </ThemedText>
+            </View>
+            <Switch
+              value={themeSchedule.enabled}
+              onValueChange={(enabled) => updateThemeSchedule({ enabled })}
+              trackColor={{
+                false: themeState.colors.card,
+                true: themeState.colors.primary,
+              }}
+            />
           </View>
+          {themeSchedule.enabled && (
+            <>
+              <ThemedText style={styles.scheduleLabel}>
+                {i18nService.t("settings.dayTheme")}
+              </ThemedText>
+              {renderThemeOptions<ThemePalette>(
+                PALETTE_OPTIONS,
+                themeSchedule.lightPalette,
+                (lightPalette) => updateThemeSchedule({ lightPalette })
+              )}
+              <ThemedText style={styles.scheduleLabel}>
+                {i18nService.t("settings.nightTheme")}
+              </ThemedText>
+              {renderThemeOptions<ThemePalette>(
+                PALETTE_OPTIONS,
+                themeSchedule.darkPalette,
+                (darkPalette) => updateThemeSchedule({ darkPalette })
+              )}
+              <ThemedText style={styles.scheduleLabel}>
+                {i18nService.t("settings.nightFrom")}
+              </ThemedText>
+              <SimpleTimePicker
+                value={themeSchedule.darkFrom}
+                onChange={(darkFrom) => updateThemeSchedule({ darkFrom })}
+              />
+              <ThemedText style={styles.scheduleLabel}>
+                {i18nService.t("settings.dayFrom")}
+              </ThemedText>
+              <SimpleTimePicker
+                value={themeSchedule.lightFrom}
+                onChange={(lightFrom) => updateThemeSchedule({ lightFrom })}
+              />
+            </>
+          )}
         </View>
 
         <View style={styles.section}>
@@ -265,6 +446,45 @@ export default function SettingsPage() {
           </View>
         </View>
 
+        <View style={styles.section}>
+          <ThemedText variant='primary' style={styles.sectionTitle}>
+            {i18nService.t("settings.sources")}
+          </ThemedText>
+          <View style={styles.options}>
+            {sources.map((source) => (
+              <TouchableOpacity
+                key={source.id}
+                style={[
+                  styles.optionButton,
+                  activeSource?.id === source.id && {
+                    backgroundColor: themeState.colors.primary,
+                  },
+                ]}
+                onPress={() => handleSourceChange(source.id)}
+              >
+                <ThemedText
+                  style={[
+                    styles.optionButtonText,
+                    activeSource?.id === source.id && {
+                      color: "#FFFFFF",
+                    },
+                  ]}
+                >
+                  {source.name}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity
+            style={styles.optionButton}
+            onPress={handleManageSources}
+          >
+            <ThemedText style={styles.optionButtonText}>
+              {i18nService.t("settings.manageSources")}
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.section}>
           <ThemedText variant='primary' style={styles.sectionTitle}>
             Notifications
@@ -298,6 +518,16 @@ export default function SettingsPage() {
               </ThemedText>
             </TouchableOpacity>
           )}
+          {permissionsGranted && (
+            <TouchableOpacity
+              style={styles.optionButton}
+              onPress={handleNotificationDigest}
+            >
+              <ThemedText style={styles.optionButtonText}>
+                Notification Digest
+              </ThemedText>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Quick Notification Toggles */}
@@ -396,10 +626,47 @@ export default function SettingsPage() {
           </View>
         </View>
 
+        <View style={styles.section}>
+          <ThemedText variant='primary' style={styles.sectionTitle}>
+            {i18nService.t("sync.title")}
+          </ThemedText>
+          <View style={styles.statusContainer}>
+            <ThemedText
+              style={[
+                styles.syncStatusText,
+                syncStatus.state === "error" && {
+                  color: themeState.colors.error,
+                },
+              ]}
+            >
+              {getSyncStatusText()}
+            </ThemedText>
+          </View>
+          {authState.isAuthenticated && (
+            <TouchableOpacity
+              style={styles.optionButton}
+              onPress={() => bookmarkSyncService.sync()}
+              disabled={syncStatus.state === "syncing"}
+            >
+              <ThemedText style={styles.optionButtonText}>
+                {i18nService.t("sync.now")}
+              </ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
+
         <View style={styles.section}>
           <ThemedText variant='primary' style={styles.sectionTitle}>
             {i18nService.t("settings.dataManagement")}
           </ThemedText>
+          <TouchableOpacity
+            style={styles.optionButton}
+            onPress={() => router.push("/history")}
+          >
+            <ThemedText style={styles.optionButtonText}>
+              {i18nService.t("settings.history")}
+            </ThemedText>
+          </TouchableOpacity>
           <TouchableOpacity
             style={[styles.optionButton, styles.dangerButton]}
             onPress={clearAllBookmarks}
@@ -434,7 +701,8 @@ export default function SettingsPage() {
               {i18nService.t("settings.version")}: 1.0.0
             </ThemedText>
             <ThemedText style={styles.appInfoText}>
-              {i18nService.t("settings.source")}: blog.doavers.com
+              {i18nService.t("settings.source")}:{" "}
+              {activeSource ? getHostname(activeSource.baseUrl) : "-"}
             </ThemedText>
           </View>
         </View>
@@ -544,6 +812,34 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: 12,
   },
+  wrapOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    columnGap: 12,
+  },
+  themeOption: {
+    flexBasis: "30%",
+    paddingHorizontal: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginTop: -8,
+  },
+  scheduleHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  scheduleTitle: {
+    flex: 1,
+  },
+  scheduleLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+    marginTop: 16,
+    marginBottom: 8,
+  },
   optionButton: {
     flex: 1,
     marginTop: 10,
@@ -590,6 +886,11 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     marginBottom: 8,
   },
+  syncStatusText: {
+    flex: 1,
+    fontSize: 14,
+    opacity: 0.8,
+  },
   statusLabel: {
     fontSize: 16,
   },
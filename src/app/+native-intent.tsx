@@ -0,0 +1,27 @@
+import * as WebBrowser from "expo-web-browser";
+import { linkResolverService } from "@/services/linkResolver";
+
+// Every link that opens the app passes through here: app-scheme links and
+// the sites' own permalinks become app routes, other pages on those sites
+// open in the in-app browser
+export async function redirectSystemPath({
+  path,
+  initial,
+}: {
+  path: string;
+  initial: boolean;
+}) {
+  try {
+    const route = await linkResolverService.resolve(path);
+    if (route) return route;
+
+    WebBrowser.openBrowserAsync(path).catch((error) =>
+      console.error("Error opening link:", error)
+    );
+    // An empty path leaves the current screen as it is
+    return initial ? "/" : "";
+  } catch (error) {
+    console.error("Error handling incoming link:", error);
+    return initial ? "/" : path;
+  }
+}
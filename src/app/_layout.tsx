@@ -1,9 +1,16 @@
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import React, { useEffect, useState } from "react";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { AppProvider } from "@/contexts/AppContext";
 import { NotificationProvider } from "@/providers/NotificationProvider";
 import authService from "@/services/auth";
+import { bookmarkSyncService } from "@/services/bookmarkSync";
+import { notificationRouterService } from "@/services/notificationRouter";
+import { runMigrations } from "@/services/migrations";
+import {
+  wordpressNotificationsService,
+} from "@/services/wordpressNotifications";
 import { AuthState } from "@/types/auth";
 
 export default function RootLayout() {
@@ -14,6 +21,12 @@ export default function RootLayout() {
     isAuthenticated: false,
     isLoading: true,
   });
+  const [storageReady, setStorageReady] = useState(false);
+
+  useEffect(() => {
+    // Bring stored data up to the current schema before anything reads it
+    runMigrations().finally(() => setStorageReady(true));
+  }, []);
 
   useEffect(() => {
     // Initialize auth state
@@ -24,31 +37,55 @@ export default function RootLayout() {
     return unsubscribe;
   }, []);
 
-  if (authState.isLoading) {
+  useEffect(() => {
+    // Keep bookmarks in sync for signed-in users
+    if (!storageReady) return;
+    return bookmarkSyncService.start();
+  }, [storageReady]);
+
+  useEffect(() => {
+    // Notification taps and action buttons; they update stored history
+    if (!storageReady) return;
+    return notificationRouterService.start();
+  }, [storageReady]);
+
+  useEffect(() => {
+    // Background checks for new articles; importing the service also
+    // defines the task the OS runs
+    if (!storageReady) return;
+    wordpressNotificationsService.initialize();
+  }, [storageReady]);
+
+  if (authState.isLoading || !storageReady) {
     return null; // Or a loading screen
   }
 
-  // Regular app navigation with all routes
+  // Regular app navigation with all routes; the gesture root is needed
+  // for swipeable rows
   return (
-    <AppProvider>
-      <NotificationProvider>
-        <StatusBar style='auto' />
-        <Stack screenOptions={{ headerShown: false }}>
-          <Stack.Screen name='index' options={{ headerShown: false }} />
-          <Stack.Screen name='(tabs)' options={{ headerShown: false }} />
-          <Stack.Screen name='(auth)' options={{ headerShown: false }} />
-          <Stack.Screen name='(protected)' options={{ headerShown: false }} />
-          <Stack.Screen name='about' options={{ headerShown: false }} />
-          <Stack.Screen
-            name='notifications'
-            options={{
-              title: "Notifications",
-              headerShown: true,
-              headerBackTitle: "Back",
-            }}
-          />
-        </Stack>
-      </NotificationProvider>
-    </AppProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <AppProvider>
+        <NotificationProvider>
+          <StatusBar style='auto' />
+          <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name='index' options={{ headerShown: false }} />
+            <Stack.Screen name='(tabs)' options={{ headerShown: false }} />
+            <Stack.Screen name='(auth)' options={{ headerShown: false }} />
+            <Stack.Screen name='(protected)' options={{ headerShown: false }} />
+            <Stack.Screen name='about' options={{ headerShown: false }} />
+            <Stack.Screen name='sources' options={{ headerShown: false }} />
+            <Stack.Screen name='history' options={{ headerShown: false }} />
+            <Stack.Screen
+              name='notifications'
+              options={{
+                title: "Notifications",
+                headerShown: true,
+                headerBackTitle: "Back",
+              }}
+            />
+          </Stack>
+        </NotificationProvider>
+      </AppProvider>
+    </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,448 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  Alert,
+  Switch,
+} from "react-native";
+import { router } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Image } from "expo-image";
+import { Ionicons } from "@expo/vector-icons";
+import ReanimatedSwipeable from "react-native-gesture-handler/ReanimatedSwipeable";
+import { ThemedText, ThemedView, ThemedTextInput } from "@/components";
+import { useAppContext } from "@/contexts/AppContext";
+import { historyService, readingProgressService } from "@/services";
+import i18nService from "@/services/i18n";
+import { HistoryEntry, ReadingProgress } from "@/types";
+import { getPostKey } from "@/utils/postIdentity";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+interface HistorySection {
+  title: string;
+  data: HistoryEntry[];
+}
+
+const getDayLabel = (date: Date) => {
+  const today = new Date();
+  const yesterday = new Date(today.getTime() - DAY);
+
+  if (date.toDateString() === today.toDateString()) {
+    return i18nService.t("history.today");
+  }
+  if (date.toDateString() === yesterday.toDateString()) {
+    return i18nService.t("history.yesterday");
+  }
+  return date.toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+  });
+};
+
+// Entries are sorted newest first, so each day is one run of entries
+const groupByDay = (entries: HistoryEntry[]): HistorySection[] => {
+  const sections: HistorySection[] = [];
+  entries.forEach((entry) => {
+    const title = getDayLabel(new Date(entry.lastViewedAt));
+    const current = sections[sections.length - 1];
+    if (current && current.title === title) {
+      current.data.push(entry);
+    } else {
+      sections.push({ title, data: [entry] });
+    }
+  });
+  return sections;
+};
+
+export default function HistoryPage() {
+  const { themeState } = useAppContext();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [readingProgress, setReadingProgress] = useState<
+    Record<string, ReadingProgress>
+  >({});
+  const [query, setQuery] = useState("");
+  const [paused, setPaused] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const [history, progress, isPaused] = await Promise.all([
+        historyService.search(query),
+        readingProgressService.getProgressMap(),
+        historyService.isPaused(),
+      ]);
+      setEntries(history);
+      setReadingProgress(progress);
+      setPaused(isPaused);
+    } catch (error) {
+      console.error("Error loading history:", error);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    loadHistory();
+    const unsubscribeHistory = historyService.subscribe(loadHistory);
+    const unsubscribeProgress = readingProgressService.subscribe(loadHistory);
+    return () => {
+      unsubscribeHistory();
+      unsubscribeProgress();
+    };
+  }, [loadHistory]);
+
+  const sections = useMemo(() => groupByDay(entries), [entries]);
+
+  const handleEntryPress = (entry: HistoryEntry) => {
+    router.push({
+      pathname: "/post/[id]",
+      params: { id: entry.id.toString(), source: entry.source_id },
+    });
+  };
+
+  const handleClear = (label: string, clear: () => Promise<void>) => {
+    Alert.alert(label, i18nService.t("history.clearConfirm"), [
+      { text: i18nService.t("common.cancel"), style: "cancel" },
+      {
+        text: i18nService.t("history.clear"),
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await clear();
+          } catch (error) {
+            console.error("Error clearing history:", error);
+            Alert.alert("Error", "Failed to clear history");
+          }
+        },
+      },
+    ]);
+  };
+
+  const clearOptions = [
+    {
+      label: i18nService.t("history.clearHour"),
+      clear: () => historyService.clearRecent(HOUR),
+    },
+    {
+      label: i18nService.t("history.clearDay"),
+      clear: () => historyService.clearRecent(DAY),
+    },
+    {
+      label: i18nService.t("history.clearAll"),
+      clear: () => historyService.clearAll(),
+    },
+  ];
+
+  const renderDeleteAction = (entry: HistoryEntry) => (
+    <TouchableOpacity
+      style={[
+        styles.deleteAction,
+        { backgroundColor: themeState.colors.error },
+      ]}
+      onPress={() => historyService.removeEntry(entry.id, entry.source_id)}
+    >
+      <Ionicons name='trash-outline' size={22} color='white' />
+      <ThemedText style={styles.deleteText}>
+        {i18nService.t("common.delete")}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderEntry = ({ item }: { item: HistoryEntry }) => {
+    const progress = readingProgress[getPostKey(item.source_id, item.id)];
+    const viewedTime = new Date(item.lastViewedAt).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+    return (
+      <ReanimatedSwipeable
+        renderRightActions={() => renderDeleteAction(item)}
+        rightThreshold={40}
+        overshootRight={false}
+      >
+        <TouchableOpacity
+          style={[
+            styles.entry,
+            { backgroundColor: themeState.colors.background },
+          ]}
+          onPress={() => handleEntryPress(item)}
+          activeOpacity={0.7}
+        >
+          {item.featured_image ? (
+            <Image
+              source={{ uri: item.featured_image }}
+              style={styles.entryImage}
+              contentFit='cover'
+            />
+          ) : (
+            <View
+              style={[
+                styles.entryImage,
+                { backgroundColor: themeState.colors.card },
+              ]}
+            />
+          )}
+          <View style={styles.entryBody}>
+            <ThemedText style={styles.entryTitle} numberOfLines={2}>
+              {item.title}
+            </ThemedText>
+            <ThemedText variant='secondary' style={styles.entryMeta}>
+              {[item.source_name, viewedTime].filter(Boolean).join(" · ")}
+              {item.viewedAt.length > 1 ? ` · ${item.viewedAt.length}×` : ""}
+            </ThemedText>
+            {progress?.finished ? (
+              <ThemedText
+                style={[
+                  styles.entryMeta,
+                  { color: themeState.colors.success },
+                ]}
+              >
+                ✓ {i18nService.t("reading.read")}
+              </ThemedText>
+            ) : progress ? (
+              <View
+                style={[
+                  styles.progressTrack,
+                  { backgroundColor: themeState.colors.border },
+                ]}
+              >
+                <View
+                  style={[
+                    styles.progressBar,
+                    {
+                      width: `${Math.round(progress.progress * 100)}%`,
+                      backgroundColor: themeState.colors.primary,
+                    },
+                  ]}
+                />
+              </View>
+            ) : null}
+          </View>
+        </TouchableOpacity>
+      </ReanimatedSwipeable>
+    );
+  };
+
+  const renderHeader = () => (
+    <View>
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.7}
+        >
+          <Ionicons
+            name='arrow-back'
+            size={24}
+            color={themeState.colors.primary}
+          />
+        </TouchableOpacity>
+        <ThemedText variant='primary' style={styles.title}>
+          {i18nService.t("history.title")}
+        </ThemedText>
+      </View>
+
+      <View style={styles.pauseRow}>
+        <View style={styles.pauseText}>
+          <ThemedText style={styles.pauseLabel}>
+            {i18nService.t("history.pause")}
+          </ThemedText>
+          <ThemedText variant='secondary' style={styles.pauseDescription}>
+            {i18nService.t("history.pauseDescription")}
+          </ThemedText>
+        </View>
+        <Switch
+          value={paused}
+          onValueChange={(value) => historyService.setPaused(value)}
+          trackColor={{
+            false: themeState.colors.card,
+            true: themeState.colors.primary,
+          }}
+        />
+      </View>
+
+      <ThemedTextInput
+        placeholder={i18nService.t("history.search")}
+        value={query}
+        onChangeText={setQuery}
+        autoCorrect={false}
+        clearButtonMode='while-editing'
+      />
+
+      <View style={styles.clearRow}>
+        {clearOptions.map((option) => (
+          <TouchableOpacity
+            key={option.label}
+            style={[
+              styles.clearButton,
+              { borderColor: themeState.colors.border },
+            ]}
+            onPress={() => handleClear(option.label, option.clear)}
+          >
+            <ThemedText
+              style={[styles.clearText, { color: themeState.colors.error }]}
+            >
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={{ flex: 1 }} edges={["top", "left", "right"]}>
+      <ThemedView style={styles.container}>
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => getPostKey(item.source_id, item.id)}
+          renderItem={renderEntry}
+          renderSectionHeader={({ section }) => (
+            <ThemedText
+              variant='secondary'
+              style={[
+                styles.sectionHeader,
+                { backgroundColor: themeState.colors.background },
+              ]}
+            >
+              {section.title}
+            </ThemedText>
+          )}
+          ListHeaderComponent={renderHeader()}
+          ListEmptyComponent={
+            <ThemedText style={styles.emptyText}>
+              {query
+                ? i18nService.t("history.noResults")
+                : i18nService.t("history.empty")}
+            </ThemedText>
+          }
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps='handled'
+          stickySectionHeadersEnabled
+        />
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    alignItems: "center",
+    marginTop: 10,
+    marginBottom: 30,
+    position: "relative",
+  },
+  backButton: {
+    position: "absolute",
+    left: 0,
+    top: 0,
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+    borderRadius: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+  },
+  pauseRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 16,
+  },
+  pauseText: {
+    flex: 1,
+  },
+  pauseLabel: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  pauseDescription: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  clearRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 8,
+  },
+  clearButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  clearText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  sectionHeader: {
+    fontSize: 14,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  entry: {
+    flexDirection: "row",
+    gap: 12,
+    paddingVertical: 10,
+  },
+  entryImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+  entryBody: {
+    flex: 1,
+    justifyContent: "center",
+    gap: 4,
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  entryMeta: {
+    fontSize: 12,
+  },
+  progressTrack: {
+    height: 3,
+    borderRadius: 2,
+    overflow: "hidden",
+    marginTop: 2,
+  },
+  progressBar: {
+    height: "100%",
+  },
+  deleteAction: {
+    width: 88,
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 4,
+  },
+  deleteText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  emptyText: {
+    fontSize: 16,
+    opacity: 0.6,
+    textAlign: "center",
+    paddingVertical: 60,
+  },
+});
@@ -19,6 +19,14 @@ export default function NotificationsLayout() {
           headerBackTitle: "Back",
         }}
       />
+      <Stack.Screen
+        name='digest'
+        options={{
+          title: "Digest",
+          headerShown: false,
+          headerBackTitle: "Back",
+        }}
+      />
     </Stack>
   );
 }
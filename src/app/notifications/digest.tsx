@@ -0,0 +1,221 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { View, StyleSheet, SectionList, TouchableOpacity } from "react-native";
+import { router } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Image } from "expo-image";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText, ThemedView } from "@/components";
+import { useAppContext } from "@/contexts/AppContext";
+import { digestService } from "@/services/digest";
+import i18nService from "@/services/i18n";
+import { DigestArticle, DigestState } from "@/types/notifications";
+import { getPostKey } from "@/utils/postIdentity";
+
+interface DigestSection {
+  title: string;
+  data: DigestArticle[];
+}
+
+const formatSentAt = (sentAt: string) =>
+  new Date(sentAt).toLocaleString(undefined, {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function DigestPage() {
+  const { themeState } = useAppContext();
+  const [state, setState] = useState<DigestState | null>(null);
+
+  const loadDigest = useCallback(async () => {
+    try {
+      setState(await digestService.getState());
+    } catch (error) {
+      console.error("Error loading digest:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDigest();
+    return digestService.subscribe(loadDigest);
+  }, [loadDigest]);
+
+  // Articles still waiting come first, newest on top
+  const sections = useMemo(() => {
+    if (!state) return [];
+    const result: DigestSection[] = [];
+    if (state.queue.length > 0) {
+      result.push({
+        title: i18nService.t("digest.upcoming"),
+        data: [...state.queue].reverse(),
+      });
+    }
+    if (state.sent.length > 0 && state.sentAt) {
+      result.push({
+        title: `${i18nService.t("digest.lastSent")} · ${formatSentAt(
+          state.sentAt
+        )}`,
+        data: state.sent,
+      });
+    }
+    return result;
+  }, [state]);
+
+  const handleArticlePress = (article: DigestArticle) => {
+    router.push({
+      pathname: "/post/[id]",
+      params: { id: article.id.toString(), source: article.source_id },
+    });
+  };
+
+  const renderArticle = ({ item }: { item: DigestArticle }) => (
+    <TouchableOpacity
+      style={styles.article}
+      onPress={() => handleArticlePress(item)}
+      activeOpacity={0.7}
+    >
+      {item.featured_image ? (
+        <Image
+          source={{ uri: item.featured_image }}
+          style={styles.articleImage}
+          contentFit='cover'
+        />
+      ) : (
+        <View
+          style={[
+            styles.articleImage,
+            { backgroundColor: themeState.colors.card },
+          ]}
+        />
+      )}
+      <View style={styles.articleBody}>
+        <ThemedText style={styles.articleTitle} numberOfLines={2}>
+          {item.title}
+        </ThemedText>
+        <ThemedText variant='secondary' style={styles.articleMeta}>
+          {[item.category_names?.[0], item.author_name]
+            .filter(Boolean)
+            .join(" · ")}
+        </ThemedText>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity
+        onPress={() => router.back()}
+        style={styles.backButton}
+        activeOpacity={0.7}
+      >
+        <Ionicons
+          name='arrow-back'
+          size={24}
+          color={themeState.colors.primary}
+        />
+      </TouchableOpacity>
+      <ThemedText variant='primary' style={styles.title}>
+        {i18nService.t("digest.title")}
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={{ flex: 1 }} edges={["top", "left", "right"]}>
+      <ThemedView style={styles.container}>
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => getPostKey(item.source_id, item.id)}
+          renderItem={renderArticle}
+          renderSectionHeader={({ section }) => (
+            <ThemedText
+              variant='secondary'
+              style={[
+                styles.sectionHeader,
+                { backgroundColor: themeState.colors.background },
+              ]}
+            >
+              {section.title}
+            </ThemedText>
+          )}
+          ListHeaderComponent={renderHeader()}
+          ListEmptyComponent={
+            state ? (
+              <ThemedText style={styles.emptyText}>
+                {i18nService.t("digest.empty")}
+              </ThemedText>
+            ) : null
+          }
+          contentContainerStyle={styles.content}
+          stickySectionHeadersEnabled
+        />
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    alignItems: "center",
+    marginTop: 10,
+    marginBottom: 10,
+    position: "relative",
+  },
+  backButton: {
+    position: "absolute",
+    left: 0,
+    top: 0,
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+    borderRadius: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+  },
+  sectionHeader: {
+    fontSize: 14,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  article: {
+    flexDirection: "row",
+    gap: 12,
+    paddingVertical: 10,
+  },
+  articleImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+  articleBody: {
+    flex: 1,
+    justifyContent: "center",
+    gap: 4,
+  },
+  articleTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  articleMeta: {
+    fontSize: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    opacity: 0.6,
+    textAlign: "center",
+    paddingVertical: 60,
+  },
+});
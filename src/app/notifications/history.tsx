@@ -13,10 +13,11 @@ import { ThemedView } from "@/components/ThemedView";
 import { useAppContext } from "@/contexts/AppContext";
 import {
   getNotificationHistory,
-  markNotificationAsRead,
+  markNotificationAsInteracted,
   batchMarkAsRead,
   clearNotificationHistory,
 } from "@/utils/notificationHelpers";
+import { notificationRouterService } from "@/services/notificationRouter";
 import { NotificationHistory } from "@/types/notifications";
 import { Ionicons } from "@expo/vector-icons";
 
@@ -54,12 +55,15 @@ export default function NotificationHistoryScreen() {
     loadNotificationHistory();
   };
 
-  const handleMarkAsRead = async (notificationId: string) => {
+  const handleOpenNotification = async (
+    notification: NotificationHistory
+  ) => {
     try {
-      await markNotificationAsRead(notificationId);
+      await markNotificationAsInteracted(notification.id);
       loadNotificationHistory();
+      await notificationRouterService.open(notification.data);
     } catch (error) {
-      console.error("Error marking notification as read:", error);
+      console.error("Error opening notification:", error);
     }
   };
 
@@ -276,10 +280,7 @@ export default function NotificationHistoryScreen() {
                   if (selectedNotifications.length > 0) {
                     handleSelectNotification(notification.id);
                   } else {
-                    if (!notification.read) {
-                      handleMarkAsRead(notification.id);
-                    }
-                    // Handle navigation or other actions here
+                    handleOpenNotification(notification);
                   }
                 }}
                 onLongPress={() => handleSelectNotification(notification.id)}
@@ -1,8 +1,11 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import {
   View,
   StyleSheet,
   ScrollView,
+  Animated,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
   TouchableOpacity,
   Alert,
   Share,
@@ -11,27 +14,170 @@ import {
 } from "react-native";
 import { useLocalSearchParams, router, useFocusEffect } from "expo-router";
 import { Image } from "expo-image";
-import { ThemedText, ThemedView, HTMLRenderer } from "@/components";
-import { BookmarkButton, ShareButton } from "@/components/blog";
-import { wordpressApiService, bookmarkService } from "@/services";
+import {
+  ThemedText,
+  ThemedView,
+  HTMLRenderer,
+  OfflineNotice,
+  ReaderSettingsSheet,
+} from "@/components";
+import {
+  BookmarkButton,
+  BookmarkNotes,
+  CollectionPicker,
+  ShareButton,
+  TagChips,
+} from "@/components/blog";
+import {
+  wordpressApiService,
+  bookmarkService,
+  readingProgressService,
+  historyService,
+} from "@/services";
+import { offlineArticleService } from "@/services/offlineArticles";
+import { useAppContext, ReaderThemeProvider } from "@/contexts/AppContext";
 import { Post, Bookmark } from "@/types";
+import { replacePosts } from "@/utils/postIdentity";
 
 export default function PostDetailPage() {
-  const { id } = useLocalSearchParams<{ id: string }>();
+  return (
+    <ReaderThemeProvider>
+      <PostDetail />
+    </ReaderThemeProvider>
+  );
+}
+
+function PostDetail() {
+  // `source` is missing on links created before posts were tied to a site
+  // `resume` comes from "Continue reading" and restores the saved position
+  const { id, source, resume } = useLocalSearchParams<{
+    id: string;
+    source?: string;
+    resume?: string;
+  }>();
   const [post, setPost] = useState<Post | null>(null);
   const [bookmark, setBookmark] = useState<Bookmark | null>(null);
   const [loading, setLoading] = useState(true);
   const [isBookmarked, setIsBookmarked] = useState(false);
   const [useBookmarkFallback, setUseBookmarkFallback] = useState(false);
+  const [showReaderSettings, setShowReaderSettings] = useState(false);
+  const [showCollectionPicker, setShowCollectionPicker] = useState(false);
+  const { readerSettings, themeState } = useAppContext();
+  // Keeps lines a readable length on tablets; null lets text fill the screen
+  const readingWidth = {
+    maxWidth: readerSettings.maxWidth ?? undefined,
+  };
+
+  // Reading progress lives in refs so scrolling doesn't re-render the
+  // article; only the progress bar follows the scroll, natively animated
+  const scrollViewRef = useRef<ScrollView>(null);
+  const scrollY = useRef(new Animated.Value(0)).current;
+  const [scrollableHeight, setScrollableHeight] = useState(0);
+  const postRef = useRef<Post | null>(null);
+  const scrollOffsetRef = useRef(0);
+  const viewportHeightRef = useRef(0);
+  const contentHeightRef = useRef(0);
+  const resumeOffsetRef = useRef<number | null>(null);
+  const readingSinceRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    // Cache revalidation sets the post again; that isn't another visit
+    if (post && !postRef.current) {
+      historyService.recordView(post);
+    }
+    postRef.current = post;
+  }, [post]);
+
+  useEffect(() => {
+    if (!id || !resume) return;
+
+    readingProgressService
+      .getProgress(parseInt(id, 10), source)
+      .then((saved) => {
+        if (saved && !saved.finished && saved.scrollOffset > 0) {
+          resumeOffsetRef.current = saved.scrollOffset;
+          restoreScrollPosition();
+        }
+      });
+  }, [id, source, resume]);
+
+  const saveReadingProgress = useCallback(() => {
+    const currentPost = postRef.current;
+    if (!currentPost || contentHeightRef.current === 0) return;
+
+    const scrollable = contentHeightRef.current - viewportHeightRef.current;
+    // Everything fits on screen, so it has all been seen
+    const progress = scrollable > 0 ? scrollOffsetRef.current / scrollable : 1;
+    const now = Date.now();
+    const timeSpent = readingSinceRef.current
+      ? Math.round((now - readingSinceRef.current) / 1000)
+      : 0;
+    readingSinceRef.current = now;
+
+    const scrollOffset = scrollOffsetRef.current;
+
+    // Progress is part of the reading history
+    historyService.isPaused().then((paused) => {
+      if (paused) return;
+      readingProgressService.updateProgress(currentPost, {
+        progress,
+        scrollOffset,
+        timeSpent,
+      });
+    });
+  }, []);
+
+  // Time only counts while the article is on screen
+  useFocusEffect(
+    useCallback(() => {
+      readingSinceRef.current = Date.now();
+      return () => {
+        saveReadingProgress();
+        readingSinceRef.current = null;
+      };
+    }, [saveReadingProgress])
+  );
+
+  // The article grows as images load, so the saved offset may only become
+  // reachable after a few layout passes
+  const restoreScrollPosition = () => {
+    const offset = resumeOffsetRef.current;
+    const scrollable = contentHeightRef.current - viewportHeightRef.current;
+    if (offset === null || scrollable < offset) return;
+
+    scrollViewRef.current?.scrollTo({ y: offset, animated: false });
+    scrollOffsetRef.current = offset;
+    resumeOffsetRef.current = null;
+  };
+
+  const updateScrollableHeight = () => {
+    setScrollableHeight(
+      Math.max(0, contentHeightRef.current - viewportHeightRef.current)
+    );
+    restoreScrollPosition();
+  };
+
+  const handleScroll = Animated.event(
+    [{ nativeEvent: { contentOffset: { y: scrollY } } }],
+    {
+      useNativeDriver: true,
+      listener: (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+        scrollOffsetRef.current = event.nativeEvent.contentOffset.y;
+      },
+    }
+  );
 
   const checkBookmarkStatus = async (postId: number) => {
     try {
-      const bookmarked = await bookmarkService.isBookmarked(postId);
+      const bookmarked = await bookmarkService.isBookmarked(postId, source);
       setIsBookmarked(bookmarked);
 
       // Also get the bookmark data for fallback
       if (bookmarked) {
-        const bookmarkData = await bookmarkService.getBookmarkById(postId);
+        const bookmarkData = await bookmarkService.getBookmarkById(
+          postId,
+          source
+        );
         setBookmark(bookmarkData);
       }
     } catch (error) {
@@ -44,14 +190,14 @@ export default function PostDetailPage() {
       loadPost(parseInt(id, 10));
       checkBookmarkStatus(parseInt(id, 10));
     }
-  }, [id]);
+  }, [id, source]);
 
   useFocusEffect(
     React.useCallback(() => {
       if (id) {
         checkBookmarkStatus(parseInt(id, 10));
       }
-    }, [id])
+    }, [id, source])
   );
 
   useEffect(() => {
@@ -62,17 +208,39 @@ export default function PostDetailPage() {
       }
     });
     return unsubscribe;
-  }, [id]);
+  }, [id, source]);
+
+  useEffect(() => {
+    // Show the revalidated article once the cache has a fresher copy
+    return wordpressApiService.subscribeToPosts((posts) => {
+      setPost((current) =>
+        current ? replacePosts([current], posts)[0] : current
+      );
+    });
+  }, []);
 
   const loadPost = async (postId: number) => {
     try {
-      const postData = await wordpressApiService.getPostById(postId);
+      const postData = await wordpressApiService.getPostById(postId, source);
       setPost(postData);
     } catch (error) {
       console.error("Error loading post:", error);
 
+      // A bookmark saved for offline reading has the full article on disk
+      const offlineArticle = await offlineArticleService.getArticle(
+        postId,
+        source
+      );
+      if (offlineArticle) {
+        setPost(offlineArticle.post);
+        return;
+      }
+
       // Check if we have a bookmark with full URL as fallback
-      const bookmarkData = await bookmarkService.getBookmarkById(postId);
+      const bookmarkData = await bookmarkService.getBookmarkById(
+        postId,
+        source
+      );
       if (bookmarkData && bookmarkData.link) {
         setUseBookmarkFallback(true);
         Alert.alert(
@@ -138,6 +306,20 @@ export default function PostDetailPage() {
     }
   };
 
+  // Filing a post into a collection bookmarks it first
+  const openCollectionPicker = async () => {
+    try {
+      if (post && !isBookmarked) {
+        await bookmarkService.addBookmark(post);
+        setIsBookmarked(true);
+      }
+      setShowCollectionPicker(true);
+    } catch (error) {
+      console.error("Error bookmarking post:", error);
+      Alert.alert("Error", "Failed to update bookmark. Please try again.");
+    }
+  };
+
   const sharePost = async () => {
     const title =
       post?.title.rendered.replace(/<[^>]*>/g, "") || bookmark?.title || "";
@@ -261,11 +443,14 @@ export default function PostDetailPage() {
               <BookmarkButton
                 isBookmarked={isBookmarked}
                 onPress={toggleBookmark}
+                onLongPress={openCollectionPicker}
                 variant='bottom'
               />
               <ShareButton onPress={sharePost} variant='bottom' />
             </View>
 
+            {isBookmarked && <BookmarkNotes bookmark={bookmark} />}
+
             {/* Link to original post */}
             <TouchableOpacity
               style={styles.originalLink}
@@ -277,15 +462,34 @@ export default function PostDetailPage() {
             </TouchableOpacity>
           </View>
         </ScrollView>
+        <CollectionPicker
+          visible={showCollectionPicker}
+          postId={bookmark.id}
+          sourceId={bookmark.source_id}
+          onClose={() => setShowCollectionPicker(false)}
+        />
       </ThemedView>
     );
   }
 
   return (
     <ThemedView style={styles.container}>
-      <ScrollView
+      <Animated.ScrollView
+        ref={scrollViewRef}
         style={styles.scrollView}
         showsVerticalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={16}
+        onLayout={(event) => {
+          viewportHeightRef.current = event.nativeEvent.layout.height;
+          updateScrollableHeight();
+        }}
+        onContentSizeChange={(_, height) => {
+          contentHeightRef.current = height;
+          updateScrollableHeight();
+        }}
+        onScrollEndDrag={saveReadingProgress}
+        onMomentumScrollEnd={saveReadingProgress}
       >
         {/* Header with featured image */}
         <View style={styles.imageContainer}>
@@ -304,9 +508,17 @@ export default function PostDetailPage() {
           >
             <ThemedText style={styles.backIcon}>‹</ThemedText>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.readerOverlay}
+            onPress={() => setShowReaderSettings(true)}
+          >
+            <ThemedText style={styles.readerIcon}>Aa</ThemedText>
+          </TouchableOpacity>
         </View>
 
-        <View style={styles.content}>
+        <View style={[styles.content, styles.readingColumn, readingWidth]}>
+          <OfflineNotice />
+
           {/* Title and metadata */}
           <View style={styles.headerContent}>
             <ThemedText variant='primary' style={styles.title}>
@@ -315,9 +527,23 @@ export default function PostDetailPage() {
 
             <View style={styles.metadata}>
               {post?.author_name && (
-                <ThemedText style={styles.author}>
-                  By {post?.author_name}
-                </ThemedText>
+                <TouchableOpacity
+                  onPress={() =>
+                    router.push({
+                      pathname: "/author/[id]",
+                      params: {
+                        id: post.author.toString(),
+                        name: post.author_name,
+                        source: post.source_id,
+                      },
+                    })
+                  }
+                  activeOpacity={0.7}
+                >
+                  <ThemedText style={[styles.author, styles.authorLink]}>
+                    By {post.author_name}
+                  </ThemedText>
+                </TouchableOpacity>
               )}
               <ThemedText style={styles.date}>
                 {formatDate(post?.date ?? "")}
@@ -336,6 +562,13 @@ export default function PostDetailPage() {
                     )}
                   </View>
                 )}
+              {post?.tag_terms && post.tag_terms.length > 0 && (
+                <TagChips
+                  tags={post.tag_terms}
+                  sourceId={post.source_id}
+                  style={styles.tags}
+                />
+              )}
             </View>
           </View>
 
@@ -344,6 +577,7 @@ export default function PostDetailPage() {
             <BookmarkButton
               isBookmarked={isBookmarked}
               onPress={toggleBookmark}
+              onLongPress={openCollectionPicker}
               variant='bottom'
             />
             <ShareButton onPress={sharePost} variant='bottom' />
@@ -362,11 +596,14 @@ export default function PostDetailPage() {
             <BookmarkButton
               isBookmarked={isBookmarked}
               onPress={toggleBookmark}
+              onLongPress={openCollectionPicker}
               variant='bottom'
             />
             <ShareButton onPress={sharePost} variant='bottom' />
           </View>
 
+          {isBookmarked && bookmark && <BookmarkNotes bookmark={bookmark} />}
+
           {/* Link to original post */}
           <TouchableOpacity
             style={styles.originalLink}
@@ -406,7 +643,36 @@ export default function PostDetailPage() {
             </ThemedText>
           </TouchableOpacity>
         </View>
-      </ScrollView>
+      </Animated.ScrollView>
+      <View style={styles.progressTrack} pointerEvents='none'>
+        <Animated.View
+          style={[
+            styles.progressBar,
+            {
+              backgroundColor: themeState.colors.primary,
+              transform: [
+                {
+                  scaleX: scrollY.interpolate({
+                    inputRange: [0, Math.max(1, scrollableHeight)],
+                    outputRange: [0, 1],
+                    extrapolate: "clamp",
+                  }),
+                },
+              ],
+            },
+          ]}
+        />
+      </View>
+      <ReaderSettingsSheet
+        visible={showReaderSettings}
+        onClose={() => setShowReaderSettings(false)}
+      />
+      <CollectionPicker
+        visible={showCollectionPicker}
+        postId={parseInt(id, 10)}
+        sourceId={source}
+        onClose={() => setShowCollectionPicker(false)}
+      />
     </ThemedView>
   );
 }
@@ -472,9 +738,40 @@ const styles = StyleSheet.create({
     color: "white",
     fontWeight: "bold",
   },
+  progressTrack: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    height: 3,
+  },
+  progressBar: {
+    height: "100%",
+    transformOrigin: "left",
+  },
+  readerOverlay: {
+    position: "absolute",
+    top: 50,
+    right: 20,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  readerIcon: {
+    fontSize: 16,
+    color: "white",
+    fontWeight: "bold",
+  },
   content: {
     padding: 20,
   },
+  readingColumn: {
+    width: "100%",
+    alignSelf: "center",
+  },
   headerContent: {
     marginBottom: 20,
   },
@@ -493,6 +790,9 @@ const styles = StyleSheet.create({
     marginBottom: 5,
     opacity: 0.8,
   },
+  authorLink: {
+    color: "#007AFF",
+  },
   date: {
     fontSize: 14,
     opacity: 0.6,
@@ -514,6 +814,9 @@ const styles = StyleSheet.create({
     color: "#007AFF",
     fontWeight: "500",
   },
+  tags: {
+    marginTop: 8,
+  },
   topActions: {
     flexDirection: "row",
     gap: 12,
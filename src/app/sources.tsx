@@ -0,0 +1,434 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Switch,
+  ActivityIndicator,
+} from "react-native";
+import { router } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText, ThemedView, ThemedTextInput } from "@/components";
+import { useAppContext } from "@/contexts/AppContext";
+import { sourceRegistryService } from "@/services";
+import i18nService, { Language } from "@/services/i18n";
+import { WordPressSource } from "@/types";
+import { getHostname } from "@/utils/urlUtils";
+
+export default function SourcesPage() {
+  const { themeState } = useAppContext();
+  const [sources, setSources] = useState<WordPressSource[]>([]);
+  const [activeSourceId, setActiveSourceId] = useState<string | null>(null);
+  const [newUrl, setNewUrl] = useState("");
+  const [newName, setNewName] = useState("");
+  const [newLanguage, setNewLanguage] = useState<Language>(
+    i18nService.getCurrentLanguage()
+  );
+  const [newFeaturedCategoryId, setNewFeaturedCategoryId] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [addError, setAddError] = useState<string | undefined>(undefined);
+
+  const loadSources = async () => {
+    try {
+      const [allSources, activeSource] = await Promise.all([
+        sourceRegistryService.getSources(),
+        sourceRegistryService.getActiveSource(),
+      ]);
+      setSources(allSources);
+      setActiveSourceId(activeSource.id);
+    } catch (error) {
+      console.error("Error loading sources:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadSources();
+    const unsubscribe = sourceRegistryService.subscribe(() => {
+      loadSources();
+    });
+    return unsubscribe;
+  }, []);
+
+  const handleSelect = async (source: WordPressSource) => {
+    if (!source.enabled) return;
+    try {
+      await sourceRegistryService.setActiveSource(source.id);
+    } catch (error) {
+      console.error("Error selecting source:", error);
+      Alert.alert("Error", "Failed to switch source");
+    }
+  };
+
+  const handleToggleEnabled = async (
+    source: WordPressSource,
+    enabled: boolean
+  ) => {
+    try {
+      await sourceRegistryService.updateSource(source.id, { enabled });
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "Failed to update source"
+      );
+    }
+  };
+
+  const handleMove = async (
+    source: WordPressSource,
+    direction: "up" | "down"
+  ) => {
+    try {
+      await sourceRegistryService.moveSource(source.id, direction);
+    } catch (error) {
+      console.error("Error reordering sources:", error);
+    }
+  };
+
+  const handleRemove = (source: WordPressSource) => {
+    Alert.alert(
+      i18nService.t("sources.remove"),
+      i18nService.t("sources.removeConfirm"),
+      [
+        { text: i18nService.t("common.cancel"), style: "cancel" },
+        {
+          text: i18nService.t("common.delete"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await sourceRegistryService.removeSource(source.id);
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                error instanceof Error
+                  ? error.message
+                  : "Failed to remove source"
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleAdd = async () => {
+    if (!newUrl.trim()) return;
+
+    setAdding(true);
+    setAddError(undefined);
+    try {
+      const featuredCategoryId = parseInt(newFeaturedCategoryId, 10);
+      await sourceRegistryService.addSource({
+        url: newUrl,
+        name: newName,
+        language: newLanguage,
+        featuredCategoryId: isNaN(featuredCategoryId)
+          ? undefined
+          : featuredCategoryId,
+      });
+      setNewUrl("");
+      setNewName("");
+      setNewFeaturedCategoryId("");
+    } catch (error) {
+      setAddError(
+        error instanceof Error ? error.message : "Failed to add source"
+      );
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const renderSource = (source: WordPressSource, index: number) => {
+    const isActive = source.id === activeSourceId;
+
+    return (
+      <View
+        key={source.id}
+        style={[
+          styles.sourceItem,
+          { borderColor: themeState.colors.border },
+          isActive && { borderColor: themeState.colors.primary },
+        ]}
+      >
+        <TouchableOpacity
+          style={styles.sourceInfo}
+          onPress={() => handleSelect(source)}
+          activeOpacity={0.7}
+          disabled={!source.enabled}
+        >
+          <Ionicons
+            name={isActive ? "radio-button-on" : "radio-button-off"}
+            size={20}
+            color={
+              isActive
+                ? themeState.colors.primary
+                : themeState.colors.textSecondary
+            }
+          />
+          <View style={styles.sourceText}>
+            <ThemedText
+              style={[styles.sourceName, !source.enabled && styles.disabled]}
+            >
+              {source.name}
+            </ThemedText>
+            <ThemedText variant='secondary' style={styles.sourceMeta}>
+              {getHostname(source.baseUrl)} · {source.language.toUpperCase()}
+              {isActive ? ` · ${i18nService.t("sources.active")}` : ""}
+            </ThemedText>
+          </View>
+        </TouchableOpacity>
+
+        <View style={styles.sourceActions}>
+          <TouchableOpacity
+            onPress={() => handleMove(source, "up")}
+            disabled={index === 0}
+            style={styles.iconButton}
+          >
+            <Ionicons
+              name='chevron-up'
+              size={20}
+              color={
+                index === 0
+                  ? themeState.colors.border
+                  : themeState.colors.textSecondary
+              }
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleMove(source, "down")}
+            disabled={index === sources.length - 1}
+            style={styles.iconButton}
+          >
+            <Ionicons
+              name='chevron-down'
+              size={20}
+              color={
+                index === sources.length - 1
+                  ? themeState.colors.border
+                  : themeState.colors.textSecondary
+              }
+            />
+          </TouchableOpacity>
+          <Switch
+            value={source.enabled}
+            onValueChange={(value) => handleToggleEnabled(source, value)}
+          />
+          <TouchableOpacity
+            onPress={() => handleRemove(source)}
+            style={styles.iconButton}
+          >
+            <Ionicons
+              name='trash-outline'
+              size={20}
+              color={themeState.colors.error}
+            />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={{ flex: 1 }} edges={["top", "left", "right"]}>
+      <ThemedView style={styles.container}>
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps='handled'
+        >
+          <View style={styles.header}>
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={styles.backButton}
+              activeOpacity={0.7}
+            >
+              <Ionicons name='arrow-back' size={24} color='#007AFF' />
+            </TouchableOpacity>
+            <ThemedText variant='primary' style={styles.title}>
+              {i18nService.t("sources.title")}
+            </ThemedText>
+          </View>
+
+          <View style={styles.section}>{sources.map(renderSource)}</View>
+
+          <View style={styles.section}>
+            <ThemedText variant='primary' style={styles.sectionTitle}>
+              {i18nService.t("sources.add")}
+            </ThemedText>
+            <ThemedTextInput
+              placeholder={i18nService.t("sources.urlPlaceholder")}
+              value={newUrl}
+              onChangeText={setNewUrl}
+              autoCapitalize='none'
+              autoCorrect={false}
+              keyboardType='url'
+              error={addError}
+            />
+            <ThemedTextInput
+              placeholder={i18nService.t("sources.namePlaceholder")}
+              value={newName}
+              onChangeText={setNewName}
+            />
+            <ThemedTextInput
+              placeholder={i18nService.t("sources.featuredCategory")}
+              value={newFeaturedCategoryId}
+              onChangeText={setNewFeaturedCategoryId}
+              keyboardType='number-pad'
+            />
+            <View style={styles.rowOptions}>
+              {i18nService.getAvailableLanguages().map((lang) => (
+                <TouchableOpacity
+                  key={lang.code}
+                  style={[
+                    styles.optionButton,
+                    { borderColor: themeState.colors.border },
+                    newLanguage === lang.code && {
+                      backgroundColor: themeState.colors.primary,
+                    },
+                  ]}
+                  onPress={() => setNewLanguage(lang.code)}
+                >
+                  <ThemedText
+                    style={[
+                      styles.optionButtonText,
+                      newLanguage === lang.code && { color: "#FFFFFF" },
+                    ]}
+                  >
+                    {lang.name}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity
+              style={[
+                styles.addButton,
+                { backgroundColor: themeState.colors.primary },
+                (!newUrl.trim() || adding) && styles.disabled,
+              ]}
+              onPress={handleAdd}
+              disabled={!newUrl.trim() || adding}
+            >
+              {adding ? (
+                <View style={styles.addingRow}>
+                  <ActivityIndicator color='white' />
+                  <ThemedText style={styles.addButtonText}>
+                    {i18nService.t("sources.validating")}
+                  </ThemedText>
+                </View>
+              ) : (
+                <ThemedText style={styles.addButtonText}>
+                  {i18nService.t("sources.add")}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    alignItems: "center",
+    marginTop: 10,
+    marginBottom: 30,
+    position: "relative",
+  },
+  backButton: {
+    position: "absolute",
+    left: 0,
+    top: 0,
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+    borderRadius: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+  },
+  section: {
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 16,
+  },
+  sourceItem: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  sourceInfo: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  sourceText: {
+    flex: 1,
+  },
+  sourceName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  sourceMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  sourceActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 8,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  rowOptions: {
+    flexDirection: "row",
+    gap: 12,
+    marginBottom: 16,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: "center",
+  },
+  optionButtonText: {
+    fontSize: 16,
+  },
+  addButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  addingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  addButtonText: {
+    color: "white",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+});
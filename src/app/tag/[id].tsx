@@ -0,0 +1,263 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, StyleSheet, TouchableOpacity, Alert } from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText, ThemedView, OfflineNotice } from "@/components";
+import { BlogList } from "@/components/blog";
+import {
+  wordpressApiService,
+  bookmarkService,
+  notificationPreferencesService,
+} from "@/services";
+import { Post } from "@/types";
+import i18nService from "@/services/i18n";
+import { getPostKey } from "@/utils/postIdentity";
+import { useAppContext } from "@/contexts/AppContext";
+
+const PAGE_SIZE = 10;
+
+export default function TagPage() {
+  const { themeState } = useAppContext();
+  const { id, name, source } = useLocalSearchParams<{
+    id: string;
+    name?: string;
+    source?: string;
+  }>();
+  const tagId = parseInt(id, 10);
+  const [tagName, setTagName] = useState(name || "");
+  const [totalPosts, setTotalPosts] = useState<number | null>(null);
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [following, setFollowing] = useState(false);
+  const [bookmarkedKeys, setBookmarkedKeys] = useState<Set<string>>(
+    new Set()
+  );
+
+  const loadBookmarks = async () => {
+    try {
+      const keys = await bookmarkService.getBookmarkedKeys();
+      setBookmarkedKeys(keys);
+    } catch (error) {
+      console.error("Error loading bookmarks:", error);
+    }
+  };
+
+  const fetchPosts = useCallback(async () => {
+    try {
+      const result = await wordpressApiService.getPostsByTag(
+        tagId,
+        PAGE_SIZE,
+        1,
+        source
+      );
+      setPosts(result.items);
+      setPage(1);
+      setHasMore(result.hasMore);
+      setTotalPosts(result.totalItems);
+    } catch (error) {
+      console.error("Error fetching tag posts:", error);
+      Alert.alert("Error", i18nService.t("errors.general"));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [tagId, source]);
+
+  useEffect(() => {
+    fetchPosts();
+    loadBookmarks();
+    notificationPreferencesService
+      .isFollowingTag(tagId.toString(), source)
+      .then(setFollowing);
+
+    // Links from notifications only carry the id
+    if (!name) {
+      wordpressApiService
+        .getTagById(tagId, source)
+        .then((tag) => setTagName(tag.name))
+        .catch((error) => console.error("Error fetching tag:", error));
+    }
+  }, [fetchPosts, tagId, name, source]);
+
+  useEffect(() => {
+    const unsubscribe = bookmarkService.subscribe(() => {
+      loadBookmarks();
+    });
+    return unsubscribe;
+  }, []);
+
+  const handleLoadMore = async () => {
+    if (loadingMore || !hasMore) return;
+
+    setLoadingMore(true);
+    try {
+      const result = await wordpressApiService.getPostsByTag(
+        tagId,
+        PAGE_SIZE,
+        page + 1,
+        source
+      );
+      setPosts((current) => {
+        const seen = new Set(current.map((post) => post.id));
+        return [...current, ...result.items.filter((p) => !seen.has(p.id))];
+      });
+      setPage(result.page);
+      setHasMore(result.hasMore);
+    } catch (error) {
+      console.error("Error loading more tag posts:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    fetchPosts();
+  };
+
+  const toggleFollow = async () => {
+    const success = await notificationPreferencesService.toggleTag(
+      tagId.toString(),
+      source
+    );
+    if (success) {
+      setFollowing(!following);
+    } else {
+      Alert.alert("Error", "Failed to update followed tags");
+    }
+  };
+
+  const toggleBookmark = async (post: Post) => {
+    try {
+      const isNowBookmarked = await bookmarkService.toggleBookmark(post);
+      const postKey = getPostKey(post.source_id, post.id);
+      const newBookmarkedKeys = new Set(bookmarkedKeys);
+      if (isNowBookmarked) {
+        newBookmarkedKeys.add(postKey);
+      } else {
+        newBookmarkedKeys.delete(postKey);
+      }
+      setBookmarkedKeys(newBookmarkedKeys);
+    } catch (error) {
+      console.error("Error toggling bookmark:", error);
+      Alert.alert("Error", "Failed to update bookmark. Please try again.");
+    }
+  };
+
+  const handlePostPress = (post: Post) => {
+    router.push({
+      pathname: "/post/[id]",
+      params: { id: post.id.toString(), source: post.source_id },
+    });
+  };
+
+  return (
+    <SafeAreaView style={{ flex: 1 }} edges={["top", "left", "right"]}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.headerButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name='arrow-back' size={24} color='#007AFF' />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <ThemedText
+              variant='primary'
+              style={styles.title}
+              numberOfLines={1}
+            >
+              #{tagName}
+            </ThemedText>
+            {totalPosts !== null && (
+              <ThemedText variant='secondary' style={styles.subtitle}>
+                {totalPosts} {totalPosts === 1 ? "article" : "articles"}
+              </ThemedText>
+            )}
+          </View>
+          <TouchableOpacity
+            onPress={toggleFollow}
+            style={[
+              styles.followButton,
+              { borderColor: themeState.colors.primary },
+              following && { backgroundColor: themeState.colors.primary },
+            ]}
+            activeOpacity={0.7}
+          >
+            <ThemedText
+              style={[
+                styles.followText,
+                { color: following ? "white" : themeState.colors.primary },
+              ]}
+            >
+              {following
+                ? i18nService.t("tags.following")
+                : i18nService.t("tags.follow")}
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <BlogList
+          posts={posts}
+          bookmarkedKeys={bookmarkedKeys}
+          loading={loading}
+          refreshing={refreshing}
+          onRefresh={handleRefresh}
+          onPostPress={handlePostPress}
+          onBookmarkPress={toggleBookmark}
+          ListHeaderComponent={<OfflineNotice />}
+          onEndReached={handleLoadMore}
+          loadingMore={loadingMore}
+          hasMore={hasMore}
+        />
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10,
+    gap: 12,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+    borderRadius: 20,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  followButton: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  followText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -1,286 +1,127 @@
-import React from "react";
-import { View, Text, StyleSheet } from "react-native";
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, ScrollView, Linking } from "react-native";
 import { ThemedText } from "./ThemedText";
+import {
+  ButtonGroup,
+  CodeBlock,
+  Columns,
+  ContentImage,
+  EmbedCard,
+  Gallery,
+  PullQuote,
+} from "./blocks";
+import { InlineElement, ParsedElement } from "@/types";
+import { useAppContext } from "@/contexts/AppContext";
+import { linkResolverService } from "@/services/linkResolver";
+import { parseContent } from "@/utils/contentParser";
+import { getReaderTypography } from "@/utils/readerTypography";
 
 interface HTMLRendererProps {
   htmlContent: string;
   style?: any;
 }
 
-interface ParsedElement {
-  type: "heading" | "paragraph" | "list" | "list-item" | "text";
-  content: string;
-  level?: number; // For headings (1-6)
-  items?: ParsedElement[]; // For lists
-  inlineElements?: InlineElement[]; // For inline formatting
-}
+// Base sizes for h1-h6 before the reader's font scale
+const HEADING_SIZES = [24, 22, 20, 18, 16, 14];
 
-interface InlineElement {
-  type:
-    | "bold"
-    | "italic"
-    | "underline"
-    | "link"
-    | "text"
-    | "code"
-    | "lineBreak";
-  content: string;
-  href?: string; // For links
-}
+// Links to the sources' own articles and archives stay in the app
+const openLink = (url?: string) => {
+  if (!url) return;
+  const opening = /^https?:\/\//i.test(url)
+    ? linkResolverService.open(url)
+    : Linking.openURL(url);
+  opening.catch((error) => console.error("Error opening link:", error));
+};
 
 export const HTMLRenderer: React.FC<HTMLRendererProps> = ({
   htmlContent,
   style,
 }) => {
-  // Parse inline formatting elements
-  const parseInlineElements = (text: string): InlineElement[] => {
-    const elements: InlineElement[] = [];
-
-    // First, handle <br> tags (self-closing)
-    const brRegex = /<br\s*\/?>/gi;
-    const parts = text.split(brRegex);
-
-    // Process each part for other inline tags
-    parts.forEach((part, index) => {
-      if (part.trim()) {
-        // Create a regex to match inline tags (excluding br which we already handled)
-        const inlineTagRegex = /<(strong|b|em|i|u|a|code)([^>]*)>(.*?)<\/\1>/gi;
-        let lastIndex = 0;
-        let match;
-
-        while ((match = inlineTagRegex.exec(part)) !== null) {
-          // Add text before the tag if any
-          if (match.index > lastIndex) {
-            const beforeText = part.substring(lastIndex, match.index);
-            if (beforeText.trim()) {
-              elements.push({
-                type: "text",
-                content: beforeText,
-              });
-            }
-          }
-
-          const tagName = match[1].toLowerCase();
-          const attributes = match[2];
-          const content = match[3];
-
-          // Handle different inline tags
-          if (["strong", "b"].includes(tagName)) {
-            elements.push({
-              type: "bold",
-              content: content,
-            });
-          } else if (["em", "i"].includes(tagName)) {
-            elements.push({
-              type: "italic",
-              content: content,
-            });
-          } else if (tagName === "u") {
-            elements.push({
-              type: "underline",
-              content: content,
-            });
-          } else if (tagName === "a") {
-            // Extract href attribute
-            const hrefMatch = attributes.match(/href=["']([^"']+)["']/i);
-            elements.push({
-              type: "link",
-              content: content,
-              href: hrefMatch ? hrefMatch[1] : undefined,
-            });
-          } else if (tagName === "code") {
-            elements.push({
-              type: "code",
-              content: content,
-            });
-          }
-
-          lastIndex = match.index + match[0].length;
-        }
-
-        // Add remaining text after the last tag
-        if (lastIndex < part.length) {
-          const remainingText = part.substring(lastIndex);
-          if (remainingText.trim()) {
-            elements.push({
-              type: "text",
-              content: remainingText,
-            });
-          }
-        }
-      }
-
-      // Add line break after each part except the last one
-      if (index < parts.length - 1) {
-        elements.push({
-          type: "lineBreak",
-          content: "",
-        });
-      }
-    });
-
-    return elements.length > 0 ? elements : [{ type: "text", content: text }];
-  };
-
-  // Parse HTML content into structured elements
-  const parseHTML = (html: string): ParsedElement[] => {
-    const elements: ParsedElement[] = [];
-
-    // Clean up the HTML first
-    const cleanHTML = html
-      .replace(/&nbsp;/g, " ")
-      .replace(/&/g, "&")
-      .replace(/</g, "<")
-      .replace(/>/g, ">")
-      .replace(/"/g, '"')
-      .replace(/'/g, "'")
-      // Handle common numeric entities
-      .replace(/&#8216;/g, "'") // Left single quotation mark
-      .replace(/&#8217;/g, "'") // Right single quotation mark
-      .replace(/&#8220;/g, '"') // Left double quotation mark
-      .replace(/&#8221;/g, '"') // Right double quotation mark
-      .replace(/&#8211;/g, "–") // En dash
-      .replace(/&#8212;/g, "—") // Em dash
-      .replace(/&#8230;/g, "…") // Horizontal ellipsis
-      // Handle other common numeric entities
-      .replace(/&#(\d+);/g, (match, dec) => {
-        try {
-          return String.fromCharCode(parseInt(dec, 10));
-        } catch (e) {
-          return match;
-        }
-      })
-      // Handle hex entities
-      .replace(/&#x([0-9a-fA-F]+);/g, (match, hex) => {
-        try {
-          return String.fromCharCode(parseInt(hex, 16));
-        } catch (e) {
-          return match;
-        }
-      });
-
-    // Split by major block elements
-    const blocks = cleanHTML.split(/<\/?(?:h[1-6]|p|ul|ol|li|div)[^>]*>/i);
-
-    // Extract tags and content
-    const tagMatches =
-      cleanHTML.match(/<\/?(h[1-6]|p|ul|ol|li|div)[^>]*>/gi) || [];
-
-    let currentElement: ParsedElement | null = null;
-    let currentList: ParsedElement | null = null;
-
-    // Process the content
-    let contentIndex = 0;
-    for (const tag of tagMatches) {
-      const tagName = tag.replace(/<\/?([a-z0-9]+).*/i, "$1").toLowerCase();
-      const isClosingTag = tag.startsWith("</");
-
-      if (!isClosingTag) {
-        // Opening tag
-        if (["h1", "h2", "h3", "h4", "h5", "h6"].includes(tagName)) {
-          const content = blocks[contentIndex + 1]?.trim() || "";
-          currentElement = {
-            type: "heading",
-            content: content,
-            level: parseInt(tagName.charAt(1)),
-            inlineElements: parseInlineElements(content),
-          };
-          elements.push(currentElement);
-        } else if (tagName === "p") {
-          const content = blocks[contentIndex + 1]?.trim() || "";
-          currentElement = {
-            type: "paragraph",
-            content: content,
-            inlineElements: parseInlineElements(content),
-          };
-          elements.push(currentElement);
-        } else if (["ul", "ol"].includes(tagName)) {
-          currentList = {
-            type: "list",
-            content: "",
-            items: [],
-          };
-          elements.push(currentList);
-        } else if (tagName === "li" && currentList) {
-          const content = blocks[contentIndex + 1]?.trim() || "";
-          const listItem: ParsedElement = {
-            type: "list-item",
-            content: content,
-            inlineElements: parseInlineElements(content),
-          };
-          currentList.items = currentList.items || [];
-          currentList.items.push(listItem);
-        }
-      } else {
-        // Closing tag
-        if (["ul", "ol"].includes(tagName)) {
-          currentList = null;
-        }
-      }
-
-      contentIndex++;
-    }
+  const { readerSettings } = useAppContext();
+  const typography = useMemo(
+    () => getReaderTypography(readerSettings),
+    [readerSettings]
+  );
 
-    // Add any remaining text content
-    if (blocks.length > 0 && elements.length === 0) {
-      const textContent = cleanHTML.trim();
-      if (textContent) {
-        elements.push({
-          type: "paragraph",
-          content: textContent,
-          inlineElements: parseInlineElements(textContent),
-        });
-      }
-    }
+  const renderInlineElements = (elements: InlineElement[]) =>
+    elements.map((inline, index) => renderInlineElement(inline, index));
 
-    return elements;
-  };
+  const renderInlineElement = (
+    inline: InlineElement,
+    key: number
+  ): React.ReactNode => {
+    const content = inline.children
+      ? renderInlineElements(inline.children)
+      : inline.content;
 
-  const renderInlineElement = (inline: InlineElement, key: number) => {
+    // Plain Text so spans inherit the block's size, font and color
     switch (inline.type) {
       case "bold":
         return (
-          <ThemedText key={key} style={styles.bold}>
-            {inline.content}
-          </ThemedText>
+          <Text key={key} style={styles.bold}>
+            {content}
+          </Text>
         );
       case "italic":
         return (
-          <ThemedText key={key} style={styles.italic}>
-            {inline.content}
-          </ThemedText>
+          <Text key={key} style={styles.italic}>
+            {content}
+          </Text>
         );
       case "underline":
         return (
-          <ThemedText key={key} style={styles.underline}>
-            {inline.content}
-          </ThemedText>
+          <Text key={key} style={styles.underline}>
+            {content}
+          </Text>
+        );
+      case "strikethrough":
+        return (
+          <Text key={key} style={styles.strikethrough}>
+            {content}
+          </Text>
         );
       case "link":
         return (
-          <ThemedText key={key} style={styles.link}>
-            {inline.content}
-          </ThemedText>
+          <Text
+            key={key}
+            style={styles.link}
+            onPress={() => openLink(inline.href)}
+          >
+            {content}
+          </Text>
         );
       case "code":
         return (
-          <ThemedText key={key} style={styles.code}>
-            {inline.content}
-          </ThemedText>
+          <Text key={key} style={[styles.code, typography.code(14)]}>
+            {content}
+          </Text>
         );
       case "lineBreak":
         return (
-          <ThemedText key={key} style={styles.lineBreak}>
+          <Text key={key} style={styles.lineBreak}>
             {"\n"}
-          </ThemedText>
+          </Text>
         );
       case "text":
       default:
-        return <ThemedText key={key}>{inline.content}</ThemedText>;
+        return <Text key={key}>{content}</Text>;
     }
   };
 
-  const renderElement = (element: ParsedElement, index: number) => {
+  const renderCaption = (caption?: InlineElement[]) =>
+    caption && caption.length > 0 ? (
+      <ThemedText style={[typography.body(13), styles.caption]}>
+        {renderInlineElements(caption)}
+      </ThemedText>
+    ) : null;
+
+  const renderElements = (elements: ParsedElement[]) =>
+    elements.map((element, index) => renderElement(element, index));
+
+  const renderElement = (
+    element: ParsedElement,
+    index: number
+  ): React.ReactNode => {
     switch (element.type) {
       case "heading":
         return (
@@ -294,23 +135,25 @@ export const HTMLRenderer: React.FC<HTMLRendererProps> = ({
               element.level === 4 && styles.h4,
               element.level === 5 && styles.h5,
               element.level === 6 && styles.h6,
+              typography.heading(HEADING_SIZES[(element.level || 2) - 1]),
             ]}
           >
             {element.inlineElements
-              ? element.inlineElements.map((inline, inlineIndex) =>
-                  renderInlineElement(inline, inlineIndex)
-                )
+              ? renderInlineElements(element.inlineElements)
               : element.content}
           </ThemedText>
         );
 
       case "paragraph":
+        // Selectable so passages can be copied into bookmark highlights
         return (
-          <ThemedText key={index} style={styles.paragraph}>
+          <ThemedText
+            key={index}
+            style={[styles.paragraph, typography.body(16)]}
+            selectable
+          >
             {element.inlineElements
-              ? element.inlineElements.map((inline, inlineIndex) =>
-                  renderInlineElement(inline, inlineIndex)
-                )
+              ? renderInlineElements(element.inlineElements)
               : element.content}
           </ThemedText>
         );
@@ -320,29 +163,151 @@ export const HTMLRenderer: React.FC<HTMLRendererProps> = ({
           <View key={index} style={styles.list}>
             {element.items?.map((item, itemIndex) => (
               <View key={itemIndex} style={styles.listItem}>
-                <ThemedText style={styles.listBullet}>•</ThemedText>
-                <ThemedText style={styles.listItemText}>
-                  {item.inlineElements
-                    ? item.inlineElements.map((inline, inlineIndex) =>
-                        renderInlineElement(inline, inlineIndex)
-                      )
-                    : item.content}
+                <ThemedText style={[styles.listBullet, typography.body(16)]}>
+                  {element.ordered ? `${itemIndex + 1}.` : "•"}
                 </ThemedText>
+                <View style={styles.listItemBody}>
+                  {item.inlineElements && item.inlineElements.length > 0 && (
+                    <ThemedText
+                      style={[styles.listItemText, typography.body(16)]}
+                    >
+                      {renderInlineElements(item.inlineElements)}
+                    </ThemedText>
+                  )}
+                  {item.children && renderElements(item.children)}
+                </View>
               </View>
             ))}
           </View>
         );
 
+      case "image":
+        return element.image ? (
+          <View key={index} style={styles.figure}>
+            <ContentImage image={element.image} />
+            {renderCaption(element.caption)}
+          </View>
+        ) : null;
+
+      case "gallery":
+        return (
+          <View key={index}>
+            <Gallery images={element.children || []} />
+            {renderCaption(element.caption)}
+          </View>
+        );
+
+      case "figure":
+        return (
+          <View key={index} style={styles.figure}>
+            {renderElements(element.children || [])}
+            {renderCaption(element.caption)}
+          </View>
+        );
+
+      case "blockquote":
+        return (
+          <View key={index} style={styles.blockquote}>
+            {renderElements(element.children || [])}
+            {element.citation ? (
+              <ThemedText style={[styles.citation, typography.body(14)]}>
+                — {element.citation}
+              </ThemedText>
+            ) : null}
+          </View>
+        );
+
+      case "pullquote":
+        return (
+          <PullQuote key={index} citation={element.citation}>
+            {renderElements(element.children || [])}
+          </PullQuote>
+        );
+
+      case "preformatted":
+      case "code":
+        return (
+          <CodeBlock
+            key={index}
+            code={element.content}
+            textStyle={typography.code(14)}
+          />
+        );
+
+      case "buttons":
+        return (
+          <ButtonGroup
+            key={index}
+            buttons={element.buttons || []}
+            onPress={openLink}
+          />
+        );
+
+      case "columns":
+        return (
+          <Columns
+            key={index}
+            columns={element.columns || []}
+            renderColumn={renderElements}
+          />
+        );
+
+      case "table":
+        return (
+          <View key={index} style={styles.figure}>
+            <ScrollView horizontal>
+              <View style={styles.table}>
+                {element.rows?.map((row, rowIndex) => (
+                  <View key={rowIndex} style={styles.tableRow}>
+                    {row.cells.map((cell, cellIndex) => (
+                      <View key={cellIndex} style={styles.tableCell}>
+                        <ThemedText
+                          style={[
+                            typography.body(14),
+                            cell.header && styles.bold,
+                          ]}
+                        >
+                          {renderInlineElements(cell.inlineElements)}
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </View>
+                ))}
+              </View>
+            </ScrollView>
+            {renderCaption(element.caption)}
+          </View>
+        );
+
+      case "separator":
+        return <View key={index} style={styles.separator} />;
+
+      case "embed":
+        return element.url ? (
+          <View key={index} style={styles.figure}>
+            <EmbedCard
+              url={element.url}
+              provider={element.provider}
+              title={element.content}
+              onPress={openLink}
+            />
+            {renderCaption(element.caption)}
+          </View>
+        ) : null;
+
       default:
         return null;
     }
   };
 
-  const parsedElements = parseHTML(htmlContent);
+  const parsedElements = useMemo(
+    () => parseContent(htmlContent),
+    [htmlContent]
+  );
 
   return (
     <View style={[styles.container, style]}>
-      {parsedElements.map((element, index) => renderElement(element, index))}
+      {renderElements(parsedElements)}
     </View>
   );
 };
@@ -354,35 +319,26 @@ const styles = StyleSheet.create({
   heading: {
     fontWeight: "bold",
     marginVertical: 10,
-    lineHeight: 28,
   },
   h1: {
-    fontSize: 24,
     marginVertical: 15,
   },
   h2: {
-    fontSize: 22,
     marginVertical: 12,
   },
   h3: {
-    fontSize: 20,
     marginVertical: 10,
   },
   h4: {
-    fontSize: 18,
     marginVertical: 8,
   },
   h5: {
-    fontSize: 16,
     marginVertical: 6,
   },
   h6: {
-    fontSize: 14,
     marginVertical: 4,
   },
   paragraph: {
-    fontSize: 16,
-    lineHeight: 24,
     marginVertical: 8,
     opacity: 0.9,
   },
@@ -396,16 +352,54 @@ const styles = StyleSheet.create({
     marginVertical: 2,
   },
   listBullet: {
-    fontSize: 16,
     marginRight: 8,
     opacity: 0.7,
   },
-  listItemText: {
-    fontSize: 16,
-    lineHeight: 24,
+  listItemBody: {
     flex: 1,
+  },
+  listItemText: {
     opacity: 0.9,
   },
+  figure: {
+    marginVertical: 12,
+  },
+  caption: {
+    marginTop: 6,
+    opacity: 0.6,
+    textAlign: "center",
+  },
+  blockquote: {
+    borderLeftWidth: 4,
+    borderLeftColor: "#007AFF",
+    paddingLeft: 16,
+    marginVertical: 12,
+  },
+  citation: {
+    fontStyle: "italic",
+    opacity: 0.7,
+    marginTop: 4,
+  },
+  table: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderLeftWidth: StyleSheet.hairlineWidth,
+    borderColor: "rgba(128,128,128,0.4)",
+  },
+  tableRow: {
+    flexDirection: "row",
+  },
+  tableCell: {
+    width: 140,
+    padding: 8,
+    borderRightWidth: StyleSheet.hairlineWidth,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderColor: "rgba(128,128,128,0.4)",
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: "rgba(128,128,128,0.5)",
+    marginVertical: 20,
+  },
   bold: {
     fontWeight: "bold",
   },
@@ -415,6 +409,9 @@ const styles = StyleSheet.create({
   underline: {
     textDecorationLine: "underline",
   },
+  strikethrough: {
+    textDecorationLine: "line-through",
+  },
   link: {
     color: "#007AFF",
     textDecorationLine: "underline",
@@ -425,7 +422,6 @@ const styles = StyleSheet.create({
     paddingHorizontal: 4,
     paddingVertical: 2,
     borderRadius: 4,
-    fontSize: 14,
   },
   lineBreak: {
     lineHeight: 1,
@@ -1,14 +1,23 @@
 import React from "react";
-import { View, StyleSheet, Switch, TouchableOpacity } from "react-native";
+import {
+  View,
+  StyleSheet,
+  Switch,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
 import { ThemedText } from "./ThemedText";
 import { ThemedView } from "./ThemedView";
 import { useTheme } from "@/contexts/AppContext";
 import { Ionicons } from "@expo/vector-icons";
 import { useNotifications } from "@/providers/NotificationProvider";
+import { notificationPreferencesService } from "@/services/notificationPreferences";
 import {
   NotificationPreferences,
   NotificationFrequency,
+  QuietHoursWindow,
 } from "@/types/notifications";
+import { getQuietHoursWindow } from "@/utils/notificationHelpers";
 import { SimpleTimePicker } from "./TimePicker";
 import { CompactFrequencySelector } from "./NotificationFrequency";
 
@@ -68,6 +77,15 @@ export function NotificationSettingsItem({
   );
 }
 
+// Monday first; 0 is Sunday as in Date.getDay()
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// 7 January 2024 was a Sunday
+const getWeekdayName = (weekday: number) =>
+  new Date(2024, 0, 7 + weekday).toLocaleDateString(undefined, {
+    weekday: "long",
+  });
+
 interface QuietHoursSettingsProps {
   preferences: NotificationPreferences;
   onPreferencesChange: (updates: Partial<NotificationPreferences>) => void;
@@ -80,6 +98,60 @@ export function QuietHoursSettings({
   const theme = useTheme();
   const colors = theme.colors;
 
+  const updateQuietHours = (
+    updates: Partial<NotificationPreferences["quietHours"]>
+  ) =>
+    onPreferencesChange({
+      quietHours: { ...preferences.quietHours, ...updates },
+    });
+
+  // Null turns quiet hours off for quiet periods starting that day
+  const updateWeekday = (weekday: number, window: QuietHoursWindow | null) =>
+    updateQuietHours({
+      days: { ...preferences.quietHours.days, [weekday]: window },
+    });
+
+  const renderWeekday = (weekday: number, window: QuietHoursWindow | null) => (
+    <View
+      key={weekday}
+      style={[styles.weekdayRow, { borderBottomColor: colors.border }]}
+    >
+      <View style={styles.weekdayHeader}>
+        <ThemedText style={styles.timeLabel}>
+          {getWeekdayName(weekday)}
+        </ThemedText>
+        <Switch
+          value={window !== null}
+          onValueChange={(on) =>
+            updateWeekday(
+              weekday,
+              on
+                ? {
+                    start: preferences.quietHours.start,
+                    end: preferences.quietHours.end,
+                  }
+                : null
+            )
+          }
+          trackColor={{ false: colors.card, true: colors.primary }}
+        />
+      </View>
+      {window && (
+        <View style={styles.weekdayTimes}>
+          <SimpleTimePicker
+            value={window.start}
+            onChange={(start) => updateWeekday(weekday, { ...window, start })}
+          />
+          <ThemedText style={{ color: colors.textSecondary }}>–</ThemedText>
+          <SimpleTimePicker
+            value={window.end}
+            onChange={(end) => updateWeekday(weekday, { ...window, end })}
+          />
+        </View>
+      )}
+    </View>
+  );
+
   return (
     <ThemedView
       style={[styles.section, { backgroundColor: colors.background }]}
@@ -111,7 +183,7 @@ export function QuietHoursSettings({
               }
             />
           </View>
-          <View style={styles.timeRow}>
+          <View style={[styles.timeRow, { borderBottomColor: colors.border }]}>
             <ThemedText style={styles.timeLabel}>To</ThemedText>
             <SimpleTimePicker
               value={preferences.quietHours.end}
@@ -122,6 +194,30 @@ export function QuietHoursSettings({
               }
             />
           </View>
+
+          <NotificationSettingsItem
+            title='Allow Urgent Breaking News'
+            description='Urgent breaking news comes through during quiet hours'
+            value={!!preferences.quietHours.allowUrgent}
+            onValueChange={(allowUrgent) => updateQuietHours({ allowUrgent })}
+          />
+
+          <NotificationSettingsItem
+            title='Different Hours per Day'
+            description='Change or turn off quiet hours for each day'
+            value={preferences.quietHours.days !== undefined}
+            onValueChange={(perDay) =>
+              updateQuietHours({ days: perDay ? {} : undefined })
+            }
+          />
+
+          {preferences.quietHours.days !== undefined &&
+            WEEKDAY_ORDER.map((weekday) =>
+              renderWeekday(
+                weekday,
+                getQuietHoursWindow(preferences.quietHours, weekday)
+              )
+            )}
         </View>
       )}
     </ThemedView>
@@ -190,13 +286,39 @@ export function NotificationPreferencesSection({
   const theme = useTheme();
   const colors = theme.colors;
 
-  // Get frequency settings (would be stored separately)
-  const [breakingNewsFrequency, setBreakingNewsFrequency] =
-    React.useState<NotificationFrequency>("realtime");
-  const [newArticlesFrequency, setNewArticlesFrequency] =
-    React.useState<NotificationFrequency>("realtime");
-  const [recommendedFrequency, setRecommendedFrequency] =
-    React.useState<NotificationFrequency>("daily");
+  // Stored apart from the preferences, keyed by notification type
+  const [frequencies, setFrequencies] = React.useState<
+    Record<string, NotificationFrequency>
+  >({
+    breakingNews: "realtime",
+    newArticles: "realtime",
+    recommendedContent: "daily",
+  });
+
+  React.useEffect(() => {
+    notificationPreferencesService
+      .getFrequencySettings()
+      .then((stored) =>
+        setFrequencies((current) => ({ ...current, ...stored }))
+      );
+  }, []);
+
+  const handleFrequencyChange = async (
+    type: string,
+    frequency: NotificationFrequency
+  ) => {
+    const previous = frequencies[type];
+    setFrequencies((current) => ({ ...current, [type]: frequency }));
+
+    const saved = await notificationPreferencesService.updateFrequency(
+      type,
+      frequency
+    );
+    if (!saved) {
+      setFrequencies((current) => ({ ...current, [type]: previous }));
+      Alert.alert("Error", "Failed to update notification frequency");
+    }
+  };
 
   return (
     <ThemedView
@@ -242,8 +364,10 @@ export function NotificationPreferencesSection({
         <View style={styles.frequencyItem}>
           <ThemedText style={styles.frequencyLabel}>Breaking News</ThemedText>
           <CompactFrequencySelector
-            value={breakingNewsFrequency}
-            onChange={setBreakingNewsFrequency}
+            value={frequencies.breakingNews}
+            onChange={(frequency) =>
+              handleFrequencyChange("breakingNews", frequency)
+            }
             disabled={!preferences.enabled || !preferences.breakingNews}
           />
         </View>
@@ -251,8 +375,10 @@ export function NotificationPreferencesSection({
         <View style={styles.frequencyItem}>
           <ThemedText style={styles.frequencyLabel}>New Articles</ThemedText>
           <CompactFrequencySelector
-            value={newArticlesFrequency}
-            onChange={setNewArticlesFrequency}
+            value={frequencies.newArticles}
+            onChange={(frequency) =>
+              handleFrequencyChange("newArticles", frequency)
+            }
             disabled={!preferences.enabled || !preferences.newArticles}
           />
         </View>
@@ -260,8 +386,10 @@ export function NotificationPreferencesSection({
         <View style={styles.frequencyItem}>
           <ThemedText style={styles.frequencyLabel}>Recommended</ThemedText>
           <CompactFrequencySelector
-            value={recommendedFrequency}
-            onChange={setRecommendedFrequency}
+            value={frequencies.recommendedContent}
+            onChange={(frequency) =>
+              handleFrequencyChange("recommendedContent", frequency)
+            }
             disabled={!preferences.enabled || !preferences.recommendedContent}
           />
         </View>
@@ -414,6 +542,21 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     borderBottomWidth: 1,
   },
+  weekdayRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  weekdayHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  weekdayTimes: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 8,
+  },
   timeLabel: {
     fontSize: 16,
   },
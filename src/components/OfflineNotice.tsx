@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "./ThemedText";
+import { useAppContext } from "@/contexts/AppContext";
+import postCacheService from "@/services/postCache";
+import i18nService from "@/services/i18n";
+
+interface OfflineNoticeProps {
+  style?: any;
+}
+
+// Shown while the site is unreachable and cached copies are on screen
+export function OfflineNotice({ style }: OfflineNoticeProps) {
+  const { themeState } = useAppContext();
+  const [offline, setOffline] = useState(postCacheService.isOffline());
+
+  useEffect(() => {
+    const unsubscribe = postCacheService.subscribe((key) => {
+      if (!key) setOffline(postCacheService.isOffline());
+    });
+    return unsubscribe;
+  }, []);
+
+  if (!offline) return null;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: themeState.colors.card },
+        { borderColor: themeState.colors.border },
+        style,
+      ]}
+    >
+      <Ionicons
+        name='cloud-offline-outline'
+        size={18}
+        color={themeState.colors.textSecondary}
+      />
+      <ThemedText variant='secondary' style={styles.text}>
+        {i18nService.t("offline.savedCopy")}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+  },
+});
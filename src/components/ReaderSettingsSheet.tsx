@@ -0,0 +1,298 @@
+import React from "react";
+import {
+  View,
+  Modal,
+  Switch,
+  StyleSheet,
+  PixelRatio,
+  TouchableOpacity,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "./ThemedText";
+import { ThemedView } from "./ThemedView";
+import { useAppContext, DEFAULT_READER_SETTINGS } from "@/contexts/AppContext";
+import i18nService, { TranslationKey } from "@/services/i18n";
+import { ReaderFontFamily } from "@/types";
+
+interface ReaderSettingsSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface Option<T> {
+  value: T;
+  label: TranslationKey;
+}
+
+const FONT_SCALES = [0.85, 1, 1.15, 1.3, 1.5];
+
+const LINE_HEIGHTS: Option<number>[] = [
+  { value: 1.3, label: "reader.compact" },
+  { value: 1.5, label: "reader.normal" },
+  { value: 1.8, label: "reader.relaxed" },
+];
+
+const FONT_FAMILIES: Option<ReaderFontFamily>[] = [
+  { value: "sans", label: "reader.sans" },
+  { value: "serif", label: "reader.serif" },
+];
+
+// Only matters on wide screens; phones are narrower than all of these
+const MAX_WIDTHS: Option<number | null>[] = [
+  { value: 600, label: "reader.narrow" },
+  { value: 720, label: "reader.medium" },
+  { value: 900, label: "reader.wide" },
+  { value: null, label: "reader.full" },
+];
+
+export function ReaderSettingsSheet({
+  visible,
+  onClose,
+}: ReaderSettingsSheetProps) {
+  const { themeState, readerSettings, updateReaderSettings } = useAppContext();
+  const colors = themeState.colors;
+
+  const scaleIndex = FONT_SCALES.indexOf(readerSettings.fontScale);
+  // What the reader actually sees, OS accessibility text size included
+  const effectiveScale = Math.round(
+    readerSettings.fontScale * PixelRatio.getFontScale() * 100
+  );
+
+  const stepFontScale = (step: number) => {
+    const current = scaleIndex === -1 ? 1 : scaleIndex;
+    const next = Math.min(
+      FONT_SCALES.length - 1,
+      Math.max(0, current + step)
+    );
+    updateReaderSettings({ fontScale: FONT_SCALES[next] });
+  };
+
+  const renderOptions = <T,>(
+    options: Option<T>[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.segments}>
+      {options.map((option) => {
+        const active = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[
+              styles.segment,
+              { borderColor: colors.border },
+              active && {
+                backgroundColor: colors.primary,
+                borderColor: colors.primary,
+              },
+            ]}
+            onPress={() => onSelect(option.value)}
+          >
+            <ThemedText
+              style={[styles.segmentText, active && styles.activeSegmentText]}
+            >
+              {i18nService.t(option.label)}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType='slide'
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <ThemedView
+        style={[
+          styles.sheet,
+          { backgroundColor: colors.background, borderColor: colors.border },
+        ]}
+      >
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>
+            {i18nService.t("reader.title")}
+          </ThemedText>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name='close' size={24} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        {/* Text size */}
+        <ThemedText style={styles.label}>
+          {i18nService.t("reader.textSize")}
+        </ThemedText>
+        <View style={styles.sizeRow}>
+          <TouchableOpacity
+            style={[styles.sizeButton, { borderColor: colors.border }]}
+            onPress={() => stepFontScale(-1)}
+            disabled={scaleIndex === 0}
+          >
+            <ThemedText style={styles.smallA}>A</ThemedText>
+          </TouchableOpacity>
+          <View style={styles.sizeValue}>
+            <ThemedText style={styles.sizePercent}>
+              {effectiveScale}%
+            </ThemedText>
+            {PixelRatio.getFontScale() !== 1 && (
+              <ThemedText variant='secondary' style={styles.hint}>
+                {i18nService.t("reader.systemScale")}
+              </ThemedText>
+            )}
+          </View>
+          <TouchableOpacity
+            style={[styles.sizeButton, { borderColor: colors.border }]}
+            onPress={() => stepFontScale(1)}
+            disabled={scaleIndex === FONT_SCALES.length - 1}
+          >
+            <ThemedText style={styles.largeA}>A</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <ThemedText style={styles.label}>
+          {i18nService.t("reader.lineSpacing")}
+        </ThemedText>
+        {renderOptions(LINE_HEIGHTS, readerSettings.lineHeight, (lineHeight) =>
+          updateReaderSettings({ lineHeight })
+        )}
+
+        <ThemedText style={styles.label}>
+          {i18nService.t("reader.font")}
+        </ThemedText>
+        {renderOptions(FONT_FAMILIES, readerSettings.fontFamily, (fontFamily) =>
+          updateReaderSettings({ fontFamily })
+        )}
+
+        <ThemedText style={styles.label}>
+          {i18nService.t("reader.width")}
+        </ThemedText>
+        {renderOptions(MAX_WIDTHS, readerSettings.maxWidth, (maxWidth) =>
+          updateReaderSettings({ maxWidth })
+        )}
+
+        <View style={styles.switchRow}>
+          <ThemedText style={styles.switchLabel}>
+            {i18nService.t("reader.justify")}
+          </ThemedText>
+          <Switch
+            value={readerSettings.justify}
+            onValueChange={(justify) => updateReaderSettings({ justify })}
+            trackColor={{ false: colors.card, true: colors.primary }}
+          />
+        </View>
+
+        <TouchableOpacity
+          style={styles.resetButton}
+          onPress={() => updateReaderSettings(DEFAULT_READER_SETTINGS)}
+        >
+          <ThemedText style={{ color: colors.primary }}>
+            {i18nService.t("reader.reset")}
+          </ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: 1,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  closeButton: {
+    padding: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    opacity: 0.7,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sizeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  sizeButton: {
+    width: 56,
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  smallA: {
+    fontSize: 14,
+  },
+  largeA: {
+    fontSize: 22,
+  },
+  sizeValue: {
+    flex: 1,
+    alignItems: "center",
+  },
+  sizePercent: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+  },
+  segments: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  segmentText: {
+    fontSize: 14,
+  },
+  activeSegmentText: {
+    color: "white",
+    fontWeight: "600",
+  },
+  switchRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 16,
+  },
+  switchLabel: {
+    fontSize: 16,
+  },
+  resetButton: {
+    alignItems: "center",
+    marginTop: 24,
+  },
+});
@@ -0,0 +1,56 @@
+import React from "react";
+import { View, StyleSheet, TouchableOpacity } from "react-native";
+import { ThemedText } from "../ThemedText";
+import { ButtonLink } from "@/types";
+import { useAppContext } from "@/contexts/AppContext";
+
+interface ButtonGroupProps {
+  buttons: ButtonLink[];
+  onPress: (url?: string) => void;
+}
+
+export default function ButtonGroup({ buttons, onPress }: ButtonGroupProps) {
+  const { themeState } = useAppContext();
+
+  return (
+    <View style={styles.container}>
+      {buttons.map((button, index) => (
+        <TouchableOpacity
+          key={index}
+          style={[
+            styles.button,
+            { backgroundColor: themeState.colors.primary },
+            !button.url && styles.disabled,
+          ]}
+          onPress={() => onPress(button.url)}
+          disabled={!button.url}
+          activeOpacity={0.8}
+        >
+          <ThemedText style={styles.buttonText}>{button.label}</ThemedText>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+    marginVertical: 12,
+  },
+  button: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 24,
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
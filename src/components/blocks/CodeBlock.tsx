@@ -0,0 +1,40 @@
+import React from "react";
+import { ScrollView, StyleSheet, StyleProp, TextStyle } from "react-native";
+import { ThemedText } from "../ThemedText";
+
+interface CodeBlockProps {
+  code: string;
+  textStyle?: StyleProp<TextStyle>;
+}
+
+// Code keeps its line breaks and scrolls sideways instead of wrapping
+export default function CodeBlock({ code, textStyle }: CodeBlockProps) {
+  return (
+    <ScrollView
+      horizontal
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      showsHorizontalScrollIndicator
+    >
+      <ThemedText style={[styles.code, textStyle]} selectable>
+        {code}
+      </ThemedText>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "rgba(0,0,0,0.06)",
+    borderRadius: 8,
+    marginVertical: 12,
+  },
+  content: {
+    padding: 12,
+  },
+  code: {
+    fontFamily: "monospace",
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,39 @@
+import React from "react";
+import { View, StyleSheet, useWindowDimensions } from "react-native";
+import { ParsedElement } from "@/types";
+
+// Below this width columns are stacked, as the block editor does on phones
+const STACK_BREAKPOINT = 600;
+
+interface ColumnsProps {
+  columns: ParsedElement[][];
+  renderColumn: (blocks: ParsedElement[]) => React.ReactNode;
+}
+
+export default function Columns({ columns, renderColumn }: ColumnsProps) {
+  const { width } = useWindowDimensions();
+  const stacked = width < STACK_BREAKPOINT;
+
+  return (
+    <View style={[styles.container, !stacked && styles.row]}>
+      {columns.map((blocks, index) => (
+        <View key={index} style={!stacked && styles.column}>
+          {renderColumn(blocks)}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  column: {
+    flex: 1,
+  },
+});
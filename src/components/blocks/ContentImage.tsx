@@ -0,0 +1,46 @@
+import React from "react";
+import { StyleSheet, PixelRatio, useWindowDimensions } from "react-native";
+import { Image, ImageContentFit } from "expo-image";
+import { ParsedImage } from "@/types";
+import { selectSrcsetCandidate } from "@/utils/htmlParser";
+
+interface ContentImageProps {
+  image: ParsedImage;
+  displayWidth?: number; // Points; defaults to the window width
+  contentFit?: ImageContentFit;
+  style?: any;
+}
+
+export default function ContentImage({
+  image,
+  displayWidth,
+  contentFit = "contain",
+  style,
+}: ContentImageProps) {
+  const { width: windowWidth } = useWindowDimensions();
+  // Ask srcset for enough physical pixels to stay sharp on this screen
+  const uri = selectSrcsetCandidate(
+    image.srcset,
+    (displayWidth || windowWidth) * PixelRatio.get(),
+    image.src
+  );
+  const aspectRatio =
+    image.width && image.height ? image.width / image.height : 16 / 9;
+
+  return (
+    <Image
+      source={{ uri }}
+      style={[styles.image, { aspectRatio }, style]}
+      contentFit={contentFit}
+      transition={200}
+      accessibilityLabel={image.alt}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    width: "100%",
+    borderRadius: 8,
+  },
+});
@@ -0,0 +1,142 @@
+import React from "react";
+import { View, StyleSheet, TouchableOpacity } from "react-native";
+import { Image } from "expo-image";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "../ThemedText";
+import { EmbedProvider } from "@/types";
+import { getHostname, getYouTubeVideoId } from "@/utils/urlUtils";
+import { useAppContext } from "@/contexts/AppContext";
+
+interface EmbedCardProps {
+  url: string;
+  provider?: EmbedProvider;
+  title?: string; // iframe title, or the tweet text
+  onPress: (url: string) => void;
+}
+
+// Embeds are shown as preview cards that open the original, rather than
+// loading third-party players inside the article
+export default function EmbedCard({
+  url,
+  provider = "other",
+  title,
+  onPress,
+}: EmbedCardProps) {
+  const { themeState } = useAppContext();
+  const videoId = provider === "youtube" ? getYouTubeVideoId(url) : null;
+
+  if (videoId) {
+    return (
+      <TouchableOpacity
+        style={[styles.card, { borderColor: themeState.colors.border }]}
+        onPress={() => onPress(url)}
+        activeOpacity={0.8}
+      >
+        <View>
+          <Image
+            source={{
+              uri: `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`,
+            }}
+            style={styles.thumbnail}
+            contentFit='cover'
+          />
+          <View style={styles.playOverlay}>
+            <Ionicons name='logo-youtube' size={56} color='#FF0000' />
+          </View>
+        </View>
+        <View style={styles.body}>
+          {title ? (
+            <ThemedText style={styles.title} numberOfLines={2}>
+              {title}
+            </ThemedText>
+          ) : null}
+          <ThemedText variant='secondary' style={styles.host}>
+            YouTube
+          </ThemedText>
+        </View>
+      </TouchableOpacity>
+    );
+  }
+
+  if (provider === "twitter") {
+    return (
+      <TouchableOpacity
+        style={[styles.card, { borderColor: themeState.colors.border }]}
+        onPress={() => onPress(url)}
+        activeOpacity={0.8}
+      >
+        <View style={styles.body}>
+          <View style={styles.providerRow}>
+            <Ionicons
+              name='logo-twitter'
+              size={20}
+              color={themeState.colors.text}
+            />
+            <ThemedText variant='secondary' style={styles.host}>
+              {getHostname(url)}
+            </ThemedText>
+          </View>
+          {title ? (
+            <ThemedText style={styles.tweet} numberOfLines={6}>
+              {title}
+            </ThemedText>
+          ) : null}
+        </View>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <TouchableOpacity
+      style={[styles.card, { borderColor: themeState.colors.border }]}
+      onPress={() => onPress(url)}
+      activeOpacity={0.8}
+    >
+      <View style={styles.body}>
+        <ThemedText style={styles.title} numberOfLines={2}>
+          {title || url}
+        </ThemedText>
+        <ThemedText style={[styles.host, { color: themeState.colors.primary }]}>
+          {getHostname(url)} ›
+        </ThemedText>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: "hidden",
+  },
+  thumbnail: {
+    width: "100%",
+    aspectRatio: 16 / 9,
+  },
+  playOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  body: {
+    padding: 16,
+    gap: 6,
+  },
+  providerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  tweet: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  host: {
+    fontSize: 13,
+  },
+});
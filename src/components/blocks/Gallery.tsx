@@ -0,0 +1,210 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Modal,
+  TouchableOpacity,
+  useWindowDimensions,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "../ThemedText";
+import ContentImage from "./ContentImage";
+import { ParsedElement } from "@/types";
+import { getInlineText } from "@/utils/contentParser";
+
+interface GalleryProps {
+  images: ParsedElement[]; // "image" elements, optionally captioned
+}
+
+const getCaption = (image?: ParsedElement) =>
+  image?.caption ? getInlineText(image.caption).trim() : "";
+
+// Swipeable strip of gallery images; tapping one opens a fullscreen
+// lightbox that can be swiped through as well
+export default function Gallery({ images }: GalleryProps) {
+  const { width: windowWidth, height: windowHeight } = useWindowDimensions();
+  const [width, setWidth] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const slides = images.filter((item) => item.image);
+  if (slides.length === 0) return null;
+
+  // Size the strip by the first image so it doesn't jump while swiping
+  const first = slides[0].image!;
+  const aspectRatio =
+    first.width && first.height ? first.width / first.height : 4 / 3;
+  const activeCaption = getCaption(slides[activeIndex]);
+
+  return (
+    <View
+      style={styles.container}
+      onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+    >
+      {width > 0 && (
+        <FlatList
+          data={slides}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          keyExtractor={(_, index) => index.toString()}
+          onMomentumScrollEnd={(event) =>
+            setActiveIndex(
+              Math.round(event.nativeEvent.contentOffset.x / width)
+            )
+          }
+          renderItem={({ item, index }) => (
+            <TouchableOpacity
+              activeOpacity={0.9}
+              onPress={() => setLightboxIndex(index)}
+            >
+              <ContentImage
+                image={item.image!}
+                displayWidth={width}
+                contentFit='cover'
+                style={[styles.slide, { width, aspectRatio }]}
+              />
+            </TouchableOpacity>
+          )}
+        />
+      )}
+
+      {slides.length > 1 && (
+        <View style={styles.dots}>
+          {slides.map((_, index) => (
+            <View
+              key={index}
+              style={[styles.dot, index === activeIndex && styles.activeDot]}
+            />
+          ))}
+        </View>
+      )}
+
+      {activeCaption ? (
+        <ThemedText style={styles.caption}>{activeCaption}</ThemedText>
+      ) : null}
+
+      <Modal
+        visible={lightboxIndex !== null}
+        animationType='fade'
+        onRequestClose={() => setLightboxIndex(null)}
+        supportedOrientations={["portrait", "landscape"]}
+      >
+        <View style={styles.lightbox}>
+          <FlatList
+            data={slides}
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            initialScrollIndex={lightboxIndex ?? 0}
+            getItemLayout={(_, index) => ({
+              length: windowWidth,
+              offset: windowWidth * index,
+              index,
+            })}
+            keyExtractor={(_, index) => index.toString()}
+            onMomentumScrollEnd={(event) =>
+              setLightboxIndex(
+                Math.round(event.nativeEvent.contentOffset.x / windowWidth)
+              )
+            }
+            renderItem={({ item }) => (
+              <View
+                style={[
+                  styles.lightboxPage,
+                  { width: windowWidth, height: windowHeight },
+                ]}
+              >
+                <ContentImage
+                  image={item.image!}
+                  contentFit='contain'
+                  style={{ width: windowWidth, height: windowHeight * 0.8 }}
+                />
+              </View>
+            )}
+          />
+
+          <SafeAreaView style={styles.lightboxOverlay} pointerEvents='box-none'>
+            <View style={styles.lightboxHeader}>
+              <ThemedText style={styles.lightboxText}>
+                {(lightboxIndex ?? 0) + 1} / {slides.length}
+              </ThemedText>
+              <TouchableOpacity
+                onPress={() => setLightboxIndex(null)}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name='close' size={28} color='white' />
+              </TouchableOpacity>
+            </View>
+            {getCaption(slides[lightboxIndex ?? 0]) ? (
+              <ThemedText style={[styles.lightboxText, styles.lightboxCaption]}>
+                {getCaption(slides[lightboxIndex ?? 0])}
+              </ThemedText>
+            ) : null}
+          </SafeAreaView>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 12,
+  },
+  slide: {
+    borderRadius: 0,
+  },
+  dots: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 6,
+    marginTop: 8,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "rgba(128,128,128,0.4)",
+  },
+  activeDot: {
+    backgroundColor: "#007AFF",
+  },
+  caption: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 6,
+    opacity: 0.6,
+    textAlign: "center",
+  },
+  lightbox: {
+    flex: 1,
+    backgroundColor: "black",
+  },
+  lightboxPage: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  lightboxOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "space-between",
+  },
+  lightboxHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  lightboxText: {
+    color: "white",
+    fontSize: 15,
+  },
+  lightboxCaption: {
+    textAlign: "center",
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+});
@@ -0,0 +1,56 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { ThemedText } from "../ThemedText";
+import { useAppContext } from "@/contexts/AppContext";
+
+interface PullQuoteProps {
+  citation?: string;
+  children: React.ReactNode;
+}
+
+export default function PullQuote({ citation, children }: PullQuoteProps) {
+  const { themeState } = useAppContext();
+
+  return (
+    <View
+      style={[styles.container, { borderColor: themeState.colors.primary }]}
+    >
+      <ThemedText style={[styles.mark, { color: themeState.colors.primary }]}>
+        “
+      </ThemedText>
+      <View style={styles.quote}>{children}</View>
+      {citation ? (
+        <ThemedText variant='secondary' style={styles.citation}>
+          {citation}
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: 3,
+    borderBottomWidth: 3,
+    paddingVertical: 16,
+    paddingHorizontal: 8,
+    marginVertical: 20,
+    alignItems: "center",
+  },
+  mark: {
+    fontSize: 48,
+    lineHeight: 48,
+    fontWeight: "bold",
+  },
+  quote: {
+    alignSelf: "stretch",
+  },
+  citation: {
+    fontSize: 14,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginTop: 8,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,7 @@
+export { default as ButtonGroup } from './ButtonGroup';
+export { default as CodeBlock } from './CodeBlock';
+export { default as Columns } from './Columns';
+export { default as ContentImage } from './ContentImage';
+export { default as EmbedCard } from './EmbedCard';
+export { default as Gallery } from './Gallery';
+export { default as PullQuote } from './PullQuote';
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import {
   View,
   StyleSheet,
@@ -8,17 +8,21 @@ import {
 } from "react-native";
 import { ThemedText, ThemedView } from "@/components";
 import BlogListItem from "./BlogListItem";
-import { Post } from "@/types";
+import { Post, ReadingProgress } from "@/types";
+import { getPostKey, hasPostKey } from "@/utils/postIdentity";
+import i18nService from "@/services/i18n";
+import { readingProgressService } from "@/services/readingProgress";
 
 interface BlogListProps {
   posts: Post[];
-  bookmarkedIds: Set<number>;
+  bookmarkedKeys: Set<string>; // Keys built with getPostKey
   loading?: boolean;
   refreshing?: boolean;
   onRefresh?: () => void;
   onPostPress: (post: Post) => void;
   onBookmarkPress: (post: Post) => void;
   showBookmark?: boolean;
+  showSource?: boolean; // Badge each post with the site it came from
   ListEmptyComponent?:
     | React.ComponentType<any>
     | React.ReactElement
@@ -31,32 +35,86 @@ interface BlogListProps {
     | undefined;
   contentContainerStyle?: any;
   useFlatList?: boolean; // New prop to control whether to use FlatList
+  // Infinite scroll: FlatList calls onEndReached itself; inside a
+  // ScrollView the parent screen calls it when scrolled near the bottom
+  onEndReached?: () => void;
+  loadingMore?: boolean;
+  hasMore?: boolean;
 }
 
 export default function BlogList({
   posts,
-  bookmarkedIds,
+  bookmarkedKeys,
   loading = false,
   refreshing = false,
   onRefresh,
   onPostPress,
   onBookmarkPress,
   showBookmark = true,
+  showSource = false,
   ListEmptyComponent,
   ListHeaderComponent,
   contentContainerStyle,
   useFlatList = true,
+  onEndReached,
+  loadingMore = false,
+  hasMore = false,
 }: BlogListProps) {
+  // Every list shows read state the same way, so it's loaded here rather
+  // than by each screen like bookmarks are
+  const [readingProgress, setReadingProgress] = useState<
+    Record<string, ReadingProgress>
+  >({});
+
+  useEffect(() => {
+    const loadReadingProgress = async () => {
+      setReadingProgress(await readingProgressService.getProgressMap());
+    };
+
+    loadReadingProgress();
+    return readingProgressService.subscribe(loadReadingProgress);
+  }, []);
+
   const renderPostItem = ({ item }: { item: Post }) => (
     <BlogListItem
       post={item}
       onPress={onPostPress}
       onBookmarkPress={onBookmarkPress}
-      isBookmarked={bookmarkedIds.has(item.id)}
+      isBookmarked={hasPostKey(bookmarkedKeys, item.source_id, item.id)}
       showBookmark={showBookmark}
+      showSource={showSource}
+      readingProgress={readingProgress[getPostKey(item.source_id, item.id)]}
     />
   );
 
+  const renderFooter = () => {
+    if (loadingMore) {
+      return (
+        <View style={styles.footer}>
+          <ActivityIndicator color='#007AFF' />
+        </View>
+      );
+    }
+
+    if (onEndReached && !hasMore && posts.length > 0) {
+      return (
+        <View style={styles.footer}>
+          <ThemedText style={styles.endText}>
+            {i18nService.t("news.endOfResults")}
+          </ThemedText>
+        </View>
+      );
+    }
+
+    return null;
+  };
+
+  const handleEndReached = () => {
+    if (onEndReached && hasMore && !loadingMore) {
+      onEndReached();
+    }
+  };
+
   if (loading && posts.length === 0) {
     return (
       <ThemedView style={styles.loadingContainer}>
@@ -82,7 +140,7 @@ export default function BlogList({
     }
 
     return posts.map((post) => (
-      <View key={post.id}>{renderPostItem({ item: post })}</View>
+      <View key={getPostKey(post.source_id, post.id)}>{renderPostItem({ item: post })}</View>
     ));
   };
 
@@ -92,7 +150,7 @@ export default function BlogList({
         <FlatList
           data={posts}
           renderItem={renderPostItem}
-          keyExtractor={(item) => item.id.toString()}
+          keyExtractor={(item) => getPostKey(item.source_id, item.id)}
           contentContainerStyle={[styles.listContent, contentContainerStyle]}
           showsVerticalScrollIndicator={false}
           refreshControl={
@@ -102,6 +160,9 @@ export default function BlogList({
           }
           ListEmptyComponent={ListEmptyComponent}
           ListHeaderComponent={ListHeaderComponent}
+          ListFooterComponent={renderFooter()}
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
         />
       </View>
     );
@@ -117,6 +178,7 @@ export default function BlogList({
               ListHeaderComponent as React.ComponentType<any>
             ))}
       {renderPostList()}
+      {renderFooter()}
     </View>
   );
 }
@@ -144,6 +206,14 @@ const styles = StyleSheet.create({
     alignItems: "center",
     paddingVertical: 60,
   },
+  footer: {
+    paddingVertical: 20,
+    alignItems: "center",
+  },
+  endText: {
+    fontSize: 14,
+    opacity: 0.5,
+  },
   emptyText: {
     fontSize: 16,
     opacity: 0.6,
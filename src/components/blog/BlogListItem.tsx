@@ -7,8 +7,10 @@ import {
 } from "react-native";
 import { Image } from "expo-image";
 import { ThemedText } from "@/components";
-import { Post } from "@/types";
+import { Post, ReadingProgress } from "@/types";
 import { useAppContext } from "@/contexts/AppContext";
+import i18nService from "@/services/i18n";
+import TagChips from "./TagChips";
 
 interface BlogListItemProps {
   post: Post;
@@ -16,6 +18,8 @@ interface BlogListItemProps {
   onBookmarkPress: (post: Post) => void;
   isBookmarked: boolean;
   showBookmark?: boolean;
+  showSource?: boolean;
+  readingProgress?: ReadingProgress;
 }
 
 export default function BlogListItem({
@@ -24,8 +28,12 @@ export default function BlogListItem({
   onBookmarkPress,
   isBookmarked,
   showBookmark = true,
+  showSource = false,
+  readingProgress,
 }: BlogListItemProps) {
   const { themeState } = useAppContext();
+  const isRead = readingProgress?.finished ?? false;
+  const inProgress = !isRead && (readingProgress?.progress ?? 0) > 0;
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -39,21 +47,48 @@ export default function BlogListItem({
         onPress={() => onPress(post)}
         activeOpacity={0.7}
       >
-        {post.featured_image ? (
-          <Image
-            source={{ uri: post.featured_image }}
-            style={styles.postImage}
-            contentFit="cover"
-          />
-        ) : (
-          <View style={[styles.postImage, styles.postImagePlaceholder]}>
-            <ThemedText style={styles.placeholderText}>No Image</ThemedText>
-          </View>
-        )}
+        <View>
+          {post.featured_image ? (
+            <Image
+              source={{ uri: post.featured_image }}
+              style={[styles.postImage, isRead && styles.readImage]}
+              contentFit="cover"
+            />
+          ) : (
+            <View style={[styles.postImage, styles.postImagePlaceholder]}>
+              <ThemedText style={styles.placeholderText}>No Image</ThemedText>
+            </View>
+          )}
+          {inProgress && (
+            <View style={styles.progressTrack}>
+              <View
+                style={[
+                  styles.progressBar,
+                  {
+                    width: `${Math.round(readingProgress!.progress * 100)}%`,
+                    backgroundColor: themeState.colors.primary,
+                  },
+                ]}
+              />
+            </View>
+          )}
+        </View>
         <View style={styles.postContent}>
+          {showSource && post.source_name && (
+            <View
+              style={[
+                styles.sourceBadge,
+                { backgroundColor: themeState.colors.primary },
+              ]}
+            >
+              <ThemedText style={styles.sourceBadgeText} numberOfLines={1}>
+                {post.source_name}
+              </ThemedText>
+            </View>
+          )}
           <ThemedText
             variant="primary"
-            style={styles.postTitle}
+            style={[styles.postTitle, isRead && styles.readTitle]}
             numberOfLines={3}
           >
             {post.title.rendered.replace(/<[^>]*>/g, "")}
@@ -61,15 +96,35 @@ export default function BlogListItem({
           <ThemedText style={styles.postExcerpt} numberOfLines={2}>
             {post.excerpt.rendered.replace(/<[^>]*>/g, "")}
           </ThemedText>
+          {post.tag_terms && post.tag_terms.length > 0 && (
+            <TagChips
+              tags={post.tag_terms}
+              sourceId={post.source_id}
+              limit={3}
+              style={styles.tags}
+            />
+          )}
           <View style={styles.postMeta}>
             {post.author_name && (
               <ThemedText style={styles.postAuthor}>
                 {post.author_name}
               </ThemedText>
             )}
-            <ThemedText style={styles.postDate}>
-              {formatDate(post.date)}
-            </ThemedText>
+            <View style={styles.postMetaRight}>
+              {isRead && (
+                <ThemedText
+                  style={[
+                    styles.readLabel,
+                    { color: themeState.colors.success },
+                  ]}
+                >
+                  ✓ {i18nService.t("reading.read")}
+                </ThemedText>
+              )}
+              <ThemedText style={styles.postDate}>
+                {formatDate(post.date)}
+              </ThemedText>
+            </View>
           </View>
         </View>
       </TouchableOpacity>
@@ -124,6 +179,20 @@ const styles = StyleSheet.create({
     height: 100,
     backgroundColor: "#f0f0f0",
   },
+  readImage: {
+    opacity: 0.6,
+  },
+  progressTrack: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 4,
+    backgroundColor: "rgba(0,0,0,0.3)",
+  },
+  progressBar: {
+    height: "100%",
+  },
   postImagePlaceholder: {
     justifyContent: "center",
     alignItems: "center",
@@ -137,18 +206,37 @@ const styles = StyleSheet.create({
     padding: 12,
     justifyContent: "space-between",
   },
+  sourceBadge: {
+    alignSelf: "flex-start",
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginBottom: 6,
+    maxWidth: "85%",
+  },
+  sourceBadgeText: {
+    color: "white",
+    fontSize: 11,
+    fontWeight: "600",
+  },
   postTitle: {
     fontSize: 16,
     fontWeight: "bold",
     marginBottom: 5,
     lineHeight: 20,
   },
+  readTitle: {
+    opacity: 0.6,
+  },
   postExcerpt: {
     fontSize: 14,
     opacity: 0.7,
     marginBottom: 8,
     lineHeight: 18,
   },
+  tags: {
+    marginBottom: 8,
+  },
   postMeta: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -158,6 +246,15 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.6,
   },
+  postMetaRight: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  readLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
   postDate: {
     fontSize: 12,
     opacity: 0.6,
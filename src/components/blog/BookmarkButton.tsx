@@ -8,12 +8,15 @@ import { ThemedText } from "@/components";
 interface BookmarkButtonProps {
   isBookmarked: boolean;
   onPress: () => void;
+  // Long-press is used to file the post into collections
+  onLongPress?: () => void;
   variant?: "bottom" | "top";
 }
 
 export default function BookmarkButton({
   isBookmarked,
   onPress,
+  onLongPress,
   variant = "bottom",
 }: BookmarkButtonProps) {
   const buttonStyle = variant === "bottom"
@@ -25,7 +28,11 @@ export default function BookmarkButton({
     : [styles.topActionButtonText, isBookmarked && styles.topBookmarkedButtonText];
 
   return (
-    <TouchableOpacity style={buttonStyle} onPress={onPress}>
+    <TouchableOpacity
+      style={buttonStyle}
+      onPress={onPress}
+      onLongPress={onLongPress}
+    >
       <ThemedText style={textStyle}>
         {isBookmarked ? "✓ Bookmarked" : "⭐ Bookmark"}
       </ThemedText>
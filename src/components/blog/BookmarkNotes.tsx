@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, TouchableOpacity, Alert } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText, ThemedTextInput } from "@/components";
+import { useAppContext } from "@/contexts/AppContext";
+import { bookmarkService } from "@/services";
+import i18nService from "@/services/i18n";
+import { Bookmark } from "@/types";
+
+interface BookmarkNotesProps {
+  bookmark: Bookmark;
+}
+
+export default function BookmarkNotes({ bookmark }: BookmarkNotesProps) {
+  const { themeState } = useAppContext();
+  const colors = themeState.colors;
+  const [note, setNote] = useState(bookmark.note || "");
+  const [highlight, setHighlight] = useState("");
+
+  // Pick up edits made elsewhere, e.g. from the Bookmarks tab
+  useEffect(() => {
+    setNote(bookmark.note || "");
+  }, [bookmark.note]);
+
+  const saveNote = async () => {
+    if (note.trim() === (bookmark.note || "")) return;
+
+    try {
+      await bookmarkService.setNote(bookmark.id, bookmark.source_id, note);
+    } catch (error) {
+      Alert.alert("Error", "Failed to save note");
+    }
+  };
+
+  const addHighlight = async () => {
+    try {
+      await bookmarkService.addHighlight(
+        bookmark.id,
+        bookmark.source_id,
+        highlight
+      );
+      setHighlight("");
+    } catch (error) {
+      Alert.alert("Error", "Failed to save highlight");
+    }
+  };
+
+  return (
+    <View style={[styles.container, { borderColor: colors.border }]}>
+      <ThemedText style={styles.label}>
+        {i18nService.t("bookmarks.notes")}
+      </ThemedText>
+      <ThemedTextInput
+        placeholder={i18nService.t("bookmarks.notePlaceholder")}
+        value={note}
+        onChangeText={setNote}
+        onBlur={saveNote}
+        multiline
+        style={styles.noteInput}
+      />
+
+      <ThemedText style={styles.label}>
+        {i18nService.t("bookmarks.highlights")}
+      </ThemedText>
+      {(bookmark.highlights || []).map((item) => (
+        <View
+          key={item.id}
+          style={[styles.highlight, { borderLeftColor: colors.primary }]}
+        >
+          <ThemedText style={styles.highlightText}>{item.text}</ThemedText>
+          <TouchableOpacity
+            onPress={() =>
+              bookmarkService.removeHighlight(
+                bookmark.id,
+                bookmark.source_id,
+                item.id
+              )
+            }
+            accessibilityLabel={i18nService.t("common.delete")}
+          >
+            <Ionicons name='close' size={18} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <View style={styles.addRow}>
+        <View style={styles.addInput}>
+          <ThemedTextInput
+            placeholder={i18nService.t("bookmarks.highlightPlaceholder")}
+            value={highlight}
+            onChangeText={setHighlight}
+            multiline
+          />
+        </View>
+        <TouchableOpacity
+          style={[styles.addButton, { borderColor: colors.primary }]}
+          onPress={addHighlight}
+          disabled={!highlight.trim()}
+        >
+          <ThemedText style={{ color: colors.primary }}>
+            {i18nService.t("bookmarks.addHighlight")}
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+    paddingTop: 16,
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  noteInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  highlight: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+    borderLeftWidth: 3,
+    paddingLeft: 10,
+    marginBottom: 10,
+  },
+  highlightText: {
+    flex: 1,
+    fontStyle: "italic",
+    lineHeight: 20,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+  },
+  addInput: {
+    flex: 1,
+  },
+  addButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+});
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText, ThemedView, ThemedTextInput } from "@/components";
+import { useAppContext } from "@/contexts/AppContext";
+import { bookmarkService } from "@/services";
+import i18nService from "@/services/i18n";
+import { BookmarkCollection } from "@/types";
+
+interface CollectionPickerProps {
+  visible: boolean;
+  postId: number;
+  sourceId?: string;
+  onClose: () => void;
+}
+
+export default function CollectionPicker({
+  visible,
+  postId,
+  sourceId,
+  onClose,
+}: CollectionPickerProps) {
+  const { themeState } = useAppContext();
+  const colors = themeState.colors;
+  const [collections, setCollections] = useState<BookmarkCollection[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const load = async () => {
+      const [allCollections, bookmark] = await Promise.all([
+        bookmarkService.getCollections(),
+        bookmarkService.getBookmarkById(postId, sourceId),
+      ]);
+      setCollections(allCollections);
+      setSelected(bookmark?.collection_ids || []);
+    };
+    load();
+    setNewName("");
+  }, [visible, postId, sourceId]);
+
+  const toggle = (id: string) => {
+    setSelected((current) =>
+      current.includes(id)
+        ? current.filter((c) => c !== id)
+        : [...current, id]
+    );
+  };
+
+  const createCollection = async () => {
+    try {
+      const collection = await bookmarkService.createCollection(newName);
+      setCollections((current) => [...current, collection]);
+      setSelected((current) => [...current, collection.id]);
+      setNewName("");
+    } catch (error) {
+      Alert.alert(
+        i18nService.t("common.error"),
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  };
+
+  const save = async () => {
+    try {
+      await bookmarkService.setBookmarkCollections(postId, sourceId, selected);
+      onClose();
+    } catch (error) {
+      console.error("Error saving collections:", error);
+      Alert.alert("Error", "Failed to update collections");
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType='slide'
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <ThemedView
+        style={[
+          styles.sheet,
+          { backgroundColor: colors.background, borderColor: colors.border },
+        ]}
+      >
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>
+            {i18nService.t("collections.addTo")}
+          </ThemedText>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name='close' size={24} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.list}>
+          {collections.length === 0 && (
+            <ThemedText variant='secondary' style={styles.emptyText}>
+              {i18nService.t("collections.none")}
+            </ThemedText>
+          )}
+          {collections.map((collection) => {
+            const checked = selected.includes(collection.id);
+            return (
+              <TouchableOpacity
+                key={collection.id}
+                style={[styles.row, { borderColor: colors.border }]}
+                onPress={() => toggle(collection.id)}
+              >
+                <Ionicons
+                  name={checked ? "checkbox" : "square-outline"}
+                  size={22}
+                  color={checked ? colors.primary : colors.textSecondary}
+                />
+                <ThemedText style={styles.rowText}>{collection.name}</ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.createRow}>
+          <View style={styles.createInput}>
+            <ThemedTextInput
+              placeholder={i18nService.t("collections.namePlaceholder")}
+              value={newName}
+              onChangeText={setNewName}
+              onSubmitEditing={createCollection}
+              returnKeyType='done'
+            />
+          </View>
+          <TouchableOpacity
+            style={[styles.createButton, { borderColor: colors.primary }]}
+            onPress={createCollection}
+            disabled={!newName.trim()}
+          >
+            <ThemedText style={{ color: colors.primary }}>
+              {i18nService.t("collections.create")}
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.doneButton, { backgroundColor: colors.primary }]}
+          onPress={save}
+        >
+          <ThemedText style={styles.doneText}>
+            {i18nService.t("common.save")}
+          </ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  sheet: {
+    maxHeight: "70%",
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: 1,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  closeButton: {
+    padding: 4,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  emptyText: {
+    fontSize: 14,
+    paddingVertical: 12,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowText: {
+    fontSize: 16,
+  },
+  createRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 16,
+  },
+  createInput: {
+    flex: 1,
+  },
+  createButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  doneButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 16,
+  },
+  doneText: {
+    color: "white",
+    fontWeight: "600",
+  },
+});
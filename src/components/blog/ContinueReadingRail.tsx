@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, ScrollView, TouchableOpacity } from "react-native";
+import { router } from "expo-router";
+import { Image } from "expo-image";
+import { ThemedText } from "@/components";
+import { ReadingProgress } from "@/types";
+import { useAppContext } from "@/contexts/AppContext";
+import i18nService from "@/services/i18n";
+import { readingProgressService } from "@/services/readingProgress";
+import { getPostKey } from "@/utils/postIdentity";
+
+interface ContinueReadingRailProps {
+  limit?: number;
+  style?: any;
+}
+
+// Unfinished articles, newest first; opening one scrolls back to where the
+// user stopped
+export default function ContinueReadingRail({
+  limit = 10,
+  style,
+}: ContinueReadingRailProps) {
+  const { themeState } = useAppContext();
+  const [entries, setEntries] = useState<ReadingProgress[]>([]);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      setEntries(await readingProgressService.getInProgress(limit));
+    };
+
+    loadEntries();
+    return readingProgressService.subscribe(loadEntries);
+  }, [limit]);
+
+  if (entries.length === 0) return null;
+
+  const handlePress = (entry: ReadingProgress) => {
+    router.push({
+      pathname: "/post/[id]",
+      params: { id: entry.id.toString(), source: entry.source_id, resume: "1" },
+    });
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <ThemedText variant='primary' style={styles.title}>
+        {i18nService.t("reading.continue")}
+      </ThemedText>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.list}
+      >
+        {entries.map((entry) => (
+          <TouchableOpacity
+            key={getPostKey(entry.source_id, entry.id)}
+            style={[styles.card, { backgroundColor: themeState.colors.card }]}
+            onPress={() => handlePress(entry)}
+            activeOpacity={0.8}
+          >
+            {entry.featured_image ? (
+              <Image
+                source={{ uri: entry.featured_image }}
+                style={styles.image}
+                contentFit='cover'
+              />
+            ) : (
+              <View
+                style={[
+                  styles.image,
+                  { backgroundColor: themeState.colors.border },
+                ]}
+              />
+            )}
+            <View style={styles.progressTrack}>
+              <View
+                style={[
+                  styles.progressBar,
+                  {
+                    width: `${Math.round(entry.progress * 100)}%`,
+                    backgroundColor: themeState.colors.primary,
+                  },
+                ]}
+              />
+            </View>
+            <View style={styles.body}>
+              <ThemedText style={styles.cardTitle} numberOfLines={2}>
+                {entry.title}
+              </ThemedText>
+              <ThemedText variant='secondary' style={styles.percent}>
+                {Math.round(entry.progress * 100)}%
+              </ThemedText>
+            </View>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 30,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 15,
+  },
+  list: {
+    gap: 12,
+  },
+  card: {
+    width: 200,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  image: {
+    width: "100%",
+    height: 100,
+  },
+  progressTrack: {
+    height: 4,
+    backgroundColor: "rgba(128,128,128,0.3)",
+  },
+  progressBar: {
+    height: "100%",
+  },
+  body: {
+    padding: 10,
+    gap: 4,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 18,
+  },
+  percent: {
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,73 @@
+import React from "react";
+import { View, StyleSheet, TouchableOpacity } from "react-native";
+import { router } from "expo-router";
+import { ThemedText } from "@/components";
+import { TermReference } from "@/types";
+
+interface TagChip extends TermReference {
+  count?: number;
+}
+
+interface TagChipsProps {
+  tags: TagChip[];
+  sourceId?: string; // Tag ids are only unique within one site
+  limit?: number;
+  showCount?: boolean;
+  style?: any;
+}
+
+export default function TagChips({
+  tags,
+  sourceId,
+  limit,
+  showCount = false,
+  style,
+}: TagChipsProps) {
+  if (tags.length === 0) return null;
+
+  const visibleTags = limit ? tags.slice(0, limit) : tags;
+
+  const handleTagPress = (tag: TagChip) => {
+    router.push({
+      pathname: "/tag/[id]",
+      params: { id: tag.id.toString(), name: tag.name, source: sourceId },
+    });
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      {visibleTags.map((tag) => (
+        <TouchableOpacity
+          key={tag.id}
+          style={styles.chip}
+          onPress={() => handleTagPress(tag)}
+          activeOpacity={0.7}
+        >
+          <ThemedText style={styles.chipText} numberOfLines={1}>
+            #{tag.name}
+            {showCount && tag.count !== undefined ? ` (${tag.count})` : ""}
+          </ThemedText>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  chip: {
+    backgroundColor: "rgba(0,122,255,0.1)",
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+  },
+  chipText: {
+    fontSize: 11,
+    color: "#007AFF",
+    fontWeight: "500",
+  },
+});
@@ -1,4 +1,8 @@
 export { default as BlogList } from './BlogList';
 export { default as BlogListItem } from './BlogListItem';
 export { default as BookmarkButton } from './BookmarkButton';
-export { default as ShareButton } from './ShareButton';
\ No newline at end of file
+export { default as ShareButton } from './ShareButton';
+export { default as TagChips } from './TagChips';
+export { default as ContinueReadingRail } from './ContinueReadingRail';
+export { default as CollectionPicker } from './CollectionPicker';
+export { default as BookmarkNotes } from './BookmarkNotes';
\ No newline at end of file
@@ -3,3 +3,6 @@ export { ThemedText } from "./ThemedText";
 export { ThemedView } from "./ThemedView";
 export { ThemedTextInput } from "./ThemedTextInput";
 export { HTMLRenderer } from "./HTMLRenderer";
+export { OfflineNotice } from "./OfflineNotice";
+
+export { ReaderSettingsSheet } from "./ReaderSettingsSheet";
\ No newline at end of file
@@ -0,0 +1,82 @@
+import Constants from "expo-constants";
+import { SiteBranding } from "@/types/theme";
+import { isHexColor } from "@/utils/colorUtils";
+
+type BrandingOverride = Partial<Omit<SiteBranding, "sourceId" | "fetchedAt">>;
+
+// Per-site branding for white-label builds, keyed by source id or site
+// hostname. Entries win over what the site's /wp-json/ index reports, e.g.
+//   "example.com": { name: "Example Daily", accentColor: "#C8102E" },
+const DEFAULT_BRANDING_OVERRIDES: Record<string, BrandingOverride> = {};
+
+const getText = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+// Keeps the fields that are usable and drops the rest
+const toBrandingOverride = (value: unknown): BrandingOverride | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  const entry = value as Record<string, unknown>;
+  const iconUrl = getText(entry.iconUrl);
+  const override: BrandingOverride = {
+    name: getText(entry.name),
+    description: getText(entry.description),
+    iconUrl: iconUrl && /^https?:\/\//i.test(iconUrl) ? iconUrl : undefined,
+    accentColor: isHexColor(entry.accentColor)
+      ? entry.accentColor.trim()
+      : undefined,
+  };
+
+  (Object.keys(override) as Array<keyof BrandingOverride>).forEach((key) => {
+    if (override[key] === undefined) delete override[key];
+  });
+  return Object.keys(override).length > 0 ? override : null;
+};
+
+// Builds can set the same entries under `extra.branding` in the app config
+// instead of changing this file
+const getConfigOverrides = (): Record<string, BrandingOverride> => {
+  const branding: unknown = Constants.expoConfig?.extra?.branding;
+  if (!branding || typeof branding !== "object" || Array.isArray(branding)) {
+    return {};
+  }
+
+  const overrides: Record<string, BrandingOverride> = {};
+  Object.entries(branding).forEach(([key, value]) => {
+    const override = toBrandingOverride(value);
+    if (override) {
+      overrides[key] = override;
+    } else {
+      console.warn(`Ignoring invalid branding override for "${key}"`);
+    }
+  });
+  return overrides;
+};
+
+const mergeOverrides = (
+  defaults: Record<string, BrandingOverride>,
+  overrides: Record<string, BrandingOverride>
+) =>
+  Object.keys({ ...defaults, ...overrides }).reduce<
+    Record<string, BrandingOverride>
+  >((merged, key) => {
+    merged[key] = { ...defaults[key], ...overrides[key] };
+    return merged;
+  }, {});
+
+export const BRANDING_OVERRIDES = mergeOverrides(
+  DEFAULT_BRANDING_OVERRIDES,
+  getConfigOverrides()
+);
+
+// Accent for sites that report none, for single-site builds
+export const DEFAULT_ACCENT_COLOR = process.env.EXPO_PUBLIC_BRAND_ACCENT_COLOR;
+
+// Set EXPO_PUBLIC_SITE_BRANDING=false to keep the stock colours
+export const SITE_BRANDING_ENABLED =
+  process.env.EXPO_PUBLIC_SITE_BRANDING !== "false";
+
+// How long a site's branding is reused before /wp-json/ is asked again
+export const BRANDING_MAX_AGE = 24 * 60 * 60 * 1000;
@@ -15,6 +15,17 @@ export const NOTIFICATION_KEYS = {
   SCHEDULED_NOTIFICATIONS: "scheduled_notifications",
   ANALYTICS: "notification_analytics",
   CATEGORIES: "notification_categories",
+  NEW_ARTICLE_POLL: "new_article_poll",
+  DIGEST: "notification_digest",
+} as const;
+
+// Notifications about an article carry this category so they get the
+// "Save for later" and "Share" buttons
+export const ARTICLE_NOTIFICATION_CATEGORY = "article";
+
+export const NOTIFICATION_ACTIONS = {
+  SAVE_FOR_LATER: "save_for_later",
+  SHARE: "share",
 } as const;
 
 // Default Notification Channels (Android)
@@ -124,11 +135,17 @@ export const NOTIFICATION_TEMPLATES = {
     title: "Recommended for you",
     body: "{title} might interest you",
   },
-  DAILY_DIGEST: {
-    id: "daily-digest",
-    name: "Daily Digest",
-    title: "Daily News Digest",
-    body: "{count} new articles to read",
+  DIGEST: {
+    id: "digest",
+    name: "Digest",
+    title: "{count} new stories",
+    body: "{titles}",
+  },
+  CATEGORY_DIGEST: {
+    id: "category-digest",
+    name: "Category Digest",
+    title: "{count} new stories in {category}",
+    body: "{titles}",
   },
   TRENDING: {
     id: "trending",
@@ -153,6 +170,13 @@ export const NOTIFICATION_LIMITS = {
   RETRY_DELAY: 5000, // 5 seconds
 } as const;
 
+// When daily and weekly digests go out, in local time
+export const DIGEST_SCHEDULE = {
+  HOUR: 8,
+  WEEKDAY: 1, // Monday
+  MAX_ARTICLES: 100,
+} as const;
+
 // API Endpoints
 export const NOTIFICATION_API_ENDPOINTS = {
   REGISTER_TOKEN: "/api/v1/notifications/register",
@@ -232,6 +256,8 @@ export const DEFAULT_NOTIFICATION_PREFERENCES = {
     end: NOTIFICATION_LIMITS.DEFAULT_QUIET_HOURS_END,
   },
   categories: [] as string[],
+  tags: [] as string[],
+  authors: [] as string[],
   soundEnabled: true,
   vibrationEnabled: true,
   badgeEnabled: true,
@@ -0,0 +1,118 @@
+import { ThemeColors, ThemePalette, ThemeSchedule } from "@/types/theme";
+
+export const THEME_PALETTES: Record<ThemePalette, ThemeColors> = {
+  light: {
+    primary: "#007AFF",
+    background: "#FFFFFF",
+    card: "#F2F2F7",
+    text: "#000000",
+    textSecondary: "#8E8E93",
+    border: "#C6C6C8",
+    error: "#FF3B30",
+    success: "#34C759",
+    warning: "#FF9500",
+    tabBar: "#F2F2F7",
+    tabBarActive: "#007AFF",
+    headerBackground: "#FFFFFF",
+    headerText: "#000000",
+  },
+  dark: {
+    primary: "#0A84FF",
+    background: "#000000",
+    card: "#1C1C1E",
+    text: "#FFFFFF",
+    textSecondary: "#8E8E93",
+    border: "#38383A",
+    error: "#FF453A",
+    success: "#32D74B",
+    warning: "#FF9F0A",
+    tabBar: "#1C1C1E",
+    tabBarActive: "#0A84FF",
+    headerBackground: "#1C1C1E",
+    headerText: "#FFFFFF",
+  },
+  sepia: {
+    primary: "#9C5B2E",
+    background: "#F4ECD8",
+    card: "#EADFC4",
+    text: "#433422",
+    textSecondary: "#7A6A55",
+    border: "#D5C7A6",
+    error: "#B3261E",
+    success: "#4E7D3A",
+    warning: "#B26A00",
+    tabBar: "#EADFC4",
+    tabBarActive: "#9C5B2E",
+    headerBackground: "#F4ECD8",
+    headerText: "#433422",
+  },
+  // Pure black saves power on OLED screens
+  amoled: {
+    primary: "#0A84FF",
+    background: "#000000",
+    card: "#0A0A0A",
+    text: "#E5E5E7",
+    textSecondary: "#8E8E93",
+    border: "#1F1F21",
+    error: "#FF453A",
+    success: "#32D74B",
+    warning: "#FF9F0A",
+    tabBar: "#000000",
+    tabBarActive: "#0A84FF",
+    headerBackground: "#000000",
+    headerText: "#E5E5E7",
+  },
+  highContrastLight: {
+    primary: "#0040DD",
+    background: "#FFFFFF",
+    card: "#FFFFFF",
+    text: "#000000",
+    textSecondary: "#1C1C1E",
+    border: "#000000",
+    error: "#D70015",
+    success: "#248A3D",
+    warning: "#C93400",
+    tabBar: "#FFFFFF",
+    tabBarActive: "#0040DD",
+    headerBackground: "#FFFFFF",
+    headerText: "#000000",
+  },
+  highContrastDark: {
+    primary: "#409CFF",
+    background: "#000000",
+    card: "#000000",
+    text: "#FFFFFF",
+    textSecondary: "#EBEBF5",
+    border: "#FFFFFF",
+    error: "#FF6961",
+    success: "#30DB5B",
+    warning: "#FFB340",
+    tabBar: "#000000",
+    tabBarActive: "#409CFF",
+    headerBackground: "#000000",
+    headerText: "#FFFFFF",
+  },
+};
+
+export const DARK_PALETTES: ThemePalette[] = [
+  "dark",
+  "amoled",
+  "highContrastDark",
+];
+
+// Keep their own colours even when the site has an accent colour
+export const HIGH_CONTRAST_PALETTES: ThemePalette[] = [
+  "highContrastLight",
+  "highContrastDark",
+];
+
+// In the order they are offered in Settings
+export const PALETTE_OPTIONS = Object.keys(THEME_PALETTES) as ThemePalette[];
+
+export const DEFAULT_THEME_SCHEDULE: ThemeSchedule = {
+  enabled: false,
+  lightPalette: "light",
+  darkPalette: "dark",
+  darkFrom: "20:00",
+  lightFrom: "07:00",
+};
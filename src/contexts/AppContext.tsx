@@ -7,41 +7,42 @@ import React, {
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useColorScheme } from "react-native";
-import { Theme, ThemeColors, ThemeState } from "@/types/theme";
+import {
+  Theme,
+  ThemePalette,
+  ThemeState,
+  ThemeSchedule,
+  ReaderSettings,
+  SiteBranding,
+} from "@/types/theme";
 import { Language } from "@/services/i18n";
+import { sourceRegistryService } from "@/services/sourceRegistry";
+import { siteBrandingService } from "@/services/siteBranding";
+import {
+  THEME_PALETTES,
+  DARK_PALETTES,
+  HIGH_CONTRAST_PALETTES,
+  PALETTE_OPTIONS,
+  DEFAULT_THEME_SCHEDULE,
+} from "@/constants/themes";
+import { SITE_BRANDING_ENABLED } from "@/constants/branding";
+import { applyBrandColors } from "@/utils/colorUtils";
+import { isWithinQuietHours } from "@/utils/notificationHelpers";
 
 const THEME_KEY = "app_theme";
+const READER_THEME_KEY = "app_reader_theme";
+const THEME_SCHEDULE_KEY = "app_theme_schedule";
+const READER_SETTINGS_KEY = "app_reader_settings";
 
-const lightColors: ThemeColors = {
-  primary: "#007AFF",
-  background: "#FFFFFF",
-  card: "#F2F2F7",
-  text: "#000000",
-  textSecondary: "#8E8E93",
-  border: "#C6C6C8",
-  error: "#FF3B30",
-  success: "#34C759",
-  warning: "#FF9500",
-  tabBar: "#F2F2F7",
-  tabBarActive: "#007AFF",
-  headerBackground: "#FFFFFF",
-  headerText: "#000000",
-};
+const isTheme = (value: string | null): value is Theme =>
+  value === "system" || PALETTE_OPTIONS.includes(value as ThemePalette);
 
-const darkColors: ThemeColors = {
-  primary: "#0A84FF",
-  background: "#000000",
-  card: "#1C1C1E",
-  text: "#FFFFFF",
-  textSecondary: "#8E8E93",
-  border: "#38383A",
-  error: "#FF453A",
-  success: "#32D74B",
-  warning: "#FF9F0A",
-  tabBar: "#1C1C1E",
-  tabBarActive: "#0A84FF",
-  headerBackground: "#1C1C1E",
-  headerText: "#FFFFFF",
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  fontScale: 1,
+  lineHeight: 1.5,
+  fontFamily: "sans",
+  justify: false,
+  maxWidth: 720,
 };
 
 interface AppContextType {
@@ -49,6 +50,16 @@ interface AppContextType {
   language: Language;
   setTheme: (theme: Theme) => Promise<void>;
   setLanguage: (language: Language) => Promise<void>;
+  // Article screens; null follows the app theme
+  readerTheme: Theme | null;
+  readerThemeState: ThemeState;
+  setReaderTheme: (theme: Theme | null) => Promise<void>;
+  themeSchedule: ThemeSchedule;
+  updateThemeSchedule: (updates: Partial<ThemeSchedule>) => Promise<void>;
+  // Identity of the active source; null until loaded or when disabled
+  branding: SiteBranding | null;
+  readerSettings: ReaderSettings;
+  updateReaderSettings: (updates: Partial<ReaderSettings>) => Promise<void>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -60,27 +71,51 @@ interface AppProviderProps {
 export function AppProvider({ children }: AppProviderProps) {
   const systemColorScheme = useColorScheme();
   const [theme, setThemeState] = useState<Theme>("system");
+  const [readerTheme, setReaderThemeState] = useState<Theme | null>(null);
+  const [themeSchedule, setThemeSchedule] = useState<ThemeSchedule>(
+    DEFAULT_THEME_SCHEDULE
+  );
+  const [now, setNow] = useState(new Date());
+  const [branding, setBranding] = useState<SiteBranding | null>(null);
   const [language, setLanguageState] = useState<Language>("en");
+  const [readerSettings, setReaderSettings] = useState<ReaderSettings>(
+    DEFAULT_READER_SETTINGS
+  );
   const [isInitialized, setIsInitialized] = useState(false);
 
-  const getEffectiveTheme = (currentTheme: Theme): "light" | "dark" => {
+  const getEffectivePalette = (currentTheme: Theme): ThemePalette => {
     if (currentTheme === "system") {
       return systemColorScheme || "light";
     }
     return currentTheme;
   };
 
-  const getThemeColors = (currentTheme: Theme): ThemeColors => {
-    const effectiveTheme = getEffectiveTheme(currentTheme);
-    return effectiveTheme === "dark" ? darkColors : lightColors;
-  };
+  const getThemeState = (
+    currentTheme: Theme,
+    palette: ThemePalette
+  ): ThemeState => {
+    const isDarkMode = DARK_PALETTES.includes(palette);
+    const baseColors = THEME_PALETTES[palette];
+    const colors =
+      branding?.accentColor && !HIGH_CONTRAST_PALETTES.includes(palette)
+        ? applyBrandColors(baseColors, branding.accentColor, isDarkMode)
+        : baseColors;
 
-  const themeState: ThemeState = {
-    theme,
-    colors: getThemeColors(theme),
-    isDarkMode: getEffectiveTheme(theme) === "dark",
+    return { theme: currentTheme, palette, colors, isDarkMode };
   };
 
+  // The dark window can run overnight, like notification quiet hours
+  const appPalette = themeSchedule.enabled
+    ? isWithinQuietHours(now, themeSchedule.darkFrom, themeSchedule.lightFrom)
+      ? themeSchedule.darkPalette
+      : themeSchedule.lightPalette
+    : getEffectivePalette(theme);
+
+  const themeState = getThemeState(theme, appPalette);
+  const readerThemeState = readerTheme
+    ? getThemeState(readerTheme, getEffectivePalette(readerTheme))
+    : themeState;
+
   useEffect(() => {
     loadSettings();
   }, []);
@@ -94,17 +129,71 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   }, [systemColorScheme, isInitialized]);
 
+  useEffect(() => {
+    if (!SITE_BRANDING_ENABLED) return;
+
+    // Rebrand whenever the user switches to another site
+    const loadBranding = async () => {
+      try {
+        const source = await sourceRegistryService.getActiveSource();
+        const siteBranding = await siteBrandingService.getBranding(source);
+        const current = await sourceRegistryService.getActiveSource();
+        // Ignore the result if the source changed while fetching
+        if (current.id === siteBranding.sourceId) {
+          setBranding(siteBranding);
+        }
+      } catch (error) {
+        console.error("Error loading site branding:", error);
+      }
+    };
+
+    loadBranding();
+    return sourceRegistryService.subscribe(loadBranding);
+  }, []);
+
+  useEffect(() => {
+    if (!themeSchedule.enabled) return;
+
+    // Re-check the schedule every minute so the switch happens on time
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [themeSchedule.enabled]);
+
   const loadSettings = async () => {
     try {
       const storedTheme = await AsyncStorage.getItem(THEME_KEY);
-      if (storedTheme && ["light", "dark", "system"].includes(storedTheme)) {
-        setThemeState(storedTheme as Theme);
+      if (isTheme(storedTheme)) {
+        setThemeState(storedTheme);
+      }
+
+      const storedReaderTheme = await AsyncStorage.getItem(READER_THEME_KEY);
+      if (isTheme(storedReaderTheme)) {
+        setReaderThemeState(storedReaderTheme);
+      }
+
+      const storedSchedule = await AsyncStorage.getItem(THEME_SCHEDULE_KEY);
+      if (storedSchedule) {
+        setThemeSchedule({
+          ...DEFAULT_THEME_SCHEDULE,
+          ...JSON.parse(storedSchedule),
+        });
       }
 
       const storedLanguage = await AsyncStorage.getItem("app_language");
       if (storedLanguage && ["en", "id"].includes(storedLanguage)) {
         setLanguageState(storedLanguage as Language);
       }
+
+      const storedReaderSettings = await AsyncStorage.getItem(
+        READER_SETTINGS_KEY
+      );
+      if (storedReaderSettings) {
+        setReaderSettings({
+          ...DEFAULT_READER_SETTINGS,
+          ...JSON.parse(storedReaderSettings),
+        });
+      }
     } catch (error) {
       console.error("Error loading settings:", error);
     } finally {
@@ -121,6 +210,32 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   };
 
+  const setReaderTheme = async (newTheme: Theme | null) => {
+    setReaderThemeState(newTheme);
+    try {
+      if (newTheme) {
+        await AsyncStorage.setItem(READER_THEME_KEY, newTheme);
+      } else {
+        await AsyncStorage.removeItem(READER_THEME_KEY);
+      }
+    } catch (error) {
+      console.error("Error saving reader theme:", error);
+    }
+  };
+
+  const updateThemeSchedule = async (updates: Partial<ThemeSchedule>) => {
+    const newSchedule = { ...themeSchedule, ...updates };
+    setThemeSchedule(newSchedule);
+    try {
+      await AsyncStorage.setItem(
+        THEME_SCHEDULE_KEY,
+        JSON.stringify(newSchedule)
+      );
+    } catch (error) {
+      console.error("Error saving theme schedule:", error);
+    }
+  };
+
   const setLanguage = async (newLanguage: Language) => {
     setLanguageState(newLanguage);
     try {
@@ -130,16 +245,46 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   };
 
+  const updateReaderSettings = async (updates: Partial<ReaderSettings>) => {
+    const newSettings = { ...readerSettings, ...updates };
+    setReaderSettings(newSettings);
+    try {
+      await AsyncStorage.setItem(
+        READER_SETTINGS_KEY,
+        JSON.stringify(newSettings)
+      );
+    } catch (error) {
+      console.error("Error saving reader settings:", error);
+    }
+  };
+
   const value: AppContextType = {
     themeState,
     language,
     setTheme,
     setLanguage,
+    readerTheme,
+    readerThemeState,
+    setReaderTheme,
+    themeSchedule,
+    updateThemeSchedule,
+    branding,
+    readerSettings,
+    updateReaderSettings,
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
 }
 
+// Gives everything inside it the reader theme instead of the app theme, so
+// themed components on article screens pick it up without extra props
+export function ReaderThemeProvider({ children }: AppProviderProps) {
+  const context = useAppContext();
+  const value = { ...context, themeState: context.readerThemeState };
+
+  return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
+}
+
 export function useAppContext(): AppContextType {
   const context = useContext(AppContext);
   if (context === undefined) {
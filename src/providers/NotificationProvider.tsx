@@ -12,6 +12,8 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import { notificationService } from "@/services/notifications";
 import { pushNotificationService } from "@/services/pushNotification";
 import { notificationPreferencesService } from "@/services/notificationPreferences";
+import { QuietHoursWindow } from "@/types/notifications";
+import { logNotificationEvent } from "@/utils/notificationHelpers";
 
 // Configure notification handler
 Notifications.setNotificationHandler({
@@ -33,8 +35,12 @@ export interface NotificationPreferences {
     enabled: boolean;
     start: string; // HH:mm format
     end: string; // HH:mm format
+    allowUrgent?: boolean;
+    days?: Partial<Record<number, QuietHoursWindow | null>>;
   };
-  categories: string[]; // Selected category IDs
+  categories: string[]; // Selected categories as "sourceId:categoryId"
+  tags?: string[]; // Followed tags as "sourceId:tagId"
+  authors?: string[]; // Followed authors as "sourceId:authorId"
   soundEnabled: boolean;
   vibrationEnabled: boolean;
   badgeEnabled: boolean;
@@ -182,40 +188,22 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
     // Handle notification received when app is in foreground
     const foregroundSubscription =
       Notifications.addNotificationReceivedListener((notification) => {
-        // Handle foreground notification logic here
+        // Local notifications are added to history when they are sent
+        logNotificationEvent("Notification received", {
+          notificationId: notification.request.identifier,
+          type: notification.request.content.data?.type,
+        });
       });
 
-    // Handle notification interaction (user taps notification)
-    const responseSubscription =
-      Notifications.addNotificationResponseReceivedListener((response) => {
-        // Handle notification tap logic here
-        // e.g., navigate to specific screen based on notification data
-        handleNotificationResponse(response);
-      });
+    // Taps and action buttons are handled by notificationRouterService,
+    // started in the root layout
 
     // Cleanup function
     return () => {
       foregroundSubscription.remove();
-      responseSubscription.remove();
     };
   };
 
-  const handleNotificationResponse = (
-    response: Notifications.NotificationResponse
-  ) => {
-    const { notification } = response;
-    const data = notification.request.content.data;
-
-    // Handle navigation based on notification data
-    if (data?.postId) {
-      // Navigate to specific post
-      // Example: router.push(`/post/${data.postId}`);
-    } else if (data?.category) {
-      // Navigate to category
-      // Example: router.push(`/categories/${data.category}`);
-    }
-  };
-
   const requestPermissions = async (): Promise<boolean> => {
     try {
       if (!Device.isDevice) {
@@ -0,0 +1,274 @@
+import {
+  ArticlePoller,
+  ArticlePollerDeps,
+  ArticlePollState,
+  NotificationTargets,
+} from "../articlePoller";
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "@/constants/notifications";
+import {
+  NotificationFrequency,
+  NotificationPreferences,
+} from "@/types/notifications";
+import { NewPostFilters, Post } from "@/types/wordpress";
+
+// Only the quiet hours helpers are used; loading the native module just
+// warns about Expo Go
+jest.mock("expo-notifications", () => ({ AndroidImportance: {} }));
+
+const makePost = (id: number, date: string): Post =>
+  ({
+    id,
+    date,
+    title: { rendered: `Post ${id}` },
+    author: 1,
+    categories: [3],
+    tags: [],
+  }) as unknown as Post;
+
+// A site that answers the way getNewPosts does: the newest posts without
+// `after`, the oldest ones after it otherwise
+const makeSite = (posts: Post[], perPage = 10) => {
+  const byDate = [...posts].sort((a, b) => a.date.localeCompare(b.date));
+  return (filters: NewPostFilters) =>
+    filters.after
+      ? byDate.filter((post) => post.date > filters.after!).slice(0, perPage)
+      : byDate.slice(-perPage).reverse();
+};
+
+interface Setup {
+  sites?: Record<string, Post[]>;
+  state?: ArticlePollState;
+  frequency?: NotificationFrequency;
+  preferences?: Partial<NotificationPreferences>;
+  targets?: NotificationTargets;
+  now?: Date;
+}
+
+const setup = ({
+  sites = { news: [] },
+  state,
+  frequency = "realtime",
+  preferences,
+  targets = { categories: ["3"], tags: [], authors: [] },
+  now = new Date(2024, 4, 1, 12, 0),
+}: Setup = {}) => {
+  let saved: ArticlePollState | null = state || null;
+  const notified: string[] = [];
+  const deps: ArticlePollerDeps = {
+    now: () => now,
+    getSourceIds: async () => Object.keys(sites),
+    getPreferences: async () => ({
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...preferences,
+    }),
+    getFrequency: async () => frequency,
+    getTargets: jest.fn(async () => targets),
+    fetchNewPosts: jest.fn(async (filters, sourceId) =>
+      makeSite(sites[sourceId])(filters)
+    ),
+    loadState: async () => saved,
+    saveState: jest.fn(async (next) => {
+      saved = next;
+    }),
+    notifyPost: jest.fn(async (post, sourceId) => {
+      notified.push(`${sourceId}:${post.id}`);
+    }),
+    queueForDigest: jest.fn(async () => {}),
+    deliverDigest: jest.fn(async () => {}),
+  };
+  return {
+    deps,
+    poller: new ArticlePoller(deps),
+    notified,
+    getState: () => saved,
+  };
+};
+
+describe("ArticlePoller", () => {
+  it("sets a baseline on the first run without notifying", async () => {
+    const { poller, deps, notified, getState } = setup({
+      sites: {
+        news: [
+          makePost(1, "2024-05-01T09:00:00"),
+          makePost(2, "2024-05-01T10:00:00"),
+        ],
+      },
+    });
+
+    const result = await poller.poll();
+
+    expect(result).toEqual({
+      status: "checked",
+      sources: [{ status: "baseline", sourceId: "news" }],
+    });
+    expect(notified).toEqual([]);
+    expect(deps.queueForDigest).not.toHaveBeenCalled();
+    expect(getState()).toEqual({ marks: { news: "2024-05-01T10:00:00" } });
+  });
+
+  it("notifies posts published after the mark, oldest first", async () => {
+    const { poller, deps, notified, getState } = setup({
+      sites: {
+        news: [
+          makePost(1, "2024-05-01T09:00:00"),
+          makePost(3, "2024-05-01T11:30:00"),
+          makePost(2, "2024-05-01T11:00:00"),
+        ],
+      },
+      state: { marks: { news: "2024-05-01T09:00:00" } },
+    });
+
+    await poller.poll();
+
+    expect(deps.fetchNewPosts).toHaveBeenCalledWith(
+      {
+        categories: ["3"],
+        tags: [],
+        authors: [],
+        after: "2024-05-01T09:00:00",
+      },
+      "news"
+    );
+    expect(notified).toEqual(["news:2", "news:3"]);
+    expect(getState()).toEqual({ marks: { news: "2024-05-01T11:30:00" } });
+  });
+
+  it("doesn't notify a post twice", async () => {
+    const posts = [
+      makePost(1, "2024-05-01T09:00:00"),
+      makePost(2, "2024-05-01T11:00:00"),
+    ];
+    const { poller, deps, notified } = setup({
+      sites: { news: posts },
+      state: { marks: { news: "2024-05-01T09:00:00" } },
+    });
+    // A stale response that still includes posts at or before the mark
+    (deps.fetchNewPosts as jest.Mock).mockResolvedValueOnce(posts);
+
+    await poller.poll();
+    await poller.poll();
+
+    expect(notified).toEqual(["news:2"]);
+  });
+
+  it("picks up posts beyond one fetch on the next check", async () => {
+    const posts = Array.from({ length: 15 }, (_, i) =>
+      makePost(i + 1, `2024-05-01T10:${String(i + 10).padStart(2, "0")}:00`)
+    );
+    const { poller, notified, getState } = setup({
+      sites: { news: posts },
+      state: { marks: { news: "2024-05-01T10:00:00" } },
+    });
+
+    await poller.poll();
+    expect(notified).toHaveLength(10);
+    expect(getState()?.marks.news).toBe("2024-05-01T10:19:00");
+
+    await poller.poll();
+    expect(notified).toEqual(posts.map((post) => `news:${post.id}`));
+  });
+
+  it("checks every enabled source with its own targets and mark", async () => {
+    const { poller, deps, notified, getState } = setup({
+      sites: {
+        news: [makePost(5, "2024-05-01T11:00:00")],
+        blog: [makePost(5, "2024-05-01T08:00:00")],
+      },
+      state: { marks: { news: "2024-05-01T10:00:00" } },
+    });
+
+    const result = await poller.poll();
+
+    expect(deps.getTargets).toHaveBeenCalledWith("news");
+    expect(deps.getTargets).toHaveBeenCalledWith("blog");
+    expect(result).toMatchObject({
+      sources: [
+        { status: "checked", sourceId: "news" },
+        { status: "baseline", sourceId: "blog" },
+      ],
+    });
+    expect(notified).toEqual(["news:5"]);
+    expect(getState()).toEqual({
+      marks: { news: "2024-05-01T11:00:00", blog: "2024-05-01T08:00:00" },
+    });
+  });
+
+  it("carries on with the other sources when one fails", async () => {
+    const { poller, deps, notified } = setup({
+      sites: {
+        news: [],
+        blog: [makePost(7, "2024-05-01T11:00:00")],
+      },
+      state: {
+        marks: { news: "2024-05-01T10:00:00", blog: "2024-05-01T10:00:00" },
+      },
+    });
+    const error = new Error("Network Error");
+    (deps.fetchNewPosts as jest.Mock).mockRejectedValueOnce(error);
+
+    const result = await poller.poll();
+
+    expect(result).toMatchObject({
+      sources: [
+        { status: "failed", sourceId: "news", error },
+        { status: "checked", sourceId: "blog" },
+      ],
+    });
+    expect(notified).toEqual(["blog:7"]);
+  });
+
+  it("queues posts for the digest unless notifying in real time", async () => {
+    const { poller, deps, notified } = setup({
+      sites: { news: [makePost(2, "2024-05-01T11:00:00")] },
+      state: { marks: { news: "2024-05-01T10:00:00" } },
+      frequency: "daily",
+    });
+
+    await poller.poll();
+
+    expect(notified).toEqual([]);
+    expect(deps.queueForDigest).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 2 })],
+      "news"
+    );
+    expect(deps.deliverDigest).toHaveBeenCalledWith("daily");
+  });
+
+  it("skips sources with nothing followed", async () => {
+    const { poller, deps } = setup({
+      targets: { categories: [], tags: [], authors: [] },
+    });
+
+    await expect(poller.poll()).resolves.toEqual({
+      status: "checked",
+      sources: [{ status: "noTargets", sourceId: "news" }],
+    });
+    expect(deps.fetchNewPosts).not.toHaveBeenCalled();
+  });
+
+  it("leaves the mark alone when skipped", async () => {
+    const state = { marks: { news: "2024-05-01T10:00:00" } };
+
+    const off = setup({ state, frequency: "never" });
+    await expect(off.poller.poll()).resolves.toEqual({
+      status: "skipped",
+      reason: "disabled",
+    });
+
+    const quiet = setup({
+      state,
+      now: new Date(2024, 4, 1, 23, 0),
+      preferences: {
+        quietHours: { enabled: true, start: "22:00", end: "07:00" },
+      },
+    });
+    await expect(quiet.poller.poll()).resolves.toEqual({
+      status: "skipped",
+      reason: "quietHours",
+    });
+
+    expect(off.deps.fetchNewPosts).not.toHaveBeenCalled();
+    expect(quiet.deps.fetchNewPosts).not.toHaveBeenCalled();
+    expect(quiet.deps.saveState).not.toHaveBeenCalled();
+  });
+});
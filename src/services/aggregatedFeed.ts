@@ -0,0 +1,93 @@
+import { Post, WordPressSource } from "@/types";
+import { getCanonicalLink } from "@/utils/postIdentity";
+import wordpressApiService from "./wordpress";
+import { sourceRegistryService } from "./sourceRegistry";
+
+const DEFAULT_PAGE_SIZE = 10;
+
+interface SourceCursor {
+  source: WordPressSource;
+  nextPage: number;
+  buffer: Post[]; // Fetched but not yet emitted, newest first
+  exhausted: boolean;
+}
+
+const getPublishedTime = (post: Post) => {
+  // date_gmt keeps sites in different timezones comparable
+  return new Date(post.date_gmt ? `${post.date_gmt}Z` : post.date).getTime();
+};
+
+// Merges the latest posts of every enabled source into one date-sorted
+// stream. Each source is paged on its own; a merged page is built by
+// repeatedly taking the newest buffered post across all sources, so the
+// order holds however differently the sites publish.
+export class AggregatedFeed {
+  private cursors: SourceCursor[] = [];
+  private seenLinks = new Set<string>();
+
+  constructor(private pageSize: number = DEFAULT_PAGE_SIZE) {}
+
+  // Start again from the first page of every enabled source
+  async reset(): Promise<void> {
+    const sources = await sourceRegistryService.getEnabledSources();
+    this.cursors = sources.map((source) => ({
+      source,
+      nextPage: 1,
+      buffer: [],
+      exhausted: false,
+    }));
+    this.seenLinks.clear();
+  }
+
+  hasMore(): boolean {
+    return this.cursors.some(
+      (cursor) => cursor.buffer.length > 0 || !cursor.exhausted
+    );
+  }
+
+  private async fillCursor(cursor: SourceCursor) {
+    if (cursor.buffer.length > 0 || cursor.exhausted) return;
+
+    try {
+      const result = await wordpressApiService.getLatestPosts(
+        this.pageSize,
+        cursor.nextPage,
+        cursor.source.id
+      );
+      cursor.buffer = result.items;
+      cursor.nextPage += 1;
+      cursor.exhausted = !result.hasMore;
+    } catch (error) {
+      // One unreachable site should not hold back the rest of the feed
+      console.error(`Error loading feed from ${cursor.source.name}:`, error);
+      cursor.exhausted = true;
+    }
+  }
+
+  // Get the next page of the merged feed; empty once every source is done
+  async loadMore(): Promise<Post[]> {
+    const page: Post[] = [];
+
+    while (page.length < this.pageSize) {
+      await Promise.all(this.cursors.map((cursor) => this.fillCursor(cursor)));
+
+      const candidates = this.cursors.filter(
+        (cursor) => cursor.buffer.length > 0
+      );
+      if (candidates.length === 0) break;
+
+      const newest = candidates.reduce((a, b) =>
+        getPublishedTime(a.buffer[0]) >= getPublishedTime(b.buffer[0]) ? a : b
+      );
+      const post = newest.buffer.shift() as Post;
+
+      // Cross-posted articles keep the copy from the earliest listed source
+      const canonicalLink = getCanonicalLink(post.canonical_link || post.link);
+      if (this.seenLinks.has(canonicalLink)) continue;
+      this.seenLinks.add(canonicalLink);
+      page.push(post);
+    }
+
+    return page;
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  NotificationFrequency,
+  NotificationPreferences,
+} from "@/types/notifications";
+import { NewPostFilters, Post } from "@/types/wordpress";
+import { getQuietHoursEnd } from "@/utils/notificationHelpers";
+
+export interface ArticlePollState {
+  // Date of the newest post handled, per source. Kept as the site reports
+  // it (site-local time) so it can be passed straight back as `after`.
+  marks: Record<string, string>;
+}
+
+export type NotificationTargets = Required<Omit<NewPostFilters, "after">>;
+
+// Everything the poller touches outside itself, so it can run against a
+// fake clock and a fake API
+export interface ArticlePollerDeps {
+  now: () => Date;
+  // Every enabled source is checked, not only the one on screen
+  getSourceIds: () => Promise<string[]>;
+  getPreferences: () => Promise<NotificationPreferences>;
+  getFrequency: () => Promise<NotificationFrequency>;
+  // Followed tags and authors are per source
+  getTargets: (sourceId: string) => Promise<NotificationTargets>;
+  // Without `after`, the newest posts. With it, the oldest posts after
+  // that date, as many as one request returns.
+  fetchNewPosts: (filters: NewPostFilters, sourceId: string) => Promise<Post[]>;
+  loadState: () => Promise<ArticlePollState | null>;
+  saveState: (state: ArticlePollState) => Promise<void>;
+  // Realtime users get a notification per post; the others get posts
+  // queued for their digest, which is sent once it is due
+  notifyPost: (post: Post, sourceId: string) => Promise<void>;
+  queueForDigest: (posts: Post[], sourceId: string) => Promise<void>;
+  deliverDigest: (frequency: NotificationFrequency) => Promise<void>;
+}
+
+export type PollSkipReason = "disabled" | "quietHours";
+
+export type SourcePollResult =
+  | { status: "noTargets"; sourceId: string }
+  // First check for a source: remembers where it is, notifies nothing
+  | { status: "baseline"; sourceId: string }
+  | { status: "checked"; sourceId: string; posts: Post[] }
+  | { status: "failed"; sourceId: string; error: unknown };
+
+export type PollResult =
+  | { status: "skipped"; reason: PollSkipReason }
+  | { status: "checked"; sources: SourcePollResult[] };
+
+const EMPTY_STATE: ArticlePollState = { marks: {} };
+
+// Finds posts published since the last check and hands them out as
+// notifications or digest entries. A check skipped for quiet hours leaves
+// the mark alone, so the posts are picked up by the next check that runs.
+// The mark only moves past posts that were handled: when more were
+// published than one fetch returns, the next check carries on from there.
+export class ArticlePoller {
+  constructor(private deps: ArticlePollerDeps) {}
+
+  async poll(): Promise<PollResult> {
+    const { deps } = this;
+    const now = deps.now();
+
+    const preferences = await deps.getPreferences();
+    const frequency = await deps.getFrequency();
+    if (
+      !preferences.enabled ||
+      !preferences.newArticles ||
+      frequency === "never"
+    ) {
+      return { status: "skipped", reason: "disabled" };
+    }
+
+    if (getQuietHoursEnd(now, preferences.quietHours)) {
+      return { status: "skipped", reason: "quietHours" };
+    }
+
+    const sources: SourcePollResult[] = [];
+    for (const sourceId of await deps.getSourceIds()) {
+      // One site being down shouldn't hold back the others
+      try {
+        sources.push(await this.check(sourceId, frequency));
+      } catch (error) {
+        sources.push({ status: "failed", sourceId, error });
+      }
+    }
+    // Realtime users only have a queue left over from another frequency,
+    // which goes out right away
+    await deps.deliverDigest(frequency);
+    return { status: "checked", sources };
+  }
+
+  private async check(
+    sourceId: string,
+    frequency: NotificationFrequency
+  ): Promise<SourcePollResult> {
+    const { deps } = this;
+    const targets = await deps.getTargets(sourceId);
+    if (
+      targets.categories.length === 0 &&
+      targets.tags.length === 0 &&
+      targets.authors.length === 0
+    ) {
+      return { status: "noTargets", sourceId };
+    }
+
+    const state = (await deps.loadState()) || EMPTY_STATE;
+    const mark = state.marks[sourceId];
+    const posts = await deps.fetchNewPosts(
+      { ...targets, after: mark },
+      sourceId
+    );
+    // `after` is exclusive, but a post edited to an older date or a
+    // stale response shouldn't notify twice
+    const newPosts = mark ? posts.filter((post) => post.date > mark) : posts;
+
+    const newest = newPosts.reduce<string | undefined>(
+      (latest, post) => (!latest || post.date > latest ? post.date : latest),
+      mark
+    );
+    // With nothing published yet the source stays without a mark, and the
+    // next check is a baseline again
+    if (newest) {
+      await deps.saveState({ marks: { ...state.marks, [sourceId]: newest } });
+    }
+
+    // Notifying about everything already on the site isn't useful
+    if (!mark) return { status: "baseline", sourceId };
+
+    await this.notify(newPosts, frequency, sourceId);
+    return { status: "checked", sourceId, posts: newPosts };
+  }
+
+  private async notify(
+    posts: Post[],
+    frequency: NotificationFrequency,
+    sourceId: string
+  ) {
+    if (posts.length === 0) return;
+
+    if (frequency !== "realtime") {
+      await this.deps.queueForDigest(posts, sourceId);
+      return;
+    }
+
+    // Oldest first, so the newest ends up on top
+    const ordered = [...posts].sort((a, b) => a.date.localeCompare(b.date));
+    for (const post of ordered) {
+      await this.deps.notifyPost(post, sourceId);
+    }
+  }
+}
@@ -1,7 +1,36 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { Post, Bookmark } from "@/types";
+import { File, Paths } from "expo-file-system";
+import {
+  Post,
+  Bookmark,
+  BookmarkCollection,
+  BookmarkHighlight,
+  BookmarkViewPrefs,
+} from "@/types";
+import { getCanonicalLink, getPostKey } from "@/utils/postIdentity";
+import { DEFAULT_BOOKMARK_VIEW } from "@/utils/bookmarkQuery";
+import { getHostname } from "@/utils/urlUtils";
+import {
+  BookmarkExportFormat,
+  BookmarkImportSource,
+  isLinkOnly,
+  parseBookmarkFile,
+  serializeBookmarks,
+} from "@/utils/bookmarkFormats";
+import { sourceRegistryService } from "./sourceRegistry";
+import { offlineArticleService } from "./offlineArticles";
 
 const BOOKMARKS_KEY = "@news_app_bookmarks";
+const COLLECTIONS_KEY = "@news_app_bookmark_collections";
+const VIEW_PREFS_KEY = "@news_app_bookmark_view";
+
+export interface BookmarkImportPreview {
+  source: BookmarkImportSource;
+  bookmarks: Bookmark[]; // New bookmarks that will be added
+  duplicates: Bookmark[]; // Already bookmarked, matched by link
+  collections: BookmarkCollection[];
+  skipped: number; // Entries without a usable link
+}
 
 class BookmarkService {
   private listeners: Array<() => void> = [];
@@ -19,24 +48,17 @@ class BookmarkService {
     this.listeners.forEach(listener => listener());
   }
 
-  // Get all bookmarks (new format with full URLs)
+  // Get all bookmarks. Older storage formats are converted at startup by
+  // the migrations in ./migrations.
   async getBookmarks(): Promise<Bookmark[]> {
     try {
       const storedBookmarks = await AsyncStorage.getItem(BOOKMARKS_KEY);
       if (!storedBookmarks) return [];
 
-      const bookmarks = JSON.parse(storedBookmarks);
-
-      // Migrate old Post bookmarks to new Bookmark format
-      const migratedBookmarks = bookmarks.map((bookmark: any) => {
-        if (bookmark.content) {
-          // This is an old Post format, convert to Bookmark
-          return this.convertPostToBookmark(bookmark);
-        }
-        return bookmark;
-      });
+      const bookmarks: Bookmark[] = JSON.parse(storedBookmarks);
+      const migratedBookmarks = await this.assignMissingSources(bookmarks);
 
-      // Save migrated bookmarks if any changes were made
+      // Save newly assigned sources
       if (JSON.stringify(migratedBookmarks) !== JSON.stringify(bookmarks)) {
         await AsyncStorage.setItem(BOOKMARKS_KEY, JSON.stringify(migratedBookmarks));
       }
@@ -59,31 +81,65 @@ class BookmarkService {
       category_names: post.category_names,
       date: post.date,
       link: post.link, // Save the full URL
+      source_id: post.source_id,
+      source_name: post.source_name,
       bookmarked_date: new Date().toISOString(),
     };
   }
 
-  // Get bookmarked post IDs
-  async getBookmarkedIds(): Promise<Set<number>> {
+  // Bookmarks saved before sources existed only have a bare post id;
+  // attach them to the configured source whose site serves their link
+  private async assignMissingSources(bookmarks: Bookmark[]): Promise<Bookmark[]> {
+    if (bookmarks.every(bookmark => bookmark.source_id)) return bookmarks;
+
+    const sources = await sourceRegistryService.getSources();
+    return bookmarks.map(bookmark => {
+      if (bookmark.source_id || !bookmark.link || isLinkOnly(bookmark)) {
+        return bookmark;
+      }
+
+      const linkHost = getHostname(bookmark.link);
+      const source = sources.find(s => getHostname(s.baseUrl) === linkHost);
+      return source
+        ? { ...bookmark, source_id: source.id, source_name: source.name }
+        : bookmark;
+    });
+  }
+
+  // A bookmark without a source (unmatched legacy data) matches on id alone
+  private matches(bookmark: Bookmark, postId: number, sourceId?: string) {
+    if (bookmark.id !== postId) return false;
+    return !sourceId || !bookmark.source_id || bookmark.source_id === sourceId;
+  }
+
+  // Get bookmarked post keys (see getPostKey)
+  async getBookmarkedKeys(): Promise<Set<string>> {
     const bookmarks = await this.getBookmarks();
-    return new Set(bookmarks.map(bookmark => bookmark.id));
+    return new Set(
+      bookmarks.map(bookmark => getPostKey(bookmark.source_id, bookmark.id))
+    );
   }
 
   // Check if a post is bookmarked
-  async isBookmarked(postId: number): Promise<boolean> {
-    const bookmarkedIds = await this.getBookmarkedIds();
-    return bookmarkedIds.has(postId);
+  async isBookmarked(postId: number, sourceId?: string): Promise<boolean> {
+    const bookmarks = await this.getBookmarks();
+    return bookmarks.some(bookmark => this.matches(bookmark, postId, sourceId));
   }
 
   // Toggle bookmark status for a post
   async toggleBookmark(post: Post): Promise<boolean> {
     try {
       const bookmarks = await this.getBookmarks();
-      const isBookmarked = bookmarks.some(bookmark => bookmark.id === post.id);
+      const isBookmarked = bookmarks.some(bookmark =>
+        this.matches(bookmark, post.id, post.source_id)
+      );
 
       let newBookmarks: Bookmark[];
       if (isBookmarked) {
-        newBookmarks = bookmarks.filter(bookmark => bookmark.id !== post.id);
+        newBookmarks = bookmarks.filter(
+          bookmark => !this.matches(bookmark, post.id, post.source_id)
+        );
+        await offlineArticleService.removeArticle(post.id, post.source_id);
       } else {
         const bookmark: Bookmark = this.convertPostToBookmark(post);
         newBookmarks = [bookmark, ...bookmarks];
@@ -99,10 +155,13 @@ class BookmarkService {
   }
 
   // Remove a specific bookmark
-  async removeBookmark(postId: number): Promise<void> {
+  async removeBookmark(postId: number, sourceId?: string): Promise<void> {
     try {
       const bookmarks = await this.getBookmarks();
-      const newBookmarks = bookmarks.filter(bookmark => bookmark.id !== postId);
+      const newBookmarks = bookmarks.filter(
+        bookmark => !this.matches(bookmark, postId, sourceId)
+      );
+      await offlineArticleService.removeArticle(postId, sourceId);
       await AsyncStorage.setItem(BOOKMARKS_KEY, JSON.stringify(newBookmarks));
       this.notifyListeners();
     } catch (error) {
@@ -115,6 +174,7 @@ class BookmarkService {
   async clearAllBookmarks(): Promise<void> {
     try {
       await AsyncStorage.removeItem(BOOKMARKS_KEY);
+      await offlineArticleService.clearAll();
       this.notifyListeners();
     } catch (error) {
       console.error("Error clearing bookmarks:", error);
@@ -126,7 +186,9 @@ class BookmarkService {
   async addBookmark(post: Post): Promise<void> {
     try {
       const bookmarks = await this.getBookmarks();
-      const isBookmarked = bookmarks.some(bookmark => bookmark.id === post.id);
+      const isBookmarked = bookmarks.some(bookmark =>
+        this.matches(bookmark, post.id, post.source_id)
+      );
 
       if (!isBookmarked) {
         const bookmark: Bookmark = this.convertPostToBookmark(post);
@@ -140,11 +202,17 @@ class BookmarkService {
     }
   }
 
-  // Get bookmark by ID
-  async getBookmarkById(postId: number): Promise<Bookmark | null> {
+  // Get bookmark by source and post ID
+  async getBookmarkById(
+    postId: number,
+    sourceId?: string
+  ): Promise<Bookmark | null> {
     try {
       const bookmarks = await this.getBookmarks();
-      return bookmarks.find(bookmark => bookmark.id === postId) || null;
+      return (
+        bookmarks.find(bookmark => this.matches(bookmark, postId, sourceId)) ||
+        null
+      );
     } catch (error) {
       console.error("Error getting bookmark by ID:", error);
       return null;
@@ -152,15 +220,425 @@ class BookmarkService {
   }
 
   // Get bookmark URL for external access
-  async getBookmarkUrl(postId: number): Promise<string | null> {
+  async getBookmarkUrl(
+    postId: number,
+    sourceId?: string
+  ): Promise<string | null> {
     try {
-      const bookmark = await this.getBookmarkById(postId);
+      const bookmark = await this.getBookmarkById(postId, sourceId);
       return bookmark?.link || null;
     } catch (error) {
       console.error("Error getting bookmark URL:", error);
       return null;
     }
   }
+
+  private async updateBookmark(
+    postId: number,
+    sourceId: string | undefined,
+    updates: Partial<Bookmark>
+  ): Promise<void> {
+    const bookmarks = await this.getBookmarks();
+    const newBookmarks = bookmarks.map(bookmark =>
+      this.matches(bookmark, postId, sourceId)
+        ? { ...bookmark, ...updates, updated_date: new Date().toISOString() }
+        : bookmark
+    );
+    await AsyncStorage.setItem(BOOKMARKS_KEY, JSON.stringify(newBookmarks));
+    this.notifyListeners();
+  }
+
+  // Save or drop the full article so the bookmark can be read offline
+  async setAvailableOffline(
+    bookmark: Bookmark,
+    available: boolean
+  ): Promise<void> {
+    try {
+      if (available) {
+        const article = await offlineArticleService.saveArticle(
+          bookmark.id,
+          bookmark.source_id
+        );
+        await this.updateBookmark(bookmark.id, bookmark.source_id, {
+          offline: true,
+          offline_size: article.size,
+        });
+      } else {
+        await offlineArticleService.removeArticle(
+          bookmark.id,
+          bookmark.source_id
+        );
+        await this.updateBookmark(bookmark.id, bookmark.source_id, {
+          offline: false,
+          offline_size: undefined,
+        });
+      }
+    } catch (error) {
+      console.error("Error updating offline bookmark:", error);
+      throw error;
+    }
+  }
+
+  // Save every bookmark that is not yet available offline. Imported links
+  // have no article to save
+  async downloadAllForOffline(
+    onProgress?: (done: number, total: number) => void
+  ): Promise<{ saved: number; failed: number }> {
+    const pending = (await this.getBookmarks()).filter(
+      bookmark => !bookmark.offline && !isLinkOnly(bookmark)
+    );
+    let saved = 0;
+    let failed = 0;
+
+    for (const bookmark of pending) {
+      try {
+        await this.setAvailableOffline(bookmark, true);
+        saved++;
+      } catch {
+        failed++;
+      }
+      onProgress?.(saved + failed, pending.length);
+    }
+
+    return { saved, failed };
+  }
+
+  // Delete all offline copies but keep the bookmarks themselves
+  async freeOfflineSpace(): Promise<void> {
+    try {
+      await offlineArticleService.clearAll();
+      const bookmarks = await this.getBookmarks();
+      const newBookmarks = bookmarks.map(bookmark => ({
+        ...bookmark,
+        offline: false,
+        offline_size: undefined,
+      }));
+      await AsyncStorage.setItem(BOOKMARKS_KEY, JSON.stringify(newBookmarks));
+      this.notifyListeners();
+    } catch (error) {
+      console.error("Error freeing offline space:", error);
+      throw error;
+    }
+  }
+
+  // Get the storage used by offline bookmarks in bytes
+  async getOfflineUsage(): Promise<number> {
+    return offlineArticleService.getUsage();
+  }
+
+  // Write all bookmarks to a file in the cache directory for sharing
+  async exportBookmarks(format: BookmarkExportFormat): Promise<File> {
+    const [bookmarks, collections] = await Promise.all([
+      this.getBookmarks(),
+      this.getCollections(),
+    ]);
+
+    const date = new Date().toISOString().slice(0, 10);
+    const file = new File(Paths.cache, `bookmarks-${date}.${format}`);
+    file.create({ overwrite: true });
+    file.write(serializeBookmarks(format, bookmarks, collections));
+    return file;
+  }
+
+  // Parse an exported file and work out what importing it would add
+  async previewImport(content: string): Promise<BookmarkImportPreview> {
+    const parsed = parseBookmarkFile(content);
+    const seen = new Set(
+      (await this.getBookmarks()).map(bookmark =>
+        getCanonicalLink(bookmark.link)
+      )
+    );
+
+    const bookmarks: Bookmark[] = [];
+    const duplicates: Bookmark[] = [];
+    parsed.bookmarks.forEach(bookmark => {
+      const key = getCanonicalLink(bookmark.link);
+      if (seen.has(key)) {
+        duplicates.push(bookmark);
+      } else {
+        seen.add(key);
+        bookmarks.push(bookmark);
+      }
+    });
+
+    return {
+      source: parsed.source,
+      bookmarks,
+      duplicates,
+      collections: parsed.collections,
+      skipped: parsed.skipped,
+    };
+  }
+
+  // Add the bookmarks from a preview. Collections from the file are
+  // matched to existing ones by name and created when missing.
+  async applyImport(preview: BookmarkImportPreview): Promise<number> {
+    try {
+      const collections = await this.getCollections();
+      const collectionIds = new Map<string, string>();
+      const newCollections: BookmarkCollection[] = [];
+      preview.collections.forEach(imported => {
+        const existing = [...collections, ...newCollections].find(
+          c => c.name.toLowerCase() === imported.name.toLowerCase()
+        );
+        if (existing) {
+          collectionIds.set(imported.id, existing.id);
+        } else {
+          const collection = {
+            ...imported,
+            id: `collection-${Date.now()}-${newCollections.length}`,
+          };
+          newCollections.push(collection);
+          collectionIds.set(imported.id, collection.id);
+        }
+      });
+
+      const updatedDate = new Date().toISOString();
+      const imported = preview.bookmarks.map(bookmark => ({
+        ...bookmark,
+        updated_date: updatedDate,
+        collection_ids: bookmark.collection_ids
+          ?.map(id => collectionIds.get(id))
+          .filter((id): id is string => !!id),
+      }));
+
+      const bookmarks = await this.getBookmarks();
+      const existingKeys = new Set(
+        bookmarks.map(bookmark => getPostKey(bookmark.source_id, bookmark.id))
+      );
+      const added = imported.filter(
+        bookmark =>
+          !existingKeys.has(getPostKey(bookmark.source_id, bookmark.id))
+      );
+
+      await AsyncStorage.setItem(
+        BOOKMARKS_KEY,
+        JSON.stringify([...added, ...bookmarks])
+      );
+      if (newCollections.length > 0) {
+        await this.saveCollections([...collections, ...newCollections]);
+      } else {
+        this.notifyListeners();
+      }
+      return added.length;
+    } catch (error) {
+      console.error("Error importing bookmarks:", error);
+      throw error;
+    }
+  }
+
+  // Replace local bookmarks and collections with the merged result of a
+  // sync, dropping offline copies of bookmarks that were deleted remotely
+  async replaceFromSync(
+    bookmarks: Bookmark[],
+    collections: BookmarkCollection[]
+  ): Promise<void> {
+    try {
+      const kept = new Set(
+        bookmarks.map(bookmark => getPostKey(bookmark.source_id, bookmark.id))
+      );
+      const removed = (await this.getBookmarks()).filter(
+        bookmark => !kept.has(getPostKey(bookmark.source_id, bookmark.id))
+      );
+      await Promise.all(
+        removed
+          .filter(bookmark => bookmark.offline)
+          .map(bookmark =>
+            offlineArticleService.removeArticle(bookmark.id, bookmark.source_id)
+          )
+      );
+
+      await AsyncStorage.setItem(BOOKMARKS_KEY, JSON.stringify(bookmarks));
+      await AsyncStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+      this.notifyListeners();
+    } catch (error) {
+      console.error("Error saving synced bookmarks:", error);
+      throw error;
+    }
+  }
+
+  // Sort and filter last chosen in the Bookmarks tab
+  async getViewPrefs(): Promise<BookmarkViewPrefs> {
+    try {
+      const stored = await AsyncStorage.getItem(VIEW_PREFS_KEY);
+      return stored
+        ? { ...DEFAULT_BOOKMARK_VIEW, ...JSON.parse(stored) }
+        : DEFAULT_BOOKMARK_VIEW;
+    } catch (error) {
+      console.error("Error getting bookmark view:", error);
+      return DEFAULT_BOOKMARK_VIEW;
+    }
+  }
+
+  async saveViewPrefs(prefs: BookmarkViewPrefs): Promise<void> {
+    try {
+      await AsyncStorage.setItem(VIEW_PREFS_KEY, JSON.stringify(prefs));
+    } catch (error) {
+      console.error("Error saving bookmark view:", error);
+    }
+  }
+
+  // Get all collections in the order they were created
+  async getCollections(): Promise<BookmarkCollection[]> {
+    try {
+      const stored = await AsyncStorage.getItem(COLLECTIONS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("Error getting collections:", error);
+      return [];
+    }
+  }
+
+  private async saveCollections(collections: BookmarkCollection[]) {
+    await AsyncStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+    this.notifyListeners();
+  }
+
+  async createCollection(name: string): Promise<BookmarkCollection> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Collection name is required");
+    }
+
+    const collections = await this.getCollections();
+    if (
+      collections.some(c => c.name.toLowerCase() === trimmed.toLowerCase())
+    ) {
+      throw new Error("A collection with this name already exists");
+    }
+
+    const collection: BookmarkCollection = {
+      id: `collection-${Date.now()}`,
+      name: trimmed,
+      created_date: new Date().toISOString(),
+    };
+    await this.saveCollections([...collections, collection]);
+    return collection;
+  }
+
+  async renameCollection(id: string, name: string): Promise<void> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Collection name is required");
+    }
+
+    const collections = await this.getCollections();
+    const updatedDate = new Date().toISOString();
+    await this.saveCollections(
+      collections.map(c =>
+        c.id === id ? { ...c, name: trimmed, updated_date: updatedDate } : c
+      )
+    );
+  }
+
+  // Delete a collection; its bookmarks stay bookmarked
+  async deleteCollection(id: string): Promise<void> {
+    try {
+      const bookmarks = await this.getBookmarks();
+      const updatedDate = new Date().toISOString();
+      const newBookmarks = bookmarks.map(bookmark =>
+        bookmark.collection_ids?.includes(id)
+          ? {
+              ...bookmark,
+              collection_ids: bookmark.collection_ids.filter(c => c !== id),
+              updated_date: updatedDate,
+            }
+          : bookmark
+      );
+      await AsyncStorage.setItem(BOOKMARKS_KEY, JSON.stringify(newBookmarks));
+
+      const collections = await this.getCollections();
+      await this.saveCollections(collections.filter(c => c.id !== id));
+    } catch (error) {
+      console.error("Error deleting collection:", error);
+      throw error;
+    }
+  }
+
+  async getBookmarksInCollection(id: string): Promise<Bookmark[]> {
+    const bookmarks = await this.getBookmarks();
+    return bookmarks.filter(bookmark => bookmark.collection_ids?.includes(id));
+  }
+
+  // Replace the collections a bookmark belongs to
+  async setBookmarkCollections(
+    postId: number,
+    sourceId: string | undefined,
+    collectionIds: string[]
+  ): Promise<void> {
+    try {
+      await this.updateBookmark(postId, sourceId, {
+        collection_ids: collectionIds,
+      });
+    } catch (error) {
+      console.error("Error updating bookmark collections:", error);
+      throw error;
+    }
+  }
+
+  async setNote(
+    postId: number,
+    sourceId: string | undefined,
+    note: string
+  ): Promise<void> {
+    try {
+      await this.updateBookmark(postId, sourceId, {
+        note: note.trim() || undefined,
+      });
+    } catch (error) {
+      console.error("Error saving bookmark note:", error);
+      throw error;
+    }
+  }
+
+  async addHighlight(
+    postId: number,
+    sourceId: string | undefined,
+    text: string
+  ): Promise<BookmarkHighlight | null> {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+
+    try {
+      const bookmark = await this.getBookmarkById(postId, sourceId);
+      if (!bookmark) {
+        throw new Error("Post is not bookmarked");
+      }
+
+      const highlight: BookmarkHighlight = {
+        id: `highlight-${Date.now()}`,
+        text: trimmed,
+        created_date: new Date().toISOString(),
+      };
+      await this.updateBookmark(postId, sourceId, {
+        highlights: [...(bookmark.highlights || []), highlight],
+      });
+      return highlight;
+    } catch (error) {
+      console.error("Error adding highlight:", error);
+      throw error;
+    }
+  }
+
+  async removeHighlight(
+    postId: number,
+    sourceId: string | undefined,
+    highlightId: string
+  ): Promise<void> {
+    try {
+      const bookmark = await this.getBookmarkById(postId, sourceId);
+      if (!bookmark) return;
+
+      await this.updateBookmark(postId, sourceId, {
+        highlights: (bookmark.highlights || []).filter(
+          highlight => highlight.id !== highlightId
+        ),
+      });
+    } catch (error) {
+      console.error("Error removing highlight:", error);
+      throw error;
+    }
+  }
 }
 
 export const bookmarkService = new BookmarkService();
\ No newline at end of file
@@ -0,0 +1,446 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { AppState } from "react-native";
+import { Bookmark, BookmarkCollection } from "@/types";
+import { ApiResponse } from "@/types/auth";
+import { getPostKey } from "@/utils/postIdentity";
+import authService from "./auth";
+import { bookmarkService } from "./bookmarkService";
+
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || "http://localhost:3000";
+const SYNC_STATE_KEY = "@news_app_bookmark_sync";
+const CHANGES_ENDPOINT = "/api/v1/bookmarks/changes";
+// Let a burst of edits settle before talking to the server
+const SYNC_DEBOUNCE = 2000;
+// Local tombstones only need to outlive changes still in flight elsewhere
+const TOMBSTONE_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+export type SyncEntity = "bookmark" | "collection";
+
+// One entry of the change log exchanged with the server
+export interface SyncChange {
+  entity: SyncEntity;
+  key: string; // getPostKey for bookmarks, the id for collections
+  updated_at: string; // Last write wins on this timestamp
+  deleted: boolean; // Tombstone
+  data?: Bookmark | BookmarkCollection;
+}
+
+export type SyncState = "signedOut" | "idle" | "syncing" | "offline" | "error";
+
+export interface SyncStatus {
+  state: SyncState;
+  lastSyncedAt: string | null;
+  pendingChanges: number; // Local changes waiting to be pushed
+  error?: string;
+}
+
+interface StoredSyncState {
+  userId: string | null; // Account the rest of the state belongs to
+  cursor: string | null; // Position in the server change log already pulled
+  lastSyncedAt: string | null;
+  snapshot: Record<string, string>; // Fingerprint of each item last seen
+  queue: Record<string, SyncChange>; // Local changes not yet pushed
+  tombstones: Record<string, string>; // Deleted items and when
+}
+
+interface SyncItem {
+  entity: SyncEntity;
+  key: string;
+  data: Bookmark | BookmarkCollection;
+}
+
+const createState = (userId: string | null): StoredSyncState => ({
+  userId,
+  cursor: null,
+  lastSyncedAt: null,
+  snapshot: {},
+  queue: {},
+  tombstones: {},
+});
+
+const getItemId = (entity: SyncEntity, key: string) => `${entity}:${key}`;
+
+// Offline copies are per device and never leave it
+const toSyncedData = (
+  data: Bookmark | BookmarkCollection
+): Bookmark | BookmarkCollection => {
+  if (!("bookmarked_date" in data)) return data;
+  const { offline, offline_size, ...bookmark } = data;
+  return bookmark;
+};
+
+// The edit timestamp is left out so saving an unchanged item is not a change
+const getFingerprint = (data: Bookmark | BookmarkCollection) => {
+  const { updated_date, ...rest } = toSyncedData(data);
+  return JSON.stringify(rest);
+};
+
+const getTimestamp = (data: Bookmark | BookmarkCollection) =>
+  data.updated_date ||
+  ("bookmarked_date" in data ? data.bookmarked_date : data.created_date);
+
+// Keeps bookmarks and collections in step with the backend for signed-in
+// users. Local edits are found by diffing against the last seen state,
+// queued while offline, and merged with remote ones, newest write winning.
+class BookmarkSyncService {
+  private listeners: Array<(status: SyncStatus) => void> = [];
+  private status: SyncStatus = {
+    state: "signedOut",
+    lastSyncedAt: null,
+    pendingChanges: 0,
+  };
+  private userId: string | null = null;
+  private syncing = false;
+  private syncAgain = false;
+  private applyingRemote = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Subscribe to sync status changes
+  subscribe(listener: (status: SyncStatus) => void) {
+    this.listeners.push(listener);
+    listener(this.status);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  private setStatus(updates: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...updates };
+    this.listeners.forEach((listener) => listener(this.status));
+  }
+
+  // Sync on sign in, when bookmarks change and when the app comes back to
+  // the foreground. Returns a function that stops all of it.
+  start(): () => void {
+    this.loadState().then((state) =>
+      this.setStatus({
+        lastSyncedAt: state.lastSyncedAt,
+        pendingChanges: Object.keys(state.queue).length,
+      })
+    );
+    const unsubscribeAuth = authService.subscribe((state) => {
+      const userId = state.isAuthenticated ? state.user?.id ?? null : null;
+      if (userId === this.userId) return;
+
+      this.userId = userId;
+      if (userId) {
+        this.sync();
+      } else {
+        this.setStatus({ state: "signedOut", error: undefined });
+      }
+    });
+    const unsubscribeBookmarks = bookmarkService.subscribe(() => {
+      if (!this.applyingRemote) this.scheduleSync();
+    });
+    const appStateSubscription = AppState.addEventListener(
+      "change",
+      (state) => {
+        if (state === "active") this.scheduleSync();
+      }
+    );
+
+    return () => {
+      unsubscribeAuth();
+      unsubscribeBookmarks();
+      appStateSubscription.remove();
+      if (this.timer) clearTimeout(this.timer);
+    };
+  }
+
+  private scheduleSync() {
+    if (!this.userId) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.sync();
+    }, SYNC_DEBOUNCE);
+  }
+
+  async sync(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) {
+      this.setStatus({ state: "signedOut" });
+      return;
+    }
+    if (this.syncing) {
+      this.syncAgain = true;
+      return;
+    }
+
+    this.syncing = true;
+    this.setStatus({ state: "syncing", error: undefined });
+
+    let state = await this.loadState();
+    try {
+      // Bookmarks saved while signed out are merged into a newly signed-in
+      // account; ones that came from another account are not
+      if (state.userId !== userId) {
+        if (state.userId) await this.removeAccountItems(state);
+        state = createState(userId);
+      }
+
+      await this.recordLocalChanges(state);
+      this.setStatus({ pendingChanges: Object.keys(state.queue).length });
+
+      const changes = Object.values(state.queue);
+      if (changes.length > 0) {
+        await this.request("POST", CHANGES_ENDPOINT, { changes });
+        state.queue = {};
+        await this.saveState(state);
+      }
+
+      const query = state.cursor
+        ? `?since=${encodeURIComponent(state.cursor)}`
+        : "";
+      const remote = await this.request<{
+        changes: SyncChange[];
+        cursor: string;
+      }>("GET", `${CHANGES_ENDPOINT}${query}`);
+      await this.applyRemoteChanges(state, remote.changes);
+
+      state.cursor = remote.cursor;
+      state.lastSyncedAt = new Date().toISOString();
+      this.pruneTombstones(state);
+      await this.saveState(state);
+
+      this.setStatus({
+        state: "idle",
+        lastSyncedAt: state.lastSyncedAt,
+        pendingChanges: 0,
+      });
+    } catch (error) {
+      console.error("Error syncing bookmarks:", error);
+      await this.saveState(state);
+      // fetch rejects with a TypeError when there is no connection
+      this.setStatus({
+        state: error instanceof TypeError ? "offline" : "error",
+        pendingChanges: Object.keys(state.queue).length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.syncing = false;
+      if (this.syncAgain) {
+        this.syncAgain = false;
+        this.scheduleSync();
+      }
+    }
+  }
+
+  private async loadState(): Promise<StoredSyncState> {
+    try {
+      const stored = await AsyncStorage.getItem(SYNC_STATE_KEY);
+      return stored ? JSON.parse(stored) : createState(null);
+    } catch (error) {
+      console.error("Error loading sync state:", error);
+      return createState(null);
+    }
+  }
+
+  private async saveState(state: StoredSyncState) {
+    await AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+  }
+
+  private async getLocalItems(): Promise<Map<string, SyncItem>> {
+    const [bookmarks, collections] = await Promise.all([
+      bookmarkService.getBookmarks(),
+      bookmarkService.getCollections(),
+    ]);
+
+    const items = new Map<string, SyncItem>();
+    bookmarks.forEach((bookmark) => {
+      const key = getPostKey(bookmark.source_id, bookmark.id);
+      items.set(getItemId("bookmark", key), {
+        entity: "bookmark",
+        key,
+        data: bookmark,
+      });
+    });
+    collections.forEach((collection) => {
+      items.set(getItemId("collection", collection.id), {
+        entity: "collection",
+        key: collection.id,
+        data: collection,
+      });
+    });
+    return items;
+  }
+
+  // Queue whatever changed since the last snapshot. A later change to the
+  // same item replaces the queued one, so the queue stays small offline.
+  private async recordLocalChanges(state: StoredSyncState) {
+    const items = await this.getLocalItems();
+    const now = new Date().toISOString();
+
+    items.forEach((item, id) => {
+      const fingerprint = getFingerprint(item.data);
+      if (state.snapshot[id] === fingerprint) return;
+
+      state.snapshot[id] = fingerprint;
+      delete state.tombstones[id];
+      state.queue[id] = {
+        entity: item.entity,
+        key: item.key,
+        updated_at: getTimestamp(item.data),
+        deleted: false,
+        data: toSyncedData(item.data),
+      };
+    });
+
+    Object.keys(state.snapshot).forEach((id) => {
+      if (items.has(id)) return;
+
+      const [entity, ...key] = id.split(":");
+      delete state.snapshot[id];
+      state.tombstones[id] = now;
+      state.queue[id] = {
+        entity: entity as SyncEntity,
+        key: key.join(":"),
+        updated_at: now,
+        deleted: true,
+      };
+    });
+  }
+
+  private async applyRemoteChanges(
+    state: StoredSyncState,
+    changes: SyncChange[]
+  ) {
+    if (changes.length === 0) return;
+
+    const items = await this.getLocalItems();
+    let changed = false;
+
+    changes.forEach((change) => {
+      const id = getItemId(change.entity, change.key);
+      const local = items.get(id);
+      const localTime = local
+        ? getTimestamp(local.data)
+        : state.tombstones[id];
+
+      // Last write wins; on a tie the device keeps its copy
+      if (localTime && localTime >= change.updated_at) return;
+
+      if (change.deleted) {
+        if (local) {
+          items.delete(id);
+          changed = true;
+        }
+        delete state.snapshot[id];
+        state.tombstones[id] = change.updated_at;
+      } else if (change.data) {
+        const data =
+          local && "bookmarked_date" in local.data
+            ? {
+                ...change.data,
+                offline: local.data.offline,
+                offline_size: local.data.offline_size,
+              }
+            : change.data;
+        items.set(id, { entity: change.entity, key: change.key, data });
+        changed = true;
+        state.snapshot[id] = getFingerprint(data);
+        delete state.tombstones[id];
+      }
+    });
+
+    if (!changed) return;
+
+    const values = Array.from(items.values());
+    const bookmarks = values
+      .filter((item) => item.entity === "bookmark")
+      .map((item) => item.data as Bookmark)
+      .sort((a, b) => b.bookmarked_date.localeCompare(a.bookmarked_date));
+    const collections = values
+      .filter((item) => item.entity === "collection")
+      .map((item) => item.data as BookmarkCollection)
+      .sort((a, b) => a.created_date.localeCompare(b.created_date));
+
+    this.applyingRemote = true;
+    try {
+      await bookmarkService.replaceFromSync(bookmarks, collections);
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  // Drop everything synced with or queued for the account in `state` from
+  // the device. Changes it never pushed are lost with it.
+  private async removeAccountItems(state: StoredSyncState) {
+    const items = await this.getLocalItems();
+    const owned = new Set([
+      ...Object.keys(state.snapshot),
+      ...Object.keys(state.queue),
+    ]);
+    const kept = Array.from(items.entries())
+      .filter(([id]) => !owned.has(id))
+      .map(([, item]) => item);
+    if (kept.length === items.size) return;
+
+    const collections = kept
+      .filter((item) => item.entity === "collection")
+      .map((item) => item.data as BookmarkCollection);
+    const collectionIds = new Set(collections.map((c) => c.id));
+    const bookmarks = kept
+      .filter((item) => item.entity === "bookmark")
+      .map((item) => {
+        const bookmark = item.data as Bookmark;
+        return bookmark.collection_ids
+          ? {
+              ...bookmark,
+              collection_ids: bookmark.collection_ids.filter((id) =>
+                collectionIds.has(id)
+              ),
+            }
+          : bookmark;
+      });
+
+    this.applyingRemote = true;
+    try {
+      await bookmarkService.replaceFromSync(bookmarks, collections);
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  private pruneTombstones(state: StoredSyncState) {
+    const cutoff = new Date(Date.now() - TOMBSTONE_MAX_AGE).toISOString();
+    Object.keys(state.tombstones).forEach((id) => {
+      if (state.tombstones[id] < cutoff) delete state.tombstones[id];
+    });
+  }
+
+  // Call the sync API, refreshing the access token once if it expired
+  private async request<T = unknown>(
+    method: "GET" | "POST",
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const send = () =>
+      fetch(`${API_BASE_URL}${path}`, {
+        method,
+        headers: authService.getAuthHeaders(),
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+    let response = await send();
+    if (response.status === 401 && (await authService.refreshToken())) {
+      response = await send();
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const apiResponse: ApiResponse<T> = await response.json();
+    if (apiResponse.code !== "00") {
+      throw new Error(apiResponse.message || "Sync failed");
+    }
+    return apiResponse.data;
+  }
+}
+
+export const bookmarkSyncService = new BookmarkSyncService();
+export default bookmarkSyncService;
@@ -0,0 +1,179 @@
+import {
+  DigestArticle,
+  DigestState,
+  NotificationFrequency,
+} from "@/types/notifications";
+import { Post } from "@/types/wordpress";
+import {
+  DIGEST_SCHEDULE,
+  NOTIFICATION_KEYS,
+} from "@/constants/notifications";
+import { decodeEntities } from "@/utils/htmlParser";
+import {
+  storage,
+  logNotificationEvent,
+  logNotificationError,
+} from "@/utils/notificationHelpers";
+import { getPostKey } from "@/utils/postIdentity";
+import { notificationService } from "./notifications";
+
+export interface DigestEngineDeps {
+  now: () => Date;
+  loadState: () => Promise<DigestState | null>;
+  saveState: (state: DigestState) => Promise<void>;
+  notify: (articles: DigestArticle[]) => Promise<void>;
+}
+
+const EMPTY_STATE: DigestState = { queue: [], sent: [], sentAt: null };
+
+// The most recent time a digest was due: the top of the hour, today's
+// digest hour, or this week's digest day. Null when none ever is.
+export const getLatestDigestTime = (
+  frequency: NotificationFrequency,
+  now: Date
+): Date | null => {
+  const time = new Date(now);
+  switch (frequency) {
+    case "realtime":
+      return time;
+    case "hourly":
+      time.setMinutes(0, 0, 0);
+      return time;
+    case "daily":
+    case "weekly": {
+      time.setHours(DIGEST_SCHEDULE.HOUR, 0, 0, 0);
+      if (time > now) time.setDate(time.getDate() - 1);
+      if (frequency === "weekly") {
+        const daysSince = (time.getDay() - DIGEST_SCHEDULE.WEEKDAY + 7) % 7;
+        time.setDate(time.getDate() - daysSince);
+      }
+      return time;
+    }
+    default:
+      return null;
+  }
+};
+
+// The category every article is in, used to title the notification
+export const getSharedCategory = (
+  articles: DigestArticle[]
+): string | undefined => {
+  const [first, ...rest] = articles;
+  return first?.category_names?.find((name) =>
+    rest.every((article) => article.category_names?.includes(name))
+  );
+};
+
+const toDigestArticle = (
+  post: Post,
+  sourceId: string,
+  queuedAt: string
+): DigestArticle => ({
+  id: post.id,
+  source_id: post.source_id || sourceId,
+  title: decodeEntities(post.title.rendered.replace(/<[^>]*>/g, "")).trim(),
+  featured_image: post.featured_image,
+  author_name: post.author_name,
+  category_names: post.category_names,
+  link: post.link,
+  date: post.date,
+  queuedAt,
+});
+
+// Holds new articles for users who chose hourly, daily or weekly
+// notifications, and sends them as one notification once the digest
+// is due. An article queued before the latest digest time goes out on
+// the next check, so a check the OS runs late still catches up.
+export class DigestEngine {
+  private listeners: Array<() => void> = [];
+
+  constructor(private deps: DigestEngineDeps) {}
+
+  // Subscribe to changes of the queue or the last digest
+  subscribe(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  async getState(): Promise<DigestState> {
+    return (await this.deps.loadState()) || EMPTY_STATE;
+  }
+
+  private async saveState(state: DigestState) {
+    await this.deps.saveState(state);
+    this.notifyListeners();
+  }
+
+  async enqueue(posts: Post[], sourceId: string): Promise<void> {
+    if (posts.length === 0) return;
+
+    const state = await this.getState();
+    const queuedAt = this.deps.now().toISOString();
+    const queued = new Set(
+      state.queue.map((article) => getPostKey(article.source_id, article.id))
+    );
+    const added = posts
+      .map((post) => toDigestArticle(post, sourceId, queuedAt))
+      .filter(
+        (article) => !queued.has(getPostKey(article.source_id, article.id))
+      )
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    await this.saveState({
+      ...state,
+      // A very long queue keeps the newest
+      queue: [...state.queue, ...added].slice(-DIGEST_SCHEDULE.MAX_ARTICLES),
+    });
+  }
+
+  // Send the queued articles if the digest for this frequency is due.
+  // Resolves with the number of articles sent.
+  async deliverIfDue(frequency: NotificationFrequency): Promise<number> {
+    const now = this.deps.now();
+    const dueAt = getLatestDigestTime(frequency, now);
+    if (!dueAt) return 0;
+
+    const state = await this.getState();
+    const due = state.queue.some(
+      (article) => new Date(article.queuedAt) <= dueAt
+    );
+    if (!due) return 0;
+
+    const sent = [...state.queue].sort((a, b) => b.date.localeCompare(a.date));
+    // Cleared first, so a failed notification isn't sent twice; the
+    // articles are still listed on the digest screen
+    await this.saveState({ queue: [], sent, sentAt: now.toISOString() });
+    await this.deps.notify(sent);
+
+    logNotificationEvent("Digest sent", { frequency, count: sent.length });
+    return sent.length;
+  }
+}
+
+export const digestService = new DigestEngine({
+  now: () => new Date(),
+  loadState: () => storage.get<DigestState>(NOTIFICATION_KEYS.DIGEST),
+  saveState: async (state) => {
+    if (!(await storage.set(NOTIFICATION_KEYS.DIGEST, state))) {
+      throw new Error("Failed to save digest");
+    }
+  },
+  notify: async (articles) => {
+    try {
+      await notificationService.sendDigestNotification(
+        articles.length,
+        articles.map((article) => article.title),
+        getSharedCategory(articles)
+      );
+    } catch (error) {
+      logNotificationError(error, "Failed to send digest notification");
+    }
+  },
+});
+export default digestService;
@@ -0,0 +1,167 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { HistoryEntry, Post } from "@/types";
+import { getPostKey } from "@/utils/postIdentity";
+import { normalizeSearchText } from "@/utils/formatUtils";
+import { readingProgressService } from "./readingProgress";
+
+const HISTORY_KEY = "@news_app_history";
+const HISTORY_PAUSED_KEY = "@news_app_history_paused";
+const MAX_ENTRIES = 1000;
+const MAX_VIEWS_PER_ENTRY = 20;
+
+class HistoryService {
+  private listeners: Array<() => void> = [];
+
+  // Subscribe to history changes, including pausing and resuming
+  subscribe(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async getEntries(): Promise<HistoryEntry[]> {
+    try {
+      const stored = await AsyncStorage.getItem(HISTORY_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("Error getting history:", error);
+      return [];
+    }
+  }
+
+  private async saveEntries(entries: HistoryEntry[]) {
+    await AsyncStorage.setItem(
+      HISTORY_KEY,
+      JSON.stringify(entries.slice(0, MAX_ENTRIES))
+    );
+    this.notifyListeners();
+  }
+
+  // Viewed posts, most recently viewed first
+  async getHistory(): Promise<HistoryEntry[]> {
+    const entries = await this.getEntries();
+    return entries.sort((a, b) => b.lastViewedAt.localeCompare(a.lastViewedAt));
+  }
+
+  // Entries whose title contains every word of the query
+  async search(query: string): Promise<HistoryEntry[]> {
+    const words = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+    const history = await this.getHistory();
+    if (words.length === 0) return history;
+
+    return history.filter((entry) => {
+      const title = normalizeSearchText(entry.title);
+      return words.every((word) => title.includes(word));
+    });
+  }
+
+  async isPaused(): Promise<boolean> {
+    try {
+      return (await AsyncStorage.getItem(HISTORY_PAUSED_KEY)) === "true";
+    } catch (error) {
+      console.error("Error getting history pause setting:", error);
+      return false;
+    }
+  }
+
+  // While paused nothing new is recorded, including reading progress;
+  // existing history is kept
+  async setPaused(paused: boolean): Promise<void> {
+    try {
+      await AsyncStorage.setItem(HISTORY_PAUSED_KEY, String(paused));
+      this.notifyListeners();
+    } catch (error) {
+      console.error("Error saving history pause setting:", error);
+    }
+  }
+
+  async recordView(post: Post): Promise<void> {
+    try {
+      if (await this.isPaused()) return;
+
+      const entries = await this.getEntries();
+      const key = getPostKey(post.source_id, post.id);
+      const existing = entries.find(
+        (entry) => getPostKey(entry.source_id, entry.id) === key
+      );
+      const now = new Date().toISOString();
+
+      const entry: HistoryEntry = {
+        id: post.id,
+        source_id: post.source_id,
+        source_name: post.source_name,
+        title: post.title.rendered.replace(/<[^>]*>/g, ""),
+        featured_image: post.featured_image,
+        link: post.link,
+        viewedAt: [now, ...(existing?.viewedAt ?? [])].slice(
+          0,
+          MAX_VIEWS_PER_ENTRY
+        ),
+        lastViewedAt: now,
+      };
+
+      await this.saveEntries([
+        entry,
+        ...entries.filter((item) => item !== existing),
+      ]);
+    } catch (error) {
+      console.error("Error recording history:", error);
+    }
+  }
+
+  // Forget a post, including how far it was read
+  async removeEntry(postId: number, sourceId?: string): Promise<void> {
+    try {
+      const key = getPostKey(sourceId, postId);
+      const entries = await this.getEntries();
+      await this.saveEntries(
+        entries.filter((entry) => getPostKey(entry.source_id, entry.id) !== key)
+      );
+      await readingProgressService.removeProgress(postId, sourceId);
+    } catch (error) {
+      console.error("Error removing history entry:", error);
+    }
+  }
+
+  // Forget views from the last `milliseconds`; posts only viewed in that
+  // window disappear, older ones fall back to their previous view. Reading
+  // progress from the same window goes too
+  async clearRecent(milliseconds: number): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - milliseconds).toISOString();
+      const entries = await this.getEntries();
+
+      const remaining = entries
+        .map((entry) => {
+          const viewedAt = entry.viewedAt.filter((time) => time < cutoff);
+          return viewedAt.length > 0
+            ? { ...entry, viewedAt, lastViewedAt: viewedAt[0] }
+            : null;
+        })
+        .filter((entry): entry is HistoryEntry => entry !== null);
+
+      await this.saveEntries(remaining);
+      await readingProgressService.clearRecent(milliseconds);
+    } catch (error) {
+      console.error("Error clearing recent history:", error);
+    }
+  }
+
+  async clearAll(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(HISTORY_KEY);
+      await readingProgressService.clearAll();
+      this.notifyListeners();
+    } catch (error) {
+      console.error("Error clearing history:", error);
+    }
+  }
+}
+
+export const historyService = new HistoryService();
+export default historyService;
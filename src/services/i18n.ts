@@ -68,7 +68,134 @@ export type TranslationKey =
   | "search.clearButton"
   | "search.noResults"
   | "search.loading"
-  | "search.error";
+  | "search.error"
+  | "settings.sources"
+  | "settings.manageSources"
+  | "sources.title"
+  | "sources.active"
+  | "sources.add"
+  | "sources.urlPlaceholder"
+  | "sources.namePlaceholder"
+  | "sources.featuredCategory"
+  | "sources.validating"
+  | "sources.remove"
+  | "sources.removeConfirm"
+  | "sources.invalidUrl"
+  | "sources.noRestApi"
+  | "sources.unreachable"
+  | "sources.invalidSite"
+  | "sources.duplicate"
+  | "sources.unavailable"
+  | "sources.lastEnabled"
+  | "news.allSources"
+  | "offline.savedCopy"
+  | "bookmarks.offlineStorage"
+  | "bookmarks.downloadAll"
+  | "bookmarks.downloading"
+  | "bookmarks.freeSpace"
+  | "bookmarks.freeSpaceConfirm"
+  | "bookmarks.availableOffline"
+  | "news.endOfResults"
+  | "tags.follow"
+  | "tags.following"
+  | "tags.popular"
+  | "categories.subcategories"
+  | "categories.includeSubcategories"
+  | "authors.follow"
+  | "authors.following"
+  | "reader.title"
+  | "reader.textSize"
+  | "reader.systemScale"
+  | "reader.lineSpacing"
+  | "reader.compact"
+  | "reader.normal"
+  | "reader.relaxed"
+  | "reader.font"
+  | "reader.sans"
+  | "reader.serif"
+  | "reader.justify"
+  | "reader.width"
+  | "reader.narrow"
+  | "reader.medium"
+  | "reader.wide"
+  | "reader.full"
+  | "reader.reset"
+  | "settings.sepia"
+  | "settings.amoled"
+  | "settings.highContrastLight"
+  | "settings.highContrastDark"
+  | "settings.readerTheme"
+  | "settings.sameAsApp"
+  | "settings.themeSchedule"
+  | "settings.themeScheduleDescription"
+  | "settings.dayTheme"
+  | "settings.nightTheme"
+  | "settings.nightFrom"
+  | "settings.dayFrom"
+  | "reading.continue"
+  | "reading.read"
+  | "history.title"
+  | "history.search"
+  | "history.empty"
+  | "history.noResults"
+  | "history.today"
+  | "history.yesterday"
+  | "history.pause"
+  | "history.pauseDescription"
+  | "history.clear"
+  | "history.clearHour"
+  | "history.clearDay"
+  | "history.clearAll"
+  | "history.clearConfirm"
+  | "settings.history"
+  | "collections.all"
+  | "collections.new"
+  | "collections.namePlaceholder"
+  | "collections.create"
+  | "collections.addTo"
+  | "collections.rename"
+  | "collections.delete"
+  | "collections.deleteConfirm"
+  | "collections.empty"
+  | "collections.none"
+  | "bookmarks.notes"
+  | "bookmarks.notePlaceholder"
+  | "bookmarks.highlights"
+  | "bookmarks.highlightPlaceholder"
+  | "bookmarks.addHighlight"
+  | "bookmarks.search"
+  | "bookmarks.sortBookmarked"
+  | "bookmarks.sortPublished"
+  | "bookmarks.sortTitle"
+  | "bookmarks.sortAuthor"
+  | "bookmarks.offlineOnly"
+  | "bookmarks.noMatches"
+  | "bookmarks.backup"
+  | "bookmarks.export"
+  | "bookmarks.exportFormat"
+  | "bookmarks.exportFailed"
+  | "bookmarks.import"
+  | "bookmarks.importFailed"
+  | "bookmarks.importNothing"
+  | "bookmarks.importNew"
+  | "bookmarks.importDuplicates"
+  | "bookmarks.importSkipped"
+  | "bookmarks.importMore"
+  | "sync.title"
+  | "sync.signedOut"
+  | "sync.syncing"
+  | "sync.offline"
+  | "sync.error"
+  | "sync.pending"
+  | "sync.lastSynced"
+  | "sync.never"
+  | "sync.now"
+  | "notifications.saveForLater"
+  | "notifications.share"
+  | "digest.title"
+  | "digest.upcoming"
+  | "digest.lastSent"
+  | "digest.empty";
 
 const LANGUAGE_KEY = "app_language";
 
@@ -144,6 +271,133 @@ const translations: Record<Language, Record<TranslationKey, string>> = {
     "search.noResults": "No results found",
     "search.loading": "Searching...",
     "search.error": "Error searching. Please try again.",
+    "settings.sources": "News Sources",
+    "settings.manageSources": "Manage Sources",
+    "sources.title": "News Sources",
+    "sources.active": "Active",
+    "sources.add": "Add Source",
+    "sources.urlPlaceholder": "https://example.com",
+    "sources.namePlaceholder": "Display name (optional)",
+    "sources.featuredCategory": "Featured category ID",
+    "sources.validating": "Checking site...",
+    "sources.remove": "Remove Source",
+    "sources.removeConfirm": "Remove this source from the app?",
+    "sources.invalidUrl": "Please enter a valid URL",
+    "sources.noRestApi": "This site does not expose the WordPress REST API",
+    "sources.unreachable": "Could not reach a WordPress site at this address",
+    "sources.invalidSite": "Invalid WordPress site",
+    "sources.duplicate": "This site has already been added",
+    "sources.unavailable": "Source is not available",
+    "sources.lastEnabled": "At least one source must stay enabled",
+    "news.allSources": "All sources",
+    "offline.savedCopy": "You're offline, showing a saved copy",
+    "bookmarks.offlineStorage": "Offline storage",
+    "bookmarks.downloadAll": "Download all",
+    "bookmarks.downloading": "Downloading",
+    "bookmarks.freeSpace": "Free up space",
+    "bookmarks.freeSpaceConfirm": "Delete all offline copies? Your bookmarks will be kept.",
+    "bookmarks.availableOffline": "Available offline",
+    "news.endOfResults": "You're all caught up",
+    "tags.follow": "Follow",
+    "tags.following": "Following",
+    "tags.popular": "Popular Tags",
+    "categories.subcategories": "subcategories",
+    "categories.includeSubcategories": "Include posts from subcategories",
+    "authors.follow": "Follow",
+    "authors.following": "Following",
+    "reader.title": "Reading settings",
+    "reader.textSize": "Text size",
+    "reader.systemScale": "Includes system text size",
+    "reader.lineSpacing": "Line spacing",
+    "reader.compact": "Compact",
+    "reader.normal": "Normal",
+    "reader.relaxed": "Relaxed",
+    "reader.font": "Font",
+    "reader.sans": "Sans",
+    "reader.serif": "Serif",
+    "reader.justify": "Justify text",
+    "reader.width": "Reading width",
+    "reader.narrow": "Narrow",
+    "reader.medium": "Medium",
+    "reader.wide": "Wide",
+    "reader.full": "Full",
+    "reader.reset": "Reset to defaults",
+    "settings.sepia": "Sepia",
+    "settings.amoled": "Black",
+    "settings.highContrastLight": "High contrast",
+    "settings.highContrastDark": "High contrast dark",
+    "settings.readerTheme": "Article Theme",
+    "settings.sameAsApp": "Same as app",
+    "settings.themeSchedule": "Automatic Theme",
+    "settings.themeScheduleDescription": "Switch themes by time of day",
+    "settings.dayTheme": "Day theme",
+    "settings.nightTheme": "Night theme",
+    "settings.nightFrom": "Night starts at",
+    "settings.dayFrom": "Day starts at",
+    "reading.continue": "Continue Reading",
+    "reading.read": "Read",
+    "history.title": "Reading History",
+    "history.search": "Search history",
+    "history.empty": "Articles you open will appear here",
+    "history.noResults": "No articles match your search",
+    "history.today": "Today",
+    "history.yesterday": "Yesterday",
+    "history.pause": "Pause history",
+    "history.pauseDescription": "New articles won't be recorded",
+    "history.clear": "Clear",
+    "history.clearHour": "Last hour",
+    "history.clearDay": "Last day",
+    "history.clearAll": "All",
+    "history.clearConfirm": "Remove these articles from your history?",
+    "settings.history": "Reading History",
+    "collections.all": "All",
+    "collections.new": "New collection",
+    "collections.namePlaceholder": "Collection name",
+    "collections.create": "Create",
+    "collections.addTo": "Save to collection",
+    "collections.rename": "Rename",
+    "collections.delete": "Delete collection",
+    "collections.deleteConfirm": "Bookmarks in this collection will stay in your bookmarks.",
+    "collections.empty": "No bookmarks in this collection yet",
+    "collections.none": "No collections yet. Create one below.",
+    "bookmarks.notes": "Notes",
+    "bookmarks.notePlaceholder": "Add a personal note...",
+    "bookmarks.highlights": "Highlights",
+    "bookmarks.highlightPlaceholder": "Paste a passage to keep",
+    "bookmarks.addHighlight": "Add",
+    "bookmarks.search": "Search bookmarks",
+    "bookmarks.sortBookmarked": "Recently saved",
+    "bookmarks.sortPublished": "Newest",
+    "bookmarks.sortTitle": "Title",
+    "bookmarks.sortAuthor": "Author",
+    "bookmarks.offlineOnly": "Offline",
+    "bookmarks.noMatches": "No bookmarks match your search or filters",
+    "bookmarks.backup": "Import & export",
+    "bookmarks.export": "Export",
+    "bookmarks.exportFormat": "Choose a format. JSON keeps collections, notes and highlights; HTML works with browsers; CSV opens in spreadsheets.",
+    "bookmarks.exportFailed": "Failed to export bookmarks",
+    "bookmarks.import": "Import",
+    "bookmarks.importFailed": "This file could not be imported. Use a JSON, HTML or CSV bookmark export.",
+    "bookmarks.importNothing": "Everything in this file is already bookmarked.",
+    "bookmarks.importNew": "New",
+    "bookmarks.importDuplicates": "Already bookmarked",
+    "bookmarks.importSkipped": "Skipped without a link",
+    "bookmarks.importMore": "more",
+    "sync.title": "Bookmark Sync",
+    "sync.signedOut": "Sign in to sync bookmarks and collections across your devices",
+    "sync.syncing": "Syncing...",
+    "sync.offline": "Offline, changes will sync when you reconnect",
+    "sync.error": "Sync failed, will retry",
+    "sync.pending": "waiting",
+    "sync.lastSynced": "Last synced",
+    "sync.never": "Not synced yet",
+    "sync.now": "Sync now",
+    "notifications.saveForLater": "Save for later",
+    "notifications.share": "Share",
+    "digest.title": "Digest",
+    "digest.upcoming": "Next digest",
+    "digest.lastSent": "Last digest",
+    "digest.empty": "Nothing here yet. When you get new articles hourly, daily or weekly, they are listed here.",
   },
   id: {
     "common.ok": "OK",
@@ -214,6 +468,133 @@ const translations: Record<Language, Record<TranslationKey, string>> = {
     "search.noResults": "Tidak ada hasil ditemukan",
     "search.loading": "Mencari...",
     "search.error": "Error saat mencari. Silakan coba lagi.",
+    "settings.sources": "Sumber Berita",
+    "settings.manageSources": "Kelola Sumber",
+    "sources.title": "Sumber Berita",
+    "sources.active": "Aktif",
+    "sources.add": "Tambah Sumber",
+    "sources.urlPlaceholder": "https://contoh.com",
+    "sources.namePlaceholder": "Nama tampilan (opsional)",
+    "sources.featuredCategory": "ID kategori pilihan",
+    "sources.validating": "Memeriksa situs...",
+    "sources.remove": "Hapus Sumber",
+    "sources.removeConfirm": "Hapus sumber ini dari aplikasi?",
+    "sources.invalidUrl": "Masukkan URL yang valid",
+    "sources.noRestApi": "Situs ini tidak menyediakan WordPress REST API",
+    "sources.unreachable": "Tidak dapat menjangkau situs WordPress di alamat ini",
+    "sources.invalidSite": "Situs WordPress tidak valid",
+    "sources.duplicate": "Situs ini sudah ditambahkan",
+    "sources.unavailable": "Sumber tidak tersedia",
+    "sources.lastEnabled": "Setidaknya satu sumber harus tetap aktif",
+    "news.allSources": "Semua sumber",
+    "offline.savedCopy": "Anda sedang offline, menampilkan salinan tersimpan",
+    "bookmarks.offlineStorage": "Penyimpanan offline",
+    "bookmarks.downloadAll": "Unduh semua",
+    "bookmarks.downloading": "Mengunduh",
+    "bookmarks.freeSpace": "Kosongkan ruang",
+    "bookmarks.freeSpaceConfirm": "Hapus semua salinan offline? Bookmark Anda akan tetap tersimpan.",
+    "bookmarks.availableOffline": "Tersedia offline",
+    "news.endOfResults": "Tidak ada lagi artikel",
+    "tags.follow": "Ikuti",
+    "tags.following": "Diikuti",
+    "tags.popular": "Tag Populer",
+    "categories.subcategories": "subkategori",
+    "categories.includeSubcategories": "Sertakan artikel dari subkategori",
+    "authors.follow": "Ikuti",
+    "authors.following": "Diikuti",
+    "reader.title": "Pengaturan baca",
+    "reader.textSize": "Ukuran teks",
+    "reader.systemScale": "Termasuk ukuran teks sistem",
+    "reader.lineSpacing": "Spasi baris",
+    "reader.compact": "Rapat",
+    "reader.normal": "Normal",
+    "reader.relaxed": "Longgar",
+    "reader.font": "Huruf",
+    "reader.sans": "Sans",
+    "reader.serif": "Serif",
+    "reader.justify": "Ratakan teks",
+    "reader.width": "Lebar bacaan",
+    "reader.narrow": "Sempit",
+    "reader.medium": "Sedang",
+    "reader.wide": "Lebar",
+    "reader.full": "Penuh",
+    "reader.reset": "Kembalikan ke bawaan",
+    "settings.sepia": "Sepia",
+    "settings.amoled": "Hitam",
+    "settings.highContrastLight": "Kontras tinggi",
+    "settings.highContrastDark": "Kontras tinggi gelap",
+    "settings.readerTheme": "Tema Artikel",
+    "settings.sameAsApp": "Sama dengan aplikasi",
+    "settings.themeSchedule": "Tema Otomatis",
+    "settings.themeScheduleDescription": "Ganti tema sesuai waktu",
+    "settings.dayTheme": "Tema siang",
+    "settings.nightTheme": "Tema malam",
+    "settings.nightFrom": "Malam mulai pukul",
+    "settings.dayFrom": "Siang mulai pukul",
+    "reading.continue": "Lanjutkan Membaca",
+    "reading.read": "Dibaca",
+    "history.title": "Riwayat Baca",
+    "history.search": "Cari riwayat",
+    "history.empty": "Artikel yang Anda buka akan muncul di sini",
+    "history.noResults": "Tidak ada artikel yang cocok",
+    "history.today": "Hari ini",
+    "history.yesterday": "Kemarin",
+    "history.pause": "Jeda riwayat",
+    "history.pauseDescription": "Artikel baru tidak akan dicatat",
+    "history.clear": "Hapus",
+    "history.clearHour": "Satu jam",
+    "history.clearDay": "Satu hari",
+    "history.clearAll": "Semua",
+    "history.clearConfirm": "Hapus artikel ini dari riwayat?",
+    "settings.history": "Riwayat Baca",
+    "collections.all": "Semua",
+    "collections.new": "Koleksi baru",
+    "collections.namePlaceholder": "Nama koleksi",
+    "collections.create": "Buat",
+    "collections.addTo": "Simpan ke koleksi",
+    "collections.rename": "Ganti nama",
+    "collections.delete": "Hapus koleksi",
+    "collections.deleteConfirm": "Bookmark di koleksi ini akan tetap ada di bookmark Anda.",
+    "collections.empty": "Belum ada bookmark di koleksi ini",
+    "collections.none": "Belum ada koleksi. Buat di bawah.",
+    "bookmarks.notes": "Catatan",
+    "bookmarks.notePlaceholder": "Tambahkan catatan pribadi...",
+    "bookmarks.highlights": "Sorotan",
+    "bookmarks.highlightPlaceholder": "Tempel kutipan untuk disimpan",
+    "bookmarks.addHighlight": "Tambah",
+    "bookmarks.search": "Cari bookmark",
+    "bookmarks.sortBookmarked": "Terakhir disimpan",
+    "bookmarks.sortPublished": "Terbaru",
+    "bookmarks.sortTitle": "Judul",
+    "bookmarks.sortAuthor": "Penulis",
+    "bookmarks.offlineOnly": "Offline",
+    "bookmarks.noMatches": "Tidak ada bookmark yang cocok dengan pencarian atau filter",
+    "bookmarks.backup": "Impor & ekspor",
+    "bookmarks.export": "Ekspor",
+    "bookmarks.exportFormat": "Pilih format. JSON menyimpan koleksi, catatan, dan sorotan; HTML dapat dibuka di browser; CSV dapat dibuka di spreadsheet.",
+    "bookmarks.exportFailed": "Gagal mengekspor bookmark",
+    "bookmarks.import": "Impor",
+    "bookmarks.importFailed": "File ini tidak dapat diimpor. Gunakan ekspor bookmark JSON, HTML, atau CSV.",
+    "bookmarks.importNothing": "Semua isi file ini sudah ada di bookmark.",
+    "bookmarks.importNew": "Baru",
+    "bookmarks.importDuplicates": "Sudah di-bookmark",
+    "bookmarks.importSkipped": "Dilewati karena tanpa tautan",
+    "bookmarks.importMore": "lainnya",
+    "sync.title": "Sinkronisasi Bookmark",
+    "sync.signedOut": "Masuk untuk menyinkronkan bookmark dan koleksi di semua perangkat Anda",
+    "sync.syncing": "Menyinkronkan...",
+    "sync.offline": "Offline, perubahan akan disinkronkan saat tersambung kembali",
+    "sync.error": "Sinkronisasi gagal, akan dicoba lagi",
+    "sync.pending": "menunggu",
+    "sync.lastSynced": "Terakhir disinkronkan",
+    "sync.never": "Belum disinkronkan",
+    "sync.now": "Sinkronkan sekarang",
+    "notifications.saveForLater": "Simpan untuk nanti",
+    "notifications.share": "Bagikan",
+    "digest.title": "Ringkasan Berita",
+    "digest.upcoming": "Ringkasan berikutnya",
+    "digest.lastSent": "Ringkasan terakhir",
+    "digest.empty": "Belum ada apa-apa. Jika Anda menerima artikel baru per jam, harian, atau mingguan, artikelnya tercantum di sini.",
   },
 };
 
@@ -2,8 +2,17 @@ export { default as authService } from "./auth";
 export { default as googleAuthService } from "./googleAuth";
 export { default as i18nService } from "./i18n";
 export { default as wordpressApiService } from "./wordpress";
+export { postCacheService } from "./postCache";
+export { sourceRegistryService } from "./sourceRegistry";
 export { bookmarkService } from "./bookmarkService";
 export { notificationService } from "./notifications";
 export { pushNotificationService } from "./pushNotification";
 export { notificationPreferencesService } from "./notificationPreferences";
 export { wordpressNotificationsService } from "./wordpressNotifications";
+export { digestService } from "./digest";
+export { siteBrandingService } from "./siteBranding";
+export { readingProgressService } from "./readingProgress";
+export { historyService } from "./history";
+export { bookmarkSyncService } from "./bookmarkSync";
+export { linkResolverService } from "./linkResolver";
+export { notificationRouterService } from "./notificationRouter";
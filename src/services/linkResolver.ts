@@ -0,0 +1,113 @@
+import { Href, router } from "expo-router";
+import * as WebBrowser from "expo-web-browser";
+import { buildRoutePath, LinkTarget, parseLink } from "@/utils/linkResolver";
+import sourceRegistryService from "./sourceRegistry";
+import wordpressApiService from "./wordpress";
+
+// Turns app-scheme links and the sources' own permalinks into app routes.
+// Slugs are looked up on the site; anything unknown opens in a browser.
+class LinkResolverService {
+  // The route a link opens, or null when it should open in a browser
+  async resolve(url: string): Promise<string | null> {
+    const sources = await sourceRegistryService.getSources();
+    const target = parseLink(url, sources);
+
+    try {
+      return await this.toRoute(target);
+    } catch (error) {
+      // Offline or the site is down; the browser can still show the page
+      console.error("Error resolving link:", error);
+      return null;
+    }
+  }
+
+  // Navigate to a link tapped inside the app
+  async open(url: string): Promise<void> {
+    const route = await this.resolve(url);
+    if (route) {
+      router.push(route as Href);
+    } else {
+      await WebBrowser.openBrowserAsync(url);
+    }
+  }
+
+  private async toRoute(target: LinkTarget): Promise<string | null> {
+    switch (target.type) {
+      case "route":
+        return target.path;
+      case "external":
+        return null;
+      case "home":
+        return buildRoutePath("/home", { source: target.sourceId });
+      case "search":
+        return buildRoutePath("/search", {
+          q: target.query,
+          source: target.sourceId,
+        });
+      case "post": {
+        const id =
+          target.id ??
+          (await this.findPostId(target.slug, target.sourceId));
+        return id === undefined
+          ? null
+          : buildRoutePath(`/post/${id}`, { source: target.sourceId });
+      }
+      case "category": {
+        const term = await this.findTerm("category", target);
+        return term
+          ? buildRoutePath("/categories", {
+              category: term.id,
+              source: target.sourceId,
+            })
+          : null;
+      }
+      case "tag":
+      case "author": {
+        const term = await this.findTerm(target.type, target);
+        return term
+          ? buildRoutePath(`/${target.type}/${term.id}`, {
+              name: term.name,
+              source: target.sourceId,
+            })
+          : null;
+      }
+    }
+  }
+
+  private async findPostId(slug?: string, sourceId?: string) {
+    if (!slug) return undefined;
+    const post = await wordpressApiService.getPostBySlug(slug, sourceId);
+    return post?.id;
+  }
+
+  private async findTerm(
+    type: "category" | "tag" | "author",
+    target: { id?: number; slug?: string; sourceId?: string }
+  ): Promise<{ id: number; name?: string } | null> {
+    if (target.id !== undefined) return { id: target.id };
+    if (!target.slug) return null;
+    return wordpressApiService.getTermBySlug(
+      type,
+      target.slug,
+      target.sourceId
+    );
+  }
+
+  // Home, Search and Categories follow the selected site, so a link to
+  // another site carries its source and the screen switches to it once
+  // it opens. Resolving a link never changes the selected site.
+  async selectSource(sourceId?: string): Promise<void> {
+    if (!sourceId) return;
+    try {
+      const active = await sourceRegistryService.getActiveSource();
+      if (active.id !== sourceId) {
+        await sourceRegistryService.setActiveSource(sourceId);
+      }
+    } catch (error) {
+      console.error("Error selecting linked source:", error);
+    }
+  }
+}
+
+export const linkResolverService = new LinkResolverService();
+export default linkResolverService;
@@ -0,0 +1,337 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { MIGRATIONS, MigrationRunner, StoredValues } from "..";
+import { legacyBookmarksMigration } from "../legacyBookmarks";
+import { notificationPreferencesMigration } from "../notificationPreferences";
+import { notificationHistoryMigration } from "../notificationHistory";
+import { themeMigration } from "../theme";
+import { followKeysMigration } from "../followKeys";
+
+// The source the app would show: with none selected, the one for the app
+// language
+jest.mock("../../sourceRegistry", () => ({
+  sourceRegistryService: {
+    getActiveSource: jest.fn(async () => ({ id: "default-id" })),
+  },
+}));
+
+const BOOKMARKS_KEY = "@news_app_bookmarks";
+const PREFERENCES_KEY = "notification_preferences";
+const HISTORY_KEY = "notification_history";
+const SCHEMA_VERSION_KEY = "@news_app_schema_version";
+
+const LEGACY_POST = {
+  id: 12,
+  date: "2023-04-02T09:30:00",
+  link: "https://example.com/2023/04/budget/",
+  title: { rendered: "Budget <em>passes</em>" },
+  excerpt: { rendered: "<p>The council voted&#8230;</p>" },
+  content: { rendered: "<p>The full article body</p>" },
+  featured_image: "https://example.com/budget.jpg",
+  author_name: "Jo Reyes",
+  category_names: ["Politics"],
+  source_id: "default",
+  source_name: "City News",
+};
+
+const BOOKMARK = {
+  id: 34,
+  title: "Market reopens",
+  excerpt: "After two years",
+  date: "2024-03-01T08:00:00",
+  link: "https://example.com/2024/03/market/",
+  source_id: "default",
+  bookmarked_date: "2024-03-02T10:00:00.000Z",
+};
+
+const OLD_PREFERENCES = {
+  enabled: false,
+  breakingNews: true,
+  newArticles: true,
+  recommendedContent: true,
+  quietHours: { enabled: true, start: "23:00" },
+  categories: ["3"],
+};
+
+const MIGRATED_PREFERENCES = {
+  enabled: false,
+  breakingNews: true,
+  newArticles: true,
+  recommendedContent: true,
+  quietHours: { enabled: true, start: "23:00", end: "08:00" },
+  categories: ["3"],
+  tags: [],
+  authors: [],
+  soundEnabled: true,
+  vibrationEnabled: true,
+  badgeEnabled: true,
+};
+
+// After every step, with follows tied to the source the app shows
+const CURRENT_PREFERENCES = {
+  ...MIGRATED_PREFERENCES,
+  categories: ["default-id:3"],
+};
+
+const HISTORY_ENTRY = {
+  id: "n-1",
+  title: "Breaking",
+  body: "Polls are closed",
+  data: { type: "breaking_news", postId: "5" },
+  receivedAt: "2024-05-01T20:00:00.000Z",
+  read: true,
+  interacted: false,
+};
+
+const seed = (values: Record<string, unknown>) =>
+  AsyncStorage.multiSet(
+    Object.entries(values).map(([key, value]): [string, string] => [
+      key,
+      typeof value === "string" ? value : JSON.stringify(value),
+    ])
+  );
+
+const read = async (key: string) => {
+  const value = await AsyncStorage.getItem(key);
+  return value ? JSON.parse(value) : value;
+};
+
+const readAll = async () =>
+  Object.fromEntries(
+    await AsyncStorage.multiGet(await AsyncStorage.getAllKeys())
+  );
+
+const migrateJSON = (
+  migrate: (values: StoredValues) => StoredValues,
+  key: string,
+  value: unknown
+) => {
+  const result = migrate({ [key]: JSON.stringify(value) })[key];
+  return result ? JSON.parse(result) : result;
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.clearAllMocks();
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("legacyBookmarksMigration", () => {
+  const { migrate } = legacyBookmarksMigration;
+
+  it("converts bookmarks saved as whole posts", () => {
+    expect(migrateJSON(migrate, BOOKMARKS_KEY, [LEGACY_POST])).toEqual([
+      {
+        id: 12,
+        title: "Budget passes",
+        excerpt: "The council voted&#8230;",
+        featured_image: "https://example.com/budget.jpg",
+        author_name: "Jo Reyes",
+        category_names: ["Politics"],
+        date: "2023-04-02T09:30:00",
+        link: "https://example.com/2023/04/budget/",
+        source_id: "default",
+        source_name: "City News",
+        bookmarked_date: "2023-04-02T09:30:00",
+      },
+    ]);
+  });
+
+  it("drops entries without an id and keeps current bookmarks", () => {
+    expect(
+      migrateJSON(migrate, BOOKMARKS_KEY, [null, { title: "x" }, BOOKMARK])
+    ).toEqual([BOOKMARK]);
+  });
+
+  it("removes a value that isn't a list", () => {
+    expect(migrate({ [BOOKMARKS_KEY]: '{"id":1}' })).toEqual({
+      [BOOKMARKS_KEY]: null,
+    });
+  });
+});
+
+describe("notificationPreferencesMigration", () => {
+  const { migrate } = notificationPreferencesMigration;
+
+  it("fills in settings added since the preferences were saved", () => {
+    expect(migrateJSON(migrate, PREFERENCES_KEY, OLD_PREFERENCES)).toEqual(
+      MIGRATED_PREFERENCES
+    );
+  });
+
+  it("replaces follows that aren't lists", () => {
+    expect(
+      migrateJSON(migrate, PREFERENCES_KEY, { tags: "5", authors: null })
+    ).toMatchObject({ tags: [], authors: [] });
+  });
+
+  it("removes a value that isn't an object", () => {
+    expect(migrate({ [PREFERENCES_KEY]: "[1]" })).toEqual({
+      [PREFERENCES_KEY]: null,
+    });
+  });
+});
+
+describe("notificationHistoryMigration", () => {
+  const { migrate } = notificationHistoryMigration;
+
+  it("adds missing fields and drops entries without an id", () => {
+    expect(
+      migrateJSON(migrate, HISTORY_KEY, [{ id: "n-2" }, { title: "No id" }])
+    ).toEqual([
+      {
+        id: "n-2",
+        title: "",
+        body: "",
+        data: { type: "custom" },
+        receivedAt: new Date(0).toISOString(),
+        read: false,
+        interacted: false,
+      },
+    ]);
+  });
+});
+
+describe("themeMigration", () => {
+  const { migrate } = themeMigration;
+
+  it("keeps known themes and removes unknown ones", () => {
+    expect(
+      migrate({ app_theme: "sepia", app_reader_theme: "solarized" })
+    ).toEqual({ app_theme: "sepia", app_reader_theme: null });
+    expect(migrate({ app_theme: "system" })).toEqual({
+      app_theme: "system",
+      app_reader_theme: null,
+    });
+  });
+});
+
+describe("followKeysMigration", () => {
+  const { migrate } = followKeysMigration;
+
+  it("ties bare follows to the active source", () => {
+    const result = migrate({
+      [PREFERENCES_KEY]: JSON.stringify({
+        ...MIGRATED_PREFERENCES,
+        categories: ["3"],
+        tags: ["4", "blog:9"],
+        authors: [7],
+      }),
+      activeSource: "blog",
+    });
+    expect(JSON.parse(result[PREFERENCES_KEY] as string)).toMatchObject({
+      categories: ["blog:3"],
+      tags: ["blog:4", "blog:9"],
+      authors: ["blog:7"],
+    });
+  });
+
+  it("gets the active source the way the app picks it", async () => {
+    await expect(followKeysMigration.context?.()).resolves.toEqual({
+      activeSource: "default-id",
+    });
+  });
+});
+
+describe("MigrationRunner", () => {
+  const latest = Math.max(...MIGRATIONS.map((migration) => migration.version));
+
+  it("brings old storage up to the latest version", async () => {
+    await seed({
+      [BOOKMARKS_KEY]: [LEGACY_POST, BOOKMARK],
+      [PREFERENCES_KEY]: OLD_PREFERENCES,
+      [HISTORY_KEY]: [{ id: "n-2", title: "Hi" }],
+      app_theme: "ocean",
+      app_reader_theme: "dark",
+    });
+
+    await expect(new MigrationRunner(MIGRATIONS).run()).resolves.toBe(latest);
+
+    const bookmarks = await read(BOOKMARKS_KEY);
+    expect(bookmarks).toHaveLength(2);
+    expect(bookmarks[0]).not.toHaveProperty("content");
+    expect(await read(PREFERENCES_KEY)).toEqual(CURRENT_PREFERENCES);
+    expect(await read(HISTORY_KEY)).toEqual([
+      expect.objectContaining({ id: "n-2", title: "Hi", read: false }),
+    ]);
+    expect(await AsyncStorage.getItem("app_theme")).toBeNull();
+    expect(await AsyncStorage.getItem("app_reader_theme")).toBe("dark");
+    expect(await AsyncStorage.getItem(SCHEMA_VERSION_KEY)).toBe(
+      String(latest)
+    );
+  });
+
+  it("ties old follows to the source the app would show", async () => {
+    await seed({ [PREFERENCES_KEY]: { ...OLD_PREFERENCES, tags: ["4"] } });
+
+    await new MigrationRunner(MIGRATIONS).run();
+
+    expect(await read(PREFERENCES_KEY)).toMatchObject({
+      tags: ["default-id:4"],
+    });
+    expect(await AsyncStorage.getItem("activeSource")).toBeNull();
+  });
+
+  it("leaves storage alone once it is at the latest version", async () => {
+    await seed({
+      [BOOKMARKS_KEY]: [LEGACY_POST],
+      app_theme: "ocean",
+      [SCHEMA_VERSION_KEY]: String(latest),
+    });
+    const before = await readAll();
+    jest.clearAllMocks();
+
+    await expect(new MigrationRunner(MIGRATIONS).run()).resolves.toBe(latest);
+
+    expect(await readAll()).toEqual(before);
+    expect(AsyncStorage.multiSet).not.toHaveBeenCalled();
+    expect(AsyncStorage.multiRemove).not.toHaveBeenCalled();
+  });
+
+  it("doesn't rewrite data already in the current format", async () => {
+    await seed({
+      [BOOKMARKS_KEY]: [BOOKMARK],
+      [PREFERENCES_KEY]: CURRENT_PREFERENCES,
+      [HISTORY_KEY]: [HISTORY_ENTRY],
+      app_theme: "dark",
+    });
+    const before = await readAll();
+
+    await new MigrationRunner(MIGRATIONS).run();
+
+    expect(await readAll()).toEqual({
+      ...before,
+      [SCHEMA_VERSION_KEY]: String(latest),
+    });
+  });
+
+  it("resets unreadable data and runs the later steps", async () => {
+    await seed({
+      [BOOKMARKS_KEY]: "[{not json",
+      [PREFERENCES_KEY]: OLD_PREFERENCES,
+      app_theme: "ocean",
+    });
+
+    await expect(new MigrationRunner(MIGRATIONS).run()).resolves.toBe(latest);
+
+    expect(await AsyncStorage.getItem(BOOKMARKS_KEY)).toBeNull();
+    expect(await read(PREFERENCES_KEY)).toEqual(CURRENT_PREFERENCES);
+    expect(await AsyncStorage.getItem("app_theme")).toBeNull();
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("stops at a step whose data can't be written", async () => {
+    await seed({ [BOOKMARKS_KEY]: [LEGACY_POST] });
+    jest
+      .spyOn(AsyncStorage, "multiSet")
+      .mockRejectedValueOnce(new Error("Disk full"));
+
+    await expect(new MigrationRunner(MIGRATIONS).run()).resolves.toBe(0);
+
+    expect(await read(BOOKMARKS_KEY)).toEqual([LEGACY_POST]);
+    expect(await AsyncStorage.getItem(SCHEMA_VERSION_KEY)).toBeNull();
+  });
+});
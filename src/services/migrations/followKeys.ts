@@ -0,0 +1,45 @@
+import { sourceRegistryService } from "../sourceRegistry";
+import { Migration } from "./types";
+
+const PREFERENCES_KEY = "notification_preferences";
+// Not a storage key: the source the app shows, which is the selected one
+// or, when none was ever selected, the one it picks for the app language
+const ACTIVE_SOURCE = "activeSource";
+
+// Categories, tags and authors were followed by bare id, which matched
+// the same id on every source. Tie each to the active source, as the one
+// it was most likely followed on.
+const toFollowKeys = (ids: unknown, sourceId: string) =>
+  Array.isArray(ids)
+    ? ids.map((id) =>
+        String(id).includes(":") ? String(id) : `${sourceId}:${id}`
+      )
+    : [];
+
+export const followKeysMigration: Migration = {
+  version: 5,
+  description: "Key followed categories, tags and authors by source",
+  keys: [PREFERENCES_KEY],
+  context: async () => ({
+    [ACTIVE_SOURCE]: (await sourceRegistryService.getActiveSource()).id,
+  }),
+  migrate: (values) => {
+    const stored = values[PREFERENCES_KEY];
+    const sourceId = values[ACTIVE_SOURCE];
+    if (!stored || !sourceId) return { [PREFERENCES_KEY]: stored };
+
+    const preferences = JSON.parse(stored);
+    if (!preferences || typeof preferences !== "object") {
+      return { [PREFERENCES_KEY]: null };
+    }
+
+    return {
+      [PREFERENCES_KEY]: JSON.stringify({
+        ...preferences,
+        categories: toFollowKeys(preferences.categories, sourceId),
+        tags: toFollowKeys(preferences.tags, sourceId),
+        authors: toFollowKeys(preferences.authors, sourceId),
+      }),
+    };
+  },
+};
@@ -0,0 +1,24 @@
+import { MigrationRunner } from "./runner";
+import { Migration } from "./types";
+import { legacyBookmarksMigration } from "./legacyBookmarks";
+import { notificationPreferencesMigration } from "./notificationPreferences";
+import { notificationHistoryMigration } from "./notificationHistory";
+import { themeMigration } from "./theme";
+import { followKeysMigration } from "./followKeys";
+
+// Append new steps with the next version number; never edit or reorder
+// steps that have shipped
+export const MIGRATIONS: Migration[] = [
+  legacyBookmarksMigration,
+  notificationPreferencesMigration,
+  notificationHistoryMigration,
+  themeMigration,
+  followKeysMigration,
+];
+
+export const migrationRunner = new MigrationRunner(MIGRATIONS);
+
+export const runMigrations = () => migrationRunner.run();
+
+export { MigrationRunner } from "./runner";
+export type { Migration, StoredValues } from "./types";
@@ -0,0 +1,45 @@
+import { Migration } from "./types";
+
+const BOOKMARKS_KEY = "@news_app_bookmarks";
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, "");
+
+// The first bookmarks were whole WordPress posts; keep what a bookmark
+// needs and drop the article body. The post's own date stands in for when
+// it was bookmarked, which was never recorded.
+const convertLegacyPost = (post: any) => ({
+  id: post.id,
+  title: stripTags(post.title?.rendered ?? ""),
+  excerpt: stripTags(post.excerpt?.rendered ?? ""),
+  featured_image: post.featured_image,
+  author_name: post.author_name,
+  category_names: post.category_names,
+  date: post.date,
+  link: post.link,
+  source_id: post.source_id,
+  source_name: post.source_name,
+  bookmarked_date: post.date ?? new Date().toISOString(),
+});
+
+export const legacyBookmarksMigration: Migration = {
+  version: 1,
+  description: "Convert bookmarks saved as full posts",
+  keys: [BOOKMARKS_KEY],
+  migrate: (values) => {
+    const stored = values[BOOKMARKS_KEY];
+    if (!stored) return values;
+
+    const bookmarks = JSON.parse(stored);
+    if (!Array.isArray(bookmarks)) return { [BOOKMARKS_KEY]: null };
+
+    return {
+      [BOOKMARKS_KEY]: JSON.stringify(
+        bookmarks
+          .filter((bookmark) => bookmark && typeof bookmark.id === "number")
+          .map((bookmark) =>
+            bookmark.content ? convertLegacyPost(bookmark) : bookmark
+          )
+      ),
+    };
+  },
+};
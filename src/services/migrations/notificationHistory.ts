@@ -0,0 +1,34 @@
+import { Migration } from "./types";
+
+const HISTORY_KEY = "notification_history";
+
+// Early history entries could lack the read flags or a data payload, and
+// entries without an id can't be marked read or deleted
+export const notificationHistoryMigration: Migration = {
+  version: 3,
+  description: "Normalize notification history entries",
+  keys: [HISTORY_KEY],
+  migrate: (values) => {
+    const stored = values[HISTORY_KEY];
+    if (!stored) return values;
+
+    const history = JSON.parse(stored);
+    if (!Array.isArray(history)) return { [HISTORY_KEY]: null };
+
+    return {
+      [HISTORY_KEY]: JSON.stringify(
+        history
+          .filter((entry) => entry && entry.id)
+          .map((entry) => ({
+            ...entry,
+            title: entry.title ?? "",
+            body: entry.body ?? "",
+            data: entry.data ?? { type: "custom" },
+            receivedAt: entry.receivedAt ?? new Date(0).toISOString(),
+            read: entry.read ?? false,
+            interacted: entry.interacted ?? false,
+          }))
+      ),
+    };
+  },
+};
@@ -0,0 +1,50 @@
+import { Migration } from "./types";
+
+const PREFERENCES_KEY = "notification_preferences";
+// The defaults as they were when this step shipped; later changes to the
+// app's defaults must not change what the step writes
+const DEFAULT_PREFERENCES = {
+  enabled: true,
+  breakingNews: true,
+  newArticles: true,
+  recommendedContent: false,
+  quietHours: {
+    enabled: false,
+    start: "22:00",
+    end: "08:00",
+  },
+  categories: [],
+  tags: [],
+  authors: [],
+  soundEnabled: true,
+  vibrationEnabled: true,
+  badgeEnabled: true,
+};
+
+// Preferences saved before tags, authors and quiet hours existed
+export const notificationPreferencesMigration: Migration = {
+  version: 2,
+  description: "Fill in notification preferences added since first save",
+  keys: [PREFERENCES_KEY],
+  migrate: (values) => {
+    const stored = values[PREFERENCES_KEY];
+    if (!stored) return values;
+
+    const preferences = JSON.parse(stored);
+    if (typeof preferences !== "object" || Array.isArray(preferences)) {
+      return { [PREFERENCES_KEY]: null };
+    }
+    return {
+      [PREFERENCES_KEY]: JSON.stringify({
+        ...DEFAULT_PREFERENCES,
+        ...preferences,
+        quietHours: {
+          ...DEFAULT_PREFERENCES.quietHours,
+          ...preferences?.quietHours,
+        },
+        tags: Array.isArray(preferences?.tags) ? preferences.tags : [],
+        authors: Array.isArray(preferences?.authors) ? preferences.authors : [],
+      }),
+    };
+  },
+};
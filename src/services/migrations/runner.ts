@@ -0,0 +1,140 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Migration, StoredValues } from "./types";
+
+const SCHEMA_VERSION_KEY = "@news_app_schema_version";
+// Original values of the step being written, restored if the app dies
+// halfway through a multi-key write
+const MIGRATION_BACKUP_KEY = "@news_app_migration_backup";
+
+interface MigrationBackup {
+  version: number;
+  values: StoredValues;
+}
+
+// Runs the steps newer than the stored schema version, in order. Each step
+// is applied all or nothing: its keys are backed up first and restored if
+// writing fails, and the version only moves once the step is written.
+// Storage that can't be written stops the run until the next launch;
+// data a step can't read is reset so the run carries on.
+export class MigrationRunner {
+  private running: Promise<number> | null = null;
+
+  constructor(private migrations: Migration[]) {}
+
+  async getVersion(): Promise<number> {
+    const stored = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+    return stored ? parseInt(stored, 10) || 0 : 0;
+  }
+
+  // Safe to call more than once; later calls wait for the first run.
+  // Resolves with the schema version storage ended up at.
+  run(): Promise<number> {
+    if (!this.running) {
+      this.running = this.runPending();
+    }
+    return this.running;
+  }
+
+  private async runPending(): Promise<number> {
+    await this.restoreInterruptedStep();
+
+    let version = await this.getVersion();
+    const pending = [...this.migrations]
+      .sort((a, b) => a.version - b.version)
+      .filter((migration) => migration.version > version);
+
+    for (const migration of pending) {
+      try {
+        await this.apply(migration);
+        version = migration.version;
+      } catch (error) {
+        // Later steps may depend on this one, so stop here and try again
+        // on the next launch
+        console.error(
+          `Storage migration ${migration.version} failed:`,
+          error
+        );
+        break;
+      }
+    }
+
+    return version;
+  }
+
+  private async apply(migration: Migration) {
+    const entries = await AsyncStorage.multiGet(migration.keys);
+    const original: StoredValues = Object.fromEntries(entries);
+    const context = migration.context ? await migration.context() : {};
+    const migrated = this.migrateValues(migration, original, context);
+
+    const changed = migration.keys.filter(
+      (key) => key in migrated && migrated[key] !== original[key]
+    );
+    if (changed.length > 0) {
+      const backup: MigrationBackup = {
+        version: migration.version,
+        values: original,
+      };
+      await AsyncStorage.setItem(MIGRATION_BACKUP_KEY, JSON.stringify(backup));
+
+      try {
+        await this.write(changed, migrated);
+      } catch (error) {
+        await this.write(migration.keys, original);
+        await AsyncStorage.removeItem(MIGRATION_BACKUP_KEY);
+        throw error;
+      }
+    }
+
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+    await AsyncStorage.removeItem(MIGRATION_BACKUP_KEY);
+  }
+
+  // A step throws on data it can't read. Retrying on every launch would
+  // hold back the later steps for good, so the keys are cleared instead
+  // and the app starts over from its defaults.
+  private migrateValues(
+    migration: Migration,
+    original: StoredValues,
+    context: StoredValues
+  ): StoredValues {
+    try {
+      return migration.migrate({ ...context, ...original });
+    } catch (error) {
+      console.error(
+        `Storage migration ${migration.version} reset unreadable data:`,
+        error
+      );
+      return Object.fromEntries(migration.keys.map((key) => [key, null]));
+    }
+  }
+
+  private async write(keys: string[], values: StoredValues) {
+    const toSet = keys
+      .filter((key) => values[key] !== null && values[key] !== undefined)
+      .map((key): [string, string] => [key, values[key] as string]);
+    const toRemove = keys.filter(
+      (key) => values[key] === null || values[key] === undefined
+    );
+
+    if (toSet.length > 0) await AsyncStorage.multiSet(toSet);
+    if (toRemove.length > 0) await AsyncStorage.multiRemove(toRemove);
+  }
+
+  // A backup left behind means the app stopped mid-step; put the
+  // original values back so the step runs again from a clean state
+  private async restoreInterruptedStep() {
+    try {
+      const stored = await AsyncStorage.getItem(MIGRATION_BACKUP_KEY);
+      if (!stored) return;
+
+      const backup: MigrationBackup = JSON.parse(stored);
+      if (backup.version > (await this.getVersion())) {
+        await this.write(Object.keys(backup.values), backup.values);
+      }
+      await AsyncStorage.removeItem(MIGRATION_BACKUP_KEY);
+    } catch (error) {
+      console.error("Error restoring interrupted migration:", error);
+    }
+  }
+}
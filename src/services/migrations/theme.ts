@@ -0,0 +1,29 @@
+import { Migration } from "./types";
+
+const THEME_KEYS = ["app_theme", "app_reader_theme"];
+// The themes there were when this step shipped. Kept as a copy so themes
+// added or renamed later don't change what the step does.
+const VALID_THEMES = [
+  "light",
+  "dark",
+  "sepia",
+  "amoled",
+  "highContrastLight",
+  "highContrastDark",
+  "system",
+];
+
+// Drop values that aren't a theme any more so the app falls back to the
+// system theme instead of checking on every launch
+const normalizeTheme = (value: string | null) =>
+  value !== null && VALID_THEMES.includes(value) ? value : null;
+
+export const themeMigration: Migration = {
+  version: 4,
+  description: "Normalize stored theme names",
+  keys: THEME_KEYS,
+  migrate: (values) =>
+    Object.fromEntries(
+      THEME_KEYS.map((key) => [key, normalizeTheme(values[key] ?? null)])
+    ),
+};
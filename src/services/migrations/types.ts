@@ -0,0 +1,16 @@
+// Raw AsyncStorage values by key; null means the key is absent
+export type StoredValues = Record<string, string | null>;
+
+// One step of the storage schema. Steps are pure so they can be checked
+// without a device: they get the current values of their keys and return
+// the values to write, where null removes the key. A step may throw on
+// data it can't read; its keys are then removed.
+export interface Migration {
+  version: number; // Schema version storage is at after this step
+  description: string;
+  keys: string[];
+  // Values the app works out rather than stores, e.g. the source it falls
+  // back to. Passed to migrate next to the stored ones and never written.
+  context?: () => Promise<StoredValues>;
+  migrate: (values: StoredValues) => StoredValues;
+}
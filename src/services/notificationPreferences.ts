@@ -16,6 +16,40 @@ import {
   logNotificationEvent,
   logNotificationError,
 } from "@/utils/notificationHelpers";
+import { sourceRegistryService } from "./sourceRegistry";
+
+type QuietHours = NotificationPreferences["quietHours"];
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+// Weekend-only quiet hours are the ones with every weekday turned off
+const isWeekendOnly = (quietHours: QuietHours) =>
+  WEEKDAYS.every((day) => quietHours.days?.[day] === null);
+
+// Category, tag and author ids are only unique within one site, so
+// follows are stored as "sourceId:id" the way getPostKey keys posts
+export const getFollowKey = (sourceId: string, id: string) =>
+  `${sourceId}:${id}`;
+
+const getFollowedIds = (keys: string[], sourceId: string) => {
+  const prefix = getFollowKey(sourceId, "");
+  return keys
+    .filter((key) => key.startsWith(prefix))
+    .map((key) => key.slice(prefix.length));
+};
+
+const getWeekendOnlyDays = (
+  quietHours: QuietHours,
+  weekendOnly: boolean
+): QuietHours["days"] => {
+  const days = { ...quietHours.days };
+  if (weekendOnly) {
+    WEEKDAYS.forEach((day) => (days[day] = null));
+  } else if (isWeekendOnly(quietHours)) {
+    WEEKDAYS.forEach((day) => delete days[day]);
+  }
+  return days;
+};
 
 export class NotificationPreferencesService {
   private static instance: NotificationPreferencesService;
@@ -41,7 +75,10 @@ export class NotificationPreferencesService {
       const preferences = await storage.get<NotificationPreferences>(
         NOTIFICATION_KEYS.PREFERENCES
       );
-      return preferences || DEFAULT_NOTIFICATION_PREFERENCES;
+      // Fill in fields added after the preferences were first saved
+      return preferences
+        ? { ...DEFAULT_NOTIFICATION_PREFERENCES, ...preferences }
+        : DEFAULT_NOTIFICATION_PREFERENCES;
     } catch (error) {
       logNotificationError(error, "Failed to get notification preferences");
       return DEFAULT_NOTIFICATION_PREFERENCES;
@@ -127,7 +164,7 @@ export class NotificationPreferencesService {
           enabled: preferences.quietHours.enabled,
           start: preferences.quietHours.start,
           end: preferences.quietHours.end,
-          weekendOnly: false, // Default value
+          weekendOnly: isWeekendOnly(preferences.quietHours),
         },
         custom: {}, // For custom notification types
       };
@@ -142,6 +179,7 @@ export class NotificationPreferencesService {
    */
   async updateSettings(settings: NotificationSettings): Promise<boolean> {
     try {
+      const currentPreferences = await this.getPreferences();
       const preferences: NotificationPreferences = {
         enabled: settings.global.enabled,
         breakingNews: settings.categories.breakingNews,
@@ -151,11 +189,18 @@ export class NotificationPreferencesService {
         vibrationEnabled: settings.global.vibrationEnabled,
         badgeEnabled: settings.global.badgeEnabled,
         quietHours: {
+          ...currentPreferences.quietHours,
           enabled: settings.quietHours.enabled,
           start: settings.quietHours.start,
           end: settings.quietHours.end,
+          days: getWeekendOnlyDays(
+            currentPreferences.quietHours,
+            settings.quietHours.weekendOnly
+          ),
         },
-        categories: [], // Could be populated from settings.custom
+        categories: currentPreferences.categories,
+        tags: currentPreferences.tags,
+        authors: currentPreferences.authors,
       };
 
       return await this.savePreferences(preferences);
@@ -202,12 +247,16 @@ export class NotificationPreferencesService {
   }
 
   /**
-   * Get user's selected categories
+   * Get the ids of the categories selected on a source, the active source
+   * by default
    */
-  async getSelectedCategories(): Promise<string[]> {
+  async getSelectedCategories(sourceId?: string): Promise<string[]> {
     try {
       const preferences = await this.getPreferences();
-      return preferences.categories || [];
+      return getFollowedIds(
+        preferences.categories || [],
+        await this.resolveSourceId(sourceId)
+      );
     } catch (error) {
       logNotificationError(error, "Failed to get selected categories");
       return [];
@@ -215,11 +264,11 @@ export class NotificationPreferencesService {
   }
 
   /**
-   * Update user's selected categories
+   * Replace the selected categories, keyed by source
    */
-  async updateSelectedCategories(categoryIds: string[]): Promise<boolean> {
+  async updateSelectedCategories(categoryKeys: string[]): Promise<boolean> {
     try {
-      return await this.updatePreferences({ categories: categoryIds });
+      return await this.updatePreferences({ categories: categoryKeys });
     } catch (error) {
       logNotificationError(error, "Failed to update selected categories");
       return false;
@@ -229,12 +278,14 @@ export class NotificationPreferencesService {
   /**
    * Add category to selected categories
    */
-  async addCategory(categoryId: string): Promise<boolean> {
+  async addCategory(categoryId: string, sourceId?: string): Promise<boolean> {
     try {
-      const categories = await this.getSelectedCategories();
-      if (!categories.includes(categoryId)) {
-        categories.push(categoryId);
-        return await this.updateSelectedCategories(categories);
+      const preferences = await this.getPreferences();
+      const categories = preferences.categories || [];
+      const resolvedSourceId = await this.resolveSourceId(sourceId);
+      const key = getFollowKey(resolvedSourceId, categoryId);
+      if (!categories.includes(key)) {
+        return await this.updateSelectedCategories([...categories, key]);
       }
       return true;
     } catch (error) {
@@ -246,10 +297,17 @@ export class NotificationPreferencesService {
   /**
    * Remove category from selected categories
    */
-  async removeCategory(categoryId: string): Promise<boolean> {
+  async removeCategory(
+    categoryId: string,
+    sourceId?: string
+  ): Promise<boolean> {
     try {
-      const categories = await this.getSelectedCategories();
-      const updatedCategories = categories.filter((id) => id !== categoryId);
+      const preferences = await this.getPreferences();
+      const resolvedSourceId = await this.resolveSourceId(sourceId);
+      const key = getFollowKey(resolvedSourceId, categoryId);
+      const updatedCategories = (preferences.categories || []).filter(
+        (category) => category !== key
+      );
       return await this.updateSelectedCategories(updatedCategories);
     } catch (error) {
       logNotificationError(error, "Failed to remove category");
@@ -260,13 +318,17 @@ export class NotificationPreferencesService {
   /**
    * Toggle category selection
    */
-  async toggleCategory(categoryId: string): Promise<boolean> {
+  async toggleCategory(
+    categoryId: string,
+    sourceId?: string
+  ): Promise<boolean> {
     try {
-      const categories = await this.getSelectedCategories();
+      const resolvedSourceId = await this.resolveSourceId(sourceId);
+      const categories = await this.getSelectedCategories(resolvedSourceId);
       if (categories.includes(categoryId)) {
-        return await this.removeCategory(categoryId);
+        return await this.removeCategory(categoryId, resolvedSourceId);
       } else {
-        return await this.addCategory(categoryId);
+        return await this.addCategory(categoryId, resolvedSourceId);
       }
     } catch (error) {
       logNotificationError(error, "Failed to toggle category");
@@ -274,6 +336,123 @@ export class NotificationPreferencesService {
     }
   }
 
+  /**
+   * Get the ids of the tags the user follows on a source, the active
+   * source by default
+   */
+  async getFollowedTags(sourceId?: string): Promise<string[]> {
+    try {
+      const preferences = await this.getPreferences();
+      return getFollowedIds(
+        preferences.tags || [],
+        await this.resolveSourceId(sourceId)
+      );
+    } catch (error) {
+      logNotificationError(error, "Failed to get followed tags");
+      return [];
+    }
+  }
+
+  /**
+   * Replace the followed tags, keyed by source
+   */
+  async updateFollowedTags(tagKeys: string[]): Promise<boolean> {
+    try {
+      return await this.updatePreferences({ tags: tagKeys });
+    } catch (error) {
+      logNotificationError(error, "Failed to update followed tags");
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a tag is followed
+   */
+  async isFollowingTag(tagId: string, sourceId?: string): Promise<boolean> {
+    const tags = await this.getFollowedTags(sourceId);
+    return tags.includes(tagId);
+  }
+
+  /**
+   * Follow or unfollow a tag
+   */
+  async toggleTag(tagId: string, sourceId?: string): Promise<boolean> {
+    try {
+      const preferences = await this.getPreferences();
+      const tags = preferences.tags || [];
+      const key = getFollowKey(await this.resolveSourceId(sourceId), tagId);
+      const updatedTags = tags.includes(key)
+        ? tags.filter((tag) => tag !== key)
+        : [...tags, key];
+      return await this.updateFollowedTags(updatedTags);
+    } catch (error) {
+      logNotificationError(error, "Failed to toggle tag");
+      return false;
+    }
+  }
+
+  /**
+   * Get the ids of the authors the user follows on a source, the active
+   * source by default
+   */
+  async getFollowedAuthors(sourceId?: string): Promise<string[]> {
+    try {
+      const preferences = await this.getPreferences();
+      return getFollowedIds(
+        preferences.authors || [],
+        await this.resolveSourceId(sourceId)
+      );
+    } catch (error) {
+      logNotificationError(error, "Failed to get followed authors");
+      return [];
+    }
+  }
+
+  /**
+   * Replace the followed authors, keyed by source
+   */
+  async updateFollowedAuthors(authorKeys: string[]): Promise<boolean> {
+    try {
+      return await this.updatePreferences({ authors: authorKeys });
+    } catch (error) {
+      logNotificationError(error, "Failed to update followed authors");
+      return false;
+    }
+  }
+
+  /**
+   * Check whether an author is followed
+   */
+  async isFollowingAuthor(
+    authorId: string,
+    sourceId?: string
+  ): Promise<boolean> {
+    const authors = await this.getFollowedAuthors(sourceId);
+    return authors.includes(authorId);
+  }
+
+  /**
+   * Follow or unfollow an author and push the change to the backend
+   */
+  async toggleAuthor(authorId: string, sourceId?: string): Promise<boolean> {
+    try {
+      const preferences = await this.getPreferences();
+      const authors = preferences.authors || [];
+      const key = getFollowKey(await this.resolveSourceId(sourceId), authorId);
+      const updatedAuthors = authors.includes(key)
+        ? authors.filter((author) => author !== key)
+        : [...authors, key];
+      const saved = await this.updateFollowedAuthors(updatedAuthors);
+
+      // The local change stands even if the backend can't be reached
+      if (saved) await this.syncWithBackend();
+      return saved;
+    } catch (error) {
+      logNotificationError(error, "Failed to toggle author");
+      return false;
+    }
+  }
+
   /**
    * Update quiet hours settings
    */
@@ -283,8 +462,9 @@ export class NotificationPreferencesService {
     end: string
   ): Promise<boolean> {
     try {
+      const { quietHours } = await this.getPreferences();
       return await this.updatePreferences({
-        quietHours: { enabled, start, end },
+        quietHours: { ...quietHours, enabled, start, end },
       });
     } catch (error) {
       logNotificationError(error, "Failed to update quiet hours");
@@ -494,13 +674,18 @@ export class NotificationPreferencesService {
       const preferences = await this.getPreferences();
       const settings = await this.getSettings();
       const frequencies = await this.getFrequencySettings();
-      const categories = await this.getSelectedCategories();
+      // Follows on every source
+      const categories = preferences.categories || [];
+      const tags = preferences.tags || [];
+      const authors = preferences.authors || [];
 
       const exportData = {
         preferences,
         settings,
         frequencies,
         selectedCategories: categories,
+        followedTags: tags,
+        followedAuthors: authors,
         exportedAt: new Date().toISOString(),
         version: "1.0.0",
       };
@@ -531,6 +716,14 @@ export class NotificationPreferencesService {
         await this.updateSelectedCategories(data.selectedCategories);
       }
 
+      if (data.followedTags) {
+        await this.updateFollowedTags(data.followedTags);
+      }
+
+      if (data.followedAuthors) {
+        await this.updateFollowedAuthors(data.followedAuthors);
+      }
+
       logNotificationEvent("Preferences imported successfully");
       return true;
     } catch (error) {
@@ -539,6 +732,13 @@ export class NotificationPreferencesService {
     }
   }
 
+  /**
+   * The source a follow belongs to, the active one when not given
+   */
+  private async resolveSourceId(sourceId?: string): Promise<string> {
+    return sourceId || (await sourceRegistryService.getActiveSource()).id;
+  }
+
   /**
    * Get authentication token for API requests
    */
@@ -574,8 +774,12 @@ export class NotificationPreferencesService {
       if (typeof preferences.vibrationEnabled !== "boolean") return false;
       if (typeof preferences.badgeEnabled !== "boolean") return false;
 
-      // Check categories
+      // Check followed lists (tags and authors are missing on older data)
       if (!Array.isArray(preferences.categories)) return false;
+      if (preferences.tags && !Array.isArray(preferences.tags)) return false;
+      if (preferences.authors && !Array.isArray(preferences.authors)) {
+        return false;
+      }
 
       return true;
     } catch (error) {
@@ -590,7 +794,10 @@ export class NotificationPreferencesService {
   async getPreferenceSummary(): Promise<any> {
     try {
       const preferences = await this.getPreferences();
-      const categories = await this.getSelectedCategories();
+      // Follows on every source
+      const categories = preferences.categories || [];
+      const tags = preferences.tags || [];
+      const authors = preferences.authors || [];
 
       return {
         globalEnabled: preferences.enabled,
@@ -603,6 +810,10 @@ export class NotificationPreferencesService {
         badgeEnabled: preferences.badgeEnabled,
         selectedCategoryCount: categories.length,
         selectedCategories: categories,
+        followedTagCount: tags.length,
+        followedTags: tags,
+        followedAuthorCount: authors.length,
+        followedAuthors: authors,
       };
     } catch (error) {
       logNotificationError(error, "Failed to get preference summary");
@@ -0,0 +1,208 @@
+import * as Notifications from "expo-notifications";
+import * as WebBrowser from "expo-web-browser";
+import { Href, router } from "expo-router";
+import { Platform, Share } from "react-native";
+import { NotificationData } from "@/types/notifications";
+import {
+  ARTICLE_NOTIFICATION_CATEGORY,
+  NOTIFICATION_ACTIONS,
+} from "@/constants/notifications";
+import { decodeEntities } from "@/utils/htmlParser";
+import { buildRoutePath } from "@/utils/linkResolver";
+import {
+  logNotificationError,
+  logNotificationEvent,
+  markNotificationAsInteracted,
+} from "@/utils/notificationHelpers";
+import { bookmarkService } from "./bookmarkService";
+import i18nService from "./i18n";
+import linkResolverService from "./linkResolver";
+import wordpressApiService from "./wordpress";
+
+// Opens the screen a tapped notification is about and runs its action
+// buttons. A tap that launched the app waits until the tabs are mounted,
+// since navigating before the root layout is up fails.
+class NotificationRouterService {
+  private handled = new Set<string>();
+  private navigationReady = false;
+  private pending: (() => void) | null = null;
+
+  // Listen for taps and action buttons. Returns a function that stops it.
+  start(): () => void {
+    this.registerActions();
+    const subscription = Notifications.addNotificationResponseReceivedListener(
+      (response) => this.handleResponse(response)
+    );
+    // Button titles follow the app language
+    const unsubscribeLanguage = i18nService.subscribe(() =>
+      this.registerActions()
+    );
+
+    // The tap that launched the app may have come before the listener
+    Notifications.getLastNotificationResponseAsync()
+      .then((response) => {
+        if (response) this.handleResponse(response);
+      })
+      .catch((error) =>
+        logNotificationError(error, "Failed to get launch notification")
+      );
+
+    return () => {
+      subscription.remove();
+      unsubscribeLanguage();
+    };
+  }
+
+  // Called by the tabs layout once navigation is possible
+  setNavigationReady() {
+    this.navigationReady = true;
+    const pending = this.pending;
+    this.pending = null;
+    pending?.();
+  }
+
+  // Open what a notification is about; also used by the history screen
+  async open(data: NotificationData): Promise<void> {
+    const route = await this.getRoute(data);
+    if (route) {
+      this.whenReady(() => router.push(route as Href));
+    } else if (data.url) {
+      const url = data.url;
+      this.whenReady(() => {
+        WebBrowser.openBrowserAsync(url).catch((error) =>
+          logNotificationError(error, "Failed to open notification link")
+        );
+      });
+    }
+  }
+
+  private whenReady(action: () => void) {
+    if (this.navigationReady) {
+      action();
+    } else {
+      // Only the latest tap matters
+      this.pending = action;
+    }
+  }
+
+  // A digest opens its list; otherwise the article first, then the link,
+  // category or author it names. Posts come from the selected source
+  // unless customData says otherwise.
+  private async getRoute(data: NotificationData): Promise<string | null> {
+    const sourceId: string | undefined = data.customData?.sourceId;
+
+    if (data.customData?.digest) return "/notifications/digest";
+    if (data.postId) {
+      return buildRoutePath(`/post/${data.postId}`, { source: sourceId });
+    }
+    if (data.url) return linkResolverService.resolve(data.url);
+    if (data.categoryId) {
+      return buildRoutePath("/categories", {
+        category: data.categoryId,
+        source: sourceId,
+      });
+    }
+    if (data.authorId) {
+      return buildRoutePath(`/author/${data.authorId}`, { source: sourceId });
+    }
+    return null;
+  }
+
+  private async handleResponse(response: Notifications.NotificationResponse) {
+    const { notification, actionIdentifier } = response;
+    const notificationId = notification.request.identifier;
+
+    // The launch response can arrive through both the listener and
+    // getLastNotificationResponseAsync
+    const key = `${notificationId}:${actionIdentifier}`;
+    if (this.handled.has(key)) return;
+    this.handled.add(key);
+
+    const data = (notification.request.content.data ||
+      {}) as unknown as NotificationData;
+
+    try {
+      await markNotificationAsInteracted(notificationId);
+
+      switch (actionIdentifier) {
+        case NOTIFICATION_ACTIONS.SAVE_FOR_LATER:
+          await this.saveForLater(data);
+          await Notifications.dismissNotificationAsync(notificationId);
+          break;
+        case NOTIFICATION_ACTIONS.SHARE:
+          await this.share(data);
+          break;
+        default:
+          await this.open(data);
+      }
+
+      logNotificationEvent("Notification response handled", {
+        action: actionIdentifier,
+        type: data.type,
+      });
+    } catch (error) {
+      logNotificationError(error, "Failed to handle notification response");
+    }
+  }
+
+  private registerActions() {
+    Notifications.setNotificationCategoryAsync(ARTICLE_NOTIFICATION_CATEGORY, [
+      {
+        identifier: NOTIFICATION_ACTIONS.SAVE_FOR_LATER,
+        buttonTitle: i18nService.t("notifications.saveForLater"),
+        // Bookmarks the article in the background
+        options: { opensAppToForeground: false },
+      },
+      {
+        identifier: NOTIFICATION_ACTIONS.SHARE,
+        buttonTitle: i18nService.t("notifications.share"),
+        // The share sheet needs the app on screen, but stays on top of
+        // whatever was open instead of navigating
+        options: { opensAppToForeground: true },
+      },
+    ]).catch((error) =>
+      logNotificationError(error, "Failed to register notification actions")
+    );
+  }
+
+  private async getPost(data: NotificationData) {
+    if (!data.postId) return null;
+    return wordpressApiService.getPostById(
+      parseInt(data.postId, 10),
+      data.customData?.sourceId
+    );
+  }
+
+  private async saveForLater(data: NotificationData) {
+    const post = await this.getPost(data);
+    if (!post) return;
+
+    if (!(await bookmarkService.isBookmarked(post.id, post.source_id))) {
+      await bookmarkService.addBookmark(post);
+    }
+  }
+
+  private async share(data: NotificationData) {
+    const post = await this.getPost(data);
+    const url = post?.link || data.url;
+    if (!url) return;
+
+    const title = post
+      ? decodeEntities(post.title.rendered.replace(/<[^>]*>/g, ""))
+      : "";
+    // Android only shares the message, so the link goes in there
+    const content =
+      Platform.OS === "ios"
+        ? { message: title, url }
+        : { message: title ? `${title}\n${url}` : url };
+
+    this.whenReady(() => {
+      Share.share(content).catch((error) =>
+        logNotificationError(error, "Failed to share from notification")
+      );
+    });
+  }
+}
+
+export const notificationRouterService = new NotificationRouterService();
+export default notificationRouterService;
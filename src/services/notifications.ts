@@ -9,6 +9,7 @@ import {
   NotificationValidationResult,
 } from "@/types/notifications";
 import {
+  ARTICLE_NOTIFICATION_CATEGORY,
   NOTIFICATION_KEYS,
   NOTIFICATION_CHANNELS,
   NOTIFICATION_TEMPLATES,
@@ -19,7 +20,8 @@ import {
 import {
   validateNotificationContent,
   addToNotificationHistory,
-  isWithinQuietHours,
+  removePendingFromHistory,
+  getDeferredDeliveryTime,
   formatNotificationTitle,
   formatNotificationBody,
   storage,
@@ -68,7 +70,7 @@ export class NotificationService {
   }
 
   /**
-   * Send a local notification immediately
+   * Send a local notification immediately, or when quiet hours end
    */
   async sendLocalNotification(
     title: string,
@@ -84,21 +86,9 @@ export class NotificationService {
         throw new Error(`Validation failed: ${validation.errors.join(", ")}`);
       }
 
-      // Check quiet hours
+      // Held back during quiet hours
       const preferences = await this.getPreferences();
-      if (preferences.enabled && preferences.quietHours.enabled) {
-        const now = new Date();
-        if (
-          isWithinQuietHours(
-            now,
-            preferences.quietHours.start,
-            preferences.quietHours.end
-          )
-        ) {
-          logNotificationEvent("Notification suppressed due to quiet hours");
-          return "";
-        }
-      }
+      const deliverAt = getDeferredDeliveryTime(data, preferences);
 
       // Format content
       const formattedTitle = formatNotificationTitle(title);
@@ -111,7 +101,9 @@ export class NotificationService {
         data: data as any,
         sound: preferences.soundEnabled ? "default" : undefined,
         badge: preferences.badgeEnabled ? 1 : undefined,
-        categoryId: data.type === "breaking_news" ? "breaking-news" : "default",
+        categoryIdentifier: data.postId
+          ? ARTICLE_NOTIFICATION_CATEGORY
+          : undefined,
       };
 
       // Add channel ID for Android
@@ -123,6 +115,10 @@ export class NotificationService {
         }
       }
 
+      if (deliverAt) {
+        return this.scheduleDeferred(notificationContent, data, deliverAt);
+      }
+
       // Schedule notification immediately
       const notificationId = await Notifications.scheduleNotificationAsync({
         content: notificationContent,
@@ -152,7 +148,92 @@ export class NotificationService {
   }
 
   /**
-   * Schedule a notification for later
+   * Schedule a notification held back by quiet hours for when they end
+   */
+  private async scheduleDeferred(
+    content: Notifications.NotificationContentInput,
+    data: NotificationData,
+    deliverAt: Date
+  ): Promise<string> {
+    const trigger: Notifications.DateTriggerInput = {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: deliverAt,
+    };
+    const notificationId = await Notifications.scheduleNotificationAsync({
+      content,
+      trigger,
+    });
+
+    await this.addScheduledNotification({
+      id: notificationId,
+      title: content.title || "",
+      body: content.body || "",
+      trigger,
+      data,
+      scheduledAt: new Date(),
+      repeats: false,
+    });
+
+    // Listed in history as arriving when quiet hours end
+    await addToNotificationHistory(
+      {
+        request: { identifier: notificationId, content, trigger },
+      } as Notifications.Notification,
+      deliverAt
+    );
+
+    logNotificationEvent("Notification deferred until quiet hours end", {
+      notificationId,
+      type: data.type,
+      deliverAt: deliverAt.toISOString(),
+    });
+
+    return notificationId;
+  }
+
+  /**
+   * Move a one-off trigger that fires during quiet hours to when they end.
+   * Repeating triggers have no single date and are left as they are.
+   */
+  private async applyQuietHours(
+    trigger: Notifications.NotificationTriggerInput,
+    data: NotificationData
+  ): Promise<Notifications.NotificationTriggerInput> {
+    const triggerDate = this.getTriggerDate(trigger);
+    if (!triggerDate) return trigger;
+
+    const preferences = await this.getPreferences();
+    const deliverAt = getDeferredDeliveryTime(data, preferences, triggerDate);
+    if (!deliverAt) return trigger;
+    return {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: deliverAt,
+    };
+  }
+
+  /**
+   * When a one-off trigger fires
+   */
+  private getTriggerDate(
+    trigger: Notifications.NotificationTriggerInput
+  ): Date | null {
+    if (!trigger || !("type" in trigger)) return null;
+
+    switch (trigger.type) {
+      case Notifications.SchedulableTriggerInputTypes.DATE:
+        return new Date(trigger.date);
+      case Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL:
+        return trigger.repeats
+          ? null
+          : new Date(Date.now() + trigger.seconds * 1000);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Schedule a notification for later. One that would fire during quiet
+   * hours is moved to when they end.
    */
   async scheduleNotification(
     title: string,
@@ -186,10 +267,12 @@ export class NotificationService {
           channelId || this.getDefaultChannelId(data.type);
       }
 
+      const scheduledTrigger = await this.applyQuietHours(trigger, data);
+
       // Schedule notification
       const notificationId = await Notifications.scheduleNotificationAsync({
         content: notificationContent,
-        trigger,
+        trigger: scheduledTrigger,
       });
 
       // Add to scheduled notifications
@@ -197,10 +280,13 @@ export class NotificationService {
         id: notificationId,
         title: formattedTitle,
         body: formattedBody,
-        trigger,
+        trigger: scheduledTrigger,
         data,
         scheduledAt: new Date(),
-        repeats: trigger && "repeats" in trigger ? trigger.repeats : false,
+        repeats:
+          scheduledTrigger && "repeats" in scheduledTrigger
+            ? scheduledTrigger.repeats
+            : false,
       };
 
       await this.addScheduledNotification(scheduledNotification);
@@ -208,7 +294,7 @@ export class NotificationService {
       logNotificationEvent("Notification scheduled", {
         notificationId,
         title: formattedTitle,
-        scheduledFor: trigger,
+        scheduledFor: scheduledTrigger,
       });
 
       return notificationId;
@@ -225,6 +311,8 @@ export class NotificationService {
     try {
       await Notifications.cancelScheduledNotificationAsync(notificationId);
       await this.removeScheduledNotification(notificationId);
+      // A deferred notification is in history ahead of its delivery
+      await removePendingFromHistory(notificationId);
 
       logNotificationEvent("Scheduled notification cancelled", {
         notificationId,
@@ -270,7 +358,8 @@ export class NotificationService {
     body: string,
     postId: string,
     categoryId?: string,
-    authorId?: string
+    authorId?: string,
+    customData?: Record<string, any>
   ): Promise<string> {
     const data: NotificationData = {
       type: "new_article",
@@ -278,6 +367,7 @@ export class NotificationService {
       categoryId,
       authorId,
       priority: "normal",
+      customData,
     };
 
     return this.sendLocalNotification(title, body, data, "new-articles");
@@ -303,12 +393,23 @@ export class NotificationService {
   }
 
   /**
-   * Send daily digest notification
+   * Send digest notification, naming the category when the articles
+   * share one
    */
-  async sendDailyDigestNotification(articleCount: number): Promise<string> {
-    const template = NOTIFICATION_TEMPLATES.DAILY_DIGEST;
-    const title = template.title.replace("{count}", articleCount.toString());
-    const body = template.body.replace("{count}", articleCount.toString());
+  async sendDigestNotification(
+    articleCount: number,
+    titles: string[],
+    category?: string
+  ): Promise<string> {
+    const template = category
+      ? NOTIFICATION_TEMPLATES.CATEGORY_DIGEST
+      : NOTIFICATION_TEMPLATES.DIGEST;
+    const title = template.title
+      .replace("{count}", articleCount.toString())
+      .replace("{category}", category || "");
+    const body = template.body
+      .replace("{titles}", titles.join(" • "))
+      .substring(0, 255);
 
     const data: NotificationData = {
       type: "custom",
@@ -316,7 +417,7 @@ export class NotificationService {
       customData: { digest: true, articleCount },
     };
 
-    return this.sendLocalNotification(title, body, data);
+    return this.sendLocalNotification(title, body, data, "new-articles");
   }
 
   /**
@@ -0,0 +1,145 @@
+import { Directory, File, Paths } from "expo-file-system";
+import { Post } from "@/types";
+import { getPostKey } from "@/utils/postIdentity";
+import wordpressApiService from "./wordpress";
+
+const OFFLINE_DIRECTORY = "offline-articles";
+const ARTICLE_FILE = "article.json";
+
+const IMG_SRC_PATTERN = /<img\b[^>]*?\ssrc=["']([^"']+)["'][^>]*>/gi;
+// Responsive image candidates point back at the site, so drop them
+const RESPONSIVE_ATTR_PATTERN = /\s(?:srcset|sizes|data-srcset)=["'][^"']*["']/gi;
+
+export interface OfflineArticle {
+  post: Post; // Image URLs point at the local copies
+  savedAt: string;
+  size: number; // Bytes used by the article and its images
+}
+
+const getImageExtension = (url: string) => {
+  const match = url.split(/[?#]/)[0].match(/\.(jpe?g|png|gif|webp|avif|svg)$/i);
+  return match ? `.${match[1].toLowerCase()}` : ".jpg";
+};
+
+// Stores full articles with their images under the document directory,
+// one folder per post, so bookmarks can be read without a connection
+class OfflineArticleService {
+  private getRootDirectory(): Directory {
+    const directory = new Directory(Paths.document, OFFLINE_DIRECTORY);
+    if (!directory.exists) {
+      directory.create({ intermediates: true, idempotent: true });
+    }
+    return directory;
+  }
+
+  private getArticleDirectory(postId: number, sourceId?: string): Directory {
+    const folderName = getPostKey(sourceId, postId).replace(/[^\w-]/g, "_");
+    return new Directory(this.getRootDirectory(), folderName);
+  }
+
+  // Download an image next to the article; keeps the remote URL on failure
+  private async downloadImage(
+    url: string,
+    directory: Directory,
+    index: number
+  ): Promise<string> {
+    try {
+      const file = new File(
+        directory,
+        `image-${index}${getImageExtension(url)}`
+      );
+      const downloaded = await File.downloadFileAsync(url, file, {
+        idempotent: true,
+      });
+      return downloaded.uri;
+    } catch (error) {
+      console.error("Error downloading article image:", error);
+      return url;
+    }
+  }
+
+  // Fetch the full post and store it with its featured and inline images
+  async saveArticle(postId: number, sourceId?: string): Promise<OfflineArticle> {
+    const post = await wordpressApiService.getPostById(postId, sourceId);
+    const directory = this.getArticleDirectory(postId, sourceId);
+    if (directory.exists) directory.delete();
+    directory.create({ intermediates: true });
+
+    let imageIndex = 0;
+    const featuredImage = post.featured_image
+      ? await this.downloadImage(post.featured_image, directory, imageIndex++)
+      : undefined;
+
+    const imageUrls = new Set<string>();
+    let match;
+    while ((match = IMG_SRC_PATTERN.exec(post.content.rendered)) !== null) {
+      if (/^https?:\/\//i.test(match[1])) imageUrls.add(match[1]);
+    }
+
+    let content = post.content.rendered.replace(RESPONSIVE_ATTR_PATTERN, "");
+    for (const url of imageUrls) {
+      const localUri = await this.downloadImage(url, directory, imageIndex++);
+      content = content.split(url).join(localUri);
+    }
+
+    const localPost: Post = {
+      ...post,
+      featured_image: featuredImage,
+      content: { ...post.content, rendered: content },
+    };
+    const savedAt = new Date().toISOString();
+    const articleFile = new File(directory, ARTICLE_FILE);
+    articleFile.write(JSON.stringify({ post: localPost, savedAt }));
+
+    return { post: localPost, savedAt, size: directory.size ?? 0 };
+  }
+
+  async getArticle(
+    postId: number,
+    sourceId?: string
+  ): Promise<OfflineArticle | null> {
+    try {
+      const directory = this.getArticleDirectory(postId, sourceId);
+      const articleFile = new File(directory, ARTICLE_FILE);
+      if (!articleFile.exists) return null;
+
+      const stored = JSON.parse(await articleFile.text());
+      return { ...stored, size: directory.size ?? 0 };
+    } catch (error) {
+      console.error("Error reading offline article:", error);
+      return null;
+    }
+  }
+
+  async removeArticle(postId: number, sourceId?: string): Promise<void> {
+    try {
+      const directory = this.getArticleDirectory(postId, sourceId);
+      if (directory.exists) directory.delete();
+    } catch (error) {
+      console.error("Error removing offline article:", error);
+    }
+  }
+
+  // Get the total storage used by offline articles in bytes
+  async getUsage(): Promise<number> {
+    try {
+      return this.getRootDirectory().size ?? 0;
+    } catch (error) {
+      console.error("Error measuring offline storage:", error);
+      return 0;
+    }
+  }
+
+  async clearAll(): Promise<void> {
+    try {
+      const directory = new Directory(Paths.document, OFFLINE_DIRECTORY);
+      if (directory.exists) directory.delete();
+    } catch (error) {
+      console.error("Error clearing offline articles:", error);
+      throw error;
+    }
+  }
+}
+
+export const offlineArticleService = new OfflineArticleService();
+export default offlineArticleService;
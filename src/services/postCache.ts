@@ -0,0 +1,306 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const CACHE_INDEX_KEY = "@news_app_post_cache_index";
+const CACHE_ENTRY_PREFIX = "@news_app_post_cache:";
+
+// AsyncStorage is capped at 6 MB on Android, so keep well below that
+const MAX_CACHE_BYTES = 3 * 1024 * 1024;
+// The WP REST API rarely sends Cache-Control for public endpoints
+const DEFAULT_MAX_AGE_SECONDS = 5 * 60;
+
+interface CacheEntry<T> {
+  data: T;
+  etag?: string;
+  lastModified?: string;
+  total?: number; // X-WP-Total
+  totalPages?: number; // X-WP-TotalPages
+  expiresAt: number;
+  storedAt: number;
+}
+
+interface CacheIndexItem {
+  size: number;
+  lastAccess: number;
+}
+
+export interface FetchResult {
+  status: number;
+  data: any;
+  headers: Record<string, any>;
+}
+
+export interface CachedResponse<T> {
+  data: T;
+  total?: number;
+  totalPages?: number;
+  fromCache: boolean; // Served from storage without reaching the site
+}
+
+export type CacheFetcher = (
+  headers: Record<string, string>
+) => Promise<FetchResult>;
+
+// Build a stable key from the site, endpoint and query parameters
+export const buildCacheKey = (
+  baseUrl: string,
+  path: string,
+  params: Record<string, any> = {}
+): string => {
+  const query = Object.keys(params)
+    .filter((name) => params[name] !== undefined)
+    .sort()
+    .map((name) => `${name}=${encodeURIComponent(String(params[name]))}`)
+    .join("&");
+  return `${baseUrl.replace(/\/+$/, "")}${path}${query ? `?${query}` : ""}`;
+};
+
+// Seconds the response may be served without revalidating
+export const parseMaxAge = (cacheControl?: string): number => {
+  if (!cacheControl) return DEFAULT_MAX_AGE_SECONDS;
+  if (/no-cache|no-store/i.test(cacheControl)) return 0;
+
+  const match = cacheControl.match(/max-age=(\d+)/i);
+  return match ? parseInt(match[1], 10) : DEFAULT_MAX_AGE_SECONDS;
+};
+
+const toNumber = (value: any): number | undefined => {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+// Stale-while-revalidate store for WordPress REST responses. Fresh entries
+// are served without a request; stale ones are served immediately and
+// revalidated in the background with If-None-Match / If-Modified-Since.
+class PostCacheService {
+  private index: Record<string, CacheIndexItem> = {};
+  private ready: Promise<void>;
+  private offline = false;
+  private inFlight = new Map<string, Promise<CachedResponse<any>>>();
+  private listeners: Array<(key?: string, data?: unknown) => void> = [];
+
+  constructor() {
+    this.ready = this.loadIndex();
+  }
+
+  private async loadIndex() {
+    try {
+      const storedIndex = await AsyncStorage.getItem(CACHE_INDEX_KEY);
+      this.index = storedIndex ? JSON.parse(storedIndex) : {};
+    } catch (error) {
+      console.error("Error loading post cache index:", error);
+      this.index = {};
+    }
+  }
+
+  // Subscribe to revalidated data (called with its key and the new data)
+  // and to offline status changes (called without a key)
+  subscribe(listener: (key?: string, data?: unknown) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyListeners(key?: string, data?: unknown) {
+    this.listeners.forEach((listener) => listener(key, data));
+  }
+
+  // True after a request failed for lack of a connection and saved
+  // copies are being shown instead; cleared by the next successful request
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  private setOffline(offline: boolean) {
+    if (this.offline === offline) return;
+    this.offline = offline;
+    this.notifyListeners();
+  }
+
+  async get<T>(
+    key: string,
+    fetcher: CacheFetcher,
+    transform: (raw: any) => T
+  ): Promise<CachedResponse<T>> {
+    await this.ready;
+    const entry = await this.readEntry<T>(key);
+
+    if (entry) {
+      if (entry.expiresAt <= Date.now()) {
+        this.revalidate(key, entry, fetcher, transform).catch(() => {
+          // Already logged; the stale copy stays on screen
+        });
+      }
+      return {
+        data: entry.data,
+        total: entry.total,
+        totalPages: entry.totalPages,
+        fromCache: true,
+      };
+    }
+
+    return this.revalidate(key, null, fetcher, transform);
+  }
+
+  private revalidate<T>(
+    key: string,
+    entry: CacheEntry<T> | null,
+    fetcher: CacheFetcher,
+    transform: (raw: any) => T
+  ): Promise<CachedResponse<T>> {
+    // Collapse concurrent requests for the same resource
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = this.request(key, entry, fetcher, transform).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async request<T>(
+    key: string,
+    entry: CacheEntry<T> | null,
+    fetcher: CacheFetcher,
+    transform: (raw: any) => T
+  ): Promise<CachedResponse<T>> {
+    const headers: Record<string, string> = {};
+    if (entry?.etag) headers["If-None-Match"] = entry.etag;
+    if (entry?.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+
+    let response: FetchResult;
+    try {
+      response = await fetcher(headers);
+    } catch (error: any) {
+      // No response at all means the device (or the site) is unreachable
+      if (!error?.response) this.setOffline(true);
+      if (entry) {
+        return {
+          data: entry.data,
+          total: entry.total,
+          totalPages: entry.totalPages,
+          fromCache: true,
+        };
+      }
+      throw error;
+    }
+
+    this.setOffline(false);
+    const expiresAt =
+      Date.now() + parseMaxAge(response.headers["cache-control"]) * 1000;
+
+    if (response.status === 304 && entry) {
+      await this.writeEntry(key, { ...entry, expiresAt });
+      return {
+        data: entry.data,
+        total: entry.total,
+        totalPages: entry.totalPages,
+        fromCache: false,
+      };
+    }
+
+    const nextEntry: CacheEntry<T> = {
+      data: transform(response.data),
+      etag: response.headers["etag"],
+      lastModified: response.headers["last-modified"],
+      total: toNumber(response.headers["x-wp-total"]),
+      totalPages: toNumber(response.headers["x-wp-totalpages"]),
+      expiresAt,
+      storedAt: Date.now(),
+    };
+    const changed =
+      !!entry && JSON.stringify(entry.data) !== JSON.stringify(nextEntry.data);
+
+    await this.writeEntry(key, nextEntry);
+    if (changed) this.notifyListeners(key, nextEntry.data);
+
+    return {
+      data: nextEntry.data,
+      total: nextEntry.total,
+      totalPages: nextEntry.totalPages,
+      fromCache: false,
+    };
+  }
+
+  private async readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+    if (!this.index[key]) return null;
+
+    try {
+      const storedEntry = await AsyncStorage.getItem(CACHE_ENTRY_PREFIX + key);
+      if (!storedEntry) {
+        delete this.index[key];
+        return null;
+      }
+      // Recency is persisted with the next write rather than on every read
+      this.index[key].lastAccess = Date.now();
+      return JSON.parse(storedEntry);
+    } catch (error) {
+      console.error("Error reading cached response:", error);
+      return null;
+    }
+  }
+
+  private async writeEntry<T>(key: string, entry: CacheEntry<T>) {
+    try {
+      const serialized = JSON.stringify(entry);
+      if (serialized.length > MAX_CACHE_BYTES) return;
+
+      await AsyncStorage.setItem(CACHE_ENTRY_PREFIX + key, serialized);
+      this.index[key] = { size: serialized.length, lastAccess: Date.now() };
+      await this.evict();
+    } catch (error) {
+      console.error("Error writing cached response:", error);
+    }
+  }
+
+  // Drop least recently used entries until the cache fits its budget
+  private async evict() {
+    let totalSize = Object.values(this.index).reduce(
+      (sum, item) => sum + item.size,
+      0
+    );
+    const evicted: string[] = [];
+
+    if (totalSize > MAX_CACHE_BYTES) {
+      const byAge = Object.keys(this.index).sort(
+        (a, b) => this.index[a].lastAccess - this.index[b].lastAccess
+      );
+      for (const key of byAge) {
+        if (totalSize <= MAX_CACHE_BYTES) break;
+        totalSize -= this.index[key].size;
+        delete this.index[key];
+        evicted.push(key);
+      }
+    }
+
+    if (evicted.length > 0) {
+      await AsyncStorage.multiRemove(
+        evicted.map((key) => CACHE_ENTRY_PREFIX + key)
+      );
+    }
+    await AsyncStorage.setItem(CACHE_INDEX_KEY, JSON.stringify(this.index));
+  }
+
+  // Get the total size of cached responses in bytes
+  async getCacheSize(): Promise<number> {
+    await this.ready;
+    return Object.values(this.index).reduce((sum, item) => sum + item.size, 0);
+  }
+
+  async clear(): Promise<void> {
+    await this.ready;
+    try {
+      await AsyncStorage.multiRemove([
+        CACHE_INDEX_KEY,
+        ...Object.keys(this.index).map((key) => CACHE_ENTRY_PREFIX + key),
+      ]);
+      this.index = {};
+    } catch (error) {
+      console.error("Error clearing post cache:", error);
+    }
+  }
+}
+
+export const postCacheService = new PostCacheService();
+export default postCacheService;
@@ -0,0 +1,152 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Post, ReadingProgress } from "@/types";
+import { getPostKey } from "@/utils/postIdentity";
+
+const READING_PROGRESS_KEY = "@news_app_reading_progress";
+// Oldest entries are dropped beyond this so storage doesn't grow forever
+const MAX_ENTRIES = 500;
+// Scrolling this far counts as having read the post; the end of most
+// articles is share buttons and related links
+export const FINISHED_THRESHOLD = 0.9;
+// Posts barely started aren't worth offering to continue
+const MIN_CONTINUE_PROGRESS = 0.05;
+
+export interface ProgressUpdate {
+  progress: number;
+  scrollOffset: number;
+  timeSpent?: number; // Seconds to add to the total
+}
+
+class ReadingProgressService {
+  private listeners: Array<() => void> = [];
+
+  // Subscribe to reading progress changes
+  subscribe(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // All progress entries, keyed by getPostKey
+  async getProgressMap(): Promise<Record<string, ReadingProgress>> {
+    try {
+      const stored = await AsyncStorage.getItem(READING_PROGRESS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error("Error getting reading progress:", error);
+      return {};
+    }
+  }
+
+  private async saveProgressMap(entries: Record<string, ReadingProgress>) {
+    const keys = Object.keys(entries);
+    if (keys.length > MAX_ENTRIES) {
+      const byRecency = (a: string, b: string) =>
+        entries[b].updatedAt.localeCompare(entries[a].updatedAt);
+      keys
+        .sort(byRecency)
+        .slice(MAX_ENTRIES)
+        .forEach((key) => delete entries[key]);
+    }
+
+    await AsyncStorage.setItem(READING_PROGRESS_KEY, JSON.stringify(entries));
+    this.notifyListeners();
+  }
+
+  async getProgress(
+    postId: number,
+    sourceId?: string
+  ): Promise<ReadingProgress | null> {
+    const entries = await this.getProgressMap();
+    return entries[getPostKey(sourceId, postId)] || null;
+  }
+
+  // Record where the user is in a post. Progress only moves forward, so
+  // scrolling back up to re-read a paragraph doesn't lose the high mark.
+  async updateProgress(
+    post: Post,
+    update: ProgressUpdate
+  ): Promise<ReadingProgress | null> {
+    try {
+      const entries = await this.getProgressMap();
+      const key = getPostKey(post.source_id, post.id);
+      const existing = entries[key];
+      const now = new Date().toISOString();
+      const progress = Math.min(1, Math.max(0, update.progress));
+
+      const entry: ReadingProgress = {
+        id: post.id,
+        source_id: post.source_id,
+        source_name: post.source_name,
+        title: post.title.rendered.replace(/<[^>]*>/g, ""),
+        featured_image: post.featured_image,
+        link: post.link,
+        progress: Math.max(existing?.progress ?? 0, progress),
+        scrollOffset: Math.max(0, update.scrollOffset),
+        finished: existing?.finished || progress >= FINISHED_THRESHOLD,
+        timeSpent: (existing?.timeSpent ?? 0) + (update.timeSpent ?? 0),
+        startedAt: existing?.startedAt ?? now,
+        updatedAt: now,
+      };
+
+      entries[key] = entry;
+      await this.saveProgressMap(entries);
+      return entry;
+    } catch (error) {
+      console.error("Error saving reading progress:", error);
+      return null;
+    }
+  }
+
+  // Started but unfinished posts, most recently read first
+  async getInProgress(limit = 10): Promise<ReadingProgress[]> {
+    const entries = await this.getProgressMap();
+    return Object.values(entries)
+      .filter(
+        (entry) => !entry.finished && entry.progress >= MIN_CONTINUE_PROGRESS
+      )
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, limit);
+  }
+
+  async removeProgress(postId: number, sourceId?: string): Promise<void> {
+    try {
+      const entries = await this.getProgressMap();
+      delete entries[getPostKey(sourceId, postId)];
+      await this.saveProgressMap(entries);
+    } catch (error) {
+      console.error("Error removing reading progress:", error);
+    }
+  }
+
+  // Forget posts read in the last `milliseconds`
+  async clearRecent(milliseconds: number): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - milliseconds).toISOString();
+      const entries = await this.getProgressMap();
+      Object.keys(entries)
+        .filter((key) => entries[key].updatedAt >= cutoff)
+        .forEach((key) => delete entries[key]);
+      await this.saveProgressMap(entries);
+    } catch (error) {
+      console.error("Error clearing recent reading progress:", error);
+    }
+  }
+
+  async clearAll(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(READING_PROGRESS_KEY);
+      this.notifyListeners();
+    } catch (error) {
+      console.error("Error clearing reading progress:", error);
+    }
+  }
+}
+
+export const readingProgressService = new ReadingProgressService();
+export default readingProgressService;
@@ -0,0 +1,124 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import axios from "axios";
+import { SiteBranding } from "@/types/theme";
+import { WordPressSource } from "@/types/wordpress";
+import {
+  BRANDING_MAX_AGE,
+  BRANDING_OVERRIDES,
+  DEFAULT_ACCENT_COLOR,
+} from "@/constants/branding";
+import { isHexColor } from "@/utils/colorUtils";
+import { getHostname, normalizeSiteUrl } from "@/utils/urlUtils";
+
+const BRANDING_KEY = "@news_app_site_branding";
+
+class SiteBrandingService {
+  private cache: Record<string, SiteBranding> = {};
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.loadCache();
+  }
+
+  private async loadCache() {
+    try {
+      const stored = await AsyncStorage.getItem(BRANDING_KEY);
+      this.cache = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error("Error loading site branding:", error);
+    }
+  }
+
+  private async persistCache() {
+    try {
+      await AsyncStorage.setItem(BRANDING_KEY, JSON.stringify(this.cache));
+    } catch (error) {
+      console.error("Error saving site branding:", error);
+    }
+  }
+
+  // Name, icon and accent colour of a source, refreshed once a day. Falls
+  // back to the last known branding (or just the source name) offline.
+  async getBranding(
+    source: WordPressSource,
+    forceRefresh = false
+  ): Promise<SiteBranding> {
+    await this.ready;
+    const cached = this.cache[source.id];
+    const isFresh = cached && Date.now() - cached.fetchedAt < BRANDING_MAX_AGE;
+
+    if (isFresh && !forceRefresh) {
+      return this.applyOverrides(source, cached);
+    }
+
+    try {
+      const branding = await this.fetchBranding(source);
+      this.cache[source.id] = branding;
+      await this.persistCache();
+      return this.applyOverrides(source, branding);
+    } catch (error) {
+      console.error("Error fetching site branding:", error);
+      return this.applyOverrides(
+        source,
+        cached || { sourceId: source.id, name: source.name, fetchedAt: 0 }
+      );
+    }
+  }
+
+  private async fetchBranding(source: WordPressSource): Promise<SiteBranding> {
+    const siteUrl = normalizeSiteUrl(source.baseUrl)?.siteUrl;
+    if (!siteUrl) {
+      throw new Error("Invalid source URL");
+    }
+
+    // _fields keeps WordPress from sending the whole route list
+    const response = await axios.get(`${siteUrl}/wp-json/`, {
+      timeout: 10000,
+      params: {
+        _fields: "name,description,site_icon_url,accent_color,theme_color",
+      },
+    });
+    const data = response.data || {};
+
+    // Core has no accent colour in the index; sites can add one with the
+    // rest_index filter under either of these names
+    const accentColor = [data.accent_color, data.theme_color].find(
+      isHexColor
+    );
+
+    return {
+      sourceId: source.id,
+      name: data.name || source.name,
+      description: data.description || undefined,
+      iconUrl: data.site_icon_url || undefined,
+      accentColor,
+      fetchedAt: Date.now(),
+    };
+  }
+
+  // Build-time configuration beats whatever the site reports
+  private applyOverrides(
+    source: WordPressSource,
+    branding: SiteBranding
+  ): SiteBranding {
+    const override = {
+      ...BRANDING_OVERRIDES[getHostname(source.baseUrl)],
+      ...BRANDING_OVERRIDES[source.id],
+    };
+
+    return {
+      ...branding,
+      ...override,
+      accentColor:
+        override.accentColor || branding.accentColor || DEFAULT_ACCENT_COLOR,
+    };
+  }
+
+  async clearCache(): Promise<void> {
+    this.cache = {};
+    await AsyncStorage.removeItem(BRANDING_KEY);
+  }
+}
+
+export const siteBrandingService = new SiteBrandingService();
+export default siteBrandingService;
@@ -0,0 +1,293 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import axios from "axios";
+import {
+  WordPressSource,
+  SourceError,
+  SourceErrorCode,
+  SourceValidationResult,
+} from "@/types/wordpress";
+import { getHostname, normalizeSiteUrl } from "@/utils/urlUtils";
+import i18nService, { TranslationKey } from "./i18n";
+
+const SOURCES_KEY = "@news_app_sources";
+const ACTIVE_SOURCE_KEY = "@news_app_active_source";
+const AGGREGATE_FEED_KEY = "@news_app_aggregate_feed";
+
+const SOURCE_ERROR_MESSAGES: Record<SourceErrorCode, TranslationKey> = {
+  invalidUrl: "sources.invalidUrl",
+  noRestApi: "sources.noRestApi",
+  unreachable: "sources.unreachable",
+  invalidSite: "sources.invalidSite",
+  duplicate: "sources.duplicate",
+  unavailable: "sources.unavailable",
+  lastEnabled: "sources.lastEnabled",
+};
+
+const createSourceError = (code: SourceErrorCode) =>
+  new SourceError(i18nService.t(SOURCE_ERROR_MESSAGES[code]), code);
+
+const invalidResult = (code: SourceErrorCode): SourceValidationResult => ({
+  valid: false,
+  errorCode: code,
+  error: i18nService.t(SOURCE_ERROR_MESSAGES[code]),
+});
+
+const DEFAULT_EN_URL =
+  process.env.EXPO_PUBLIC_WORDPRESS_EN_API_URL ||
+  "https://blog.doavers.com/wp-json/wp/v2/";
+const DEFAULT_ID_URL =
+  process.env.EXPO_PUBLIC_WORDPRESS_ID_API_URL ||
+  "https://doavers.my.id/wp-json/wp/v2/";
+const DEFAULT_EN_FEATURED_CATEGORY_ID =
+  process.env.EXPO_PUBLIC_WORDPRESS_EN_FEATURED_CATEGORY_ID || "6";
+const DEFAULT_ID_FEATURED_CATEGORY_ID =
+  process.env.EXPO_PUBLIC_WORDPRESS_ID_FEATURED_CATEGORY_ID || "6";
+
+// The two sites the app shipped with before sources became configurable
+const DEFAULT_SOURCES: WordPressSource[] = [
+  {
+    id: "default-en",
+    name: getHostname(DEFAULT_EN_URL),
+    baseUrl: DEFAULT_EN_URL,
+    language: "en",
+    featuredCategoryId: parseInt(DEFAULT_EN_FEATURED_CATEGORY_ID, 10),
+    enabled: true,
+  },
+  {
+    id: "default-id",
+    name: getHostname(DEFAULT_ID_URL),
+    baseUrl: DEFAULT_ID_URL,
+    language: "id",
+    featuredCategoryId: parseInt(DEFAULT_ID_FEATURED_CATEGORY_ID, 10),
+    enabled: true,
+  },
+];
+
+export interface NewSourceInput {
+  url: string;
+  name?: string;
+  language?: string;
+  featuredCategoryId?: number;
+}
+
+class SourceRegistryService {
+  private sources: WordPressSource[] = [];
+  private activeSourceId: string | null = null;
+  private aggregateFeed = false;
+  private listeners: Array<() => void> = [];
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.loadSources();
+  }
+
+  private async loadSources() {
+    try {
+      const storedSources = await AsyncStorage.getItem(SOURCES_KEY);
+      this.sources = storedSources
+        ? JSON.parse(storedSources)
+        : [...DEFAULT_SOURCES];
+      this.activeSourceId = await AsyncStorage.getItem(ACTIVE_SOURCE_KEY);
+      this.aggregateFeed =
+        (await AsyncStorage.getItem(AGGREGATE_FEED_KEY)) === "true";
+    } catch (error) {
+      console.error("Error loading WordPress sources:", error);
+      this.sources = [...DEFAULT_SOURCES];
+    }
+  }
+
+  // Subscribe to source list or active source changes
+  subscribe(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async persistSources() {
+    await AsyncStorage.setItem(SOURCES_KEY, JSON.stringify(this.sources));
+    this.notifyListeners();
+  }
+
+  // Get all configured sources in display order
+  async getSources(): Promise<WordPressSource[]> {
+    await this.ready;
+    return [...this.sources];
+  }
+
+  async getEnabledSources(): Promise<WordPressSource[]> {
+    await this.ready;
+    return this.sources.filter((source) => source.enabled);
+  }
+
+  async getSourceById(id: string): Promise<WordPressSource | null> {
+    await this.ready;
+    return this.sources.find((source) => source.id === id) || null;
+  }
+
+  // Get the source every API call is routed through
+  async getActiveSource(): Promise<WordPressSource> {
+    await this.ready;
+    const enabledSources = this.sources.filter((source) => source.enabled);
+
+    const activeSource = enabledSources.find(
+      (source) => source.id === this.activeSourceId
+    );
+    if (activeSource) return activeSource;
+
+    // Nothing picked yet: prefer a site in the app language, as before
+    const currentLanguage = i18nService.getCurrentLanguage();
+    return (
+      enabledSources.find((source) => source.language === currentLanguage) ||
+      enabledSources[0] ||
+      this.sources[0] ||
+      DEFAULT_SOURCES[0]
+    );
+  }
+
+  async setActiveSource(id: string): Promise<void> {
+    await this.ready;
+    const source = this.sources.find((s) => s.id === id);
+    if (!source || !source.enabled) {
+      throw createSourceError("unavailable");
+    }
+
+    this.activeSourceId = id;
+    try {
+      await AsyncStorage.setItem(ACTIVE_SOURCE_KEY, id);
+    } catch (error) {
+      console.error("Error saving active source:", error);
+    }
+    this.notifyListeners();
+  }
+
+  // Whether Home merges latest posts from every enabled source
+  async getAggregateFeedEnabled(): Promise<boolean> {
+    await this.ready;
+    return this.aggregateFeed;
+  }
+
+  async setAggregateFeedEnabled(enabled: boolean): Promise<void> {
+    await this.ready;
+    this.aggregateFeed = enabled;
+    try {
+      await AsyncStorage.setItem(AGGREGATE_FEED_KEY, String(enabled));
+    } catch (error) {
+      console.error("Error saving aggregate feed setting:", error);
+    }
+    this.notifyListeners();
+  }
+
+  // Check that a URL points at a WordPress site with the REST API enabled
+  async validateSource(url: string): Promise<SourceValidationResult> {
+    const normalized = normalizeSiteUrl(url);
+    if (!normalized) {
+      return invalidResult("invalidUrl");
+    }
+
+    try {
+      const response = await axios.get(`${normalized.siteUrl}/wp-json/`, {
+        timeout: 10000,
+      });
+      const namespaces: string[] = response.data?.namespaces || [];
+
+      if (!namespaces.includes("wp/v2")) {
+        return invalidResult("noRestApi");
+      }
+
+      return {
+        valid: true,
+        name: response.data?.name || getHostname(normalized.siteUrl),
+        description: response.data?.description,
+        baseUrl: normalized.apiBaseUrl,
+      };
+    } catch (error) {
+      console.error("Error validating WordPress source:", error);
+      return invalidResult("unreachable");
+    }
+  }
+
+  // Validate and add a new source at the end of the list
+  async addSource(input: NewSourceInput): Promise<WordPressSource> {
+    await this.ready;
+    const validation = await this.validateSource(input.url);
+    if (!validation.valid || !validation.baseUrl) {
+      throw createSourceError(validation.errorCode || "invalidSite");
+    }
+
+    if (this.sources.some((source) => source.baseUrl === validation.baseUrl)) {
+      throw createSourceError("duplicate");
+    }
+
+    const source: WordPressSource = {
+      id: `source-${Date.now()}`,
+      name: input.name?.trim() || validation.name || getHostname(input.url),
+      baseUrl: validation.baseUrl,
+      language: input.language || i18nService.getCurrentLanguage(),
+      featuredCategoryId: input.featuredCategoryId ?? 1,
+      enabled: true,
+    };
+
+    this.sources = [...this.sources, source];
+    await this.persistSources();
+    return source;
+  }
+
+  async updateSource(
+    id: string,
+    updates: Partial<Omit<WordPressSource, "id" | "baseUrl">>
+  ): Promise<void> {
+    await this.ready;
+    const remainingEnabled = this.sources.filter(
+      (source) => source.enabled && source.id !== id
+    );
+    if (updates.enabled === false && remainingEnabled.length === 0) {
+      throw createSourceError("lastEnabled");
+    }
+
+    this.sources = this.sources.map((source) =>
+      source.id === id ? { ...source, ...updates } : source
+    );
+    await this.persistSources();
+  }
+
+  async removeSource(id: string): Promise<void> {
+    await this.ready;
+    const remaining = this.sources.filter((source) => source.id !== id);
+    if (!remaining.some((source) => source.enabled)) {
+      throw createSourceError("lastEnabled");
+    }
+
+    this.sources = remaining;
+    if (this.activeSourceId === id) {
+      this.activeSourceId = null;
+      await AsyncStorage.removeItem(ACTIVE_SOURCE_KEY);
+    }
+    await this.persistSources();
+  }
+
+  // Move a source one position up or down in the list
+  async moveSource(id: string, direction: "up" | "down"): Promise<void> {
+    await this.ready;
+    const index = this.sources.findIndex((source) => source.id === id);
+    const targetIndex = direction === "up" ? index - 1 : index + 1;
+    if (index < 0 || targetIndex < 0 || targetIndex >= this.sources.length) {
+      return;
+    }
+
+    const reordered = [...this.sources];
+    [reordered[index], reordered[targetIndex]] = [
+      reordered[targetIndex],
+      reordered[index],
+    ];
+    this.sources = reordered;
+    await this.persistSources();
+  }
+}
+
+export const sourceRegistryService = new SourceRegistryService();
+export default sourceRegistryService;
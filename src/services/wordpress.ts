@@ -1,26 +1,32 @@
 import axios, { AxiosInstance } from "axios";
-import { Post, Category, PostListParams } from "@/types/wordpress";
-import i18nService from "./i18n";
-
-const DEFAULT_EN_URL =
-  process.env.EXPO_PUBLIC_WORDPRESS_EN_API_URL ||
-  "https://blog.doavers.com/wp-json/wp/v2/";
-const DEFAULT_ID_URL =
-  process.env.EXPO_PUBLIC_WORDPRESS_ID_API_URL ||
-  "https://doavers.my.id/wp-json/wp/v2/";
-const DEFAULT_EN_FEATURED_CATEGORY_ID =
-  process.env.EXPO_PUBLIC_WORDPRESS_EN_FEATURED_CATEGORY_ID || "6";
-const DEFAULT_ID_FEATURED_CATEGORY_ID =
-  process.env.EXPO_PUBLIC_WORDPRESS_ID_FEATURED_CATEGORY_ID || "6";
+import {
+  Post,
+  Category,
+  Tag,
+  Author,
+  TermReference,
+  PaginatedResult,
+  PostListParams,
+  NewPostFilters,
+  WordPressSource,
+} from "@/types/wordpress";
+import sourceRegistryService from "./sourceRegistry";
+import postCacheService, { buildCacheKey, CachedResponse } from "./postCache";
+
+// Cache keys of post lists and single posts, as built by cachedGet
+const POSTS_PATH = /\/posts(\/\d+)?(\?|$)/;
+
+const SLUG_LOOKUP_PATHS = {
+  category: "/categories",
+  tag: "/tags",
+  author: "/users",
+};
 
 class WordPressApiService {
   private api: AxiosInstance;
-  private currentBaseUrl: string;
 
   constructor() {
-    this.currentBaseUrl = this.getBaseUrlByLanguage();
     this.api = axios.create({
-      baseURL: this.currentBaseUrl,
       timeout: 10000,
       headers: {
         "Content-Type": "application/json",
@@ -28,99 +34,127 @@ class WordPressApiService {
     });
   }
 
-  private getBaseUrlByLanguage(): string {
-    const currentLanguage = i18nService.getCurrentLanguage();
-    // console.log("WordPressApiService: Current language:", currentLanguage);
-
-    if (currentLanguage === "id") {
-      // console.log("WordPressApiService: Using Indonesian URL:", DEFAULT_ID_URL);
-      return DEFAULT_ID_URL;
-    } else {
-      // console.log("WordPressApiService: Using English URL:", DEFAULT_EN_URL);
-      return DEFAULT_EN_URL;
+  // Requests go to the given source, or to the one selected in Settings
+  private async resolveSource(sourceId?: string): Promise<WordPressSource> {
+    if (sourceId) {
+      const source = await sourceRegistryService.getSourceById(sourceId);
+      if (source) return source;
     }
+    return sourceRegistryService.getActiveSource();
   }
 
-  private getFeaturedCategoryIdByLanguage(): string {
-    const currentLanguage = i18nService.getCurrentLanguage();
-    // console.log(
-    //   "WordPressApiService: Getting featured category ID for language:",
-    //   currentLanguage
-    // );
-
-    if (currentLanguage === "id") {
-      const categoryId = DEFAULT_ID_FEATURED_CATEGORY_ID;
-      // console.log(
-      //   "WordPressApiService: Using Indonesian featured category ID:",
-      //   categoryId
-      // );
-      return categoryId;
-    } else {
-      const categoryId = DEFAULT_EN_FEATURED_CATEGORY_ID;
-      // console.log(
-      //   "WordPressApiService: Using English featured category ID:",
-      //   categoryId
-      // );
-      return categoryId;
-    }
+  // GET through the persistent cache; callers get saved data immediately
+  // while the cache revalidates it against the site in the background
+  private cachedGet<T>(
+    source: WordPressSource,
+    path: string,
+    params: Record<string, any>,
+    transform: (data: any) => T
+  ): Promise<CachedResponse<T>> {
+    return postCacheService.get(
+      buildCacheKey(source.baseUrl, path, params),
+      (headers) =>
+        this.api.get(path, {
+          baseURL: source.baseUrl,
+          params,
+          headers,
+          validateStatus: (status) =>
+            (status >= 200 && status < 300) || status === 304,
+        }),
+      transform
+    );
   }
 
-  updateBaseUrl() {
-    const newBaseUrl = this.getBaseUrlByLanguage();
-    if (newBaseUrl !== this.currentBaseUrl) {
-      // console.log(
-      //   "WordPressApiService: Updating base URL from",
-      //   this.currentBaseUrl,
-      //   "to",
-      //   newBaseUrl
-      // );
-      this.currentBaseUrl = newBaseUrl;
-      this.api.defaults.baseURL = newBaseUrl;
-    }
+  // Fresher copies of posts once the cache has revalidated a request for
+  // a list of posts or a single one. Screens swap them in for the posts
+  // they show rather than loading everything again.
+  subscribeToPosts(listener: (posts: Post[]) => void) {
+    return postCacheService.subscribe((key, data) => {
+      if (!key || !data || !POSTS_PATH.test(key)) return;
+      listener(Array.isArray(data) ? data : [data as Post]);
+    });
+  }
+
+  private transformPosts(posts: any[], source: WordPressSource): Post[] {
+    return posts.map((post: any) => this.transformPost(post, source));
+  }
+
+  // Sites behind proxies sometimes strip the totals headers; without them
+  // a full page is taken to mean there may be more
+  private toPaginatedResult<T>(
+    response: CachedResponse<T[]>,
+    page: number,
+    perPage: number
+  ): PaginatedResult<T> {
+    const items = response.data;
+    const totalPages =
+      response.totalPages ?? (items.length < perPage ? page : page + 1);
+
+    return {
+      items,
+      page,
+      totalItems: response.total ?? (page - 1) * perPage + items.length,
+      totalPages,
+      hasMore: page < totalPages,
+    };
   }
 
   async getPosts(params?: PostListParams): Promise<Post[]> {
     try {
-      this.updateBaseUrl();
-      const response = await this.api.get("/posts", {
-        params: {
-          _embed: true,
-          ...params,
-        },
-      });
-
+      const source = await this.resolveSource();
       // Transform the data to include easier-to-use properties
-      return response.data.map((post: any) => this.transformPost(post));
+      const response = await this.cachedGet(
+        source,
+        "/posts",
+        { _embed: true, ...params },
+        (data) => this.transformPosts(data, source)
+      );
+      return response.data;
     } catch (error) {
       console.error("Error fetching posts:", error);
       throw error;
     }
   }
 
+  // Get every category of the site; WordPress pages them at 100 at most
   async getCategories(): Promise<Category[]> {
     try {
-      this.updateBaseUrl();
-      const response = await this.api.get("/categories", {
-        params: {
-          _embed: true,
-        },
-      });
-      return response.data;
+      const source = await this.resolveSource();
+      const perPage = 100;
+      const categories: Category[] = [];
+      let page = 1;
+      let hasMore = true;
+
+      while (hasMore) {
+        const response = await this.cachedGet<Category[]>(
+          source,
+          "/categories",
+          { _embed: true, per_page: perPage, page },
+          (data) => data
+        );
+        const result = this.toPaginatedResult(response, page, perPage);
+        categories.push(...result.items);
+        hasMore = result.hasMore;
+        page++;
+      }
+
+      return categories;
     } catch (error) {
       console.error("Error fetching categories:", error);
       throw error;
     }
   }
 
-  async getPostById(id: number): Promise<Post> {
+  async getPostById(id: number, sourceId?: string): Promise<Post> {
     try {
-      this.updateBaseUrl();
-      const response = await this.api.get(`/posts/${id}`, {
-        params: {
-          _embed: true,
-        },
-      });
-      return this.transformPost(response.data);
+      const source = await this.resolveSource(sourceId);
+      const response = await this.cachedGet(
+        source,
+        `/posts/${id}`,
+        { _embed: true },
+        (data) => this.transformPost(data, source)
+      );
+      return response.data;
     } catch (error) {
       console.error("Error fetching post:", error);
       throw error;
@@ -129,39 +163,27 @@ class WordPressApiService {
 
   async getFeaturedPosts(limit: number = 5): Promise<Post[]> {
     try {
-      this.updateBaseUrl();
-
-      // Use language-specific category ID if no categoryId is provided
-      const featuredCategoryId = parseInt(
-        this.getFeaturedCategoryIdByLanguage()
-      );
+      const source = await this.resolveSource();
+      const featuredCategoryId = source.featuredCategoryId;
 
       // console.log("WordPressApiService.getFeaturedPosts called", {
       //   categoryId: featuredCategoryId,
       //   limit,
-      //   language: i18nService.getCurrentLanguage(),
+      //   source: source.id,
       // });
 
-      const response = await this.api
-        .get("/posts", {
-          params: {
-            _embed: true,
-            categories: featuredCategoryId,
-            per_page: limit,
-          },
-        })
-        .then((res) => {
-          return res;
-        })
-        .catch((err) => {
-          throw err;
-        });
+      const response = await this.cachedGet(
+        source,
+        "/posts",
+        {
+          _embed: true,
+          categories: featuredCategoryId,
+          per_page: limit,
+        },
+        (data) => this.transformPosts(data, source)
+      );
 
-      return response.data.map((post: any) => {
-        const tfPost = this.transformPost(post);
-        // console.log("Transformed featured post:", tfPost);
-        return tfPost;
-      });
+      return response.data;
     } catch (error) {
       console.error("Error fetching featured posts:", error);
       throw error;
@@ -170,61 +192,187 @@ class WordPressApiService {
 
   async getLatestPosts(
     perPage: number = 10,
-    page: number = 1
-  ): Promise<Post[]> {
+    page: number = 1,
+    sourceId?: string
+  ): Promise<PaginatedResult<Post>> {
     try {
-      this.updateBaseUrl();
-      const response = await this.api.get("/posts", {
-        params: {
+      const source = await this.resolveSource(sourceId);
+      const response = await this.cachedGet(
+        source,
+        "/posts",
+        {
           _embed: true,
           per_page: perPage,
           page: page,
           order: "desc",
           orderby: "date",
         },
-      });
-
-      return response.data.map((post: any) => this.transformPost(post));
+        (data) => this.transformPosts(data, source)
+      );
+      return this.toPaginatedResult(response, page, perPage);
     } catch (error) {
       console.error("Error fetching latest posts:", error);
       throw error;
     }
   }
 
+  // Several ids (e.g. a parent and its subcategories) match posts in any
   async getPostsByCategory(
-    categoryId: number,
+    categoryId: number | number[],
     perPage: number = 10,
     page: number = 1
-  ): Promise<Post[]> {
+  ): Promise<PaginatedResult<Post>> {
     try {
-      this.updateBaseUrl();
-      const response = await this.api.get("/posts", {
-        params: {
+      const source = await this.resolveSource();
+      const response = await this.cachedGet(
+        source,
+        "/posts",
+        {
           _embed: true,
-          categories: categoryId,
+          categories: Array.isArray(categoryId)
+            ? categoryId.join(",")
+            : categoryId,
           per_page: perPage,
           page: page,
           order: "desc",
           orderby: "date",
         },
-      });
-
-      return response.data.map((post: any) => this.transformPost(post));
+        (data) => this.transformPosts(data, source)
+      );
+      return this.toPaginatedResult(response, page, perPage);
     } catch (error) {
       console.error("Error fetching posts by category:", error);
       throw error;
     }
   }
 
+  // Tags ordered by how many posts use them; `search` filters by name
+  async getTags(
+    perPage: number = 20,
+    page: number = 1,
+    search?: string
+  ): Promise<PaginatedResult<Tag>> {
+    try {
+      const source = await this.resolveSource();
+      const response = await this.cachedGet<Tag[]>(
+        source,
+        "/tags",
+        {
+          per_page: perPage,
+          page: page,
+          search: search || undefined,
+          orderby: "count",
+          order: "desc",
+          hide_empty: true,
+        },
+        (data) => data
+      );
+      return this.toPaginatedResult(response, page, perPage);
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      throw error;
+    }
+  }
+
+  async getTagById(id: number, sourceId?: string): Promise<Tag> {
+    try {
+      const source = await this.resolveSource(sourceId);
+      const response = await this.cachedGet<Tag>(
+        source,
+        `/tags/${id}`,
+        {},
+        (data) => data
+      );
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching tag:", error);
+      throw error;
+    }
+  }
+
+  async getPostsByTag(
+    tagId: number,
+    perPage: number = 10,
+    page: number = 1,
+    sourceId?: string
+  ): Promise<PaginatedResult<Post>> {
+    try {
+      const source = await this.resolveSource(sourceId);
+      const response = await this.cachedGet(
+        source,
+        "/posts",
+        {
+          _embed: true,
+          tags: tagId,
+          per_page: perPage,
+          page: page,
+          order: "desc",
+          orderby: "date",
+        },
+        (data) => this.transformPosts(data, source)
+      );
+      return this.toPaginatedResult(response, page, perPage);
+    } catch (error) {
+      console.error("Error fetching posts by tag:", error);
+      throw error;
+    }
+  }
+
+  async getAuthorById(id: number, sourceId?: string): Promise<Author> {
+    try {
+      const source = await this.resolveSource(sourceId);
+      const response = await this.cachedGet<Author>(
+        source,
+        `/users/${id}`,
+        {},
+        (data) => data
+      );
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching author:", error);
+      throw error;
+    }
+  }
+
+  async getPostsByAuthor(
+    authorId: number,
+    perPage: number = 10,
+    page: number = 1,
+    sourceId?: string
+  ): Promise<PaginatedResult<Post>> {
+    try {
+      const source = await this.resolveSource(sourceId);
+      const response = await this.cachedGet(
+        source,
+        "/posts",
+        {
+          _embed: true,
+          author: authorId,
+          per_page: perPage,
+          page: page,
+          order: "desc",
+          orderby: "date",
+        },
+        (data) => this.transformPosts(data, source)
+      );
+      return this.toPaginatedResult(response, page, perPage);
+    } catch (error) {
+      console.error("Error fetching posts by author:", error);
+      throw error;
+    }
+  }
+
   async searchPosts(
     query: string,
     perPage: number = 10,
     page: number = 1
-  ): Promise<Post[]> {
+  ): Promise<PaginatedResult<Post>> {
     try {
-      this.updateBaseUrl();
-      const response = await this.api.get("/posts", {
-        params: {
+      const source = await this.resolveSource();
+      const response = await this.cachedGet(
+        source,
+        "/posts",
+        {
           _embed: true,
           subtype: "post",
           search: decodeURIComponent(query),
@@ -233,26 +381,135 @@ class WordPressApiService {
           order: "desc",
           orderby: "relevance",
         },
+        (data) => this.transformPosts(data, source)
+      );
+      return this.toPaginatedResult(response, page, perPage);
+    } catch (error) {
+      console.error("Error searching posts:", error);
+      throw error;
+    }
+  }
+
+  // Not cached: every check asks about a different window of time.
+  // WordPress ANDs the category, tag and author filters, so followed
+  // authors get a request of their own and the results are merged.
+  // Without `after` these are the newest posts. With it they are the
+  // oldest ones after that date, cut off where a full page ends, so
+  // nothing between the returned posts is missing and the caller can
+  // carry on from the last one.
+  async getNewPosts(
+    filters: NewPostFilters,
+    perPage: number = 10,
+    sourceId?: string
+  ): Promise<Post[]> {
+    try {
+      const source = await this.resolveSource(sourceId);
+      const categories = filters.categories || [];
+      const tags = filters.tags || [];
+      const authors = filters.authors || [];
+      const base = {
+        _embed: true,
+        per_page: perPage,
+        order: filters.after ? "asc" : "desc",
+        orderby: "date",
+        after: filters.after,
+      };
+
+      const requests: Record<string, any>[] = [];
+      if (categories.length > 0 || tags.length > 0) {
+        requests.push({
+          ...base,
+          categories: categories.join(",") || undefined,
+          tags: tags.join(",") || undefined,
+          tax_relation: categories.length && tags.length ? "OR" : undefined,
+        });
+      }
+      if (authors.length > 0) {
+        requests.push({ ...base, author: authors.join(",") });
+      }
+      if (requests.length === 0) requests.push(base);
+
+      const responses = await Promise.all(
+        requests.map((params) =>
+          this.api.get("/posts", { baseURL: source.baseUrl, params })
+        )
+      );
+      const posts = new Map<number, Post>();
+      let cutoff: string | undefined;
+      responses.forEach((response) => {
+        const page = this.transformPosts(response.data, source);
+        page.forEach((post) => posts.set(post.id, post));
+
+        // The rest of a full page comes after its last post, and another
+        // request's later posts would skip past it
+        const last = page[page.length - 1];
+        if (filters.after && last && response.data.length >= perPage) {
+          if (!cutoff || last.date < cutoff) cutoff = last.date;
+        }
       });
+      return Array.from(posts.values()).filter(
+        (post) => !cutoff || post.date <= cutoff
+      );
+    } catch (error) {
+      console.error("Error fetching new posts:", error);
+      throw error;
+    }
+  }
 
-      return response.data.map((post: any) => this.transformPost(post));
+  // Permalinks name posts by slug; null when the site has no such post
+  async getPostBySlug(slug: string, sourceId?: string): Promise<Post | null> {
+    try {
+      const source = await this.resolveSource(sourceId);
+      const response = await this.cachedGet(
+        source,
+        "/posts",
+        { _embed: true, slug },
+        (data) => this.transformPosts(data, source)
+      );
+      return response.data[0] || null;
     } catch (error) {
-      console.error("Error searching posts:", error);
+      console.error("Error fetching post by slug:", error);
+      throw error;
+    }
+  }
+
+  // Category, tag and author archive links carry slugs as well
+  async getTermBySlug(
+    type: "category" | "tag" | "author",
+    slug: string,
+    sourceId?: string
+  ): Promise<TermReference | null> {
+    try {
+      const source = await this.resolveSource(sourceId);
+      const response = await this.cachedGet<TermReference[]>(
+        source,
+        SLUG_LOOKUP_PATHS[type],
+        { slug },
+        (data) => data.map((term: any) => ({ id: term.id, name: term.name }))
+      );
+      return response.data[0] || null;
+    } catch (error) {
+      console.error(`Error fetching ${type} by slug:`, error);
       throw error;
     }
   }
 
   // Helper method to transform post data for easier use
-  private transformPost(post: any): Post {
+  private transformPost(post: any, source: WordPressSource): Post {
     const featuredImage = this.getFeaturedImageUrl(post);
     const authorName = this.getAuthorName(post);
     const categoryNames = this.getCategoryNames(post);
+    const tagTerms = this.getTagTerms(post);
 
     return {
       ...post,
       featured_image: featuredImage,
       author_name: authorName,
       category_names: categoryNames,
+      tag_terms: tagTerms,
+      canonical_link: post.yoast_head_json?.canonical || post.link,
+      source_id: source.id,
+      source_name: source.name,
     };
   }
 
@@ -281,6 +538,15 @@ class WordPressApiService {
     }
     return [];
   }
+
+  // wp:term holds one array per taxonomy; pick the post_tag terms
+  private getTagTerms(post: any): TermReference[] {
+    const taxonomies: any[][] = post._embedded?.["wp:term"] || [];
+    return taxonomies
+      .flat()
+      .filter((term: any) => term?.taxonomy === "post_tag")
+      .map((term: any) => ({ id: term.id, name: term.name }));
+  }
 }
 
 const wordpressApiService = new WordPressApiService();
@@ -1,51 +1,65 @@
-import { wordpressApiService } from "./wordpress";
+import * as BackgroundTask from "expo-background-task";
+import * as TaskManager from "expo-task-manager";
+import wordpressApiService from "./wordpress";
 import { notificationService } from "./notifications";
 import { pushNotificationService } from "./pushNotification";
-import { notificationPreferencesService } from "./notificationPreferences";
+import {
+  getFollowKey,
+  notificationPreferencesService,
+} from "./notificationPreferences";
+import { sourceRegistryService } from "./sourceRegistry";
+import { ArticlePoller, ArticlePollState } from "./articlePoller";
+import { digestService } from "./digest";
 import {
   NotificationData,
-  NotificationPreferences,
+  NotificationFrequency,
 } from "@/types/notifications";
+import { Post } from "@/types/wordpress";
 import {
+  NOTIFICATION_KEYS,
   NOTIFICATION_TEMPLATES,
-  NOTIFICATION_ERRORS,
 } from "@/constants/notifications";
+import { decodeEntities } from "@/utils/htmlParser";
 import {
+  storage,
   logNotificationEvent,
   logNotificationError,
 } from "@/utils/notificationHelpers";
 
-interface WordPressPost {
-  id: number;
-  title: {
-    rendered: string;
-  };
-  excerpt: {
-    rendered: string;
-  };
-  author: number;
-  categories: number[];
-  date: string;
-  modified: string;
-  featured_media?: number;
-}
-
-interface WordPressCategory {
-  id: number;
-  name: string;
-  slug: string;
-}
-
-interface WordPressAuthor {
-  id: number;
-  name: string;
-  slug: string;
-}
+const NEW_ARTICLES_TASK = "new-articles-check";
+// Minutes; the OS won't run background tasks more often than this
+const CHECK_INTERVAL = 15;
 
 export class WordPressNotificationsService {
   private static instance: WordPressNotificationsService;
-  private lastCheckedTimestamp: string | null = null;
-  private checkInterval: NodeJS.Timeout | null = null;
+  private poller = new ArticlePoller({
+    now: () => new Date(),
+    getSourceIds: async () =>
+      (await sourceRegistryService.getEnabledSources()).map(
+        (source) => source.id
+      ),
+    getPreferences: () => notificationPreferencesService.getPreferences(),
+    getFrequency: () => this.getFrequency(),
+    getTargets: async (sourceId) => ({
+      categories:
+        await notificationPreferencesService.getSelectedCategories(sourceId),
+      tags: await notificationPreferencesService.getFollowedTags(sourceId),
+      authors: await this.getFollowedAuthors(sourceId),
+    }),
+    fetchNewPosts: (filters, sourceId) =>
+      wordpressApiService.getNewPosts(filters, 10, sourceId),
+    loadState: () =>
+      storage.get<ArticlePollState>(NOTIFICATION_KEYS.NEW_ARTICLE_POLL),
+    saveState: async (state) => {
+      await storage.set(NOTIFICATION_KEYS.NEW_ARTICLE_POLL, state);
+    },
+    notifyPost: (post, sourceId) => this.notifyNewArticle(post, sourceId),
+    queueForDigest: (posts, sourceId) =>
+      digestService.enqueue(posts, sourceId),
+    deliverDigest: async (frequency) => {
+      await digestService.deliverIfDue(frequency);
+    },
+  });
 
   private constructor() {}
 
@@ -58,12 +72,23 @@ export class WordPressNotificationsService {
   }
 
   /**
-   * Initialize WordPress notification monitoring
+   * Register the background check for new articles
    */
   async initialize(): Promise<void> {
     try {
-      // Start periodic checking for new articles
-      this.startPeriodicCheck();
+      const status = await BackgroundTask.getStatusAsync();
+      const registered =
+        await TaskManager.isTaskRegisteredAsync(NEW_ARTICLES_TASK);
+      if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+        logNotificationEvent("Background checks are unavailable");
+      } else if (!registered) {
+        await BackgroundTask.registerTaskAsync(NEW_ARTICLES_TASK, {
+          minimumInterval: CHECK_INTERVAL,
+        });
+      }
+
+      // Also check now; the first background run can be a while away
+      this.checkForNewArticles().catch(console.error);
 
       logNotificationEvent("WordPress notifications initialized");
     } catch (error) {
@@ -77,77 +102,65 @@ export class WordPressNotificationsService {
   /**
    * Stop WordPress notification monitoring
    */
-  stop(): void {
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval);
-      this.checkInterval = null;
+  async stop(): Promise<void> {
+    try {
+      if (await TaskManager.isTaskRegisteredAsync(NEW_ARTICLES_TASK)) {
+        await BackgroundTask.unregisterTaskAsync(NEW_ARTICLES_TASK);
+      }
+      logNotificationEvent("WordPress notifications stopped");
+    } catch (error) {
+      logNotificationError(error, "Failed to stop WordPress notifications");
     }
-
-    logNotificationEvent("WordPress notifications stopped");
-  }
-
-  /**
-   * Start periodic checking for new articles
-   */
-  private startPeriodicCheck(): void {
-    // Check every 5 minutes
-    this.checkInterval = setInterval(async () => {
-      await this.checkForNewArticles();
-    }, 5 * 60 * 1000) as unknown as NodeJS.Timeout;
-
-    // Also check immediately on start
-    this.checkForNewArticles().catch(console.error);
   }
 
   /**
-   * Check for new articles and send notifications
+   * Check for new articles and send notifications. Resolves to false when
+   * the check failed and should be retried.
    */
-  async checkForNewArticles(): Promise<void> {
+  async checkForNewArticles(): Promise<boolean> {
     try {
-      const preferences = await notificationPreferencesService.getPreferences();
-      if (!preferences.enabled || !preferences.newArticles) {
-        return;
-      }
-
-      // Get selected categories
-      const selectedCategories =
-        await notificationPreferencesService.getSelectedCategories();
-      if (selectedCategories.length === 0) {
-        return;
-      }
-
-      // Build query parameters
-      const params: any = {
-        per_page: 10,
-        orderby: "date",
-        order: "desc",
-      };
-
-      // Add after parameter if we have a last checked timestamp
-      if (this.lastCheckedTimestamp) {
-        params.after = this.lastCheckedTimestamp;
-      }
-
-      // Add categories filter
-      if (selectedCategories.length > 0) {
-        params.categories = selectedCategories.join(",");
+      const result = await this.poller.poll();
+      if (result.status === "skipped") {
+        logNotificationEvent("New article check skipped", {
+          reason: result.reason,
+        });
+        return true;
       }
 
-      // Fetch recent articles
-      const response = await wordpressApiService.get("/posts", params);
-      const posts: WordPressPost[] = response.data;
-
-      if (posts.length > 0) {
-        // Update last checked timestamp
-        this.lastCheckedTimestamp = new Date().toISOString();
-
-        // Send notifications for new articles
-        for (const post of posts) {
-          await this.sendNewArticleNotification(post, preferences);
+      let failed = false;
+      result.sources.forEach((source) => {
+        if (source.status === "failed") {
+          failed = true;
+          logNotificationError(
+            source.error,
+            `Failed to check ${source.sourceId} for new articles`
+          );
+        } else {
+          logNotificationEvent("New article check", {
+            sourceId: source.sourceId,
+            status: source.status,
+            count: source.status === "checked" ? source.posts.length : 0,
+          });
         }
-      }
+      });
+      return !failed;
     } catch (error) {
       logNotificationError(error, "Failed to check for new articles");
+      return false;
+    }
+  }
+
+  /**
+   * Send notification for one new article, naming followed authors
+   */
+  private async notifyNewArticle(post: Post, sourceId?: string) {
+    const followedAuthors = await this.getFollowedAuthors(
+      sourceId || post.source_id
+    );
+    if (followedAuthors.includes(post.author.toString())) {
+      await this.sendAuthorArticleNotification(post.author, post, sourceId);
+    } else {
+      await this.sendNewArticleNotification(post, sourceId);
     }
   }
 
@@ -155,19 +168,13 @@ export class WordPressNotificationsService {
    * Send notification for new article
    */
   private async sendNewArticleNotification(
-    post: WordPressPost,
-    preferences: NotificationPreferences
+    post: Post,
+    sourceId?: string
   ): Promise<void> {
     try {
-      // Get category and author details
-      const [categories, author] = await Promise.all([
-        this.getPostCategories(post.categories),
-        this.getPostAuthor(post.author),
-      ]);
-
-      const categoryName =
-        categories.length > 0 ? categories[0].name : "General";
-      const authorName = author ? author.name : "Unknown Author";
+      const categoryName = post.category_names?.[0] || "General";
+      const authorName = post.author_name || "Unknown Author";
+      const categoryId = post.categories[0]?.toString();
 
       // Use template for notification
       const template = NOTIFICATION_TEMPLATES.NEW_ARTICLE;
@@ -180,22 +187,14 @@ export class WordPressNotificationsService {
         .replace("{category}", categoryName)
         .substring(0, 255); // Ensure body length limit
 
-      const data: NotificationData = {
-        type: "new_article",
-        postId: post.id.toString(),
-        categoryId:
-          categories.length > 0 ? categories[0].id.toString() : undefined,
-        authorId: post.author.toString(),
-        priority: "normal",
-      };
-
       // Send local notification
       await notificationService.sendNewArticleNotification(
         title,
         body,
-        data.postId,
-        data.categoryId,
-        data.authorId
+        post.id.toString(),
+        categoryId,
+        post.author.toString(),
+        { sourceId: sourceId || post.source_id }
       );
 
       logNotificationEvent("New article notification sent", {
@@ -298,9 +297,10 @@ export class WordPressNotificationsService {
       await notificationService.sendNewArticleNotification(
         title,
         body,
-        data.postId,
+        topArticle.id.toString(),
+        undefined,
         undefined,
-        undefined
+        data.customData
       );
 
       logNotificationEvent("Trending article notification sent", {
@@ -320,7 +320,8 @@ export class WordPressNotificationsService {
    */
   async sendAuthorArticleNotification(
     authorId: number,
-    post: WordPressPost
+    post: Post,
+    sourceId?: string
   ): Promise<void> {
     try {
       const preferences = await notificationPreferencesService.getPreferences();
@@ -328,14 +329,16 @@ export class WordPressNotificationsService {
         return;
       }
 
-      // Check if user follows this author (this would need to be implemented)
-      const followedAuthors = await this.getFollowedAuthors();
+      // Only for authors the user follows on this source
+      const followedAuthors = await this.getFollowedAuthors(
+        sourceId || post.source_id
+      );
       if (!followedAuthors.includes(authorId.toString())) {
         return;
       }
 
-      const author = await this.getPostAuthor(authorId);
-      const authorName = author ? author.name : "Unknown Author";
+      const authorName =
+        post.author_name || (await this.getAuthorName(authorId, sourceId));
 
       const title = `New article by ${authorName}`;
       const body = this.stripHtml(post.title.rendered).substring(0, 255);
@@ -345,15 +348,19 @@ export class WordPressNotificationsService {
         postId: post.id.toString(),
         authorId: authorId.toString(),
         priority: "normal",
-        customData: { authorSpecific: true },
+        customData: {
+          authorSpecific: true,
+          sourceId: sourceId || post.source_id,
+        },
       };
 
       await notificationService.sendNewArticleNotification(
         title,
         body,
-        data.postId,
+        post.id.toString(),
         undefined,
-        data.authorId
+        data.authorId,
+        data.customData
       );
 
       logNotificationEvent("Author-specific notification sent", {
@@ -369,101 +376,55 @@ export class WordPressNotificationsService {
   }
 
   /**
-   * Send daily digest notification
+   * Send the queued articles if the digest for the chosen frequency is due
    */
-  async sendDailyDigest(): Promise<void> {
+  async sendDigest(): Promise<void> {
     try {
       const preferences = await notificationPreferencesService.getPreferences();
       if (!preferences.enabled || !preferences.newArticles) {
         return;
       }
 
-      // Get articles from the last 24 hours
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-
-      const response = await wordpressApiService.get("/posts", {
-        per_page: 50,
-        after: yesterday.toISOString(),
-        orderby: "date",
-        order: "desc",
-      });
-
-      const posts: WordPressPost[] = response.data;
-      if (posts.length === 0) return;
-
-      // Get selected categories
-      const selectedCategories =
-        await notificationPreferencesService.getSelectedCategories();
-
-      // Filter posts by selected categories
-      const filteredPosts =
-        selectedCategories.length > 0
-          ? posts.filter((post) =>
-              post.categories.some((catId) =>
-                selectedCategories.includes(catId.toString())
-              )
-            )
-          : posts;
-
-      if (filteredPosts.length === 0) return;
-
-      // Send digest notification
-      await notificationService.sendDailyDigestNotification(
-        filteredPosts.length
-      );
-
-      logNotificationEvent("Daily digest sent", {
-        articleCount: filteredPosts.length,
-      });
+      await digestService.deliverIfDue(await this.getFrequency());
     } catch (error) {
-      logNotificationError(error, "Failed to send daily digest");
+      logNotificationError(error, "Failed to send digest");
     }
   }
 
   /**
-   * Get post categories
+   * How often the user wants to hear about new articles
    */
-  private async getPostCategories(
-    categoryIds: number[]
-  ): Promise<WordPressCategory[]> {
-    try {
-      if (categoryIds.length === 0) return [];
-
-      const response = await wordpressApiService.get("/categories", {
-        include: categoryIds.join(","),
-      });
-
-      return response.data;
-    } catch (error) {
-      logNotificationError(error, "Failed to get post categories");
-      return [];
-    }
+  private async getFrequency(): Promise<NotificationFrequency> {
+    const frequencies =
+      await notificationPreferencesService.getFrequencySettings();
+    return frequencies.newArticles || "realtime";
   }
 
   /**
-   * Get post author
+   * Get an author's display name
    */
-  private async getPostAuthor(
-    authorId: number
-  ): Promise<WordPressAuthor | null> {
+  private async getAuthorName(
+    authorId: number,
+    sourceId?: string
+  ): Promise<string> {
     try {
-      const response = await wordpressApiService.get(`/users/${authorId}`);
-      return response.data;
+      const author = await wordpressApiService.getAuthorById(
+        authorId,
+        sourceId
+      );
+      return author.name;
     } catch (error) {
       logNotificationError(error, "Failed to get post author");
-      return null;
+      return "Unknown Author";
     }
   }
 
   /**
-   * Get followed authors (this would need to be implemented based on user preferences)
+   * Get the authors followed on a source from the user preferences
    */
-  private async getFollowedAuthors(): Promise<string[]> {
+  private async getFollowedAuthors(sourceId?: string): Promise<string[]> {
     try {
-      // This would be stored in user preferences
-      const preferences = await notificationPreferencesService.getPreferences();
-      return []; // TODO: Implement followed authors in preferences
+      return await notificationPreferencesService.getFollowedAuthors(sourceId);
     } catch (error) {
       logNotificationError(error, "Failed to get followed authors");
       return [];
@@ -471,33 +432,28 @@ export class WordPressNotificationsService {
   }
 
   /**
-   * Strip HTML tags from string
+   * Check whether a post from a source is in a selected category or has a
+   * followed tag, given follows keyed by source
    */
-  private stripHtml(html: string): string {
-    return html.replace(/<[^>]*>/g, "").trim();
+  private matchesTargeting(
+    post: Post,
+    sourceId: string,
+    categoryKeys: string[],
+    tagKeys: string[]
+  ): boolean {
+    const isFollowed = (keys: string[], ids: number[] = []) =>
+      ids.some((id) => keys.includes(getFollowKey(sourceId, String(id))));
+    return (
+      isFollowed(categoryKeys, post.categories) ||
+      isFollowed(tagKeys, post.tags)
+    );
   }
 
   /**
-   * Set up webhook for new content notifications
+   * Strip HTML tags from string
    */
-  async setupWebhook(webhookUrl: string): Promise<boolean> {
-    try {
-      const response = await wordpressApiService.post("/webhooks", {
-        url: webhookUrl,
-        events: ["post.created", "post.updated"],
-        status: "active",
-      });
-
-      if (response.status === 201) {
-        logNotificationEvent("Webhook setup successful", { url: webhookUrl });
-        return true;
-      }
-
-      return false;
-    } catch (error) {
-      logNotificationError(error, "Failed to setup webhook");
-      return false;
-    }
+  private stripHtml(html: string): string {
+    return decodeEntities(html.replace(/<[^>]*>/g, "")).trim();
   }
 
   /**
@@ -506,7 +462,7 @@ export class WordPressNotificationsService {
   async handleWebhookPayload(payload: any): Promise<void> {
     try {
       if (payload.event === "post.created" && payload.post) {
-        const post: WordPressPost = payload.post;
+        const post: Post = payload.post;
 
         // Check if this matches user preferences
         const preferences =
@@ -516,7 +472,7 @@ export class WordPressNotificationsService {
         }
 
         // Send notification for new post
-        await this.sendNewArticleNotification(post, preferences);
+        await this.sendNewArticleNotification(post);
       }
     } catch (error) {
       logNotificationError(error, "Failed to handle webhook payload");
@@ -524,65 +480,42 @@ export class WordPressNotificationsService {
   }
 
   /**
-   * Create notification triggers for content updates
+   * Implement category-based notification rules for a post on a source,
+   * the active source by default
    */
-  async createContentUpdateTriggers(): Promise<void> {
-    try {
-      // Set up scheduled digest notification (daily at 8 AM)
-      const now = new Date();
-      const scheduledTime = new Date();
-      scheduledTime.setHours(8, 0, 0, 0);
-
-      // If it's already past 8 AM, schedule for tomorrow
-      if (scheduledTime <= now) {
-        scheduledTime.setDate(scheduledTime.getDate() + 1);
-      }
-
-      await notificationService.scheduleNotification(
-        "Daily News Digest",
-        "Check out today's top stories",
-        {
-          type: "daily" as any,
-          hour: scheduledTime.getHours(),
-          minute: scheduledTime.getMinutes(),
-          repeats: true,
-        },
-        {
-          type: "custom",
-          priority: "normal",
-          customData: { digest: true },
-        }
-      );
-
-      logNotificationEvent("Content update triggers created");
-    } catch (error) {
-      logNotificationError(error, "Failed to create content update triggers");
-    }
-  }
-
-  /**
-   * Implement category-based notification rules
-   */
-  async applyCategoryRules(postId: number): Promise<boolean> {
+  async applyCategoryRules(
+    postId: number,
+    sourceId?: string
+  ): Promise<boolean> {
     try {
+      const postSourceId =
+        sourceId || (await sourceRegistryService.getActiveSource()).id;
       const preferences = await notificationPreferencesService.getPreferences();
-      const selectedCategories = preferences.categories;
+      const categoryKeys = preferences.categories;
+      const tagKeys = preferences.tags || [];
+      const prefix = getFollowKey(postSourceId, "");
+      const hasFilters = [...categoryKeys, ...tagKeys].some((key) =>
+        key.startsWith(prefix)
+      );
 
-      if (selectedCategories.length === 0) {
-        return true; // No category filters, allow all
+      if (!hasFilters) {
+        return true; // No category or tag filters on this source, allow all
       }
 
       // Get post categories
-      const response = await wordpressApiService.get(`/posts/${postId}`);
-      const post: WordPressPost = response.data;
-
-      // Check if post has any selected category
-      const hasSelectedCategory = post.categories.some((catId) =>
-        selectedCategories.includes(catId.toString())
+      const post = await wordpressApiService.getPostById(postId, postSourceId);
+
+      // Check if post has any selected category or followed tag
+      const hasSelectedCategory = this.matchesTargeting(
+        post,
+        postSourceId,
+        categoryKeys,
+        tagKeys
       );
 
       logNotificationEvent("Category rule applied", {
         postId,
+        sourceId: postSourceId,
         hasSelectedCategory,
       });
 
@@ -597,3 +530,12 @@ export class WordPressNotificationsService {
 // Export singleton instance
 export const wordpressNotificationsService =
   WordPressNotificationsService.getInstance();
+
+// Defined when this module loads, so the task is known when the OS wakes
+// the app in the background without any screen mounted
+TaskManager.defineTask(NEW_ARTICLES_TASK, async () => {
+  const success = await wordpressNotificationsService.checkForNewArticles();
+  return success
+    ? BackgroundTask.BackgroundTaskResult.Success
+    : BackgroundTask.BackgroundTaskResult.Failed;
+});
@@ -0,0 +1,73 @@
+// Structured post content produced from WordPress HTML for native rendering
+
+export type ParsedElementType =
+  | 'heading'
+  | 'paragraph'
+  | 'list'
+  | 'list-item'
+  | 'text'
+  | 'image'
+  | 'figure'
+  | 'blockquote'
+  | 'preformatted'
+  | 'table'
+  | 'separator'
+  | 'embed'
+  | 'gallery'
+  | 'pullquote'
+  | 'code'
+  | 'buttons'
+  | 'columns';
+
+export type EmbedProvider = 'youtube' | 'twitter' | 'other';
+
+export interface ParsedElement {
+  type: ParsedElementType;
+  content: string;
+  level?: number; // For headings (1-6)
+  ordered?: boolean; // For lists
+  items?: ParsedElement[]; // For lists
+  inlineElements?: InlineElement[]; // For inline formatting
+  children?: ParsedElement[]; // Nested blocks, e.g. quote or gallery content
+  caption?: InlineElement[]; // For images, figures, tables and embeds
+  citation?: string; // For blockquotes and pull quotes
+  image?: ParsedImage;
+  rows?: TableRow[]; // For tables
+  url?: string; // For embeds
+  provider?: EmbedProvider; // For embeds
+  buttons?: ButtonLink[]; // For button groups
+  columns?: ParsedElement[][]; // For column layouts
+  className?: string; // Source classes, e.g. Gutenberg's wp-block-*
+}
+
+export interface ParsedImage {
+  src: string;
+  srcset?: string;
+  alt?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface TableRow {
+  cells: Array<{ header: boolean; inlineElements: InlineElement[] }>;
+}
+
+export interface ButtonLink {
+  label: string;
+  url?: string;
+}
+
+export interface InlineElement {
+  type:
+    | 'bold'
+    | 'italic'
+    | 'underline'
+    | 'strikethrough'
+    | 'link'
+    | 'text'
+    | 'code'
+    | 'lineBreak';
+  content: string;
+  href?: string; // For links
+  children?: InlineElement[]; // Nested formatting, e.g. a bold link
+}
@@ -1,3 +1,4 @@
 export * from './auth';
+export * from './content';
 export * from './theme';
 export * from './wordpress';
\ No newline at end of file
@@ -10,13 +10,24 @@ export interface NotificationPreferences {
     enabled: boolean;
     start: string; // HH:mm format
     end: string;   // HH:mm format
+    allowUrgent?: boolean; // Urgent breaking news comes through anyway
+    // Hours for quiet periods starting on a weekday (0 = Sunday), or null
+    // for none that day; days not listed use start and end
+    days?: Partial<Record<number, QuietHoursWindow | null>>;
   };
-  categories: string[]; // Selected category IDs
+  categories: string[]; // Selected categories as "sourceId:categoryId"
+  tags?: string[]; // Followed tags as "sourceId:tagId"; missing on older saves
+  authors?: string[]; // Followed authors as "sourceId:authorId", likewise
   soundEnabled: boolean;
   vibrationEnabled: boolean;
   badgeEnabled: boolean;
 }
 
+export interface QuietHoursWindow {
+  start: string; // HH:mm format
+  end: string;   // HH:mm format
+}
+
 export interface NotificationCategory {
   id: string;
   name: string;
@@ -92,6 +103,7 @@ export interface NotificationCampaignRequest {
   data: NotificationData;
   targetAudience?: {
     categories?: string[];
+    tags?: string[];
     users?: string[];
     all?: boolean;
   };
@@ -110,6 +122,25 @@ export interface NotificationEvent {
 // Settings Types
 export type NotificationFrequency = 'realtime' | 'hourly' | 'daily' | 'weekly' | 'never';
 
+// An article picked up for a user who gets digests instead of alerts
+export interface DigestArticle {
+  id: number;
+  source_id?: string;
+  title: string;
+  featured_image?: string;
+  author_name?: string;
+  category_names?: string[];
+  link: string;
+  date: string;
+  queuedAt: string;
+}
+
+export interface DigestState {
+  queue: DigestArticle[]; // Waiting for the next digest, oldest first
+  sent: DigestArticle[]; // In the last digest sent, newest first
+  sentAt: string | null;
+}
+
 export interface NotificationSettings {
   global: {
     enabled: boolean;
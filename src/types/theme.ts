@@ -1,4 +1,12 @@
-export type Theme = 'light' | 'dark' | 'system';
+export type ThemePalette =
+  | 'light'
+  | 'dark'
+  | 'sepia'
+  | 'amoled'
+  | 'highContrastLight'
+  | 'highContrastDark';
+
+export type Theme = ThemePalette | 'system';
 
 export interface ThemeColors {
   primary: string;
@@ -18,6 +26,37 @@ export interface ThemeColors {
 
 export interface ThemeState {
   theme: Theme;
+  palette: ThemePalette; // What `theme` resolved to after system/schedule
   colors: ThemeColors;
   isDarkMode: boolean;
-}
\ No newline at end of file
+}
+
+// Switches the app between two palettes by time of day, overriding `theme`
+export interface ThemeSchedule {
+  enabled: boolean;
+  lightPalette: ThemePalette;
+  darkPalette: ThemePalette;
+  darkFrom: string; // HH:MM
+  lightFrom: string; // HH:MM
+}
+
+export type ReaderFontFamily = 'sans' | 'serif';
+
+// Typography for the article reader, on top of the OS text size setting
+export interface ReaderSettings {
+  fontScale: number;
+  lineHeight: number; // Multiple of the font size
+  fontFamily: ReaderFontFamily;
+  justify: boolean;
+  maxWidth: number | null; // Width cap for tablets; null fills the screen
+}
+
+// Identity of a WordPress site, used to brand the app for that site
+export interface SiteBranding {
+  sourceId: string;
+  name: string;
+  description?: string;
+  iconUrl?: string;
+  accentColor?: string; // #RGB or #RRGGBB
+  fetchedAt: number;
+}
@@ -44,6 +44,18 @@ export interface WordPressCategory {
   _links: any;
 }
 
+export interface WordPressTag {
+  id: number;
+  count: number;
+  description: string;
+  link: string;
+  name: string;
+  slug: string;
+  taxonomy: string;
+  meta: any[];
+  _links: any;
+}
+
 export interface WordPressAuthor {
   id: number;
   name: string;
@@ -103,10 +115,23 @@ export interface Post extends WordPressPost {
   featured_image?: string;
   author_name?: string;
   category_names?: string[];
+  tag_terms?: TermReference[]; // Embedded post_tag terms
+  canonical_link?: string; // SEO canonical URL, shared by cross-posted copies
+  source_id?: string; // Id of the WordPressSource the post was fetched from
+  source_name?: string;
 }
 
 export interface Category extends WordPressCategory {}
 
+export interface Tag extends WordPressTag {}
+
+export interface Author extends WordPressAuthor {}
+
+export interface TermReference {
+  id: number;
+  name: string;
+}
+
 // Bookmark interface with full URL support for handling source changes
 export interface Bookmark {
   id: number;
@@ -118,6 +143,126 @@ export interface Bookmark {
   date: string;
   link: string; // Full URL to the post
   bookmarked_date: string; // When the bookmark was created
+  source_id?: string; // Missing on bookmarks saved before sources existed
+  source_name?: string;
+  link_only?: boolean; // Imported from another service, not a post of a source
+  offline?: boolean; // Full article and images saved on the device
+  offline_size?: number; // Bytes used by the offline copy
+  collection_ids?: string[]; // A bookmark can be in any number of them
+  note?: string;
+  highlights?: BookmarkHighlight[];
+  updated_date?: string; // Last edit, used to resolve sync conflicts
+}
+
+export type BookmarkSortKey = "bookmarked" | "published" | "title" | "author";
+
+// How the Bookmarks tab is sorted and filtered, kept between sessions
+export interface BookmarkViewPrefs {
+  sort: BookmarkSortKey;
+  category: string | null;
+  sourceId: string | null;
+  offlineOnly: boolean;
+}
+
+// A named group of bookmarks, e.g. "Research" or "Read later"
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  created_date: string;
+  updated_date?: string;
+}
+
+// A passage the user kept from a bookmarked article
+export interface BookmarkHighlight {
+  id: string;
+  text: string;
+  created_date: string;
+}
+
+// How far the user got through a post, with enough of the post to list it
+export interface ReadingProgress {
+  id: number;
+  source_id?: string;
+  source_name?: string;
+  title: string;
+  featured_image?: string;
+  link: string;
+  progress: number; // 0-1, furthest point scrolled to
+  scrollOffset: number; // Last position in the article, in pixels
+  finished: boolean; // Stays true once reached, even if scrolled back up
+  timeSpent: number; // Seconds spent on the article in total
+  startedAt: string;
+  updatedAt: string;
+}
+
+// A post the user opened, with enough of the post to list it offline
+export interface HistoryEntry {
+  id: number;
+  source_id?: string;
+  source_name?: string;
+  title: string;
+  featured_image?: string;
+  link: string;
+  viewedAt: string[]; // Every time it was opened, newest first
+  lastViewedAt: string;
+}
+
+// A configured WordPress site the app can read from
+export interface WordPressSource {
+  id: string;
+  name: string;
+  baseUrl: string; // REST API base, e.g. https://example.com/wp-json/wp/v2/
+  language: string; // Language code of the site's content (e.g. "en")
+  featuredCategoryId: number;
+  enabled: boolean;
+}
+
+// Why a source couldn't be validated, added or changed
+export type SourceErrorCode =
+  | "invalidUrl"
+  | "noRestApi"
+  | "unreachable"
+  | "invalidSite"
+  | "duplicate"
+  | "unavailable"
+  | "lastEnabled";
+
+export interface SourceValidationResult {
+  valid: boolean;
+  name?: string;
+  description?: string;
+  baseUrl?: string;
+  errorCode?: SourceErrorCode;
+  error?: string; // errorCode in the app language
+}
+
+// Thrown by the source registry; the message is already translated
+export class SourceError extends Error {
+  constructor(
+    message: string,
+    public code: SourceErrorCode
+  ) {
+    super(message);
+    this.name = "SourceError";
+  }
+}
+
+// One page of a list endpoint, with totals from X-WP-Total / X-WP-TotalPages
+export interface PaginatedResult<T> {
+  items: T[];
+  page: number;
+  totalItems: number;
+  totalPages: number;
+  hasMore: boolean;
+}
+
+// Posts published after a date that match any of the followed
+// categories, tags or authors; no filters means every post
+export interface NewPostFilters {
+  after?: string; // Site-local date, as in Post.date
+  categories?: string[];
+  tags?: string[];
+  authors?: string[];
 }
 
 export interface PostListParams {
@@ -125,6 +270,7 @@ export interface PostListParams {
   per_page?: number;
   search?: string;
   categories?: number[];
+  tags?: number[];
   exclude?: number[];
   include?: number[];
   order?: 'asc' | 'desc';
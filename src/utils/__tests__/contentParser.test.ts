@@ -0,0 +1,172 @@
+import { parseContent } from "../contentParser";
+import { parseHTML } from "../htmlParser";
+
+// Post bodies as the WordPress REST API returns them in content.rendered
+const SAMPLES = {
+  blockquote: `
+<!-- wp:quote -->
+<blockquote class="wp-block-quote"><!-- wp:paragraph -->
+<p>We will rebuild the bridge <em>before</em> winter.</p>
+<!-- /wp:paragraph --><cite>Mayor Ana Lim</cite></blockquote>
+<!-- /wp:quote -->`,
+
+  classicBlockquote: `<blockquote><p>First line of the quote</p><p>Second line</p></blockquote>`,
+
+  codeBlock: `
+<!-- wp:code -->
+<pre class="wp-block-code"><code>const total = items.reduce((sum, item) =&gt; sum + item.price, 0);
+if (total &lt; 10) {
+  console.log("Under ten");
+}</code></pre>
+<!-- /wp:code -->`,
+
+  preformatted: `
+<!-- wp:preformatted -->
+<pre class="wp-block-preformatted">Line one
+    indented line two
+Line three</pre>
+<!-- /wp:preformatted -->`,
+
+  separator: `<p>Before the break</p>
+<!-- wp:separator -->
+<hr class="wp-block-separator has-alpha-channel-opacity"/>
+<!-- /wp:separator -->
+<p>After the break</p>`,
+
+  table: `
+<!-- wp:table -->
+<figure class="wp-block-table"><table><thead><tr><th>Team</th><th>Wins</th><th>Losses</th></tr></thead><tbody><tr><td>Harbor FC</td><td>12</td><td>3</td></tr><tr><td><a href="https://example.com/teams/city/">City United</a></td><td>9</td><td>6</td></tr></tbody><tfoot><tr><td>Total</td><td>21</td><td>9</td></tr></tfoot></table><figcaption class="wp-element-caption">Standings after week 15</figcaption></figure>
+<!-- /wp:table -->`,
+
+  nestedInline: `<p>Results are <strong>in: <em>turnout hit <a href="https://example.com/turnout/">a <code>record</code> high</a></em></strong>, with H<sub>2</sub>O and E=mc<sup>2</sup> <del>jokes</del> <mark>everywhere</mark>.<br>New line after a break.</p>`,
+
+  pullquote: `
+<!-- wp:pullquote -->
+<figure class="wp-block-pullquote"><blockquote><p>Every vote was counted twice, <strong>by hand</strong>.</p><cite>Election officer</cite></blockquote></figure>
+<!-- /wp:pullquote -->`,
+
+  buttons: `
+<!-- wp:buttons -->
+<div class="wp-block-buttons"><!-- wp:button -->
+<div class="wp-block-button"><a class="wp-block-button__link wp-element-button" href="https://example.com/subscribe/">Subscribe</a></div>
+<!-- /wp:button -->
+<!-- wp:button {"className":"is-style-outline"} -->
+<div class="wp-block-button is-style-outline"><a class="wp-block-button__link wp-element-button" href="https://example.com/donate/">Support <em>our</em> newsroom</a></div>
+<!-- /wp:button -->
+<!-- wp:button -->
+<div class="wp-block-button"><a class="wp-block-button__link wp-element-button"></a></div>
+<!-- /wp:button --></div>
+<!-- /wp:buttons -->`,
+
+  columns: `
+<!-- wp:columns -->
+<div class="wp-block-columns"><!-- wp:column -->
+<div class="wp-block-column"><!-- wp:heading {"level":3} -->
+<h3 class="wp-block-heading">Before</h3>
+<!-- /wp:heading -->
+<!-- wp:paragraph -->
+<p>The old market hall.</p>
+<!-- /wp:paragraph --></div>
+<!-- /wp:column -->
+<!-- wp:column -->
+<div class="wp-block-column"><!-- wp:image {"id":120} -->
+<figure class="wp-block-image size-large"><img src="https://example.com/wp-content/uploads/2024/03/hall.jpg" alt="The new hall" class="wp-image-120"/></figure>
+<!-- /wp:image -->
+<!-- wp:list -->
+<ul class="wp-block-list"><li>Opened in March</li><li>120 stalls</li></ul>
+<!-- /wp:list --></div>
+<!-- /wp:column --></div>
+<!-- /wp:columns -->`,
+
+  youtubeEmbed: `
+<!-- wp:embed {"url":"https://www.youtube.com/watch?v=dQw4w9WgXcQ","type":"video","providerNameSlug":"youtube"} -->
+<figure class="wp-block-embed is-type-video is-provider-youtube wp-block-embed-youtube wp-embed-aspect-16-9 wp-has-aspect-ratio"><div class="wp-block-embed__wrapper">
+<iframe title="Launch day highlights" width="640" height="360" src="https://www.youtube.com/embed/dQw4w9WgXcQ?feature=oembed" frameborder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media" allowfullscreen></iframe>
+</div><figcaption class="wp-element-caption">Highlights from the <a href="https://example.com/launch/">launch</a></figcaption></figure>
+<!-- /wp:embed -->`,
+
+  tweetEmbed: `
+<figure class="wp-block-embed is-type-rich is-provider-twitter wp-block-embed-twitter"><div class="wp-block-embed__wrapper">
+<blockquote class="twitter-tweet" data-width="550" data-dnt="true"><p lang="en" dir="ltr">Polls close at 8pm tonight &#8212; don&#8217;t forget to vote.</p>&mdash; City Desk (@citydesk) <a href="https://twitter.com/citydesk/status/1234567890?ref_src=twsrc%5Etfw">March 5, 2024</a></blockquote><script async src="https://platform.twitter.com/widgets.js" charset="utf-8"></script>
+</div></figure>`,
+
+  unexpandedEmbed: `
+<figure class="wp-block-embed is-type-video is-provider-vimeo wp-block-embed-vimeo"><div class="wp-block-embed__wrapper">
+https://vimeo.com/76979871
+</div></figure>`,
+
+  classicVideo: `<p>Watch the full interview:</p>
+<p><video controls width="720"><source src="//cdn.example.com/media/interview.mp4" type="video/mp4"></video></p>`,
+
+  blockGallery: `
+<!-- wp:gallery {"linkTo":"none"} -->
+<figure class="wp-block-gallery has-nested-images columns-default is-cropped">
+<!-- wp:image {"id":101} -->
+<figure class="wp-block-image size-large"><img decoding="async" width="1024" height="683" data-id="101" src="https://example.com/wp-content/uploads/2024/03/market-1024x683.jpg" alt="Stalls at the market" class="wp-image-101" srcset="https://example.com/wp-content/uploads/2024/03/market-1024x683.jpg 1024w, https://example.com/wp-content/uploads/2024/03/market-300x200.jpg 300w" sizes="(max-width: 1024px) 100vw, 1024px" /><figcaption class="wp-element-caption">Saturday morning</figcaption></figure>
+<!-- /wp:image -->
+<!-- wp:image {"id":102} -->
+<figure class="wp-block-image size-large"><img decoding="async" loading="lazy" width="683" height="1024" data-id="102" src="https://example.com/wp-content/uploads/2024/03/baker-683x1024.jpg" alt="" class="wp-image-102" /></figure>
+<!-- /wp:image -->
+<figcaption class="blocks-gallery-caption wp-element-caption">The market reopened after <strong>two years</strong></figcaption></figure>
+<!-- /wp:gallery -->`,
+
+  legacyBlockGallery: `
+<figure class="wp-block-gallery columns-2 is-cropped"><ul class="blocks-gallery-grid"><li class="blocks-gallery-item"><figure><img src="https://example.com/wp-content/uploads/2020/06/a.jpg" alt="First" data-id="11" class="wp-image-11"/><figcaption class="blocks-gallery-item__caption">Before</figcaption></figure></li><li class="blocks-gallery-item"><figure><img src="https://example.com/wp-content/uploads/2020/06/b.jpg" alt="Second" data-id="12" class="wp-image-12"/></figure></li></ul></figure>`,
+
+  galleryShortcode: `
+<div id='gallery-1' class='gallery galleryid-512 gallery-columns-3 gallery-size-thumbnail'><figure class='gallery-item'>
+			<div class='gallery-icon landscape'>
+				<a href='https://example.com/2019/05/river/'><img width="150" height="150" src="https://example.com/wp-content/uploads/2019/05/river-150x150.jpg" class="attachment-thumbnail size-thumbnail" alt="" aria-describedby="gallery-1-201" /></a>
+			</div>
+				<figcaption class='wp-caption-text gallery-caption' id='gallery-1-201'>
+				The river in spring
+				</figcaption></figure><figure class='gallery-item'>
+			<div class='gallery-icon portrait'>
+				<a href='https://example.com/2019/05/bridge/'><img width="150" height="150" data-src="https://example.com/wp-content/uploads/2019/05/bridge-150x150.jpg" src="data:image/gif;base64,R0lGODlhAQABAAAAACw=" class="attachment-thumbnail size-thumbnail lazyload" alt="The old bridge" /></a>
+			</div></figure>
+		</div>`,
+
+  captionShortcode: `
+<figure id="attachment_88" aria-describedby="caption-attachment-88" style="width: 300px" class="wp-caption aligncenter"><img class="size-medium wp-image-88" src="https://example.com/wp-content/uploads/2018/01/mayor-300x200.jpg" alt="The mayor" width="300" height="200" /><figcaption id="caption-attachment-88" class="wp-caption-text">The mayor at Tuesday&#8217;s meeting</figcaption></figure>`,
+
+  unrenderedShortcodes: `<p>[caption id="attachment_5" align="alignnone" width="300"]A caption[/caption]</p>
+<p>Join us live: [embed]https://www.youtube.com/watch?v=abc123[/embed]</p>
+[contact-form-7 id="42" title="Tips"]`,
+
+  malformedUnclosed: `<p>First paragraph with <strong>bold text
+<p>Second paragraph <em>never closed
+<ul><li>One<li>Two</ul>
+<h2>Heading</h3>`,
+
+  malformedStray: `<p>Price < 10 &amp; rising &unknown; &#0; </span></div>
+<div><p>Stray closing tags</b> should be ignored</p>
+<img alt="no source">
+<p>Ends mid-tag <a href="https://example.com`,
+
+  malformedNesting: `<b><p>Bold leaks into a block</p></b>
+<a href="https://example.com/"><h3>Linked heading</h3></a>
+<table><tr><th>Team<td>Score<tr><td>Home<td>2</table>
+<!-- an unterminated comment`,
+};
+
+describe("parseContent", () => {
+  it.each(Object.entries(SAMPLES))("parses %s", (_name, html) => {
+    expect(parseContent(html)).toMatchSnapshot();
+  });
+
+  it("returns nothing for empty content", () => {
+    expect(parseContent("")).toEqual([]);
+    const emptyBlock = "<!-- wp:paragraph -->\n<!-- /wp:paragraph -->";
+    expect(parseContent(emptyBlock)).toEqual([]);
+  });
+});
+
+describe("parseHTML", () => {
+  it.each([
+    ["malformedUnclosed", SAMPLES.malformedUnclosed],
+    ["malformedStray", SAMPLES.malformedStray],
+    ["malformedNesting", SAMPLES.malformedNesting],
+  ])("builds a tree from %s", (_name, html) => {
+    expect(parseHTML(html)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,243 @@
+import { WordPressSource } from "@/types";
+import { buildRoutePath, LinkTarget, parseLink } from "../linkResolver";
+
+const SOURCES: WordPressSource[] = [
+  {
+    id: "news",
+    name: "City News",
+    baseUrl: "https://news.example.com/wp-json/wp/v2/",
+    language: "en",
+    featuredCategoryId: 0,
+    enabled: true,
+  },
+  {
+    id: "blog",
+    name: "Example Blog",
+    baseUrl: "https://example.org/blog/wp-json/wp/v2/",
+    language: "en",
+    featuredCategoryId: 0,
+    enabled: true,
+  },
+];
+
+describe("parseLink", () => {
+  const cases: Array<[string, string, LinkTarget]> = [
+    // Posts
+    [
+      "post permalink",
+      "https://news.example.com/2024/05/01/budget-passes/",
+      { type: "post", slug: "budget-passes", sourceId: "news" },
+    ],
+    [
+      "post permalink with www and tracking params",
+      "https://www.news.example.com/budget-passes/?utm_source=x",
+      { type: "post", slug: "budget-passes", sourceId: "news" },
+    ],
+    [
+      "AMP post",
+      "https://news.example.com/budget-passes/amp/",
+      { type: "post", slug: "budget-passes", sourceId: "news" },
+    ],
+    [
+      "plain post link",
+      "https://news.example.com/?p=123",
+      { type: "post", id: 123, sourceId: "news" },
+    ],
+    [
+      "post on a site in a subdirectory",
+      "https://example.org/blog/hello-world/",
+      { type: "post", slug: "hello-world", sourceId: "blog" },
+    ],
+    [
+      "app post link",
+      "expo-wordpress-news-hub://post/123?source=blog",
+      { type: "post", id: 123, sourceId: "blog" },
+    ],
+    [
+      "Expo Go post link",
+      "exp://192.168.1.5:8081/--/post/42",
+      { type: "post", id: 42, sourceId: undefined },
+    ],
+    // Categories
+    [
+      "nested category archive",
+      "https://news.example.com/category/sport/football/",
+      { type: "category", slug: "football", sourceId: "news" },
+    ],
+    [
+      "later page of a category archive",
+      "https://news.example.com/category/sport/page/3/",
+      { type: "category", slug: "sport", sourceId: "news" },
+    ],
+    [
+      "plain category link",
+      "https://news.example.com/?cat=7",
+      { type: "category", id: 7, sourceId: "news" },
+    ],
+    [
+      "app category link",
+      "expo-wordpress-news-hub://categories/5",
+      { type: "category", id: 5, sourceId: undefined },
+    ],
+    // Tags
+    [
+      "tag archive",
+      "https://news.example.com/tag/elections/",
+      { type: "tag", slug: "elections", sourceId: "news" },
+    ],
+    [
+      "plain tag link",
+      "https://news.example.com/?tag=elections",
+      { type: "tag", slug: "elections", sourceId: "news" },
+    ],
+    [
+      "app tag link",
+      "expo-wordpress-news-hub://tag/9?source=news",
+      { type: "tag", id: 9, sourceId: "news" },
+    ],
+    // Authors
+    [
+      "author archive",
+      "https://news.example.com/author/jo-reyes/",
+      { type: "author", slug: "jo-reyes", sourceId: "news" },
+    ],
+    [
+      "plain author link",
+      "https://news.example.com/?author=3",
+      { type: "author", id: 3, sourceId: "news" },
+    ],
+    [
+      "app author link",
+      "expo-wordpress-news-hub://author/3",
+      { type: "author", id: 3, sourceId: undefined },
+    ],
+    // Search
+    [
+      "search query",
+      "https://news.example.com/?s=city+council",
+      { type: "search", query: "city council", sourceId: "news" },
+    ],
+    [
+      "search path",
+      "https://news.example.com/search/city%20council/",
+      { type: "search", query: "city council", sourceId: "news" },
+    ],
+    [
+      "app search link",
+      "expo-wordpress-news-hub://search?q=rates&source=blog",
+      { type: "search", query: "rates", sourceId: "blog" },
+    ],
+    // Home
+    [
+      "site root",
+      "https://news.example.com/",
+      { type: "home", sourceId: "news" },
+    ],
+    [
+      "site root with tracking params",
+      "https://news.example.com/?fbclid=abc",
+      { type: "home", sourceId: "news" },
+    ],
+    [
+      "subdirectory site root",
+      "https://example.org/blog",
+      { type: "home", sourceId: "blog" },
+    ],
+    // Other app routes
+    [
+      "app route",
+      "expo-wordpress-news-hub://notifications/history",
+      { type: "route", path: "/notifications/history" },
+    ],
+    [
+      "app link without a path",
+      "expo-wordpress-news-hub://",
+      { type: "route", path: "/" },
+    ],
+    // Foreign hosts
+    [
+      "foreign host",
+      "https://elsewhere.com/2024/05/01/budget-passes/",
+      {
+        type: "external",
+        url: "https://elsewhere.com/2024/05/01/budget-passes/",
+      },
+    ],
+    [
+      "foreign host with a source's host as subdomain",
+      "https://news.example.com.evil.io/budget/",
+      { type: "external", url: "https://news.example.com.evil.io/budget/" },
+    ],
+    [
+      "same host outside the source's subdirectory",
+      "https://example.org/shop/",
+      { type: "external", url: "https://example.org/shop/" },
+    ],
+    // Pages of a source that aren't in the app
+    [
+      "uploaded file",
+      "https://news.example.com/wp-content/uploads/2024/05/report.pdf",
+      {
+        type: "external",
+        url: "https://news.example.com/wp-content/uploads/2024/05/report.pdf",
+      },
+    ],
+    [
+      "date archive",
+      "https://news.example.com/2024/05/",
+      { type: "external", url: "https://news.example.com/2024/05/" },
+    ],
+    [
+      "unknown query on the home page",
+      "https://news.example.com/?page_id=2",
+      { type: "external", url: "https://news.example.com/?page_id=2" },
+    ],
+    // Malformed
+    [
+      "empty tag archive",
+      "https://news.example.com/tag/",
+      { type: "external", url: "https://news.example.com/tag/" },
+    ],
+    [
+      "bad percent-encoding",
+      "https://news.example.com/%E0%A4%A/",
+      { type: "post", slug: "%E0%A4%A", sourceId: "news" },
+    ],
+    [
+      "post link without an id",
+      "expo-wordpress-news-hub://post/",
+      { type: "route", path: "/post/" },
+    ],
+    [
+      "search link without a query",
+      "expo-wordpress-news-hub://search",
+      { type: "route", path: "/search" },
+    ],
+    [
+      "URL without a host",
+      "https://",
+      { type: "external", url: "https://" },
+    ],
+    [
+      "surrounding whitespace",
+      "  https://news.example.com/?p=5  ",
+      { type: "post", id: 5, sourceId: "news" },
+    ],
+  ];
+
+  it.each(cases)("parses a %s", (_name, url, expected) => {
+    expect(parseLink(url, SOURCES)).toEqual(expected);
+  });
+});
+
+describe("buildRoutePath", () => {
+  it("encodes params and leaves out empty ones", () => {
+    expect(
+      buildRoutePath("/search", { q: "rates & fees", source: undefined })
+    ).toBe("/search?q=rates%20%26%20fees");
+    expect(buildRoutePath("/categories", { category: 5, source: "" })).toBe(
+      "/categories?category=5"
+    );
+    expect(buildRoutePath("/home")).toBe("/home");
+  });
+});
@@ -0,0 +1,410 @@
+import { Bookmark, BookmarkCollection } from "@/types";
+import { decodeEntities, tokenizeHTML } from "@/utils/htmlParser";
+import { getCanonicalLink } from "@/utils/postIdentity";
+
+export type BookmarkExportFormat = "json" | "html" | "csv";
+
+// Where an imported file most likely came from, shown in the preview
+export type BookmarkImportSource =
+  | "app"
+  | "json"
+  | "netscape"
+  | "pocket"
+  | "instapaper"
+  | "csv";
+
+export interface ParsedBookmarkFile {
+  source: BookmarkImportSource;
+  bookmarks: Bookmark[];
+  collections: BookmarkCollection[]; // Only present in the app's own JSON
+  skipped: number; // Entries without a usable link
+}
+
+// Identifies the app's own JSON exports
+const JSON_FORMAT_NAME = "news-hub-bookmarks";
+const JSON_FORMAT_VERSION = 1;
+
+const CSV_COLUMNS = [
+  "title",
+  "url",
+  "excerpt",
+  "author",
+  "categories",
+  "published",
+  "bookmarked",
+  "source",
+  "note",
+] as const;
+
+interface ImportedEntry {
+  link?: string;
+  title?: string;
+  excerpt?: string;
+  author?: string;
+  categories?: string[];
+  published?: string;
+  bookmarked?: string;
+  note?: string;
+}
+
+const toPlainText = (html: string) =>
+  decodeEntities(html.replace(/<[^>]*>/g, "")).trim();
+
+const escapeHTML = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const escapeCSV = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toUnixSeconds = (date: string) =>
+  Math.floor(new Date(date).getTime() / 1000) || 0;
+
+// Pocket and Instapaper use Unix seconds, the app uses ISO strings
+const parseDate = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const date = /^\d+$/.test(trimmed)
+    ? new Date(parseInt(trimmed, 10) * 1000)
+    : new Date(trimmed);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const splitTags = (value?: string) =>
+  (value || "")
+    .split(/[|;,]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+// Links from other services have no WordPress post id; derive a stable
+// negative one so they never collide with real posts
+const getImportedId = (link: string) => {
+  const key = getCanonicalLink(link);
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return -(Math.abs(hash) || 1);
+};
+
+// Imported links can't be loaded from a source, so they are opened in the
+// browser and never saved offline. Older imports only have the negative id
+export const isLinkOnly = (bookmark: Bookmark) =>
+  bookmark.link_only === true || bookmark.id < 0;
+
+const toBookmark = (entry: ImportedEntry): Bookmark | null => {
+  const link = entry.link?.trim();
+  if (!link || !/^https?:\/\//i.test(link)) return null;
+
+  const now = new Date().toISOString();
+  return {
+    id: getImportedId(link),
+    title: entry.title?.trim() || link,
+    excerpt: entry.excerpt?.trim() || "",
+    author_name: entry.author?.trim() || undefined,
+    category_names: entry.categories?.length ? entry.categories : undefined,
+    date: parseDate(entry.published) || parseDate(entry.bookmarked) || now,
+    link,
+    bookmarked_date: parseDate(entry.bookmarked) || now,
+    note: entry.note?.trim() || undefined,
+    link_only: true,
+  };
+};
+
+const serializeJSON = (
+  bookmarks: Bookmark[],
+  collections: BookmarkCollection[]
+) =>
+  JSON.stringify(
+    {
+      format: JSON_FORMAT_NAME,
+      version: JSON_FORMAT_VERSION,
+      exported_date: new Date().toISOString(),
+      collections,
+      bookmarks,
+    },
+    null,
+    2
+  );
+
+// Netscape bookmark file, the format browsers import and export
+const serializeHTML = (bookmarks: Bookmark[]) => {
+  const entries = bookmarks.map((bookmark) => {
+    const tags = bookmark.category_names?.join(",") || "";
+    const description = bookmark.note || toPlainText(bookmark.excerpt);
+    const anchor =
+      `    <DT><A HREF="${escapeHTML(bookmark.link)}"` +
+      ` ADD_DATE="${toUnixSeconds(bookmark.bookmarked_date)}"` +
+      (tags ? ` TAGS="${escapeHTML(tags)}"` : "") +
+      `>${escapeHTML(bookmark.title)}</A>`;
+    return description
+      ? `${anchor}\n    <DD>${escapeHTML(description)}`
+      : anchor;
+  });
+
+  return [
+    "<!DOCTYPE NETSCAPE-Bookmark-file-1>",
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    "<TITLE>Bookmarks</TITLE>",
+    "<H1>Bookmarks</H1>",
+    "<DL><p>",
+    ...entries,
+    "</DL><p>",
+    "",
+  ].join("\n");
+};
+
+const serializeCSV = (bookmarks: Bookmark[]) => {
+  const rows = bookmarks.map((bookmark) =>
+    [
+      bookmark.title,
+      bookmark.link,
+      toPlainText(bookmark.excerpt),
+      bookmark.author_name || "",
+      bookmark.category_names?.join("|") || "",
+      bookmark.date,
+      bookmark.bookmarked_date,
+      bookmark.source_name || "",
+      bookmark.note || "",
+    ]
+      .map(escapeCSV)
+      .join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+};
+
+export const serializeBookmarks = (
+  format: BookmarkExportFormat,
+  bookmarks: Bookmark[],
+  collections: BookmarkCollection[]
+): string => {
+  switch (format) {
+    case "json":
+      return serializeJSON(bookmarks, collections);
+    case "html":
+      return serializeHTML(bookmarks);
+    case "csv":
+      return serializeCSV(bookmarks);
+  }
+};
+
+const parseJSON = (content: string): ParsedBookmarkFile => {
+  const data = JSON.parse(content);
+  const items: any[] = Array.isArray(data) ? data : data?.bookmarks;
+  if (!Array.isArray(items)) {
+    throw new Error("Unrecognised bookmark file");
+  }
+
+  const bookmarks: Bookmark[] = [];
+  let skipped = 0;
+  items.forEach((item) => {
+    const bookmark = toBookmark({
+      link: item?.link ?? item?.url,
+      title: item?.title,
+      excerpt: item?.excerpt,
+      author: item?.author_name,
+      categories: Array.isArray(item?.category_names)
+        ? item.category_names
+        : undefined,
+      published: item?.date,
+      bookmarked: item?.bookmarked_date,
+      note: item?.note,
+    });
+    if (!bookmark) {
+      skipped++;
+      return;
+    }
+
+    // The app's own exports keep post ids, sources and collections;
+    // offline copies are not part of the file
+    bookmarks.push(
+      typeof item.id === "number"
+        ? {
+            ...item,
+            ...bookmark,
+            id: item.id,
+            link_only: item.link_only === true || undefined,
+            offline: undefined,
+            offline_size: undefined,
+          }
+        : bookmark
+    );
+  });
+
+  const collections: BookmarkCollection[] = Array.isArray(data?.collections)
+    ? data.collections.filter(
+        (c: any) => typeof c?.id === "string" && typeof c?.name === "string"
+      )
+    : [];
+
+  return {
+    source: data?.format === JSON_FORMAT_NAME ? "app" : "json",
+    bookmarks,
+    collections,
+    skipped,
+  };
+};
+
+// Netscape bookmark files and Pocket/Instapaper HTML exports: every
+// <a href> is an entry, and a <dd> right after it is its description
+const parseHTMLFile = (content: string): ParsedBookmarkFile => {
+  const entries: ImportedEntry[] = [];
+  let current: ImportedEntry | null = null;
+  let capturing: "title" | "description" | null = null;
+  let isPocket = false;
+
+  tokenizeHTML(content).forEach((token) => {
+    if (token.type === "text") {
+      if (current && capturing === "title") {
+        current.title = (current.title || "") + token.text;
+      } else if (current && capturing === "description") {
+        current.excerpt = (current.excerpt || "") + token.text;
+      }
+      return;
+    }
+
+    if (token.type === "endTag") {
+      if (token.name === "a") capturing = null;
+      return;
+    }
+
+    if (token.name === "a" && token.attributes.href) {
+      const attributes = token.attributes;
+      isPocket = isPocket || "time_added" in attributes;
+      current = {
+        link: attributes.href,
+        bookmarked: attributes.add_date || attributes.time_added,
+        categories: splitTags(attributes.tags),
+      };
+      entries.push(current);
+      capturing = "title";
+    } else if (token.name === "dd") {
+      capturing = "description";
+    } else if (token.name === "dt" || token.name === "li") {
+      current = null;
+      capturing = null;
+    }
+  });
+
+  const bookmarks = entries
+    .map(toBookmark)
+    .filter((bookmark): bookmark is Bookmark => bookmark !== null);
+
+  return {
+    source: isPocket
+      ? "pocket"
+      : /instapaper/i.test(content.slice(0, 500))
+      ? "instapaper"
+      : "netscape",
+    bookmarks,
+    collections: [],
+    skipped: entries.length - bookmarks.length,
+  };
+};
+
+// RFC 4180: quoted fields may contain commas, quotes and newlines
+const parseCSVRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+};
+
+// The app's CSV, Pocket's (title,url,time_added,tags,status) and
+// Instapaper's (URL,Title,Selection,Folder,Timestamp)
+const parseCSV = (content: string): ParsedBookmarkFile => {
+  const [header, ...rows] = parseCSVRows(content);
+  if (!header) throw new Error("Unrecognised bookmark file");
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const column = (...names: string[]) =>
+    columns.findIndex((name) => names.includes(name));
+  const indexes = {
+    link: column("url", "link", "href"),
+    title: column("title"),
+    excerpt: column("excerpt", "selection", "description"),
+    author: column("author"),
+    categories: column("categories", "tags"),
+    published: column("published", "date"),
+    bookmarked: column("bookmarked", "time_added", "timestamp"),
+    note: column("note"),
+  };
+  if (indexes.link === -1) throw new Error("Unrecognised bookmark file");
+
+  const value = (row: string[], index: number) =>
+    index === -1 ? undefined : row[index];
+  const bookmarks: Bookmark[] = [];
+  rows.forEach((row) => {
+    const bookmark = toBookmark({
+      link: value(row, indexes.link),
+      title: value(row, indexes.title),
+      excerpt: value(row, indexes.excerpt),
+      author: value(row, indexes.author),
+      categories: splitTags(value(row, indexes.categories)),
+      published: value(row, indexes.published),
+      bookmarked: value(row, indexes.bookmarked),
+      note: value(row, indexes.note),
+    });
+    if (bookmark) bookmarks.push(bookmark);
+  });
+
+  return {
+    source: columns.includes("time_added")
+      ? "pocket"
+      : columns.includes("selection") && columns.includes("folder")
+      ? "instapaper"
+      : "csv",
+    bookmarks,
+    collections: [],
+    skipped: rows.length - bookmarks.length,
+  };
+};
+
+export const parseBookmarkFile = (content: string): ParsedBookmarkFile => {
+  const trimmed = content.trim();
+  if (!trimmed) throw new Error("The file is empty");
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    return parseJSON(trimmed);
+  }
+  if (trimmed.startsWith("<") || /<a\s[^>]*href=/i.test(trimmed)) {
+    return parseHTMLFile(trimmed);
+  }
+  return parseCSV(trimmed);
+};
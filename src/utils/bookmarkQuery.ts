@@ -0,0 +1,75 @@
+import { Bookmark, BookmarkSortKey, BookmarkViewPrefs } from "@/types";
+import { normalizeSearchText } from "@/utils/formatUtils";
+
+export const DEFAULT_BOOKMARK_VIEW: BookmarkViewPrefs = {
+  sort: "bookmarked",
+  category: null,
+  sourceId: null,
+  offlineOnly: false,
+};
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, "");
+
+// Dates sort newest first, text sorts A to Z
+const SORTERS: Record<BookmarkSortKey, (a: Bookmark, b: Bookmark) => number> =
+  {
+    bookmarked: (a, b) => b.bookmarked_date.localeCompare(a.bookmarked_date),
+    published: (a, b) =>
+      new Date(b.date).getTime() - new Date(a.date).getTime(),
+    title: (a, b) => a.title.localeCompare(b.title),
+    // Bookmarks without an author go last
+    author: (a, b) =>
+      (a.author_name ? 0 : 1) - (b.author_name ? 0 : 1) ||
+      (a.author_name || "").localeCompare(b.author_name || ""),
+  };
+
+// Bookmarks matching the filters and every word of the query, sorted
+export const queryBookmarks = (
+  bookmarks: Bookmark[],
+  query: string,
+  prefs: BookmarkViewPrefs
+): Bookmark[] => {
+  const words = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+
+  return bookmarks
+    .filter((bookmark) => {
+      if (prefs.offlineOnly && !bookmark.offline) return false;
+      if (prefs.sourceId && bookmark.source_id !== prefs.sourceId) {
+        return false;
+      }
+      if (
+        prefs.category &&
+        !bookmark.category_names?.includes(prefs.category)
+      ) {
+        return false;
+      }
+      if (words.length === 0) return true;
+
+      const text = normalizeSearchText(
+        `${bookmark.title} ${stripTags(bookmark.excerpt)}`
+      );
+      return words.every((word) => text.includes(word));
+    })
+    .sort(SORTERS[prefs.sort]);
+};
+
+// Categories and sources present in the bookmarks, for the filter chips
+export const getBookmarkFilterOptions = (bookmarks: Bookmark[]) => {
+  const categories = new Set<string>();
+  const sources = new Map<string, string>();
+
+  bookmarks.forEach((bookmark) => {
+    bookmark.category_names?.forEach((name) => categories.add(name));
+    if (bookmark.source_id) {
+      sources.set(
+        bookmark.source_id,
+        bookmark.source_name || bookmark.source_id
+      );
+    }
+  });
+
+  return {
+    categories: Array.from(categories).sort((a, b) => a.localeCompare(b)),
+    sources: Array.from(sources, ([id, name]) => ({ id, name })),
+  };
+};
@@ -0,0 +1,90 @@
+import { Category } from "@/types";
+
+export interface CategoryNode {
+  category: Category;
+  children: CategoryNode[];
+  depth: number;
+  totalCount: number; // Posts in this category and all of its descendants
+}
+
+// Build the parent/child tree from WordPress's flat category list.
+// Categories whose parent is missing (e.g. hidden as empty) become roots.
+export const buildCategoryTree = (categories: Category[]): CategoryNode[] => {
+  const ids = new Set(categories.map((category) => category.id));
+  const childrenByParent = new Map<number, Category[]>();
+
+  categories.forEach((category) => {
+    const parentId = ids.has(category.parent) ? category.parent : 0;
+    const siblings = childrenByParent.get(parentId) || [];
+    siblings.push(category);
+    childrenByParent.set(parentId, siblings);
+  });
+
+  const visited = new Set<number>();
+  const buildLevel = (parentId: number, depth: number): CategoryNode[] => {
+    const nodes = (childrenByParent.get(parentId) || [])
+      .filter((category) => !visited.has(category.id))
+      .map((category) => {
+        visited.add(category.id);
+        const children = buildLevel(category.id, depth + 1);
+        return {
+          category,
+          children,
+          depth,
+          totalCount:
+            category.count +
+            children.reduce((sum, child) => sum + child.totalCount, 0),
+        };
+      });
+
+    // Most posts first, as in the old flat list
+    return nodes.sort((a, b) => b.totalCount - a.totalCount);
+  };
+
+  return buildLevel(0, 0);
+};
+
+// Drop branches with no posts anywhere below them
+export const pruneEmptyNodes = (nodes: CategoryNode[]): CategoryNode[] => {
+  return nodes
+    .filter((node) => node.totalCount > 0)
+    .map((node) => ({ ...node, children: pruneEmptyNodes(node.children) }));
+};
+
+export const findCategoryNode = (
+  nodes: CategoryNode[],
+  categoryId: number
+): CategoryNode | null => {
+  for (const node of nodes) {
+    if (node.category.id === categoryId) return node;
+    const found = findCategoryNode(node.children, categoryId);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Categories from the root down to (and including) the given one,
+// for breadcrumbs
+export const getCategoryPath = (
+  categories: Category[],
+  categoryId: number
+): Category[] => {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const path: Category[] = [];
+  let current = byId.get(categoryId);
+
+  // Guard against cycles in malformed data
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent ? byId.get(current.parent) : undefined;
+  }
+
+  return path;
+};
+
+export const getDescendantIds = (node: CategoryNode): number[] => {
+  return node.children.flatMap((child) => [
+    child.category.id,
+    ...getDescendantIds(child),
+  ]);
+};
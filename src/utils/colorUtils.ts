@@ -0,0 +1,121 @@
+import { ThemeColors } from "@/types/theme";
+
+const HEX_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Accent colours below this contrast against the background are adjusted;
+// 3:1 is the WCAG minimum for large text and UI components
+const MIN_ACCENT_CONTRAST = 3;
+
+interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === "string" && HEX_PATTERN.test(value.trim());
+
+export const hexToRgb = (hex: string): RGB | null => {
+  if (!isHexColor(hex)) return null;
+
+  let digits = hex.trim().slice(1);
+  if (digits.length === 3) {
+    digits = digits
+      .split("")
+      .map((digit) => digit + digit)
+      .join("");
+  }
+
+  return {
+    r: parseInt(digits.slice(0, 2), 16),
+    g: parseInt(digits.slice(2, 4), 16),
+    b: parseInt(digits.slice(4, 6), 16),
+  };
+};
+
+const rgbToHex = ({ r, g, b }: RGB): string =>
+  "#" +
+  [r, g, b]
+    .map((channel) => Math.round(channel).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+
+// Blend `hex` towards `target` by `amount` (0 keeps hex, 1 gives target)
+export const mixColors = (hex: string, target: string, amount: number) => {
+  const from = hexToRgb(hex);
+  const to = hexToRgb(target);
+  if (!from || !to) return hex;
+
+  return rgbToHex({
+    r: from.r + (to.r - from.r) * amount,
+    g: from.g + (to.g - from.g) * amount,
+    b: from.b + (to.b - from.b) * amount,
+  });
+};
+
+// Relative luminance as defined by WCAG 2
+export const getLuminance = (hex: string): number => {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return 0;
+
+  const [r, g, b] = [rgb.r, rgb.g, rgb.b].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928
+      ? value / 12.92
+      : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const getContrastRatio = (first: string, second: string): number => {
+  const a = getLuminance(first);
+  const b = getLuminance(second);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+};
+
+export const getReadableTextColor = (background: string): string =>
+  getContrastRatio(background, "#000000") >=
+  getContrastRatio(background, "#FFFFFF")
+    ? "#000000"
+    : "#FFFFFF";
+
+// Lighten (dark palettes) or darken (light palettes) the accent until it
+// stands out from the background
+const ensureContrast = (accent: string, background: string, dark: boolean) => {
+  const target = dark ? "#FFFFFF" : "#000000";
+  let color = accent;
+  for (let step = 1; step <= 10; step++) {
+    if (getContrastRatio(color, background) >= MIN_ACCENT_CONTRAST) break;
+    color = mixColors(accent, target, step / 10);
+  }
+  return color;
+};
+
+// Palette colours with the site's accent in place of the stock blue
+export const applyBrandColors = (
+  colors: ThemeColors,
+  accentColor: string,
+  isDarkMode: boolean
+): ThemeColors => {
+  if (!isHexColor(accentColor)) return colors;
+
+  const accent = ensureContrast(
+    accentColor.trim(),
+    colors.background,
+    isDarkMode
+  );
+  // Dark palettes keep their dark header; a coloured bar glares at night
+  const headerBackground = isDarkMode
+    ? colors.headerBackground
+    : accentColor.trim();
+
+  return {
+    ...colors,
+    primary: accent,
+    tabBarActive: accent,
+    headerBackground,
+    headerText: isDarkMode
+      ? colors.headerText
+      : getReadableTextColor(headerBackground),
+  };
+};
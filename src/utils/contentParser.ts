@@ -0,0 +1,639 @@
+// Turns WordPress post HTML into ParsedElement blocks for HTMLRenderer,
+// recognising the common Gutenberg core blocks by their class names
+import {
+  ButtonLink,
+  EmbedProvider,
+  InlineElement,
+  ParsedElement,
+  TableRow,
+} from "@/types";
+import {
+  HTMLElementNode,
+  HTMLNode,
+  parseHTML,
+  getTextContent,
+  hasClass,
+  findElement,
+} from "./htmlParser";
+import { parseUrl } from "./urlUtils";
+
+const INLINE_TYPES: Record<string, InlineElement["type"]> = {
+  strong: "bold",
+  b: "bold",
+  em: "italic",
+  i: "italic",
+  u: "underline",
+  ins: "underline",
+  s: "strikethrough",
+  del: "strikethrough",
+  strike: "strikethrough",
+  a: "link",
+  code: "code",
+  kbd: "code",
+  samp: "code",
+};
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "audio",
+  "blockquote",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "embed",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "iframe",
+  "img",
+  "li",
+  "main",
+  "nav",
+  "object",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "ul",
+  "video",
+]);
+
+const EMBED_TAGS = new Set(["iframe", "video", "audio", "embed", "object"]);
+
+// Outside <pre>, runs of HTML whitespace render as a single space
+const collapseWhitespace = (text: string) => text.replace(/[ \t\n\r\f]+/g, " ");
+
+const isElement = (node: HTMLNode, name?: string): node is HTMLElementNode =>
+  node.type === "element" && (!name || node.name === name);
+
+const containsBlock = (node: HTMLElementNode): boolean =>
+  node.children.some(
+    (child) =>
+      isElement(child) && (BLOCK_TAGS.has(child.name) || containsBlock(child))
+  );
+
+// Protocol-relative embed URLs are common in WordPress content
+const absoluteUrl = (url?: string) =>
+  url && url.startsWith("//") ? `https:${url}` : url;
+
+// Core embed blocks name the provider in their classes; raw iframes only
+// have the URL to go on
+const getEmbedProvider = (
+  className: string = "",
+  url: string = ""
+): EmbedProvider => {
+  const hostname = parseUrl(url)?.hostname || "";
+  if (
+    /wp-block-embed-youtube|is-provider-youtube/.test(className) ||
+    /(^|\.)(youtube\.com|youtube-nocookie\.com|youtu\.be)$/.test(hostname)
+  ) {
+    return "youtube";
+  }
+  if (
+    /wp-block-embed-twitter|is-provider-(twitter|x)\b|twitter-tweet/.test(
+      className
+    ) ||
+    /(^|\.)(twitter\.com|x\.com)$/.test(hostname)
+  ) {
+    return "twitter";
+  }
+  return "other";
+};
+
+const parseInlineElements = (nodes: HTMLNode[]): InlineElement[] => {
+  const elements: InlineElement[] = [];
+
+  nodes.forEach((node) => {
+    if (node.type === "text") {
+      const text = collapseWhitespace(node.text);
+      if (text) elements.push({ type: "text", content: text });
+      return;
+    }
+
+    if (node.name === "br") {
+      elements.push({ type: "lineBreak", content: "" });
+      return;
+    }
+
+    const children = parseInlineElements(node.children);
+    const type = INLINE_TYPES[node.name];
+    // Spans, abbreviations and the like only contribute their text
+    if (!type) {
+      elements.push(...children);
+      return;
+    }
+
+    if (children.length > 0) {
+      elements.push({
+        type,
+        content: "",
+        href: type === "link" ? node.attributes.href : undefined,
+        children,
+      });
+    }
+  });
+
+  return elements;
+};
+
+// Drop whitespace at the start or end of a run of inline elements
+const trimEdge = (
+  elements: InlineElement[],
+  edge: "start" | "end"
+): InlineElement[] => {
+  if (elements.length === 0) return elements;
+
+  const atStart = edge === "start";
+  const element = atStart ? elements[0] : elements[elements.length - 1];
+  const rest = atStart ? elements.slice(1) : elements.slice(0, -1);
+
+  let trimmed: InlineElement | null = element;
+  if (element.children) {
+    const children = trimEdge(element.children, edge);
+    trimmed = children.length > 0 ? { ...element, children } : null;
+  } else if (element.type === "text") {
+    const content = atStart
+      ? element.content.replace(/^ +/, "")
+      : element.content.replace(/ +$/, "");
+    trimmed = content ? { ...element, content } : null;
+  }
+
+  if (!trimmed) return trimEdge(rest, edge);
+  return atStart ? [trimmed, ...rest] : [...rest, trimmed];
+};
+
+const trimInline = (elements: InlineElement[]) =>
+  trimEdge(trimEdge(elements, "start"), "end");
+
+export const getInlineText = (elements: InlineElement[]): string =>
+  elements
+    .map((element) =>
+      element.children ? getInlineText(element.children) : element.content
+    )
+    .join("");
+
+const parseImage = (node: HTMLElementNode): ParsedElement | null => {
+  // Lazy-loading plugins keep the real URL in data-src
+  const src = absoluteUrl(node.attributes["data-src"] || node.attributes.src);
+  if (!src) return null;
+
+  const width = parseInt(node.attributes.width, 10);
+  const height = parseInt(node.attributes.height, 10);
+  return {
+    type: "image",
+    content: node.attributes.alt || "",
+    image: {
+      src,
+      srcset: node.attributes["data-srcset"] || node.attributes.srcset,
+      alt: node.attributes.alt,
+      width: isNaN(width) ? undefined : width,
+      height: isNaN(height) ? undefined : height,
+    },
+    className: node.attributes.class,
+  };
+};
+
+const parseEmbed = (
+  node: HTMLElementNode,
+  caption?: InlineElement[]
+): ParsedElement => {
+  const media = EMBED_TAGS.has(node.name)
+    ? node
+    : findElement(node.children, (el) => EMBED_TAGS.has(el.name));
+  const source = media
+    ? findElement(media.children, (el) => el.name === "source")
+    : null;
+  // Block editor embeds that were not expanded only carry the URL as text
+  const url =
+    media?.attributes.src ||
+    media?.attributes.data ||
+    source?.attributes.src ||
+    getTextContent(node).trim();
+
+  return {
+    type: "embed",
+    content: media?.attributes.title || "",
+    url: absoluteUrl(url),
+    provider: getEmbedProvider(node.attributes.class, url),
+    caption,
+    className: node.attributes.class,
+  };
+};
+
+const parseTable = (
+  node: HTMLElementNode,
+  caption?: InlineElement[]
+): ParsedElement => {
+  const rows: TableRow[] = [];
+
+  const collectRows = (nodes: HTMLNode[], inHead: boolean) => {
+    nodes.forEach((child) => {
+      if (!isElement(child)) return;
+      if (["thead", "tbody", "tfoot"].includes(child.name)) {
+        collectRows(child.children, child.name === "thead");
+      } else if (child.name === "tr") {
+        rows.push({
+          cells: child.children
+            .filter(
+              (cell): cell is HTMLElementNode =>
+                isElement(cell, "td") || isElement(cell, "th")
+            )
+            .map((cell) => ({
+              header: inHead || cell.name === "th",
+              inlineElements: trimInline(parseInlineElements(cell.children)),
+            })),
+        });
+      }
+    });
+  };
+  collectRows(node.children, false);
+
+  const tableCaption = node.children.find((child) =>
+    isElement(child, "caption")
+  ) as HTMLElementNode | undefined;
+
+  return {
+    type: "table",
+    content: "",
+    rows,
+    caption:
+      caption ||
+      (tableCaption
+        ? trimInline(parseInlineElements(tableCaption.children))
+        : undefined),
+    className: node.attributes.class,
+  };
+};
+
+const parseFigure = (node: HTMLElementNode): ParsedElement[] => {
+  const captionNode = node.children.find((child) =>
+    isElement(child, "figcaption")
+  ) as HTMLElementNode | undefined;
+  const caption = captionNode
+    ? trimInline(parseInlineElements(captionNode.children))
+    : undefined;
+  const content = node.children.filter((child) => child !== captionNode);
+
+  // Twitter embed blocks wrap the oEmbed quote rather than an iframe
+  const tweet = findElement(
+    content,
+    (el) => el.name === "blockquote" && hasClass(el, "twitter-tweet")
+  );
+  if (tweet) {
+    return (parseCoreBlock(tweet) || []).map((embed) => ({
+      ...embed,
+      caption,
+      className: node.attributes.class,
+    }));
+  }
+
+  if (
+    hasClass(node, "wp-block-embed") ||
+    findElement(content, (el) => EMBED_TAGS.has(el.name))
+  ) {
+    return [parseEmbed({ ...node, children: content }, caption)];
+  }
+
+  const table = findElement(content, (el) => el.name === "table");
+  if (table) return [parseTable(table, caption)];
+
+  const blocks = parseBlocks(content);
+  if (blocks.length === 1 && blocks[0].type === "image") {
+    return [{ ...blocks[0], caption, className: node.attributes.class }];
+  }
+
+  return [
+    {
+      type: "figure",
+      content: "",
+      children: blocks,
+      caption,
+      className: node.attributes.class,
+    },
+  ];
+};
+
+const parseList = (node: HTMLElementNode): ParsedElement => {
+  const items = node.children
+    .filter((child): child is HTMLElementNode => isElement(child, "li"))
+    .map((item): ParsedElement => {
+      const blocks = parseBlocks(item.children);
+      // Text directly in the <li> becomes the item; nested lists follow it
+      const [first, ...rest] = blocks;
+      const hasText = first?.type === "paragraph";
+      return {
+        type: "list-item",
+        content: hasText ? first.content : "",
+        inlineElements: hasText ? first.inlineElements : [],
+        children: hasText ? rest : blocks,
+      };
+    });
+
+  return {
+    type: "list",
+    content: "",
+    ordered: node.name === "ol",
+    items,
+    className: node.attributes.class,
+  };
+};
+
+// Images of a gallery block, each with its own caption if it has one.
+// Covers block galleries (nested image blocks or the older <ul> grid)
+// and classic [gallery] shortcode output.
+const collectGalleryImages = (nodes: HTMLNode[]): ParsedElement[] => {
+  const images: ParsedElement[] = [];
+
+  nodes.forEach((node) => {
+    if (!isElement(node)) return;
+
+    if (node.name === "img") {
+      const image = parseImage(node);
+      if (image) images.push(image);
+      return;
+    }
+
+    const img =
+      node.name === "figure" || hasClass(node, "gallery-item")
+        ? findElement(node.children, (el) => el.name === "img")
+        : null;
+    if (img) {
+      const image = parseImage(img);
+      const captionNode = findElement(
+        node.children,
+        (el) => el.name === "figcaption" || hasClass(el, "gallery-caption")
+      );
+      if (image) {
+        images.push({
+          ...image,
+          caption: captionNode
+            ? trimInline(parseInlineElements(captionNode.children))
+            : undefined,
+        });
+      }
+      return;
+    }
+
+    images.push(...collectGalleryImages(node.children));
+  });
+
+  return images;
+};
+
+const parseButtons = (node: HTMLElementNode): ButtonLink[] => {
+  const buttons: ButtonLink[] = [];
+
+  const collect = (nodes: HTMLNode[]) => {
+    nodes.forEach((child) => {
+      if (!isElement(child)) return;
+      if (child.name === "a" || child.name === "button") {
+        const label = collapseWhitespace(getTextContent(child)).trim();
+        if (label) buttons.push({ label, url: child.attributes.href });
+        return;
+      }
+      collect(child.children);
+    });
+  };
+  collect([node]);
+
+  return buttons;
+};
+
+// Gutenberg core blocks that get a dedicated component, or null for
+// anything that should be handled as plain HTML
+const parseCoreBlock = (node: HTMLElementNode): ParsedElement[] | null => {
+  const className = node.attributes.class;
+
+  if (hasClass(node, "wp-block-gallery") || hasClass(node, "gallery")) {
+    const captionNode = node.children.find(
+      (child) =>
+        isElement(child, "figcaption") &&
+        hasClass(child, "blocks-gallery-caption")
+    ) as HTMLElementNode | undefined;
+    const images = collectGalleryImages(
+      node.children.filter((child) => child !== captionNode)
+    );
+    if (images.length === 0) return [];
+
+    return [
+      {
+        type: "gallery",
+        content: "",
+        children: images,
+        caption: captionNode
+          ? trimInline(parseInlineElements(captionNode.children))
+          : undefined,
+        className,
+      },
+    ];
+  }
+
+  if (hasClass(node, "wp-block-pullquote")) {
+    const quote =
+      findElement(node.children, (el) => el.name === "blockquote") || node;
+    const cite = quote.children.find((child) => isElement(child, "cite"));
+    return [
+      {
+        type: "pullquote",
+        content: "",
+        children: parseBlocks(quote.children.filter((child) => child !== cite)),
+        citation: cite
+          ? collapseWhitespace(getTextContent(cite)).trim()
+          : undefined,
+        className,
+      },
+    ];
+  }
+
+  if (
+    node.name === "pre" &&
+    (hasClass(node, "wp-block-code") ||
+      node.children.some((child) => isElement(child, "code")))
+  ) {
+    return [
+      {
+        type: "code",
+        content: getTextContent(node).replace(/^\n/, "").trimEnd(),
+        className,
+      },
+    ];
+  }
+
+  if (hasClass(node, "wp-block-buttons") || hasClass(node, "wp-block-button")) {
+    const buttons = parseButtons(node);
+    return buttons.length > 0
+      ? [{ type: "buttons", content: "", buttons, className }]
+      : [];
+  }
+
+  if (hasClass(node, "wp-block-columns")) {
+    const columns = node.children
+      .filter(
+        (child): child is HTMLElementNode =>
+          isElement(child) && hasClass(child, "wp-block-column")
+      )
+      .map((column) => parseBlocks(column.children));
+    return [{ type: "columns", content: "", columns, className }];
+  }
+
+  // Tweets embedded through oEmbed arrive as a quote with a link to the
+  // tweet, followed by a script that is skipped anyway
+  if (node.name === "blockquote" && hasClass(node, "twitter-tweet")) {
+    const links: HTMLElementNode[] = [];
+    const collectLinks = (nodes: HTMLNode[]) =>
+      nodes.forEach((child) => {
+        if (!isElement(child)) return;
+        if (child.name === "a") links.push(child);
+        collectLinks(child.children);
+      });
+    collectLinks(node.children);
+
+    const text = findElement(node.children, (el) => el.name === "p");
+    return [
+      {
+        type: "embed",
+        content: text ? collapseWhitespace(getTextContent(text)).trim() : "",
+        url: links[links.length - 1]?.attributes.href,
+        provider: "twitter",
+        className,
+      },
+    ];
+  }
+
+  return null;
+};
+
+const parseBlockElement = (node: HTMLElementNode): ParsedElement[] => {
+  const coreBlock = parseCoreBlock(node);
+  if (coreBlock) return coreBlock;
+
+  switch (node.name) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const inlineElements = trimInline(parseInlineElements(node.children));
+      if (inlineElements.length === 0) return [];
+      return [
+        {
+          type: "heading",
+          content: getInlineText(inlineElements),
+          level: parseInt(node.name.charAt(1), 10),
+          inlineElements,
+          className: node.attributes.class,
+        },
+      ];
+    }
+
+    case "ul":
+    case "ol":
+      return [parseList(node)];
+
+    case "blockquote": {
+      const cite = node.children.find((child) => isElement(child, "cite"));
+      return [
+        {
+          type: "blockquote",
+          content: "",
+          children: parseBlocks(
+            node.children.filter((child) => child !== cite)
+          ),
+          citation: cite
+            ? collapseWhitespace(getTextContent(cite)).trim()
+            : undefined,
+          className: node.attributes.class,
+        },
+      ];
+    }
+
+    case "pre":
+      return [
+        {
+          type: "preformatted",
+          content: getTextContent(node).replace(/^\n/, "").trimEnd(),
+          className: node.attributes.class,
+        },
+      ];
+
+    case "figure":
+      return parseFigure(node);
+
+    case "img": {
+      const image = parseImage(node);
+      return image ? [image] : [];
+    }
+
+    case "table":
+      return [parseTable(node)];
+
+    case "hr":
+      return [{ type: "separator", content: "" }];
+
+    case "iframe":
+    case "video":
+    case "audio":
+    case "embed":
+    case "object":
+      return [parseEmbed(node)];
+
+    default:
+      // <p>, <div>, <section> etc.: their text becomes paragraphs and any
+      // nested blocks (e.g. an image inside a <p>) are lifted out
+      return parseBlocks(node.children);
+  }
+};
+
+// Group inline content into paragraphs and convert block elements
+const parseBlocks = (nodes: HTMLNode[]): ParsedElement[] => {
+  const elements: ParsedElement[] = [];
+  let inlineRun: HTMLNode[] = [];
+
+  const flushParagraph = () => {
+    const inlineElements = trimInline(parseInlineElements(inlineRun));
+    inlineRun = [];
+    const content = getInlineText(inlineElements);
+    if (content.trim()) {
+      elements.push({ type: "paragraph", content, inlineElements });
+    }
+  };
+
+  nodes.forEach((node) => {
+    if (
+      node.type === "text" ||
+      (!BLOCK_TAGS.has(node.name) && !containsBlock(node))
+    ) {
+      inlineRun.push(node);
+      return;
+    }
+
+    flushParagraph();
+    elements.push(
+      ...(BLOCK_TAGS.has(node.name)
+        ? parseBlockElement(node)
+        : parseBlocks(node.children))
+    );
+  });
+  flushParagraph();
+
+  return elements;
+};
+
+export const parseContent = (html: string): ParsedElement[] => {
+  return parseBlocks(parseHTML(html));
+};
@@ -0,0 +1,382 @@
+// Small HTML tokenizer and tree builder for WordPress post content.
+// Handles the markup the block editor and classic editor produce; it is
+// not a full HTML5 parser, but recovers from unclosed <p>, <li> and table
+// cells the same way browsers do.
+
+export type HTMLToken =
+  | { type: "text"; text: string }
+  | {
+      type: "startTag";
+      name: string;
+      attributes: Record<string, string>;
+      selfClosing: boolean;
+    }
+  | { type: "endTag"; name: string };
+
+export interface HTMLElementNode {
+  type: "element";
+  name: string;
+  attributes: Record<string, string>;
+  children: HTMLNode[];
+}
+
+export interface HTMLTextNode {
+  type: "text";
+  text: string;
+}
+
+export type HTMLNode = HTMLElementNode | HTMLTextNode;
+
+export interface SrcsetCandidate {
+  url: string;
+  width?: number; // From a "640w" descriptor
+  density?: number; // From a "2x" descriptor
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  shy: "\u00ad",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  sbquo: "‚",
+  ldquo: "“",
+  rdquo: "”",
+  bdquo: "„",
+  laquo: "«",
+  raquo: "»",
+  prime: "′",
+  Prime: "″",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  deg: "°",
+  plusmn: "±",
+  times: "×",
+  divide: "÷",
+  frac14: "¼",
+  frac12: "½",
+  frac34: "¾",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+  cent: "¢",
+  sect: "§",
+  para: "¶",
+  larr: "←",
+  rarr: "→",
+  uarr: "↑",
+  darr: "↓",
+  iexcl: "¡",
+  iquest: "¿",
+};
+
+// Elements that never have children or a closing tag
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Content of these is never rendered, so it is skipped while tokenizing
+const RAW_TEXT_TAGS = new Set(["script", "style", "template"]);
+
+// Opening any of these closes an open <p>
+const PARAGRAPH_CLOSERS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "div",
+  "dl",
+  "figure",
+  "figcaption",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+const TABLE_SECTIONS = ["thead", "tbody", "tfoot", "tr", "td", "th"];
+
+// Elements whose start tag ends a still-open sibling, unless a boundary
+// element (e.g. the enclosing list) is reached first
+const IMPLICIT_END: Record<string, { closes: string[]; scope: string[] }> = {
+  li: { closes: ["li"], scope: ["ul", "ol"] },
+  dt: { closes: ["dt", "dd"], scope: ["dl"] },
+  dd: { closes: ["dt", "dd"], scope: ["dl"] },
+  tr: {
+    closes: ["tr", "td", "th"],
+    scope: ["table", "thead", "tbody", "tfoot"],
+  },
+  td: { closes: ["td", "th"], scope: ["tr", "table"] },
+  th: { closes: ["td", "th"], scope: ["tr", "table"] },
+  thead: { closes: TABLE_SECTIONS, scope: ["table"] },
+  tbody: { closes: TABLE_SECTIONS, scope: ["table"] },
+  tfoot: { closes: TABLE_SECTIONS, scope: ["table"] },
+};
+
+const TAG_PATTERN =
+  /<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+const ATTRIBUTE_PATTERN =
+  /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const ENTITY_PATTERN = /&(#\d+|#x[0-9a-fA-F]+|[a-zA-Z][a-zA-Z0-9]*);/g;
+
+// Decode named, decimal and hex character references
+export const decodeEntities = (text: string): string => {
+  if (!text.includes("&")) return text;
+
+  return text.replace(ENTITY_PATTERN, (match, entity: string) => {
+    if (entity[0] !== "#") {
+      return NAMED_ENTITIES[entity] ?? match;
+    }
+
+    const codePoint =
+      entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+    if (isNaN(codePoint) || codePoint <= 0 || codePoint > 0x10ffff) {
+      return match;
+    }
+    return String.fromCodePoint(codePoint);
+  });
+};
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  let match;
+
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  while ((match = ATTRIBUTE_PATTERN.exec(source)) !== null) {
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    attributes[match[1].toLowerCase()] = decodeEntities(value);
+  }
+  return attributes;
+};
+
+export const tokenizeHTML = (html: string): HTMLToken[] => {
+  const tokens: HTMLToken[] = [];
+
+  const pushText = (raw: string) => {
+    if (!raw) return;
+    const text = decodeEntities(raw);
+    const previous = tokens[tokens.length - 1];
+    if (previous?.type === "text") {
+      previous.text += text;
+    } else {
+      tokens.push({ type: "text", text });
+    }
+  };
+
+  let position = 0;
+  while (position < html.length) {
+    const tagStart = html.indexOf("<", position);
+    if (tagStart === -1) {
+      pushText(html.slice(position));
+      break;
+    }
+    pushText(html.slice(position, tagStart));
+
+    // Comments, including Gutenberg's <!-- wp:paragraph --> block markers
+    if (html.startsWith("<!--", tagStart)) {
+      const commentEnd = html.indexOf("-->", tagStart + 4);
+      position = commentEnd === -1 ? html.length : commentEnd + 3;
+      continue;
+    }
+
+    // Doctype, CDATA and processing instructions
+    if (html[tagStart + 1] === "!" || html[tagStart + 1] === "?") {
+      const declarationEnd = html.indexOf(">", tagStart);
+      position = declarationEnd === -1 ? html.length : declarationEnd + 1;
+      continue;
+    }
+
+    TAG_PATTERN.lastIndex = tagStart;
+    const match = TAG_PATTERN.exec(html);
+    if (!match) {
+      // A stray "<" is just text
+      pushText("<");
+      position = tagStart + 1;
+      continue;
+    }
+
+    const name = match[2].toLowerCase();
+    position = tagStart + match[0].length;
+
+    if (match[1]) {
+      tokens.push({ type: "endTag", name });
+      continue;
+    }
+
+    tokens.push({
+      type: "startTag",
+      name,
+      attributes: parseAttributes(match[3]),
+      selfClosing: !!match[4] || VOID_TAGS.has(name),
+    });
+
+    if (RAW_TEXT_TAGS.has(name) && !match[4]) {
+      const closing = html.toLowerCase().indexOf(`</${name}`, position);
+      const closingEnd = closing === -1 ? -1 : html.indexOf(">", closing);
+      position = closingEnd === -1 ? html.length : closingEnd + 1;
+      tokens.push({ type: "endTag", name });
+    }
+  }
+
+  return tokens;
+};
+
+export const buildHTMLTree = (tokens: HTMLToken[]): HTMLNode[] => {
+  const root: HTMLElementNode = {
+    type: "element",
+    name: "#root",
+    attributes: {},
+    children: [],
+  };
+  const stack: HTMLElementNode[] = [root];
+
+  const lastOpenIndex = (name: string) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].name === name) return i;
+    }
+    return -1;
+  };
+
+  tokens.forEach((token) => {
+    const current = stack[stack.length - 1];
+
+    if (token.type === "text") {
+      current.children.push({ type: "text", text: token.text });
+      return;
+    }
+
+    if (token.type === "endTag") {
+      // Unmatched closing tags are ignored
+      const index = lastOpenIndex(token.name);
+      if (index > 0) stack.length = index;
+      return;
+    }
+
+    if (PARAGRAPH_CLOSERS.has(token.name)) {
+      const paragraphIndex = lastOpenIndex("p");
+      if (paragraphIndex > 0) stack.length = paragraphIndex;
+    }
+
+    const implicitEnd = IMPLICIT_END[token.name];
+    if (implicitEnd) {
+      let closeIndex = -1;
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (implicitEnd.scope.includes(stack[i].name)) break;
+        if (implicitEnd.closes.includes(stack[i].name)) closeIndex = i;
+      }
+      if (closeIndex > 0) stack.length = closeIndex;
+    }
+
+    const element: HTMLElementNode = {
+      type: "element",
+      name: token.name,
+      attributes: token.attributes,
+      children: [],
+    };
+    stack[stack.length - 1].children.push(element);
+    if (!token.selfClosing) stack.push(element);
+  });
+
+  return root.children;
+};
+
+export const parseHTML = (html: string): HTMLNode[] => {
+  return buildHTMLTree(tokenizeHTML(html));
+};
+
+export const getTextContent = (node: HTMLNode): string => {
+  if (node.type === "text") return node.text;
+  return node.children.map(getTextContent).join("");
+};
+
+export const hasClass = (node: HTMLElementNode, className: string): boolean => {
+  return (node.attributes.class || "").split(/\s+/).includes(className);
+};
+
+// Depth-first search for the first element matching the predicate
+export const findElement = (
+  nodes: HTMLNode[],
+  predicate: (element: HTMLElementNode) => boolean
+): HTMLElementNode | null => {
+  for (const node of nodes) {
+    if (node.type !== "element") continue;
+    if (predicate(node)) return node;
+    const found = findElement(node.children, predicate);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const parseSrcset = (srcset: string): SrcsetCandidate[] => {
+  return srcset
+    .split(/,\s+/)
+    .map((candidate): SrcsetCandidate | null => {
+      const [url, descriptor] = candidate.trim().split(/\s+/);
+      if (!url) return null;
+
+      const widthMatch = descriptor?.match(/^(\d+)w$/);
+      const densityMatch = descriptor?.match(/^(\d+(?:\.\d+)?)x$/);
+      return {
+        url,
+        width: widthMatch ? parseInt(widthMatch[1], 10) : undefined,
+        density: densityMatch ? parseFloat(densityMatch[1]) : undefined,
+      };
+    })
+    .filter((candidate): candidate is SrcsetCandidate => candidate !== null);
+};
+
+// Pick the smallest srcset image at least targetWidth physical pixels
+// wide, or the largest one available when none is big enough
+export const selectSrcsetCandidate = (
+  srcset: string | undefined,
+  targetWidth: number,
+  fallback?: string
+): string | undefined => {
+  if (!srcset) return fallback;
+
+  const candidates = parseSrcset(srcset)
+    .filter((candidate) => candidate.width)
+    .sort((a, b) => (a.width || 0) - (b.width || 0));
+  if (candidates.length === 0) return fallback;
+
+  const match = candidates.find(
+    (candidate) => (candidate.width || 0) >= targetWidth
+  );
+  return (match || candidates[candidates.length - 1]).url;
+};
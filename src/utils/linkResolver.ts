@@ -0,0 +1,228 @@
+import { WordPressSource } from "@/types";
+import { normalizeSiteUrl, parseUrl } from "./urlUtils";
+
+export type LinkEntity = "post" | "category" | "tag" | "author";
+
+// What an incoming link points at. Permalinks name things by slug, app
+// links usually by id; sourceId is missing when the link doesn't say.
+export type LinkTarget =
+  | { type: LinkEntity; id?: number; slug?: string; sourceId?: string }
+  | { type: "search"; query: string; sourceId?: string }
+  | { type: "home"; sourceId?: string }
+  | { type: "route"; path: string } // Any other app route, used as is
+  | { type: "external"; url: string };
+
+// Site paths that are never articles
+const RESERVED_SEGMENTS = [
+  "wp-admin",
+  "wp-content",
+  "wp-includes",
+  "wp-json",
+  "wp-login.php",
+  "feed",
+  "comments",
+];
+// Variants of an article page that end its permalink
+const ARTICLE_SUFFIXES = ["amp", "embed"];
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return value;
+  }
+};
+
+const parseQuery = (search: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+  search
+    .replace(/^\?/, "")
+    .split("&")
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, ...value] = pair.split("=");
+      params[decode(key)] = decode(value.join("="));
+    });
+  return params;
+};
+
+const toId = (value?: string) =>
+  value && /^\d+$/.test(value) ? parseInt(value, 10) : undefined;
+
+const getSegments = (pathname: string) =>
+  pathname.split("/").filter(Boolean).map(decode);
+
+const isTrackingParam = (key: string) => /^(utm_\w+|fbclid|gclid)$/i.test(key);
+
+// An id when the segment is numeric, otherwise a slug
+const toEntity = (
+  type: LinkEntity,
+  segment: string | undefined,
+  sourceId?: string
+): LinkTarget | null => {
+  if (!segment) return null;
+  const id = toId(segment);
+  return id !== undefined
+    ? { type, id, sourceId }
+    : { type, slug: segment, sourceId };
+};
+
+const toRoute = (rest: string): LinkTarget => ({
+  type: "route",
+  path: `/${rest.replace(/^\/+/, "")}`,
+});
+
+// expo-wordpress-news-hub://post/123?source=default-en, the same path on
+// its own, or exp://host/--/post/123 while developing in Expo Go
+const parseAppLink = (url: string): LinkTarget => {
+  const match = url.match(/^([a-z][\w+.-]*):\/\/(.*)$/i);
+  let rest = match ? match[2] : url;
+  if (rest.includes("/--/") || rest.endsWith("/--")) {
+    rest = rest.slice(rest.indexOf("/--") + 3);
+  } else if (match && /^exps?$/i.test(match[1])) {
+    rest = "";
+  }
+
+  const [path, search = ""] = rest.split("?");
+  const params = parseQuery(search.split("#")[0]);
+  const [section, ...segments] = getSegments(path);
+  const sourceId = params.source || undefined;
+
+  switch (section) {
+    case "post":
+    case "tag":
+    case "author":
+      return toEntity(section, segments[0], sourceId) || toRoute(rest);
+    case "category":
+    case "categories":
+      return (
+        toEntity("category", segments[segments.length - 1], sourceId) ||
+        toRoute(rest)
+      );
+    case "search": {
+      const query = params.q || segments.join(" ");
+      return query ? { type: "search", query, sourceId } : toRoute(rest);
+    }
+    default:
+      return toRoute(rest);
+  }
+};
+
+// The source whose site the link is on, and the path below the site root
+// (sites may live in a subdirectory)
+const findSource = (url: string, sources: WordPressSource[]) => {
+  const parsed = parseUrl(url);
+  if (!parsed) return null;
+  const host = parsed.hostname.replace(/^www\./, "");
+
+  for (const source of sources) {
+    const siteUrl = normalizeSiteUrl(source.baseUrl)?.siteUrl;
+    const site = siteUrl ? parseUrl(siteUrl) : null;
+    if (!site || site.hostname.replace(/^www\./, "") !== host) continue;
+
+    const root = site.pathname.replace(/\/+$/, "");
+    const path = parsed.pathname;
+    if (root && path !== root && !path.startsWith(`${root}/`)) continue;
+
+    return { source, parsed, path: path.slice(root.length) };
+  }
+  return null;
+};
+
+// Default WordPress permalinks and archives: /?p=123, /?s=query,
+// /category/parent/child/, /tag/slug/, /author/slug/, /search/query/,
+// and posts as /slug/ or /2024/05/01/slug/
+const parseSiteLink = (
+  url: string,
+  sources: WordPressSource[]
+): LinkTarget => {
+  const match = findSource(url, sources);
+  if (!match) return { type: "external", url };
+
+  const sourceId = match.source.id;
+  const params = parseQuery(match.parsed.search);
+  const segments = getSegments(match.path);
+  // Later pages of an archive open it from the start
+  if (segments.length >= 2 && segments[segments.length - 2] === "page") {
+    segments.splice(-2);
+  }
+
+  if (params.s) return { type: "search", query: params.s, sourceId };
+  if (toId(params.p)) return { type: "post", id: toId(params.p), sourceId };
+  if (toId(params.cat)) {
+    return { type: "category", id: toId(params.cat), sourceId };
+  }
+  if (params.tag) return { type: "tag", slug: params.tag, sourceId };
+  if (toId(params.author)) {
+    return { type: "author", id: toId(params.author), sourceId };
+  }
+  if (segments.length === 0) {
+    return Object.keys(params).every(isTrackingParam)
+      ? { type: "home", sourceId }
+      : { type: "external", url };
+  }
+
+  const [section, ...rest] = segments;
+  if (RESERVED_SEGMENTS.includes(section)) return { type: "external", url };
+
+  switch (section) {
+    case "category":
+      return (
+        toEntity("category", rest[rest.length - 1], sourceId) || {
+          type: "external",
+          url,
+        }
+      );
+    case "tag":
+      return rest[0]
+        ? { type: "tag", slug: rest[0], sourceId }
+        : { type: "external", url };
+    case "author":
+      return rest[0]
+        ? { type: "author", slug: rest[0], sourceId }
+        : { type: "external", url };
+    case "search":
+      return rest.length > 0
+        ? { type: "search", query: rest.join(" "), sourceId }
+        : { type: "external", url };
+  }
+
+  const articleSegments = ARTICLE_SUFFIXES.includes(
+    segments[segments.length - 1]
+  )
+    ? segments.slice(0, -1)
+    : segments;
+  const slug = articleSegments[articleSegments.length - 1];
+  // Date archives (/2024/05/) aren't articles
+  if (!slug || /^\d+$/.test(slug)) {
+    return { type: "external", url };
+  }
+  return { type: "post", slug, sourceId };
+};
+
+// Work out what a link opened from outside the app, or tapped inside an
+// article, points at. Links to sites that aren't sources stay external.
+export const parseLink = (
+  url: string,
+  sources: WordPressSource[]
+): LinkTarget => {
+  const trimmed = url.trim();
+  return /^https?:\/\//i.test(trimmed)
+    ? parseSiteLink(trimmed, sources)
+    : parseAppLink(trimmed);
+};
+
+// Path with its query string, as expo-router accepts it from a link
+export const buildRoutePath = (
+  pathname: string,
+  params: Record<string, string | number | undefined> = {}
+) => {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`
+    )
+    .join("&");
+  return query ? `${pathname}?${query}` : pathname;
+};
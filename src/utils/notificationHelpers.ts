@@ -9,6 +9,8 @@ import {
 import {
   NotificationData,
   NotificationHistory,
+  NotificationPreferences,
+  QuietHoursWindow,
   ScheduledNotification,
   NotificationValidationResult,
 } from "@/types/notifications";
@@ -41,6 +43,81 @@ export const isWeekend = (date: Date): boolean => {
   return day === 0 || day === 6; // Sunday or Saturday
 };
 
+type QuietHours = NotificationPreferences["quietHours"];
+
+// The quiet hours starting on a weekday, or null when there are none
+export const getQuietHoursWindow = (
+  quietHours: QuietHours,
+  weekday: number
+): QuietHoursWindow | null => {
+  if (!quietHours.enabled) return null;
+  const window = quietHours.days?.[weekday];
+  if (window === null) return null;
+  return window || { start: quietHours.start, end: quietHours.end };
+};
+
+const atTime = (day: Date, time: string): Date => {
+  const date = new Date(day);
+  date.setHours(0, parseTimeToMinutes(time), 0, 0);
+  return date;
+};
+
+// End of the quiet period `date` is in, checking the one that started the
+// day before as well, since overnight hours run into the next day
+const findQuietPeriodEnd = (
+  date: Date,
+  quietHours: QuietHours
+): Date | null => {
+  for (const offset of [-1, 0]) {
+    const day = new Date(date);
+    day.setDate(day.getDate() + offset);
+    const window = getQuietHoursWindow(quietHours, day.getDay());
+    if (!window) continue;
+
+    const start = atTime(day, window.start);
+    const end = atTime(day, window.end);
+    if (end.getTime() === start.getTime()) continue;
+    if (end < start) end.setDate(end.getDate() + 1);
+    if (date >= start && date < end) return end;
+  }
+  return null;
+};
+
+// When the quiet hours `date` falls in are over, or null when it isn't in
+// any. Quiet periods that run into each other count as one.
+export const getQuietHoursEnd = (
+  date: Date,
+  quietHours: QuietHours
+): Date | null => {
+  let end: Date | null = null;
+  // Each period is shorter than a day, so a week of them is the most
+  for (let i = 0; i < 7; i++) {
+    const next = findQuietPeriodEnd(end || date, quietHours);
+    if (!next) break;
+    end = next;
+  }
+  return end;
+};
+
+// When a notification due at `date` should be shown instead: the end of
+// the quiet hours it falls in, or null to show it as planned. Urgent
+// breaking news skips quiet hours if the user allows it.
+export const getDeferredDeliveryTime = (
+  data: NotificationData,
+  preferences: NotificationPreferences,
+  date: Date = new Date()
+): Date | null => {
+  if (!preferences.enabled) return null;
+  if (
+    data.type === "breaking_news" &&
+    data.priority === "urgent" &&
+    preferences.quietHours.allowUrgent
+  ) {
+    return null;
+  }
+  return getQuietHoursEnd(date, preferences.quietHours);
+};
+
 export const createDailyTrigger = (
   hour: number,
   minute: number = 0
@@ -187,7 +264,8 @@ export const validateNotificationContent = (
 
 // Notification history helpers
 export const addToNotificationHistory = async (
-  notification: Notifications.Notification
+  notification: Notifications.Notification,
+  receivedAt: Date = new Date() // Later for notifications held back
 ): Promise<boolean> => {
   try {
     const history =
@@ -216,7 +294,7 @@ export const addToNotificationHistory = async (
       title: notification.request.content.title || "",
       body: notification.request.content.body || "",
       data: safeData,
-      receivedAt: new Date(),
+      receivedAt,
       read: false,
       interacted: false,
     };
@@ -239,26 +317,60 @@ export const addToNotificationHistory = async (
   }
 };
 
+// Everything stored, including notifications held back by quiet hours
+// that haven't been delivered yet
+const getStoredHistory = async (): Promise<NotificationHistory[]> =>
+  (await storage.get<NotificationHistory[]>(
+    NOTIFICATION_KEYS.NOTIFICATION_HISTORY
+  )) || [];
+
+// Delivered notifications, newest first. Deferred ones are stored when
+// scheduled and only show up once their delivery time has passed.
 export const getNotificationHistory = async (): Promise<
   NotificationHistory[]
 > => {
   try {
-    return (
-      (await storage.get<NotificationHistory[]>(
-        NOTIFICATION_KEYS.NOTIFICATION_HISTORY
-      )) || []
-    );
+    const now = Date.now();
+    return (await getStoredHistory())
+      .filter((item) => new Date(item.receivedAt).getTime() <= now)
+      .sort(
+        (a, b) =>
+          new Date(b.receivedAt).getTime() - new Date(a.receivedAt).getTime()
+      );
   } catch (error) {
     console.error("Error getting notification history:", error);
     return [];
   }
 };
 
+// Drop a deferred notification that was cancelled before delivery
+export const removePendingFromHistory = async (
+  notificationId: string
+): Promise<boolean> => {
+  try {
+    const now = Date.now();
+    const history = await getStoredHistory();
+    const updatedHistory = history.filter(
+      (item) =>
+        item.id !== notificationId ||
+        new Date(item.receivedAt).getTime() <= now
+    );
+    if (updatedHistory.length === history.length) return true;
+    return await storage.set(
+      NOTIFICATION_KEYS.NOTIFICATION_HISTORY,
+      updatedHistory
+    );
+  } catch (error) {
+    console.error("Error removing pending notification:", error);
+    return false;
+  }
+};
+
 export const markNotificationAsRead = async (
   notificationId: string
 ): Promise<boolean> => {
   try {
-    const history = await getNotificationHistory();
+    const history = await getStoredHistory();
     const updatedHistory = history.map((item) =>
       item.id === notificationId ? { ...item, read: true } : item
     );
@@ -276,7 +388,7 @@ export const markNotificationAsInteracted = async (
   notificationId: string
 ): Promise<boolean> => {
   try {
-    const history = await getNotificationHistory();
+    const history = await getStoredHistory();
     const updatedHistory = history.map((item) =>
       item.id === notificationId
         ? { ...item, read: true, interacted: true }
@@ -428,7 +540,7 @@ export const batchMarkAsRead = async (
   notificationIds: string[]
 ): Promise<boolean> => {
   try {
-    const history = await getNotificationHistory();
+    const history = await getStoredHistory();
     const updatedHistory = history.map((item) =>
       notificationIds.includes(item.id) ? { ...item, read: true } : item
     );
@@ -446,7 +558,7 @@ export const batchDeleteNotifications = async (
   notificationIds: string[]
 ): Promise<boolean> => {
   try {
-    const history = await getNotificationHistory();
+    const history = await getStoredHistory();
     const updatedHistory = history.filter(
       (item) => !notificationIds.includes(item.id)
     );
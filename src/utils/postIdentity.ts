@@ -0,0 +1,49 @@
+import { Post } from "@/types";
+import { parseUrl } from "./urlUtils";
+
+// Post ids are only unique within one WordPress site, so anything that
+// identifies a post across sources combines the source id with the post id
+export const getPostKey = (sourceId: string | undefined, postId: number) => {
+  return sourceId ? `${sourceId}:${postId}` : `${postId}`;
+};
+
+// Reduce a permalink to a form that matches the same article cross-posted
+// on several sites or linked with tracking parameters
+export const getCanonicalLink = (link: string): string => {
+  const parsed = parseUrl(link);
+  if (!parsed) return link.trim().toLowerCase();
+
+  const hostname = parsed.hostname.replace(/^www\./, "");
+  const pathname = parsed.pathname.replace(/\/+$/, "") || "/";
+  const query = parsed.search
+    .replace(/^\?/, "")
+    .split("&")
+    .filter((param) => param && !/^(utm_[a-z]+|fbclid|gclid)=/i.test(param))
+    .sort()
+    .join("&");
+
+  return `${hostname}${pathname}${query ? `?${query}` : ""}`.toLowerCase();
+};
+
+// Look a post up in a set of keys, also matching legacy entries that were
+// stored without a source
+export const hasPostKey = (
+  keys: Set<string>,
+  sourceId: string | undefined,
+  postId: number
+) => {
+  return keys.has(getPostKey(sourceId, postId)) || keys.has(`${postId}`);
+};
+
+// Swap fresher copies into a list of posts, keeping its order. The list
+// itself comes back when none of its posts are among them.
+export const replacePosts = (posts: Post[], fresh: Post[]): Post[] => {
+  const freshByKey = new Map(
+    fresh.map((post) => [getPostKey(post.source_id, post.id), post])
+  );
+  const findFresh = (post: Post) =>
+    freshByKey.get(getPostKey(post.source_id, post.id));
+  return posts.some(findFresh)
+    ? posts.map((post) => findFresh(post) || post)
+    : posts;
+};
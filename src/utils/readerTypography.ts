@@ -0,0 +1,41 @@
+import { Platform, TextStyle } from "react-native";
+import { ReaderSettings } from "@/types";
+
+const SERIF_FONT = Platform.select({ ios: "Georgia", default: "serif" });
+// Headings and code keep their own spacing whatever the body line height
+const HEADING_LINE_HEIGHT = 1.25;
+const CODE_LINE_HEIGHT = 1.45;
+
+export interface ReaderTypography {
+  body: (fontSize: number) => TextStyle;
+  heading: (fontSize: number) => TextStyle;
+  code: (fontSize: number) => TextStyle;
+}
+
+// Text styles for article content from the reader settings. Sizes are in
+// points before the OS accessibility text size, which React Native applies
+// on top (to lineHeight as well), so the two settings combine.
+export const getReaderTypography = (
+  settings: ReaderSettings
+): ReaderTypography => {
+  const fontFamily = settings.fontFamily === "serif" ? SERIF_FONT : undefined;
+  const scale = (fontSize: number) => Math.round(fontSize * settings.fontScale);
+
+  return {
+    body: (fontSize) => ({
+      fontSize: scale(fontSize),
+      lineHeight: Math.round(scale(fontSize) * settings.lineHeight),
+      fontFamily,
+      textAlign: settings.justify ? "justify" : "left",
+    }),
+    heading: (fontSize) => ({
+      fontSize: scale(fontSize),
+      lineHeight: Math.round(scale(fontSize) * HEADING_LINE_HEIGHT),
+      fontFamily,
+    }),
+    code: (fontSize) => ({
+      fontSize: scale(fontSize),
+      lineHeight: Math.round(scale(fontSize) * CODE_LINE_HEIGHT),
+    }),
+  };
+};
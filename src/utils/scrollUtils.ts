@@ -0,0 +1,13 @@
+import { NativeScrollEvent } from "react-native";
+
+// BlogList inside a ScrollView has no onEndReached of its own, so screens
+// check the scroll position to know when to load the next page
+export const isCloseToBottom = (
+  { layoutMeasurement, contentOffset, contentSize }: NativeScrollEvent,
+  threshold: number = 200
+): boolean => {
+  return (
+    layoutMeasurement.height + contentOffset.y >=
+    contentSize.height - threshold
+  );
+};
@@ -0,0 +1,77 @@
+// React Native's URL implementation does not support most getters,
+// so URLs are picked apart with regular expressions instead.
+const URL_PATTERN = /^(https?):\/\/([^/?#:]+)(?::(\d+))?([^?#]*)(\?[^#]*)?(#.*)?$/i;
+
+export interface ParsedUrl {
+  protocol: string;
+  hostname: string;
+  port?: string;
+  pathname: string;
+  search: string;
+  hash: string;
+}
+
+export const parseUrl = (url: string): ParsedUrl | null => {
+  const match = url.trim().match(URL_PATTERN);
+  if (!match) return null;
+
+  return {
+    protocol: match[1].toLowerCase(),
+    hostname: match[2].toLowerCase(),
+    port: match[3],
+    pathname: match[4] || "/",
+    search: match[5] || "",
+    hash: match[6] || "",
+  };
+};
+
+export const getHostname = (url: string): string => {
+  return parseUrl(url)?.hostname.replace(/^www\./, "") || url;
+};
+
+export const ensureTrailingSlash = (url: string): string => {
+  return url.endsWith("/") ? url : `${url}/`;
+};
+
+// Turn whatever the user typed (site root, /wp-json/ or /wp-json/wp/v2/)
+// into the site root and the REST API base used by WordPressApiService
+export const normalizeSiteUrl = (
+  input: string
+): { siteUrl: string; apiBaseUrl: string } | null => {
+  let url = input.trim();
+  if (!url) return null;
+
+  if (!/^https?:\/\//i.test(url)) {
+    url = `https://${url}`;
+  }
+
+  const parsed = parseUrl(url);
+  if (!parsed) return null;
+
+  const path = parsed.pathname.replace(/\/wp-json(\/.*)?$/i, "").replace(/\/+$/, "");
+  const port = parsed.port ? `:${parsed.port}` : "";
+  const siteUrl = `${parsed.protocol}://${parsed.hostname}${port}${path}`;
+
+  return {
+    siteUrl,
+    apiBaseUrl: `${siteUrl}/wp-json/wp/v2/`,
+  };
+};
+
+// Video id from watch, short, embed and youtu.be links
+export const getYouTubeVideoId = (url: string): string | null => {
+  const parsed = parseUrl(url);
+  if (!parsed) return null;
+
+  if (parsed.hostname.endsWith("youtu.be")) {
+    return parsed.pathname.split("/")[1] || null;
+  }
+
+  const pathMatch = parsed.pathname.match(
+    /^\/(?:embed|shorts|live|v)\/([\w-]+)/
+  );
+  if (pathMatch) return pathMatch[1];
+
+  const queryMatch = parsed.search.match(/[?&]v=([\w-]+)/);
+  return queryMatch ? queryMatch[1] : null;
+};